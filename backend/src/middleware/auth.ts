@@ -78,6 +78,24 @@ export const optionalAuthenticate = (
   next();
 };
 
+/**
+ * オプショナル認証ミドルウェア（送られたトークンは検証する）
+ * トークンがなければ匿名として許可し、無効・期限切れのトークンは匿名扱いにせず401を返す
+ * 質問のように匿名で処理すると会話が保存されないルートで、クライアントがトークンを更新して再送できるようにする
+ */
+export const optionalAuthenticateStrict = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.headers.authorization) {
+    next();
+    return;
+  }
+
+  authenticate(req, res, next);
+};
+
 /**
  * プラン別アクセス制御ミドルウェア
  * 収益化観点：Premium機能へのアクセス制限
@@ -150,3 +168,35 @@ export const rateLimitFree = async (
 
   next();
 };
+
+/**
+ * AIトークン予算ミドルウェア（全プラン共通の月次上限）
+ * 収益化観点：無制限プランでもアカウントごとのAI原価に上限を設ける
+ */
+export const enforceAiBudget = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    next();
+    return;
+  }
+
+  const { UsageService } = await import('../services/usage');
+  const usageService = new UsageService();
+  const budget = usageService.checkBudget(req.user.userId);
+
+  if (!budget.allowed) {
+    res.status(429).json({
+      error: '今月のAI利用上限に達しました',
+      used: budget.used,
+      limit: budget.limit,
+      message: '上位プランにアップグレードすると上限が引き上げられます',
+      upgradeUrl: '/api/plans/upgrade',
+    });
+    return;
+  }
+
+  next();
+};
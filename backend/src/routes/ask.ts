@@ -1,42 +1,218 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response, NextFunction } from 'express';
 import { AIService } from '../services/ai';
+import { TokenUsage } from '../services/llm-provider';
+import { ConversationService } from '../services/conversation';
+import { AnswerSource, RetrievalService } from '../services/retrieval';
+import { UserService } from '../services/user';
+import {
+  optionalAuthenticateStrict,
+  rateLimitFree,
+  enforceAiBudget,
+  AuthenticatedRequest,
+} from '../middleware/auth';
 
 const router = Router();
 
 interface AskRequest {
   question: string;
   context?: string;
+  conversationId?: string;
 }
 
 interface AskResponse {
   answer: string;
-  sources?: string[];
+  sources?: AnswerSource[];
+  conversationId?: string;
+  messageId?: string;
+}
+
+interface AskStreamDoneEvent {
+  usage: TokenUsage;
+  sources: AnswerSource[];
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * SSEイベントを書き込む
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * 質問の入力・会話スレッドを検証
+ * 質問回数・AI利用上限のチェックより前に行い、無効なリクエストで Free tier の質問回数を消費しない
+ */
+async function validateAskRequest(
+  req: AuthenticatedRequest & { body: AskRequest },
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const { question, conversationId } = req.body;
+
+  if (!question || typeof question !== 'string') {
+    res.status(400).json({ error: '質問を入力してください' });
+    return;
+  }
+
+  // 未認証は従来通りステートレスに回答
+  if (!req.user && conversationId) {
+    res.status(401).json({ error: '会話の継続には認証が必要です' });
+    return;
+  }
+
+  if (
+    req.user &&
+    conversationId &&
+    !(await new ConversationService().getConversation(req.user.userId, conversationId))
+  ) {
+    res.status(404).json({ error: '会話が見つかりません' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * 回答の生成に失敗した質問の回数を戻す
+ */
+async function refundQuestion(req: AuthenticatedRequest): Promise<void> {
+  if (req.user) {
+    await new UserService().refundQuestionLimit(req.user.userId);
+  }
 }
 
 /**
  * POST /api/ask
  * ユーザーの質問にAIが回答
+ *
+ * 認証済みの場合は会話スレッドに保存し、conversationId指定時は過去のターンを踏まえて回答する
  */
-router.post('/', async (req: Request<{}, AskResponse, AskRequest>, res: Response) => {
-  try {
-    const { question, context } = req.body;
+router.post(
+  '/',
+  optionalAuthenticateStrict,
+  validateAskRequest,
+  enforceAiBudget,
+  rateLimitFree,
+  async (req: AuthenticatedRequest & { body: AskRequest }, res: Response) => {
+    try {
+      const { question, context, conversationId } = req.body;
 
-    if (!question || typeof question !== 'string') {
-      res.status(400).json({ error: '質問を入力してください' });
-      return;
-    }
+      // 未認証は従来通りステートレスに回答
+      if (!req.user) {
+        const aiService = new AIService();
+        const retrievalService = new RetrievalService();
+        const references = retrievalService.search(question);
+        const answer = await aiService.answerQuestion(question, context, [], references);
 
-    const aiService = new AIService();
-    const answer = await aiService.answerQuestion(question, context);
+        const response: AskResponse = { answer, sources: retrievalService.toSources(references) };
+        res.json(response);
+        return;
+      }
+
+      const conversationService = new ConversationService(new AIService({}, req.user.userId));
+      const turn = await conversationService.ask(
+        req.user.userId,
+        conversationId || null,
+        question,
+        context
+      );
+
+      if (!turn) {
+        res.status(404).json({ error: '会話が見つかりません' });
+        return;
+      }
+
+      const response: AskResponse = {
+        answer: turn.assistantMessage.content,
+        sources: turn.assistantMessage.sources,
+        conversationId: turn.conversation.id,
+        messageId: turn.assistantMessage.id,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Ask error:', error);
+      await refundQuestion(req);
+      res.status(500).json({ error: '回答の生成に失敗しました' });
+    }
+  }
+);
 
-    res.json({
-      answer,
-      sources: [],
+/**
+ * POST /api/ask/stream
+ * ユーザーの質問にAIが回答（Server-Sent Eventsでストリーミング）
+ *
+ * イベント:
+ * - chunk: { text } 回答の断片
+ * - done: { usage, sources, conversationId?, messageId? } 回答完了
+ * - error: { error } 生成失敗
+ */
+router.post(
+  '/stream',
+  optionalAuthenticateStrict,
+  validateAskRequest,
+  enforceAiBudget,
+  rateLimitFree,
+  async (req: AuthenticatedRequest & { body: AskRequest }, res: Response) => {
+    // クライアント切断後は書き込まない（生成結果の保存は継続する）
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
     });
-  } catch (error) {
-    console.error('Ask error:', error);
-    res.status(500).json({ error: '回答の生成に失敗しました' });
+
+    try {
+      const { question, context, conversationId } = req.body;
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      const onChunk = (text: string) => {
+        if (!closed) writeEvent(res, 'chunk', { text });
+      };
+
+      let done: AskStreamDoneEvent;
+      if (req.user) {
+        const conversationService = new ConversationService(new AIService({}, req.user.userId));
+        const turn = await conversationService.askStream(
+          req.user.userId,
+          conversationId || null,
+          question,
+          onChunk,
+          context
+        );
+        if (!turn) {
+          throw new Error('Conversation not found');
+        }
+        done = {
+          usage: turn.usage,
+          sources: turn.assistantMessage.sources,
+          conversationId: turn.conversation.id,
+          messageId: turn.assistantMessage.id,
+        };
+      } else {
+        const aiService = new AIService();
+        const retrievalService = new RetrievalService();
+        const references = retrievalService.search(question);
+        const { usage } = await aiService.streamAnswer(question, onChunk, context, [], references);
+        done = { usage, sources: retrievalService.toSources(references) };
+      }
+
+      if (!closed) writeEvent(res, 'done', done);
+      res.end();
+    } catch (error) {
+      console.error('Ask stream error:', error);
+      await refundQuestion(req);
+      if (!res.headersSent) {
+        res.status(500).json({ error: '回答の生成に失敗しました' });
+        return;
+      }
+      if (!closed) writeEvent(res, 'error', { error: '回答の生成に失敗しました' });
+      res.end();
+    }
   }
-});
+);
 
 export { router as askRouter };
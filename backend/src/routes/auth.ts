@@ -225,6 +225,8 @@ router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response)
         username: user.username,
         email: user.email,
         plan: user.plan,
+        cefrLevel: user.cefrLevel,
+        cefrAssessedAt: user.cefrAssessedAt,
         createdAt: user.createdAt,
       },
       progress,
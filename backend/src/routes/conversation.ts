@@ -0,0 +1,154 @@
+import { Router, Response } from 'express';
+import { AIService } from '../services/ai';
+import { ConversationService } from '../services/conversation';
+import {
+  authenticate,
+  rateLimitFree,
+  enforceAiBudget,
+  AuthenticatedRequest,
+} from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /api/conversations
+ * 会話スレッド一覧を取得
+ */
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const limit = parseInt(req.query.limit as string) || 20;
+    const conversationService = new ConversationService();
+    const conversations = await conversationService.listConversations(req.user.userId, limit);
+
+    res.json({ conversations });
+  } catch (error) {
+    console.error('List conversations error:', error);
+    res.status(500).json({ error: '会話一覧の取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/conversations
+ * 新しい会話スレッドを作成
+ */
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { title } = req.body;
+    if (title !== undefined && typeof title !== 'string') {
+      res.status(400).json({ error: 'タイトルの形式が不正です' });
+      return;
+    }
+
+    const conversationService = new ConversationService();
+    const conversation = await conversationService.createConversation(req.user.userId, title);
+
+    res.status(201).json({ conversation });
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    res.status(500).json({ error: '会話の作成に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/conversations/:id
+ * 会話スレッドとメッセージを取得
+ */
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const conversationService = new ConversationService();
+    const conversation = await conversationService.getConversation(req.user.userId, req.params.id);
+
+    if (!conversation) {
+      res.status(404).json({ error: '会話が見つかりません' });
+      return;
+    }
+
+    const messages = await conversationService.getMessages(conversation.id);
+
+    res.json({ conversation, messages });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({ error: '会話の取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/messages
+ * 会話スレッドで質問を続ける
+ */
+router.post(
+  '/:id/messages',
+  authenticate,
+  rateLimitFree,
+  enforceAiBudget,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const { question, context } = req.body;
+      if (!question || typeof question !== 'string') {
+        res.status(400).json({ error: '質問を入力してください' });
+        return;
+      }
+
+      const conversationService = new ConversationService(new AIService({}, req.user.userId));
+      const turn = await conversationService.ask(req.user.userId, req.params.id, question, context);
+
+      if (!turn) {
+        res.status(404).json({ error: '会話が見つかりません' });
+        return;
+      }
+
+      res.json(turn);
+    } catch (error) {
+      console.error('Continue conversation error:', error);
+      res.status(500).json({ error: '回答の生成に失敗しました' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/conversations/:id
+ * 会話スレッドを削除
+ */
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const conversationService = new ConversationService();
+    const deleted = await conversationService.deleteConversation(req.user.userId, req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: '会話が見つかりません' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    res.status(500).json({ error: '会話の削除に失敗しました' });
+  }
+});
+
+export { router as conversationRouter };
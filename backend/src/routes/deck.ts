@@ -0,0 +1,401 @@
+import express, { Router, Response, NextFunction } from 'express';
+import { AIService } from '../services/ai';
+import { DeckImportError, DeckImportService, parseColumnMapping } from '../services/deck-import';
+import { PersonalDeckError, PersonalDeckService } from '../services/personal-deck';
+import { PlanService } from '../services/plan';
+import { authenticate, enforceAiBudget, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * アップロードできるファイルの上限サイズ
+ */
+const MAX_UPLOAD_SIZE = '20mb';
+
+/**
+ * 取り込みエラーのHTTPステータス
+ */
+const IMPORT_ERROR_STATUS: Record<DeckImportError['code'], number> = {
+  unsupported_format: 415,
+  invalid_file: 400,
+  invalid_mapping: 400,
+  invalid_deck: 400,
+  no_words: 422,
+  deck_exists: 409,
+};
+
+/**
+ * 個人の単語帳の操作エラーのHTTPステータス
+ */
+const PERSONAL_DECK_ERROR_STATUS: Record<PersonalDeckError['code'], number> = {
+  not_found: 404,
+  invalid_input: 400,
+  duplicate_word: 409,
+  generation_failed: 502,
+};
+
+/**
+ * AIで補完する場合のみAIトークン予算を確認
+ */
+const enforceAiBudgetForAiFill = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> | void => (req.body?.aiFill ? enforceAiBudget(req, res, next) : next());
+
+/**
+ * クエリ文字列を文字列として取り出す
+ */
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * POST /api/decks/import
+ * CSV・TSV・Ankiパッケージ（.apkg）を取り込み、語彙レッスンとして追加
+ *
+ * リクエスト本文はファイルそのもの（Content-Type: application/octet-stream）
+ * クエリ:
+ * - fileName: 元のファイル名（拡張子で形式を判定）
+ * - name, title, level, description: 作成する単語帳の情報（level は CEFRレベル A1〜C2）
+ * - mapping[<項目>]=<見出し名または列番号>: 列の対応（省略時は見出し名が項目名と一致する列）
+ * - header=false: CSV/TSVの1行目も単語として扱う
+ * - dryRun=true: 保存せずに取り込み結果（行ごとのエラー・重複）のみ返す
+ */
+router.post(
+  '/import',
+  authenticate,
+  express.raw({ type: 'application/octet-stream', limit: MAX_UPLOAD_SIZE }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const planService = new PlanService();
+      const access = await planService.canAccessFeature(req.user.userId, 'customContent');
+      if (!access.allowed) {
+        res.status(403).json({
+          error: '単語帳の取り込みは教育機関プランで利用可能です',
+          upgradeUrl: '/api/plans/upgrade',
+        });
+        return;
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'ファイルを application/octet-stream で送信してください' });
+        return;
+      }
+
+      const fileName = queryString(req.query.fileName);
+      if (!fileName) {
+        res.status(400).json({ error: 'fileName は必須です' });
+        return;
+      }
+
+      const rawMapping = req.query.mapping;
+      const mapping =
+        rawMapping && typeof rawMapping === 'object' && !Array.isArray(rawMapping)
+          ? parseColumnMapping(
+              Object.fromEntries(
+                Object.entries(rawMapping).filter(
+                  (entry): entry is [string, string] => typeof entry[1] === 'string'
+                )
+              )
+            )
+          : undefined;
+      const options = {
+        mapping,
+        header: req.query.header !== 'false',
+      };
+
+      const deckImportService = new DeckImportService();
+
+      if (req.query.dryRun === 'true') {
+        const report = deckImportService.parse(req.body, fileName, options);
+        res.json({ report });
+        return;
+      }
+
+      const name = queryString(req.query.name);
+      const title = queryString(req.query.title);
+      const level = queryString(req.query.level);
+      if (!name || !title || !level) {
+        res.status(400).json({ error: 'name, title, level は必須です' });
+        return;
+      }
+
+      const result = deckImportService.createDeck(req.body, fileName, {
+        ...options,
+        name,
+        title,
+        level,
+        description: queryString(req.query.description),
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof DeckImportError) {
+        res
+          .status(IMPORT_ERROR_STATUS[error.code])
+          .json({ error: error.message, code: error.code, issues: error.issues });
+        return;
+      }
+      console.error('Import deck error:', error);
+      res.status(500).json({ error: '単語帳の取り込みに失敗しました' });
+    }
+  }
+);
+
+/**
+ * GET /api/decks
+ * 自分の単語帳一覧を取得
+ */
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const decks = await personalDeckService.listDecks(req.user.userId);
+
+    res.json({ decks });
+  } catch (error) {
+    console.error('List decks error:', error);
+    res.status(500).json({ error: '単語帳一覧の取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/decks
+ * 単語帳を作成
+ */
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { name, description } = req.body;
+    if (description !== undefined && typeof description !== 'string') {
+      res.status(400).json({ error: '説明の形式が不正です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const deck = await personalDeckService.createDeck(req.user.userId, name, description);
+
+    res.status(201).json({ deck });
+  } catch (error) {
+    if (error instanceof PersonalDeckError) {
+      res.status(PERSONAL_DECK_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Create deck error:', error);
+    res.status(500).json({ error: '単語帳の作成に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/decks/:id
+ * 単語帳と単語を取得
+ */
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const deck = await personalDeckService.getDeck(req.user.userId, req.params.id);
+
+    if (!deck) {
+      res.status(404).json({ error: '単語帳が見つかりません' });
+      return;
+    }
+
+    res.json({ deck });
+  } catch (error) {
+    console.error('Get deck error:', error);
+    res.status(500).json({ error: '単語帳の取得に失敗しました' });
+  }
+});
+
+/**
+ * PUT /api/decks/:id
+ * 単語帳の名前・説明を変更
+ */
+router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { name, description } = req.body;
+    if (description !== undefined && typeof description !== 'string') {
+      res.status(400).json({ error: '説明の形式が不正です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const deck = await personalDeckService.updateDeck(req.user.userId, req.params.id, {
+      name,
+      description,
+    });
+
+    if (!deck) {
+      res.status(404).json({ error: '単語帳が見つかりません' });
+      return;
+    }
+
+    res.json({ deck });
+  } catch (error) {
+    if (error instanceof PersonalDeckError) {
+      res.status(PERSONAL_DECK_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Update deck error:', error);
+    res.status(500).json({ error: '単語帳の更新に失敗しました' });
+  }
+});
+
+/**
+ * DELETE /api/decks/:id
+ * 単語帳を削除（学習中の単語の復習履歴は残る）
+ */
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const deleted = await personalDeckService.deleteDeck(req.user.userId, req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: '単語帳が見つかりません' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete deck error:', error);
+    res.status(500).json({ error: '単語帳の削除に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/decks/:id/words
+ * 単語を追加（aiFill: true で空の項目をAIが補完）
+ */
+router.post(
+  '/:id/words',
+  authenticate,
+  enforceAiBudgetForAiFill,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const personalDeckService = new PersonalDeckService(new AIService({}, req.user.userId));
+      const word = await personalDeckService.addWord(req.user.userId, req.params.id, {
+        word: req.body.word,
+        pronunciation: req.body.pronunciation,
+        partOfSpeech: req.body.partOfSpeech,
+        definition: req.body.definition,
+        definitionJa: req.body.definitionJa,
+        example: req.body.example,
+        exampleJa: req.body.exampleJa,
+        aiFill: req.body.aiFill === true,
+      });
+
+      res.status(201).json({ word });
+    } catch (error) {
+      if (error instanceof PersonalDeckError) {
+        res.status(PERSONAL_DECK_ERROR_STATUS[error.code]).json({ error: error.message });
+        return;
+      }
+      console.error('Add deck word error:', error);
+      res.status(500).json({ error: '単語の追加に失敗しました' });
+    }
+  }
+);
+
+/**
+ * PUT /api/decks/:id/words/:wordId
+ * 単語の発音・品詞・意味・例文を変更
+ */
+router.put('/:id/words/:wordId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const personalDeckService = new PersonalDeckService();
+    const word = await personalDeckService.updateWord(
+      req.user.userId,
+      req.params.id,
+      req.params.wordId,
+      req.body
+    );
+
+    if (!word) {
+      res.status(404).json({ error: '単語が見つかりません' });
+      return;
+    }
+
+    res.json({ word });
+  } catch (error) {
+    if (error instanceof PersonalDeckError) {
+      res.status(PERSONAL_DECK_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Update deck word error:', error);
+    res.status(500).json({ error: '単語の更新に失敗しました' });
+  }
+});
+
+/**
+ * DELETE /api/decks/:id/words/:wordId
+ * 単語を削除（復習履歴は残る）
+ */
+router.delete(
+  '/:id/words/:wordId',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const personalDeckService = new PersonalDeckService();
+      const deleted = await personalDeckService.deleteWord(
+        req.user.userId,
+        req.params.id,
+        req.params.wordId
+      );
+
+      if (!deleted) {
+        res.status(404).json({ error: '単語が見つかりません' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete deck word error:', error);
+      res.status(500).json({ error: '単語の削除に失敗しました' });
+    }
+  }
+);
+
+export { router as deckRouter };
@@ -0,0 +1,62 @@
+import { Router, Response } from 'express';
+import { DeckExportService, EXPORT_FORMATS, ExportFormat } from '../services/deck-export';
+import { PlanService } from '../services/plan';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * 形式ごとの Content-Type
+ */
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  apkg: 'application/octet-stream',
+};
+
+/**
+ * GET /api/export/words?format=csv|json|apkg
+ * 学習中の単語と復習スケジュールをダウンロード（デフォルトは CSV）
+ */
+router.get('/words', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const format = (req.query.format ?? 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format は ${EXPORT_FORMATS.join(', ')} のいずれかです` });
+      return;
+    }
+
+    const planService = new PlanService();
+    const access = await planService.canAccessFeature(req.user.userId, 'exportData');
+    if (!access.allowed) {
+      res.status(403).json({ error: access.reason, upgradeUrl: '/api/plans/upgrade' });
+      return;
+    }
+
+    const exportService = new DeckExportService();
+    const body =
+      format === 'csv'
+        ? await exportService.exportCsv(req.user.userId)
+        : format === 'json'
+          ? JSON.stringify(await exportService.exportJson(req.user.userId), null, 2)
+          : await exportService.exportApkg(req.user.userId);
+
+    const date = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="learnbuddy-words-${date}.${format}"`
+    );
+    res.send(body);
+  } catch (error) {
+    console.error('Export words error:', error);
+    res.status(500).json({ error: '単語データの書き出しに失敗しました' });
+  }
+});
+
+export { router as exportRouter };
@@ -1,16 +1,54 @@
 import { Router, Request, Response } from 'express';
-import { LessonService } from '../services/lesson';
+import { LessonService, LessonSubmitError } from '../services/lesson';
+import { LessonAttemptError, LessonAttemptService } from '../services/lesson-attempt';
+import { isCefrLevel } from '../services/content-validation';
+import { UserService } from '../services/user';
+import { authenticate, optionalAuthenticate, AuthenticatedRequest } from '../middleware/auth';
 
 const router = Router();
 
 /**
- * GET /api/lessons
+ * 演習提出エラーのHTTPステータス
+ */
+const SUBMIT_ERROR_STATUS: Record<LessonSubmitError['code'], number> = {
+  not_found: 404,
+  not_gradable: 400,
+};
+
+/**
+ * 受講の操作エラーのHTTPステータス
+ */
+const ATTEMPT_ERROR_STATUS: Record<LessonAttemptError['code'], number> = {
+  not_found: 404,
+  no_steps: 400,
+  invalid_step: 400,
+  invalid_answer: 400,
+  already_completed: 409,
+};
+
+/**
+ * GET /api/lessons?cefr=A1〜C2|mine
  * 利用可能なレッスン一覧を取得
+ * cefr を指定するとそのレベル（mine はプレースメントテストで判定した自分のレベル）のレッスンに絞る
  */
-router.get('/', async (_req: Request, res: Response) => {
+router.get('/', optionalAuthenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    let cefr = req.query.cefr as string | undefined;
+    if (cefr === 'mine') {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+      const user = await new UserService().getUserById(req.user.userId);
+      cefr = user?.cefrLevel ?? undefined;
+    }
+    if (cefr !== undefined && !isCefrLevel(cefr)) {
+      res.status(400).json({ error: 'cefr は A1〜C2 または mine で指定してください' });
+      return;
+    }
+
     const lessonService = new LessonService();
-    const lessons = await lessonService.getAllLessons();
+    const lessons = await lessonService.getAllLessons(cefr);
     res.json({ lessons });
   } catch (error) {
     console.error('Get lessons error:', error);
@@ -18,6 +56,26 @@ router.get('/', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/lessons/skill-tree
+ * 前提関係とユーザーごとの解放状態（locked / unlocked / completed）付きのレッスン一覧
+ */
+router.get('/skill-tree', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const lessonService = new LessonService();
+    const nodes = await lessonService.getSkillTree(req.user.userId);
+    res.json({ nodes });
+  } catch (error) {
+    console.error('Get skill tree error:', error);
+    res.status(500).json({ error: 'スキルツリーの取得に失敗しました' });
+  }
+});
+
 /**
  * GET /api/lessons/:id
  * 特定のレッスン詳細を取得
@@ -41,24 +99,225 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/lessons/:id/complete
- * レッスン完了を記録
+ * GET /api/lessons/:id/content
+ * レッスン本文を取得（文法演習は正解を含めない）
  */
-router.post('/:id/complete', async (req: Request, res: Response) => {
+router.get('/:id/content', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { userId, score } = req.body;
+    const lessonService = new LessonService();
+    const lesson = await lessonService.getLessonById(id);
+    const content = await lessonService.getLessonContent(id);
 
-    if (!userId) {
-      res.status(400).json({ error: 'ユーザーIDが必要です' });
+    if (!lesson || !content) {
+      res.status(404).json({ error: 'レッスンが見つかりません' });
       return;
     }
 
-    const lessonService = new LessonService();
-    await lessonService.markComplete(userId, id, score);
+    res.json({ lesson, content });
+  } catch (error) {
+    console.error('Get lesson content error:', error);
+    res.status(500).json({ error: 'レッスン本文の取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/lessons/:id/submit
+ * 文法演習・読解の内容理解問題の回答をまとめて採点し、受講として得点付きでレッスン完了を記録
+ * （途中の受講があればその受講を修了する）
+ * 読解レッスンは readingSeconds（本文を読んでいた秒数）を学習セッションに記録する
+ */
+router.post('/:id/submit', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { answers, readingSeconds } = req.body as { answers?: unknown; readingSeconds?: unknown };
+
+    if (!Array.isArray(answers)) {
+      res.status(400).json({ error: '回答の配列が必要です' });
+      return;
+    }
+    if (
+      readingSeconds !== undefined &&
+      !(typeof readingSeconds === 'number' && Number.isFinite(readingSeconds))
+    ) {
+      res.status(400).json({ error: '読書時間は数値で指定してください' });
+      return;
+    }
+
+    const attemptService = new LessonAttemptService();
+    const result = await attemptService.submitExercises(
+      req.user.userId,
+      id,
+      answers,
+      readingSeconds
+    );
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof LessonSubmitError) {
+      res.status(SUBMIT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    if (error instanceof LessonAttemptError) {
+      res.status(ATTEMPT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Submit lesson error:', error);
+    res.status(500).json({ error: '演習の採点に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/lessons/:id/attempts
+ * レッスンの受講を開始（修了していない受講は破棄して最初から）
+ */
+router.post('/:id/attempts', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
 
-    res.json({ success: true, message: 'レッスン完了を記録しました' });
+    const attemptService = new LessonAttemptService();
+    const attempt = await attemptService.startAttempt(req.user.userId, req.params.id);
+    res.status(201).json({ attempt });
   } catch (error) {
+    if (error instanceof LessonAttemptError) {
+      res.status(ATTEMPT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Start lesson attempt error:', error);
+    res.status(500).json({ error: '受講の開始に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/lessons/:id/attempts/current
+ * 途中の受講（再開するステップと回答済みの内容）を取得
+ */
+router.get(
+  '/:id/attempts/current',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const attemptService = new LessonAttemptService();
+      const attempt = await attemptService.getResumableAttempt(req.user.userId, req.params.id);
+      if (!attempt) {
+        res.status(404).json({ error: '途中の受講はありません' });
+        return;
+      }
+
+      res.json({ attempt });
+    } catch (error) {
+      console.error('Get lesson attempt error:', error);
+      res.status(500).json({ error: '受講の取得に失敗しました' });
+    }
+  }
+);
+
+/**
+ * PUT /api/lessons/:id/attempts/:attemptId
+ * ステップの回答を保存（body: { step, answer }）
+ */
+router.put(
+  '/:id/attempts/:attemptId',
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const { step, answer } = req.body as { step?: unknown; answer?: unknown };
+      if (typeof step !== 'number') {
+        res.status(400).json({ error: 'ステップの位置を数値で指定してください' });
+        return;
+      }
+
+      const attemptService = new LessonAttemptService();
+      const current = await attemptService.getAttempt(req.user.userId, req.params.attemptId);
+      if (!current || current.lessonId !== req.params.id) {
+        res.status(404).json({ error: '受講が見つかりません' });
+        return;
+      }
+
+      const attempt = await attemptService.checkpoint(
+        req.user.userId,
+        req.params.attemptId,
+        step,
+        answer
+      );
+      res.json({ attempt });
+    } catch (error) {
+      if (error instanceof LessonAttemptError) {
+        res.status(ATTEMPT_ERROR_STATUS[error.code]).json({ error: error.message });
+        return;
+      }
+      console.error('Checkpoint lesson attempt error:', error);
+      res.status(500).json({ error: '回答の保存に失敗しました' });
+    }
+  }
+);
+
+/**
+ * POST /api/lessons/:id/complete
+ * 受講を修了してレッスン完了を記録（body: { attemptId }。省略時は途中の受講）
+ * 得点はクライアントの値を使わず、保存済みのステップの回答から算出する
+ * 受講を開始していない場合は、従来のクライアント向けに得点なしで完了だけを記録する
+ * （採点のあるレッスンは得点なしで完了できないため、受講を開始していなければ 400）
+ */
+router.post('/:id/complete', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { attemptId } = req.body as { attemptId?: unknown };
+    const attemptService = new LessonAttemptService();
+    const attempt =
+      typeof attemptId === 'string'
+        ? await attemptService.getAttempt(req.user.userId, attemptId)
+        : await attemptService.getResumableAttempt(req.user.userId, id);
+
+    if (!attempt && typeof attemptId !== 'string') {
+      const lessonService = new LessonService();
+      if (!(await lessonService.getLessonById(id))) {
+        res.status(404).json({ error: 'レッスンが見つかりません' });
+        return;
+      }
+      if (lessonService.isGradable(id)) {
+        res.status(400).json({ error: '採点のあるレッスンは受講を開始してから完了してください' });
+        return;
+      }
+      await lessonService.markComplete(req.user.userId, id);
+      res.json({ success: true, message: 'レッスン完了を記録しました' });
+      return;
+    }
+    if (!attempt || attempt.lessonId !== id) {
+      res.status(404).json({ error: '受講が見つかりません' });
+      return;
+    }
+
+    const result = await attemptService.finishAttempt(req.user.userId, attempt.id);
+    res.json({ success: true, message: 'レッスン完了を記録しました', ...result });
+  } catch (error) {
+    if (error instanceof LessonAttemptError) {
+      res.status(ATTEMPT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
     console.error('Complete lesson error:', error);
     res.status(500).json({ error: 'レッスン完了の記録に失敗しました' });
   }
@@ -0,0 +1,57 @@
+import { Router, Response } from 'express';
+import { NotificationService } from '../services/notification';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /api/notifications
+ * お知らせを新しい順に取得（?unread=true で未読のみ）
+ */
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const limit = parseInt(req.query.limit as string) || 20;
+    const notifications = await new NotificationService().list(req.user.userId, {
+      unreadOnly: req.query.unread === 'true',
+      limit,
+    });
+    res.json({ notifications });
+  } catch (error) {
+    console.error('List notifications error:', error);
+    res.status(500).json({ error: 'お知らせの取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read
+ * お知らせを既読にする
+ */
+router.post('/:id/read', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const found = await new NotificationService().markRead(
+      req.user.userId,
+      parseInt(req.params.id)
+    );
+    if (!found) {
+      res.status(404).json({ error: 'お知らせが見つかりません' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'お知らせの更新に失敗しました' });
+  }
+});
+
+export { router as notificationRouter };
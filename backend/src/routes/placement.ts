@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import { PlacementError, PlacementService } from '../services/placement';
+import { UserService } from '../services/user';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * プレースメントテストのエラーのHTTPステータス
+ */
+const PLACEMENT_ERROR_STATUS: Record<PlacementError['code'], number> = {
+  not_found: 404,
+  already_submitted: 409,
+  unavailable: 503,
+};
+
+/**
+ * GET /api/placement
+ * 現在のCEFRレベル（未受験は null）
+ */
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const user = await new UserService().getUserById(req.user.userId);
+    if (!user) {
+      res.status(404).json({ error: 'ユーザーが見つかりません' });
+      return;
+    }
+
+    res.json({ level: user.cefrLevel, assessedAt: user.cefrAssessedAt });
+  } catch (error) {
+    console.error('Get placement level error:', error);
+    res.status(500).json({ error: 'レベルの取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/placement/start
+ * プレースメントテストを開始（正解を除いた問題を返す）
+ */
+router.post('/start', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const test = await new PlacementService().startTest(req.user.userId);
+    res.status(201).json(test);
+  } catch (error) {
+    if (error instanceof PlacementError) {
+      res.status(PLACEMENT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Start placement test error:', error);
+    res.status(500).json({ error: 'テストの作成に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/placement/:id/submit
+ * 回答（問題の順の配列）を採点してCEFRレベルを判定し、プロフィールに保存
+ */
+router.post('/:id/submit', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { answers } = req.body as { answers?: unknown };
+    if (!Array.isArray(answers)) {
+      res.status(400).json({ error: '回答の配列が必要です' });
+      return;
+    }
+
+    const result = await new PlacementService().submitTest(req.user.userId, req.params.id, answers);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof PlacementError) {
+      res.status(PLACEMENT_ERROR_STATUS[error.code]).json({ error: error.message });
+      return;
+    }
+    console.error('Submit placement test error:', error);
+    res.status(500).json({ error: 'テストの採点に失敗しました' });
+  }
+});
+
+export { router as placementRouter };
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { PlanService, PlanType, PlanLimits } from '../services/plan';
+import { UsageService } from '../services/usage';
 import { authenticate, requirePremium, AuthenticatedRequest } from '../middleware/auth';
 
 const router = Router();
@@ -33,6 +34,30 @@ router.get('/', (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/plans/usage
+ * 当月のAI利用量（トークン数・推定コスト・予算残量）取得
+ * NOTE: /:planId より先に登録する
+ */
+router.get('/usage', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const usageService = new UsageService();
+    const planService = new PlanService();
+    const summary = usageService.getMonthlySummary(req.user.userId);
+    const { dailyQuestions } = await planService.getRemainingUsage(req.user.userId);
+
+    res.json({ usage: { ...summary, dailyQuestions } });
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    res.status(500).json({ error: 'AI利用量の取得に失敗しました' });
+  }
+});
+
 /**
  * GET /api/plans/:planId
  * プラン詳細取得（公開）
@@ -1,129 +1,258 @@
-import { Router, Request, Response } from 'express';
-import { AIService } from '../services/ai';
+import { Router, Response } from 'express';
+import { AIService, QuizGenerationError } from '../services/ai';
+import { QuizService, QuizSubmitError, itemTopic, toPublicQuestion } from '../services/quiz';
+import { AdaptiveQuizService } from '../services/adaptive-quiz';
+import { ItemBankService } from '../services/item-bank';
+import { QuizAnswer } from '../services/quiz-validation';
+import {
+  authenticate,
+  optionalAuthenticate,
+  enforceAiBudget,
+  AuthenticatedRequest,
+} from '../middleware/auth';
 
 const router = Router();
 
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctIndex: number;
-  explanation: string;
-}
-
 interface QuizSubmission {
   quizId: string;
-  answers: number[];
-  userId?: string;
-}
-
-interface QuizResult {
-  score: number;
-  total: number;
-  percentage: number;
-  details: {
-    questionIndex: number;
-    correct: boolean;
-    userAnswer: number;
-    correctAnswer: number;
-    explanation: string;
-  }[];
+  /** 問題ごとの回答（4択: 選択肢の位置、穴埋め・記述: 文字列、組み合わせ・並べ替え: 位置の配列） */
+  answers: QuizAnswer[];
+  /** 問題ごとの回答時間（ミリ秒、任意） */
+  responseTimesMs?: number[];
 }
 
-// メモリ内クイズ保存（後でDB移行）
-const quizCache: Map<string, QuizQuestion[]> = new Map();
+/**
+ * 提出エラーのHTTPステータス
+ */
+const SUBMIT_ERROR_STATUS: Record<QuizSubmitError['code'], number> = {
+  not_found: 404,
+  forbidden: 403,
+  expired: 410,
+  already_submitted: 409,
+};
 
 /**
- * GET /api/quiz/:topic
- * 指定トピックのクイズを取得
+ * GET /api/quiz/abilities
+ * トピック別の能力推定値を取得
  */
-router.get('/:topic', async (req: Request, res: Response) => {
+router.get('/abilities', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { topic } = req.params;
-    const difficulty = (req.query.difficulty as string) || 'medium';
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
 
-    // キャッシュ確認
-    const cacheKey = `${topic}-${difficulty}`;
-    if (quizCache.has(cacheKey)) {
-      const questions = quizCache.get(cacheKey)!;
-      res.json({
-        quizId: cacheKey,
-        topic,
-        difficulty,
-        questions: questions.map((q) => ({
-          question: q.question,
-          options: q.options,
-        })),
-      });
+    const abilities = new ItemBankService().getAbilities(req.user.userId);
+    res.json({ abilities });
+  } catch (error) {
+    console.error('Get abilities error:', error);
+    res.status(500).json({ error: '能力推定値の取得に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/quiz/vocabulary/review
+ * 復習期限の来た単語・苦手単語から語彙クイズを取得（LLM不要）
+ * クエリ: regenerate=true で出題中のクイズを破棄して再生成
+ */
+router.get('/vocabulary/review', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: '認証が必要です' });
       return;
     }
 
-    // AI生成
-    const aiService = new AIService();
-    const questions = await aiService.generateQuiz(topic, difficulty);
+    const quizService = new QuizService();
+    const quiz = await quizService.getOrCreateVocabularyQuiz(
+      req.user.userId,
+      req.query.regenerate === 'true'
+    );
 
-    // キャッシュ保存
-    quizCache.set(cacheKey, questions);
+    if (!quiz) {
+      res.status(404).json({ error: '出題できる単語がありません' });
+      return;
+    }
 
     res.json({
-      quizId: cacheKey,
-      topic,
-      difficulty,
-      questions: questions.map((q) => ({
-        question: q.question,
-        options: q.options,
-      })),
+      quizId: quiz.id,
+      topic: quiz.topic,
+      difficulty: quiz.difficulty,
+      expiresAt: quiz.expiresAt,
+      questions: quiz.questions.map(toPublicQuestion),
     });
   } catch (error) {
-    console.error('Quiz generation error:', error);
-    res.status(500).json({ error: 'クイズの生成に失敗しました' });
+    console.error('Vocabulary quiz error:', error);
+    res.status(500).json({ error: 'クイズの作成に失敗しました' });
   }
 });
 
 /**
- * POST /api/quiz/submit
- * クイズ回答を提出して採点
+ * GET /api/quiz/:topic
+ * 指定トピックのクイズを取得
+ *
+ * 認証済みの場合はユーザー個別のクイズを返す。提出済み・期限切れの場合は新しく生成する
+ * クエリ: difficulty（省略時は認証済みならトピックの能力推定値に合う難易度、未認証は medium）、
+ *         regenerate=true で出題中のクイズを破棄して再生成
  */
-router.post('/submit', async (req: Request<object, QuizResult, QuizSubmission>, res: Response) => {
-  try {
-    const { quizId, answers } = req.body;
-    // userId は将来の進捗記録用（現在未使用）
+router.get(
+  '/:topic',
+  optionalAuthenticate,
+  enforceAiBudget,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { topic } = req.params;
+      const regenerate = req.query.regenerate === 'true';
+      const userId = req.user?.userId ?? null;
+      const difficulty =
+        (req.query.difficulty as string) ||
+        (userId ? new ItemBankService().getAbility(userId, itemTopic(topic)).level : 'medium');
 
-    if (!quizId || !answers || !Array.isArray(answers)) {
-      res.status(400).json({ error: 'quizIdと回答配列が必要です' });
-      return;
+      const quizService = new QuizService(new AIService({}, userId));
+      const quiz = await quizService.getOrCreateQuiz(userId, topic, difficulty, regenerate);
+
+      res.json({
+        quizId: quiz.id,
+        topic: quiz.topic,
+        difficulty: quiz.difficulty,
+        expiresAt: quiz.expiresAt,
+        questions: quiz.questions.map(toPublicQuestion),
+      });
+    } catch (error) {
+      console.error('Quiz generation error:', error);
+      if (error instanceof QuizGenerationError) {
+        res
+          .status(502)
+          .json({ error: 'クイズの生成に失敗しました。時間をおいて再度お試しください' });
+        return;
+      }
+      res.status(500).json({ error: 'クイズの生成に失敗しました' });
     }
+  }
+);
 
-    const questions = quizCache.get(quizId);
-    if (!questions) {
-      res.status(404).json({ error: 'クイズが見つかりません' });
-      return;
+/**
+ * POST /api/quiz/adaptive/:topic
+ * 適応型クイズ（能力推定値に合わせて1問ずつ出題）を開始
+ */
+router.post(
+  '/adaptive/:topic',
+  authenticate,
+  enforceAiBudget,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const adaptiveQuizService = new AdaptiveQuizService(new AIService({}, req.user.userId));
+      const started = await adaptiveQuizService.startQuiz(req.user.userId, req.params.topic);
+
+      if (!started) {
+        res.status(404).json({ error: '出題できる問題がありません' });
+        return;
+      }
+
+      res.status(201).json({ ...started, question: toPublicQuestion(started.question) });
+    } catch (error) {
+      console.error('Adaptive quiz start error:', error);
+      if (error instanceof QuizGenerationError) {
+        res
+          .status(502)
+          .json({ error: 'クイズの生成に失敗しました。時間をおいて再度お試しください' });
+        return;
+      }
+      res.status(500).json({ error: 'クイズの開始に失敗しました' });
     }
+  }
+);
+
+/**
+ * POST /api/quiz/adaptive/:quizId/answer
+ * 適応型クイズの出題中の問題に回答
+ * 回答ごとに能力推定値を更新し、次の問題（または終了時は結果）を返す
+ */
+router.post(
+  '/adaptive/:quizId/answer',
+  authenticate,
+  enforceAiBudget,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
 
-    // 採点
-    const details = questions.map((q, index) => ({
-      questionIndex: index,
-      correct: answers[index] === q.correctIndex,
-      userAnswer: answers[index],
-      correctAnswer: q.correctIndex,
-      explanation: q.explanation,
-    }));
+      if (req.body?.answer === undefined) {
+        res.status(400).json({ error: '回答が必要です' });
+        return;
+      }
 
-    const correctCount = details.filter((d) => d.correct).length;
+      const adaptiveQuizService = new AdaptiveQuizService(new AIService({}, req.user.userId));
+      const result = await adaptiveQuizService.answer(
+        req.params.quizId,
+        req.user.userId,
+        req.body.answer
+      );
 
-    const result: QuizResult = {
-      score: correctCount,
-      total: questions.length,
-      percentage: Math.round((correctCount / questions.length) * 100),
-      details,
-    };
+      res.json({
+        ...result,
+        ...(result.next
+          ? { next: { ...result.next, question: toPublicQuestion(result.next.question) } }
+          : {}),
+      });
+    } catch (error) {
+      if (error instanceof QuizSubmitError) {
+        res.status(SUBMIT_ERROR_STATUS[error.code]).json({ error: error.message });
+        return;
+      }
+      console.error('Adaptive quiz answer error:', error);
+      if (error instanceof QuizGenerationError) {
+        res
+          .status(502)
+          .json({ error: 'クイズの生成に失敗しました。時間をおいて再度お試しください' });
+        return;
+      }
+      res.status(500).json({ error: '採点に失敗しました' });
+    }
+  }
+);
 
-    // TODO: ユーザー進捗に記録
+/**
+ * POST /api/quiz/submit
+ * クイズ回答を提出して問題形式ごとに採点
+ * 認証済みの場合は結果・単語の復習スケジュール・学習セッション・連続学習日数を記録する
+ */
+router.post(
+  '/submit',
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest & { body: QuizSubmission }, res: Response) => {
+    try {
+      const { quizId, answers, responseTimesMs } = req.body;
 
-    res.json(result);
-  } catch (error) {
-    console.error('Quiz submit error:', error);
-    res.status(500).json({ error: '採点に失敗しました' });
+      if (!quizId || !answers || !Array.isArray(answers)) {
+        res.status(400).json({ error: 'quizIdと回答配列が必要です' });
+        return;
+      }
+
+      const quizService = new QuizService();
+      const result = await quizService.submitQuiz(
+        quizId,
+        req.user?.userId ?? null,
+        answers,
+        Array.isArray(responseTimesMs) ? responseTimesMs : []
+      );
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof QuizSubmitError) {
+        res.status(SUBMIT_ERROR_STATUS[error.code]).json({ error: error.message });
+        return;
+      }
+      console.error('Quiz submit error:', error);
+      res.status(500).json({ error: '採点に失敗しました' });
+    }
   }
-});
+);
 
 export { router as quizRouter };
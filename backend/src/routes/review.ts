@@ -1,12 +1,50 @@
 import { Router, Request, Response } from 'express';
-import { SpacedRepetitionService } from '../services/spaced-repetition';
+import { authenticate, enforceAiBudget, AuthenticatedRequest } from '../middleware/auth';
+import { AIService, WordGenerationError } from '../services/ai';
+import {
+  MAX_LEECH_THRESHOLD,
+  MAX_NEW_CARDS_PER_DAY,
+  MAX_REVIEWS_PER_DAY,
+  MIN_LEECH_THRESHOLD,
+  SpacedRepetitionService,
+} from '../services/spaced-repetition';
+import { StudyLimitError, StudyQueueService } from '../services/study-queue';
+import { SchedulerOptimizerService } from '../services/scheduler-optimizer';
 import { LessonService } from '../services/lesson';
+import { PersonalDeckService } from '../services/personal-deck';
+import { VocabularyWord } from '../services/content-validation';
+import {
+  MAX_DESIRED_RETENTION,
+  MIN_DESIRED_RETENTION,
+  isSchedulerName,
+} from '../services/scheduler';
 
 const router = Router();
 
+/**
+ * 1日の上限エラーのHTTPステータス
+ */
+const LIMIT_ERROR_STATUS: Record<StudyLimitError['code'], number> = {
+  new_limit_reached: 429,
+  review_limit_reached: 429,
+};
+
+/**
+ * 共有の単語帳と個人の単語帳の単語（同じ単語は個人の単語帳を優先）
+ */
+async function getVocabularyMap(userId: string): Promise<Map<string, VocabularyWord>> {
+  const lessonService = new LessonService();
+  const personalDeckService = new PersonalDeckService();
+  const [shared, personal] = await Promise.all([
+    lessonService.getAllVocabularyWords(),
+    personalDeckService.getAllWords(userId),
+  ]);
+  return new Map([...shared, ...personal].map((w) => [w.word, w]));
+}
+
 /**
  * GET /api/review
- * 今日復習すべき単語を取得
+ * 今日復習すべき単語（忘れた単語・復習日が来た単語）を学習キューの順に、1日の復習数の上限まで取得
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -18,14 +56,14 @@ router.get('/', async (req: Request, res: Response) => {
     }
 
     const limit = parseInt(req.query.limit as string) || 10;
-    const srService = new SpacedRepetitionService();
-    const lessonService = new LessonService();
+    const queue = await new StudyQueueService().buildQueue(userId);
 
-    const wordsToReview = await srService.getWordsToReview(userId, limit);
+    const wordsToReview = queue.items
+      .flatMap((item) => (item.history ? [{ ...item.history, kind: item.kind }] : []))
+      .slice(0, limit);
 
-    // 単語の詳細情報を取得
-    const allVocab = await lessonService.getVocabularyWords('vocab-basic-english');
-    const vocabMap = new Map(allVocab.map((w) => [w.word, w]));
+    // 単語の詳細情報を取得（共有・個人の単語帳）
+    const vocabMap = await getVocabularyMap(userId);
 
     const enrichedWords = wordsToReview.map((w) => {
       const vocab = vocabMap.get(w.word);
@@ -42,6 +80,7 @@ router.get('/', async (req: Request, res: Response) => {
     res.json({
       wordsToReview: enrichedWords,
       count: enrichedWords.length,
+      daily: queue.daily,
     });
   } catch (error) {
     console.error('Get review words error:', error);
@@ -51,12 +90,12 @@ router.get('/', async (req: Request, res: Response) => {
 
 /**
  * POST /api/review
- * 単語の復習結果を記録
+ * 単語の復習結果を記録（1日の新しい単語数・復習数の上限に達している場合は記録しない）
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
     const userId = req.headers['x-user-id'] as string;
-    const { word, quality } = req.body;
+    const { word, quality, responseTimeMs } = req.body;
 
     if (!userId) {
       res.status(401).json({ error: '認証が必要です' });
@@ -68,14 +107,28 @@ router.post('/', async (req: Request, res: Response) => {
       return;
     }
 
+    if (
+      responseTimeMs !== undefined &&
+      (typeof responseTimeMs !== 'number' || !Number.isFinite(responseTimeMs) || responseTimeMs < 0)
+    ) {
+      res.status(400).json({ error: '回答時間は0以上のミリ秒で指定してください' });
+      return;
+    }
+
+    await new StudyQueueService().assertWithinDailyLimits(userId, word);
+
     const srService = new SpacedRepetitionService();
-    const result = await srService.recordReview(userId, word, quality);
+    const result = await srService.recordReview(userId, word, quality, responseTimeMs);
 
     res.json({
       success: true,
       result,
     });
   } catch (error) {
+    if (error instanceof StudyLimitError) {
+      res.status(LIMIT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      return;
+    }
     console.error('Record review error:', error);
     res.status(500).json({ error: '復習結果の記録に失敗しました' });
   }
@@ -104,9 +157,371 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/review/queue
+ * 今日の学習キュー（忘れた単語・復習・新しい単語）を単語の詳細付きで取得
+ * 1日の上限は学習者のタイムゾーン（リマインダー設定）の日付で数える
+ */
+router.get('/queue', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const queue = await new StudyQueueService().buildQueue(userId);
+    const vocabMap = await getVocabularyMap(userId);
+
+    res.json({
+      ...queue,
+      items: queue.items.map((item) => ({ ...item, vocab: vocabMap.get(item.word) ?? null })),
+    });
+  } catch (error) {
+    console.error('Get study queue error:', error);
+    res.status(500).json({ error: '学習キューの取得に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/review/history
+ * 復習ログを新しい順に取得（?limit=&offset= でページング）
+ */
+router.get('/history', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const history = await new SpacedRepetitionService().getReviewLog(userId, {
+      limit: parseInt(req.query.limit as string) || undefined,
+      offset: parseInt(req.query.offset as string) || undefined,
+    });
+
+    res.json(history);
+  } catch (error) {
+    console.error('Get review history error:', error);
+    res.status(500).json({ error: '復習履歴の取得に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/review/history/:word
+ * 単語ごとの復習ログを新しい順に取得（?limit=&offset= でページング）
+ */
+router.get('/history/:word', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const history = await new SpacedRepetitionService().getReviewLog(userId, {
+      word: req.params.word,
+      limit: parseInt(req.query.limit as string) || undefined,
+      offset: parseInt(req.query.offset as string) || undefined,
+    });
+
+    res.json(history);
+  } catch (error) {
+    console.error('Get word review history error:', error);
+    res.status(500).json({ error: '復習履歴の取得に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/review/settings
+ * 復習スケジューラーの設定と、復習ログからのパラメータ調整結果（未調整は null）を取得
+ */
+router.get('/settings', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const settings = await new SpacedRepetitionService().getSettings(userId);
+    const optimization = await new SchedulerOptimizerService().getReport(userId);
+    res.json({ settings, optimization });
+  } catch (error) {
+    console.error('Get review settings error:', error);
+    res.status(500).json({ error: '復習設定の取得に失敗しました' });
+  }
+});
+
+/**
+ * PUT /api/review/settings
+ * 復習スケジューラー（sm2 / fsrs）・目標の想起率・リーチの判定回数と覚え方の生成・
+ * 1日の新しい単語数と復習数の上限・新しい単語を取り出す単語帳（null は全単語帳）を更新
+ * FSRS に切り替えた場合は既存の学習履歴を移行し、移行した単語数を返す
+ */
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+    const {
+      scheduler,
+      desiredRetention,
+      leechThreshold,
+      leechMnemonic,
+      newCardsPerDay,
+      maxReviewsPerDay,
+      studyDecks,
+    } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    // バリデーション
+    if (scheduler !== undefined && !isSchedulerName(scheduler)) {
+      res.status(400).json({ error: 'スケジューラーの値が不正です（sm2 または fsrs）' });
+      return;
+    }
+
+    if (
+      desiredRetention !== undefined &&
+      (typeof desiredRetention !== 'number' ||
+        desiredRetention < MIN_DESIRED_RETENTION ||
+        desiredRetention > MAX_DESIRED_RETENTION)
+    ) {
+      res.status(400).json({
+        error: `目標の想起率は${MIN_DESIRED_RETENTION}〜${MAX_DESIRED_RETENTION}で指定してください`,
+      });
+      return;
+    }
+
+    if (
+      leechThreshold !== undefined &&
+      (!Number.isInteger(leechThreshold) ||
+        leechThreshold < MIN_LEECH_THRESHOLD ||
+        leechThreshold > MAX_LEECH_THRESHOLD)
+    ) {
+      res.status(400).json({
+        error: `リーチの忘却回数は${MIN_LEECH_THRESHOLD}〜${MAX_LEECH_THRESHOLD}の整数で指定してください`,
+      });
+      return;
+    }
+
+    if (leechMnemonic !== undefined && typeof leechMnemonic !== 'boolean') {
+      res.status(400).json({ error: 'leechMnemonic は真偽値で指定してください' });
+      return;
+    }
+
+    if (
+      newCardsPerDay !== undefined &&
+      (!Number.isInteger(newCardsPerDay) ||
+        newCardsPerDay < 0 ||
+        newCardsPerDay > MAX_NEW_CARDS_PER_DAY)
+    ) {
+      res.status(400).json({
+        error: `1日の新しい単語数は0〜${MAX_NEW_CARDS_PER_DAY}の整数で指定してください`,
+      });
+      return;
+    }
+
+    if (
+      maxReviewsPerDay !== undefined &&
+      (!Number.isInteger(maxReviewsPerDay) ||
+        maxReviewsPerDay < 1 ||
+        maxReviewsPerDay > MAX_REVIEWS_PER_DAY)
+    ) {
+      res.status(400).json({
+        error: `1日の復習数の上限は1〜${MAX_REVIEWS_PER_DAY}の整数で指定してください`,
+      });
+      return;
+    }
+
+    if (studyDecks !== undefined && studyDecks !== null) {
+      const available = new Set(await new StudyQueueService().getAvailableDeckIds(userId));
+      if (
+        !Array.isArray(studyDecks) ||
+        studyDecks.length === 0 ||
+        !studyDecks.every((id) => typeof id === 'string' && available.has(id))
+      ) {
+        res.status(400).json({
+          error: '単語帳は語彙レッスンまたは自分の単語帳のIDの配列で指定してください',
+        });
+        return;
+      }
+    }
+
+    const { migratedWords, ...settings } = await new SpacedRepetitionService().updateSettings(
+      userId,
+      {
+        scheduler,
+        desiredRetention,
+        leechThreshold,
+        leechMnemonic,
+        newCardsPerDay,
+        maxReviewsPerDay,
+        studyDecks,
+      }
+    );
+
+    res.json({
+      success: true,
+      settings,
+      migratedWords,
+    });
+  } catch (error) {
+    console.error('Update review settings error:', error);
+    res.status(500).json({ error: '復習設定の更新に失敗しました' });
+  }
+});
+
+/**
+ * GET /api/review/leeches
+ * リーチ（何度も忘れて復習から外した単語）を作成済みの覚え方と合わせて取得
+ */
+router.get('/leeches', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const leeches = await new SpacedRepetitionService().getLeeches(userId);
+    res.json({ leeches, count: leeches.length });
+  } catch (error) {
+    console.error('Get leeches error:', error);
+    res.status(500).json({ error: 'リーチの取得に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/review/words/:word/mnemonic
+ * リーチの単語の覚え方を取得（未作成ならAIで生成して保存する。生成の利用量はユーザーに計上）
+ */
+router.post(
+  '/words/:word/mnemonic',
+  authenticate,
+  enforceAiBudget,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: '認証が必要です' });
+        return;
+      }
+
+      const srService = new SpacedRepetitionService(new AIService({}, req.user.userId));
+      const wordHistory = await srService.getOrCreateMnemonic(req.user.userId, req.params.word);
+      if (!wordHistory) {
+        res.status(404).json({ error: '学習中の単語が見つかりません' });
+        return;
+      }
+
+      res.json({ wordHistory, mnemonic: wordHistory.mnemonic });
+    } catch (error) {
+      console.error('Generate mnemonic error:', error);
+      if (error instanceof WordGenerationError) {
+        res
+          .status(502)
+          .json({ error: '覚え方の生成に失敗しました。時間をおいて再度お試しください' });
+        return;
+      }
+      res.status(500).json({ error: '覚え方の生成に失敗しました' });
+    }
+  }
+);
+
+/**
+ * POST /api/review/words/:word/suspend
+ * 単語の復習を停止
+ */
+router.post('/words/:word/suspend', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const wordHistory = await new SpacedRepetitionService().suspendWord(userId, req.params.word);
+    if (!wordHistory) {
+      res.status(404).json({ error: '学習中の単語が見つかりません' });
+      return;
+    }
+
+    res.json({ success: true, wordHistory });
+  } catch (error) {
+    console.error('Suspend word error:', error);
+    res.status(500).json({ error: '復習の停止に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/review/words/:word/unsuspend
+ * 停止・延期した単語、リーチの単語の復習を再開
+ */
+router.post('/words/:word/unsuspend', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const wordHistory = await new SpacedRepetitionService().unsuspendWord(userId, req.params.word);
+    if (!wordHistory) {
+      res.status(404).json({ error: '学習中の単語が見つかりません' });
+      return;
+    }
+
+    res.json({ success: true, wordHistory });
+  } catch (error) {
+    console.error('Unsuspend word error:', error);
+    res.status(500).json({ error: '復習の再開に失敗しました' });
+  }
+});
+
+/**
+ * POST /api/review/words/:word/bury
+ * 単語の復習を延期（body.days 日後から復習対象に戻す。省略時は1日）
+ */
+router.post('/words/:word/bury', async (req: Request, res: Response) => {
+  try {
+    const userId = req.headers['x-user-id'] as string;
+    const { days = 1 } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      res.status(400).json({ error: '延期する日数は1〜365の整数で指定してください' });
+      return;
+    }
+
+    const wordHistory = await new SpacedRepetitionService().buryWord(userId, req.params.word, days);
+    if (!wordHistory) {
+      res.status(404).json({ error: '学習中の単語が見つかりません' });
+      return;
+    }
+
+    res.json({ success: true, wordHistory });
+  } catch (error) {
+    console.error('Bury word error:', error);
+    res.status(500).json({ error: '復習の延期に失敗しました' });
+  }
+});
+
 /**
  * POST /api/review/start
- * 新しい単語の学習を開始
+ * 新しい単語の学習を開始（1日の新しい単語数の上限に達している場合は開始しない）
  */
 router.post('/start', async (req: Request, res: Response) => {
   try {
@@ -124,7 +539,6 @@ router.post('/start', async (req: Request, res: Response) => {
     }
 
     const srService = new SpacedRepetitionService();
-    const lessonService = new LessonService();
 
     // 既に学習済みか確認
     const existing = await srService.getWordHistory(userId, word);
@@ -137,15 +551,16 @@ router.post('/start', async (req: Request, res: Response) => {
       return;
     }
 
-    // 単語情報を取得
-    const allVocab = await lessonService.getVocabularyWords('vocab-basic-english');
-    const vocab = allVocab.find((v) => v.word === word);
+    // 単語情報を取得（共有・個人の単語帳）
+    const vocab = (await getVocabularyMap(userId)).get(word);
 
     if (!vocab) {
       res.status(404).json({ error: '単語が見つかりません' });
       return;
     }
 
+    await new StudyQueueService().assertWithinDailyLimits(userId, word);
+
     // 初回学習として記録（quality=4: 初見だが理解した）
     const result = await srService.recordReview(userId, word, 4);
 
@@ -156,6 +571,10 @@ router.post('/start', async (req: Request, res: Response) => {
       vocab,
     });
   } catch (error) {
+    if (error instanceof StudyLimitError) {
+      res.status(LIMIT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      return;
+    }
     console.error('Start learning error:', error);
     res.status(500).json({ error: '学習の開始に失敗しました' });
   }
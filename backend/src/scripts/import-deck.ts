@@ -0,0 +1,121 @@
+/**
+ * 単語帳の取り込みコマンド
+ *
+ * 使い方:
+ *   npm run import-deck -- <ファイル> --name <名前> --title <タイトル> --level <レベル>
+ *     [--description <説明>] [--map <項目>=<見出し名または列番号> ...]
+ *     [--no-header] [--dry-run] [--content-dir <ディレクトリ>]
+ *
+ * 例:
+ *   npm run import-deck -- toeic.apkg --name toeic --title "TOEIC頻出語" --level B1 \
+ *     --map word=Front --map definitionJa=Back --dry-run
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  DeckImportError,
+  DeckImportReport,
+  DeckImportService,
+  parseColumnMapping,
+} from '../services/deck-import';
+
+/**
+ * 取り込み結果を表示
+ */
+function printReport(report: DeckImportReport): void {
+  console.log(`形式: ${report.format}`);
+  console.log(`行数: ${report.totalRows}`);
+  console.log(`取り込める単語: ${report.words.length}`);
+
+  if (report.errors.length > 0) {
+    console.log(`\nエラー（${report.errors.length}件）:`);
+    for (const e of report.errors) {
+      console.log(`  ${e.row}行目${e.field ? ` [${e.field}]` : ''}: ${e.message}`);
+    }
+  }
+
+  if (report.duplicates.length > 0) {
+    console.log(`\n重複（${report.duplicates.length}件）:`);
+    for (const d of report.duplicates) {
+      const where = d.lessonId ? `${d.lessonId} に登録済み` : 'ファイル内で重複';
+      console.log(`  ${d.row}行目: ${d.word}（${where}）`);
+    }
+  }
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      title: { type: 'string' },
+      level: { type: 'string' },
+      description: { type: 'string' },
+      map: { type: 'string', multiple: true },
+      'no-header': { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      'content-dir': { type: 'string' },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file) {
+    console.error('取り込むファイルを指定してください');
+    return 1;
+  }
+
+  const mapEntries: Record<string, string> = {};
+  for (const pair of values.map ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      console.error(`--map は <項目>=<列> の形式で指定してください: ${pair}`);
+      return 1;
+    }
+    mapEntries[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+
+  const options = {
+    mapping: values.map ? parseColumnMapping(mapEntries) : undefined,
+    header: !values['no-header'],
+  };
+  const service = new DeckImportService(
+    values['content-dir'] ? path.resolve(values['content-dir']) : undefined
+  );
+  const buffer = fs.readFileSync(file);
+
+  try {
+    if (values['dry-run']) {
+      printReport(service.parse(buffer, file, options));
+      return 0;
+    }
+
+    if (!values.name || !values.title || !values.level) {
+      console.error('--name, --title, --level は必須です');
+      return 1;
+    }
+
+    const { lessonId, report } = service.createDeck(buffer, file, {
+      ...options,
+      name: values.name,
+      title: values.title,
+      level: values.level,
+      description: values.description,
+    });
+    printReport(report);
+    console.log(`\n単語帳「${lessonId}」を作成しました`);
+    return 0;
+  } catch (error) {
+    if (error instanceof DeckImportError) {
+      console.error(error.message);
+      for (const issue of error.issues) {
+        console.error(`  ${issue.path}: ${issue.message}`);
+      }
+      return 1;
+    }
+    throw error;
+  }
+}
+
+process.exitCode = main();
@@ -0,0 +1,73 @@
+/**
+ * 復習スケジューラーのパラメータ調整コマンド（定期実行を想定したオフライン処理）
+ *
+ * 使い方:
+ *   npm run optimize-scheduler -- [--user <ユーザーID>] [--dry-run]
+ *
+ * --user を省略すると復習ログのある全ユーザーを調整する。
+ * 復習数が足りないユーザーはスキップし、デフォルトのパラメータのままにする。
+ */
+
+import { parseArgs } from 'util';
+import {
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  SchedulerOptimizationReport,
+  SchedulerOptimizerService,
+} from '../services/scheduler-optimizer';
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * 調整結果を表示
+ */
+function printReport(report: SchedulerOptimizationReport): void {
+  const gain = report.predictedRetentionGain;
+  console.log(`${report.userId}（復習 ${report.reviewCount} 件）`);
+  console.log(
+    `  FSRS 対数損失: ${report.logLossBefore.toFixed(4)} → ${report.logLossAfter.toFixed(4)}`
+  );
+  console.log(
+    `  SM-2 初期 ease factor: ${report.sm2.initialEaseFactor.toFixed(2)}, 間隔係数: ${report.sm2.intervalModifier.toFixed(2)}`
+  );
+  console.log(
+    `  想起率: ${percent(report.retentionBefore)} → ${percent(report.retentionAfter)}（${gain >= 0 ? '+' : ''}${percent(gain)}）`
+  );
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      user: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+    },
+  });
+
+  const service = new SchedulerOptimizerService();
+  const options = { dryRun: values['dry-run'] };
+
+  if (values.user) {
+    const report = await service.optimizeUser(values.user, options);
+    if (!report) {
+      console.error(`復習数が ${MIN_REVIEWS_FOR_OPTIMIZATION} 件に満たないため調整できません`);
+      return 1;
+    }
+    printReport(report);
+    return 0;
+  }
+
+  const reports = await service.optimizeAll(options);
+  reports.forEach(printReport);
+  console.log(
+    `\n${reports.length} 人のパラメータを${values['dry-run'] ? '算出しました（保存していません）' : '更新しました'}`
+  );
+  return 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Optimize scheduler error:', error);
+    process.exit(1);
+  });
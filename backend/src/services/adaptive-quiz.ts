@@ -0,0 +1,216 @@
+import { AIService } from './ai';
+import { ItemBankService, QuizItem, TopicAbility } from './item-bank';
+import { difficultyFromLabel, labelFromTheta, selectMostInformative } from './irt';
+import { QuestionGrade, gradeQuestion } from './quiz-grading';
+import { QuizQuestion } from './quiz-validation';
+import { QuizService, QuizSubmitError } from './quiz';
+import { UserService } from './user';
+import { VocabularyQuizService } from './vocabulary-quiz';
+
+/**
+ * 適応型クイズの難易度（quizzes.difficulty に保存する値）
+ */
+export const ADAPTIVE_QUIZ_DIFFICULTY = 'cat';
+
+/**
+ * 出題数の下限・上限と、測定を打ち切る標準誤差
+ */
+const ADAPTIVE_MIN_ITEMS = 5;
+const ADAPTIVE_MAX_ITEMS = 10;
+const ADAPTIVE_TARGET_SE = 0.5;
+
+/**
+ * 適応型クイズサービス - 能力推定値に対して情報量が最大の問題を1問ずつ出題（CAT）
+ * 収益化観点：少ない問題数でレベルを判定し、得点をプレースメントの指標として使えるようにする
+ *
+ * 語彙トピックは教材から問題バンクを作り、それ以外は足りなくなった時点で能力に合う難易度の問題を生成する
+ */
+export class AdaptiveQuizService {
+  private aiService: AIService;
+  private itemBank: ItemBankService;
+  private vocabularyQuizService: VocabularyQuizService;
+  private quizService: QuizService;
+
+  constructor(
+    aiService: AIService = new AIService(),
+    itemBank: ItemBankService = new ItemBankService(),
+    vocabularyQuizService: VocabularyQuizService = new VocabularyQuizService()
+  ) {
+    this.aiService = aiService;
+    this.itemBank = itemBank;
+    this.vocabularyQuizService = vocabularyQuizService;
+    this.quizService = new QuizService(aiService, vocabularyQuizService, itemBank);
+  }
+
+  /**
+   * 教材の単語から語彙トピックの問題バンクを作る（登録済みの問題はそのまま）
+   *
+   * @returns 語彙トピックの問題数
+   */
+  seedVocabularyItems(): number {
+    const vocabulary = this.vocabularyQuizService.loadVocabulary();
+    const questions: QuizQuestion[] = [];
+
+    for (const entry of vocabulary) {
+      const candidates: (QuizQuestion | null)[] = [
+        this.vocabularyQuizService.buildMultipleChoice(entry, vocabulary),
+        this.vocabularyQuizService.buildOrdering(entry),
+        this.vocabularyQuizService.buildCloze(entry),
+        this.vocabularyQuizService.buildTyped(entry),
+      ];
+      questions.push(...candidates.filter((q): q is QuizQuestion => q !== null));
+    }
+
+    this.itemBank.addItems('vocabulary', questions);
+    return this.itemBank.getItems('vocabulary').length;
+  }
+
+  /**
+   * 次の問題を選ぶ
+   * このクイズで未出題の問題のうち、ユーザーが未回答のものを優先して情報量が最大の問題を選ぶ。
+   * 候補がない場合は問題バンクを補充する
+   */
+  private async pickItem(
+    userId: string,
+    topic: string,
+    theta: number,
+    servedIds: Set<number>
+  ): Promise<QuizItem | null> {
+    const candidates = () => this.itemBank.getItems(topic).filter((i) => !servedIds.has(i.id));
+
+    let items = candidates();
+    if (items.length === 0) {
+      if (topic === 'vocabulary') {
+        this.seedVocabularyItems();
+      } else {
+        const label = labelFromTheta(theta);
+        const questions = await this.aiService.generateQuiz(topic, label);
+        this.itemBank.addItems(topic, questions, difficultyFromLabel(label));
+      }
+      items = candidates();
+    }
+
+    const answered = this.itemBank.getAnsweredItemIds(userId, topic);
+    const unseen = items.filter((i) => !answered.has(i.id));
+
+    return selectMostInformative(theta, unseen.length > 0 ? unseen : items);
+  }
+
+  /**
+   * 適応型クイズを開始して最初の問題を出題
+   * 出題できる問題がない場合はnull
+   *
+   * @throws QuizGenerationError 問題の生成に失敗した場合
+   */
+  async startQuiz(userId: string, topic: string): Promise<AdaptiveQuizStart | null> {
+    const ability = this.itemBank.getAbility(userId, topic);
+    const item = await this.pickItem(userId, topic, ability.theta, new Set());
+    if (!item) return null;
+
+    const quiz = await this.quizService.createQuiz(userId, topic, ADAPTIVE_QUIZ_DIFFICULTY, []);
+    this.quizService.appendQuestion(quiz.id, item.question, item.id);
+
+    return {
+      quizId: quiz.id,
+      topic,
+      ability,
+      maxItems: ADAPTIVE_MAX_ITEMS,
+      position: 0,
+      question: item.question,
+    };
+  }
+
+  /**
+   * 出題中の問題に回答し、能力推定値を更新して次の問題を出題
+   * 出題数の上限に達するか、標準誤差が十分小さくなった時点で終了する
+   *
+   * @throws QuizSubmitError 回答できない場合
+   */
+  async answer(quizId: string, userId: string, answer: unknown): Promise<AdaptiveQuizAnswer> {
+    const quiz = await this.quizService.getQuiz(quizId);
+    if (!quiz || quiz.difficulty !== ADAPTIVE_QUIZ_DIFFICULTY) {
+      throw new QuizSubmitError('not_found', 'クイズが見つかりません');
+    }
+    if (quiz.userId !== userId) {
+      throw new QuizSubmitError('forbidden', 'このクイズには回答できません');
+    }
+    if (quiz.completedAt) {
+      throw new QuizSubmitError('already_submitted', 'このクイズは回答済みです');
+    }
+    if (quiz.expiresAt <= new Date().toISOString()) {
+      throw new QuizSubmitError('expired', 'クイズの有効期限が切れています');
+    }
+
+    const answered = this.itemBank.getQuizResponses(quizId);
+    const position = answered.length;
+    const itemId = quiz.itemIds[position];
+    if (position >= quiz.questions.length || itemId === null || itemId === undefined) {
+      throw new QuizSubmitError('already_submitted', 'この問題は回答済みです');
+    }
+
+    const grade = gradeQuestion(quiz.questions[position], answer);
+    const ability = this.itemBank.recordResponse(userId, itemId, quizId, grade.correct);
+    if (!ability) {
+      throw new QuizSubmitError('not_found', '問題が見つかりません');
+    }
+
+    const answeredCount = position + 1;
+    let next: QuizItem | null = null;
+    if (
+      answeredCount < ADAPTIVE_MAX_ITEMS &&
+      (answeredCount < ADAPTIVE_MIN_ITEMS || ability.standardError > ADAPTIVE_TARGET_SE)
+    ) {
+      const servedIds = new Set(quiz.itemIds.filter((id): id is number => id !== null));
+      next = await this.pickItem(userId, quiz.topic, ability.theta, servedIds);
+    }
+
+    const feedback = {
+      ...grade,
+      explanation: quiz.questions[position].explanation,
+      ability,
+    };
+
+    if (next) {
+      return {
+        ...feedback,
+        finished: false,
+        next: {
+          position: this.quizService.appendQuestion(quizId, next.question, next.id),
+          question: next.question,
+        },
+      };
+    }
+
+    const score = answered.filter((r) => r.correct).length + (grade.correct ? 1 : 0);
+    const result = {
+      score,
+      total: answeredCount,
+      percentage: Math.round((score / answeredCount) * 100),
+    };
+    this.quizService.completeQuiz(quiz, userId, result);
+    const streak = await new UserService().updateStreak(userId);
+
+    return { ...feedback, finished: true, result: { ...result, streak } };
+  }
+}
+
+// 型定義
+export interface AdaptiveQuizStart {
+  quizId: string;
+  topic: string;
+  ability: TopicAbility;
+  maxItems: number;
+  position: number;
+  question: QuizQuestion;
+}
+
+export interface AdaptiveQuizAnswer extends QuestionGrade {
+  explanation: string;
+  /** 回答後の能力推定値 */
+  ability: TopicAbility;
+  finished: boolean;
+  /** 次の問題（終了していない場合） */
+  next?: { position: number; question: QuizQuestion };
+  /** 最終結果（終了した場合） */
+  result?: { score: number; total: number; percentage: number; streak: number };
+}
@@ -1,93 +1,521 @@
-import OpenAI from 'openai';
+import { DatabaseService } from './database';
+import {
+  LLMCompletion,
+  LLMFeature,
+  LLMMessage,
+  LLMProvider,
+  TokenUsage,
+  createLLMProvider,
+  estimateUsage,
+  splitIntoChunks,
+} from './llm-provider';
+import {
+  MultipleChoiceQuestion,
+  QuizQuestion,
+  QuizValidationIssue,
+  extractJson,
+  formatIssues,
+  parseQuizOutput,
+} from './quiz-validation';
+import { VocabularyWord } from './content-validation';
+import { RetrievedDocument } from './retrieval';
+import { UsageService } from './usage';
+
+/**
+ * 1回のクイズで生成する問題数
+ */
+const QUIZ_QUESTION_COUNT = 3;
+
+/**
+ * 検証エラー時にモデルへ修正を依頼する最大回数（デフォルト）
+ */
+const DEFAULT_QUIZ_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * クイズ生成エラー（修正を繰り返しても有効な問題が得られなかった場合）
+ */
+export class QuizGenerationError extends Error {
+  readonly attempts: number;
+  readonly issues: QuizValidationIssue[];
+
+  constructor(message: string, attempts: number, issues: QuizValidationIssue[]) {
+    super(message);
+    this.name = 'QuizGenerationError';
+    this.attempts = attempts;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 単語の補完エラー（AIの呼び出しに失敗した・出力が不正な場合）
+ */
+export class WordGenerationError extends Error {
+  readonly issues: QuizValidationIssue[];
+
+  constructor(message: string, issues: QuizValidationIssue[]) {
+    super(message);
+    this.name = 'WordGenerationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * AIで補完する単語の項目（単語そのもの・CEFRレベル以外）
+ */
+export type WordDetails = Omit<VocabularyWord, 'word' | 'cefr'>;
+
+export const WORD_DETAIL_FIELDS: (keyof WordDetails)[] = [
+  'pronunciation',
+  'partOfSpeech',
+  'definition',
+  'definitionJa',
+  'example',
+  'exampleJa',
+];
+
+/**
+ * 機能別に差し替えるプロバイダー（未指定の機能は設定から生成、nullは開発用モック）
+ */
+export interface AIProviders {
+  ask?: LLMProvider | null;
+  quiz?: LLMProvider | null;
+  word?: LLMProvider | null;
+}
 
 /**
  * AIサービス - LLM APIとの連携
+ * 実際の呼び出しはLLMProviderに委譲し、機能ごとにプロバイダーを切り替えられる
+ * 呼び出しごとのトークン数・推定コストは利用量台帳に記録する
  */
 export class AIService {
-  private client: OpenAI | null = null;
+  private askProvider: LLMProvider | null;
+  private quizProvider: LLMProvider | null;
+  private wordProvider: LLMProvider | null;
+  private userId: string | null;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.client = new OpenAI({ apiKey });
-    }
+  /**
+   * @param userId 利用量を計上するユーザー（未認証の呼び出しはnull）
+   */
+  constructor(providers: AIProviders = {}, userId: string | null = null) {
+    this.askProvider = providers.ask !== undefined ? providers.ask : createLLMProvider('ask');
+    this.quizProvider = providers.quiz !== undefined ? providers.quiz : createLLMProvider('quiz');
+    this.wordProvider = providers.word !== undefined ? providers.word : createLLMProvider('word');
+    this.userId = userId;
   }
 
   /**
    * 質問に回答
+   *
+   * @param history 同じスレッドの過去の発言（古い順）。モデルにそのまま再送する
+   * @param references 自社教材から検索した関連エントリ。プロンプトに参考資料として埋め込む
    */
-  async answerQuestion(question: string, context?: string): Promise<string> {
-    // APIキーがない場合はモック回答
-    if (!this.client) {
-      return this.getMockAnswer(question);
+  async answerQuestion(
+    question: string,
+    context?: string,
+    history: ChatMessage[] = [],
+    references: RetrievedDocument[] = []
+  ): Promise<string> {
+    // プロバイダー未設定の場合はモック回答
+    if (!this.askProvider) {
+      return this.getMockAnswer(question, history.length, references);
     }
 
-    const systemPrompt = `あなたは親切で知識豊富な家庭教師です。
-学生からの質問に対して、わかりやすく丁寧に回答してください。
-必要に応じて例を挙げて説明してください。
-回答は日本語で行ってください。`;
-
-    const userPrompt = context ? `コンテキスト: ${context}\n\n質問: ${question}` : question;
-
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        max_tokens: 1000,
+      const startedAt = Date.now();
+      const completion = await this.askProvider.complete({
+        messages: this.buildAnswerMessages(question, context, history, references),
+        maxTokens: 1000,
         temperature: 0.7,
       });
+      this.recordUsage('ask', completion, startedAt);
 
-      return response.choices[0]?.message?.content || '回答を生成できませんでした。';
+      return completion.content || '回答を生成できませんでした。';
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error('LLM API error:', error);
       throw new Error('AI APIの呼び出しに失敗しました');
     }
   }
 
+  /**
+   * 質問に回答（ストリーミング）
+   * 生成されたテキストを断片ごとにonChunkへ渡し、完了時に全文と使用トークン数を返す
+   */
+  async streamAnswer(
+    question: string,
+    onChunk: (chunk: string) => void,
+    context?: string,
+    history: ChatMessage[] = [],
+    references: RetrievedDocument[] = []
+  ): Promise<StreamedAnswer> {
+    const messages = this.buildAnswerMessages(question, context, history, references);
+
+    // プロバイダー未設定の場合はモック回答を分割して流す
+    if (!this.askProvider) {
+      const answer = this.getMockAnswer(question, history.length, references);
+      for (const chunk of splitIntoChunks(answer)) {
+        await new Promise((resolve) => setImmediate(resolve));
+        onChunk(chunk);
+      }
+      return { answer, usage: estimateUsage(messages, answer) };
+    }
+
+    try {
+      const startedAt = Date.now();
+      const completion = await this.askProvider.stream(
+        { messages, maxTokens: 1000, temperature: 0.7 },
+        onChunk
+      );
+      this.recordUsage('ask', completion, startedAt);
+
+      return {
+        answer: completion.content || '回答を生成できませんでした。',
+        usage: completion.usage,
+      };
+    } catch (error) {
+      console.error('LLM streaming error:', error);
+      throw new Error('AI APIの呼び出しに失敗しました');
+    }
+  }
+
+  /**
+   * 回答用のメッセージ列を構築
+   */
+  private buildAnswerMessages(
+    question: string,
+    context: string | undefined,
+    history: ChatMessage[],
+    references: RetrievedDocument[] = []
+  ): LLMMessage[] {
+    let systemPrompt = `あなたは親切で知識豊富な家庭教師です。
+学生からの質問に対して、わかりやすく丁寧に回答してください。
+必要に応じて例を挙げて説明してください。
+回答は日本語で行ってください。`;
+
+    // 教材と説明が食い違わないよう、参考資料の定義・例文を優先させる
+    if (references.length > 0) {
+      const excerpts = references.map((r, i) => `[${i + 1}] ${r.excerpt}`).join('\n');
+      systemPrompt += `
+
+以下は当サービスの教材の抜粋です。質問に関係する場合は、この定義と例文を優先して使ってください。
+参考資料:
+${excerpts}`;
+    }
+
+    const userPrompt = context ? `コンテキスト: ${context}\n\n質問: ${question}` : question;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...history.map((m) => ({ role: m.role, content: m.content })),
+      { role: 'user', content: userPrompt },
+    ];
+  }
+
   /**
    * クイズの問題を生成
+   * 出力を検証し、不正な場合は問題点を伝えて修正を依頼する（回数上限あり）
+   *
+   * @throws QuizGenerationError 上限まで修正しても有効な問題が得られなかった場合
    */
-  async generateQuiz(topic: string, difficulty: string = 'medium'): Promise<QuizQuestion[]> {
-    if (!this.client) {
+  async generateQuiz(
+    topic: string,
+    difficulty: string = 'medium'
+  ): Promise<MultipleChoiceQuestion[]> {
+    if (!this.quizProvider) {
       return this.getMockQuiz(topic);
     }
 
-    const prompt = `「${topic}」に関する${difficulty}難易度のクイズを3問作成してください。
-各問題は以下のJSON形式で出力してください:
+    const prompt = `「${topic}」に関する${difficulty}難易度のクイズを${QUIZ_QUESTION_COUNT}問作成してください。
+各問題は4つの異なる選択肢を持ち、correctIndexは正解の選択肢の位置（0〜3）です。
+特定の英単語の意味・用法を問う問題では、wordにその英単語を入れてください（それ以外は省略）。
+以下のJSON形式の配列のみを出力してください:
 [
   {
     "question": "問題文",
     "options": ["選択肢A", "選択肢B", "選択肢C", "選択肢D"],
     "correctIndex": 0,
-    "explanation": "正解の解説"
+    "explanation": "正解の解説",
+    "word": "英単語"
   }
 ]`;
 
+    const maxRepairs =
+      parseInt(process.env.QUIZ_MAX_REPAIR_ATTEMPTS || '', 10) || DEFAULT_QUIZ_MAX_REPAIR_ATTEMPTS;
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let issues: QuizValidationIssue[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+      const isLastAttempt = attempt > maxRepairs;
+      let content: string;
+
+      try {
+        const startedAt = Date.now();
+        const completion = await this.quizProvider.complete({
+          messages,
+          maxTokens: 1500,
+          temperature: 0.8,
+        });
+        // 修正依頼を含め、モデルを呼び出した分はすべて計上する
+        this.recordUsage('quiz', completion, startedAt);
+        content = completion.content;
+      } catch (error) {
+        console.error('Quiz generation error:', error);
+        issues = [{ path: '', message: (error as Error).message }];
+        this.recordGenerationFailure(
+          this.quizProvider,
+          'quiz',
+          'provider',
+          attempt,
+          true,
+          issues,
+          null
+        );
+        throw new QuizGenerationError('AI APIの呼び出しに失敗しました', attempt, issues);
+      }
+
+      const result = parseQuizOutput(content, QUIZ_QUESTION_COUNT);
+      if (result.valid) {
+        return result.questions;
+      }
+
+      issues = result.issues;
+      this.recordGenerationFailure(
+        this.quizProvider,
+        'quiz',
+        'validation',
+        attempt,
+        isLastAttempt,
+        issues,
+        content
+      );
+
+      // 問題点を伝えて修正を依頼
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `出力に次の問題がありました。\n${formatIssues(issues)}\n\n修正したJSON配列のみを出力してください。`,
+        }
+      );
+    }
+
+    console.error('Quiz generation failed after repairs:', { topic, difficulty, issues });
+    throw new QuizGenerationError('有効なクイズを生成できませんでした', maxRepairs + 1, issues);
+  }
+
+  /**
+   * 単語の発音・品詞・意味・例文を生成
+   * known に指定された項目（ユーザーが入力したもの）はそのまま使い、空の項目のみ補う
+   *
+   * @throws WordGenerationError AIの呼び出しに失敗した・出力が不正な場合
+   */
+  async generateWordDetails(word: string, known: Partial<WordDetails> = {}): Promise<WordDetails> {
+    if (!this.wordProvider) {
+      return { ...this.getMockWordDetails(word), ...known };
+    }
+
+    const prompt = `英単語「${word}」の学習用の情報を作成してください。
+${Object.keys(known).length > 0 ? `次の項目は確定しているので、これに合わせてください: ${JSON.stringify(known)}\n` : ''}以下のJSON形式のオブジェクトのみを出力してください:
+{
+  "pronunciation": "IPAの発音記号（例: /ˈwɜːrd/）",
+  "partOfSpeech": "品詞（英語、例: noun）",
+  "definition": "英英の定義",
+  "definitionJa": "日本語の意味",
+  "example": "英語の例文",
+  "exampleJa": "例文の日本語訳"
+}`;
+
+    let content: string;
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4',
+      const startedAt = Date.now();
+      const completion = await this.wordProvider.complete({
         messages: [{ role: 'user', content: prompt }],
-        max_tokens: 1500,
-        temperature: 0.8,
+        maxTokens: 400,
+        temperature: 0.3,
       });
+      this.recordUsage('word', completion, startedAt);
+      content = completion.content;
+    } catch (error) {
+      console.error('Word generation error:', error);
+      const issues = [{ path: '', message: (error as Error).message }];
+      this.recordGenerationFailure(this.wordProvider, 'word', 'provider', 1, true, issues, null);
+      throw new WordGenerationError('AI APIの呼び出しに失敗しました', issues);
+    }
+
+    const issues: QuizValidationIssue[] = [];
+    let data: Record<string, unknown> = {};
+    const json = extractJson(content);
+    try {
+      const parsed = json ? JSON.parse(json) : null;
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        data = parsed;
+      } else {
+        issues.push({ path: '', message: 'JSONオブジェクトが見つかりません' });
+      }
+    } catch {
+      issues.push({ path: '', message: 'JSONとして解析できません' });
+    }
+
+    const details = {} as WordDetails;
+    if (issues.length === 0) {
+      for (const field of WORD_DETAIL_FIELDS) {
+        const value = known[field] ?? data[field];
+        if (typeof value !== 'string' || (!value.trim() && field !== 'pronunciation')) {
+          issues.push({ path: field, message: `${field}が空です` });
+        } else {
+          details[field] = value.trim();
+        }
+      }
+    }
 
-      const content = response.choices[0]?.message?.content || '[]';
-      return JSON.parse(content);
+    if (issues.length > 0) {
+      this.recordGenerationFailure(
+        this.wordProvider,
+        'word',
+        'validation',
+        1,
+        true,
+        issues,
+        content
+      );
+      throw new WordGenerationError('単語の情報を生成できませんでした', issues);
+    }
+    return details;
+  }
+
+  /**
+   * 覚えにくい単語（リーチ）の覚え方（語呂合わせ・イメージ・語源など）を生成
+   *
+   * @param meaning 日本語の意味（分かっている場合はプロンプトに含める）
+   * @throws WordGenerationError AIの呼び出しに失敗した・出力が空の場合
+   */
+  async generateMnemonic(word: string, meaning?: string): Promise<string> {
+    if (!this.wordProvider) {
+      return `【開発モード】${word}の覚え方`;
+    }
+
+    const prompt = `英単語「${word}」${meaning ? `（意味: ${meaning}）` : ''}を何度復習しても覚えられない日本人学習者のために、記憶に残る覚え方を作成してください。
+語呂合わせ・イメージ・語源・似た単語との対比などから1つ選び、日本語で2〜3文にまとめてください。覚え方の本文のみを出力してください。`;
+
+    let content: string;
+    try {
+      const startedAt = Date.now();
+      const completion = await this.wordProvider.complete({
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 300,
+        temperature: 0.7,
+      });
+      this.recordUsage('word', completion, startedAt);
+      content = completion.content.trim();
     } catch (error) {
-      console.error('Quiz generation error:', error);
-      return this.getMockQuiz(topic);
+      console.error('Mnemonic generation error:', error);
+      const issues = [{ path: '', message: (error as Error).message }];
+      this.recordGenerationFailure(this.wordProvider, 'word', 'provider', 1, true, issues, null);
+      throw new WordGenerationError('AI APIの呼び出しに失敗しました', issues);
+    }
+
+    if (!content) {
+      const issues = [{ path: '', message: '覚え方が空です' }];
+      this.recordGenerationFailure(
+        this.wordProvider,
+        'word',
+        'validation',
+        1,
+        true,
+        issues,
+        content
+      );
+      throw new WordGenerationError('覚え方を生成できませんでした', issues);
+    }
+    return content;
+  }
+
+  /**
+   * 利用量を台帳に記録
+   */
+  private recordUsage(feature: LLMFeature, completion: LLMCompletion, startedAt: number): void {
+    try {
+      new UsageService().recordUsage({
+        userId: this.userId,
+        feature,
+        model: completion.model,
+        usage: completion.usage,
+        latencyMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      // 記録の失敗で本処理を止めない
+      console.error('Failed to record AI usage:', error);
     }
   }
 
+  /**
+   * 不正な生成結果を記録（件数を集計できるようにする）
+   */
+  private recordGenerationFailure(
+    provider: LLMProvider,
+    feature: string,
+    stage: 'provider' | 'validation',
+    attempt: number,
+    final: boolean,
+    issues: QuizValidationIssue[],
+    rawOutput: string | null
+  ): void {
+    try {
+      DatabaseService.getInstance()
+        .getDb()
+        .prepare(
+          `
+        INSERT INTO ai_generation_failures (feature, model, stage, attempt, final, issues, raw_output, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `
+        )
+        .run(
+          feature,
+          provider.model,
+          stage,
+          attempt,
+          final ? 1 : 0,
+          JSON.stringify(issues),
+          rawOutput,
+          new Date().toISOString()
+        );
+    } catch (error) {
+      // 記録の失敗で本処理を止めない
+      console.error('Failed to record generation failure:', error);
+    }
+  }
+
+  /**
+   * 生成失敗の集計を取得
+   */
+  getGenerationFailureStats(feature: string, since?: string): GenerationFailureStats {
+    const row = DatabaseService.getInstance()
+      .getDb()
+      .prepare(
+        `
+      SELECT COUNT(*) as invalid_attempts, COALESCE(SUM(final), 0) as unrecoverable
+      FROM ai_generation_failures
+      WHERE feature = ? AND created_at >= ?
+    `
+      )
+      .get(feature, since || '') as { invalid_attempts: number; unrecoverable: number };
+
+    return { invalidAttempts: row.invalid_attempts, unrecoverable: row.unrecoverable };
+  }
+
   /**
    * モック回答（開発・テスト用）
    */
-  private getMockAnswer(question: string): string {
+  private getMockAnswer(
+    question: string,
+    historyLength: number = 0,
+    references: RetrievedDocument[] = []
+  ): string {
+    const historyNote =
+      historyLength > 0 ? `\n（これまでの会話 ${historyLength} 件を踏まえて回答）` : '';
+    const referenceNote =
+      references.length > 0 ? `\n参考: ${references.map((r) => r.headword).join(', ')}` : '';
     return `【開発モード】
-ご質問: "${question}"
+ご質問: "${question}"${historyNote}${referenceNote}
 
 これは開発モードでのモック回答です。
 本番環境ではOpenAI APIを使用して回答を生成します。
@@ -95,12 +523,27 @@ export class AIService {
 環境変数 OPENAI_API_KEY を設定してください。`;
   }
 
+  /**
+   * モックの単語情報（開発・テスト用）
+   */
+  private getMockWordDetails(word: string): WordDetails {
+    return {
+      pronunciation: '',
+      partOfSpeech: 'noun',
+      definition: `[開発モード] definition of ${word}`,
+      definitionJa: `【開発モード】${word}の意味`,
+      example: `This is an example of ${word}.`,
+      exampleJa: `これは${word}の例文です。`,
+    };
+  }
+
   /**
    * モッククイズ（開発・テスト用）
    */
-  private getMockQuiz(_topic: string): QuizQuestion[] {
+  private getMockQuiz(_topic: string): MultipleChoiceQuestion[] {
     return [
       {
+        type: 'multiple_choice',
         question: 'サンプル問題です。これは開発モードのモックデータです。',
         options: ['選択肢A', '選択肢B', '選択肢C', '選択肢D'],
         correctIndex: 0,
@@ -110,9 +553,28 @@ export class AIService {
   }
 }
 
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctIndex: number;
-  explanation: string;
+/**
+ * 会話履歴の1発言
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * ストリーミング回答の結果
+ */
+export interface StreamedAnswer {
+  answer: string;
+  usage: TokenUsage;
+}
+
+/**
+ * AI生成失敗の集計
+ */
+export interface GenerationFailureStats {
+  invalidAttempts: number;
+  unrecoverable: number;
 }
+
+export type { QuizQuestion };
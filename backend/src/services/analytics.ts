@@ -1,4 +1,7 @@
 import { DatabaseService, DbWordHistory } from './database';
+import { ContentRegistry } from './content-registry';
+import { CEFR_LEVELS, CefrLevel, LessonManifest } from './content-validation';
+import { UserService } from './user';
 
 /**
  * 学習分析サービス - パーソナライゼーションの基盤
@@ -9,6 +12,7 @@ import { DatabaseService, DbWordHistory } from './database';
  */
 export class AnalyticsService {
   private db = DatabaseService.getInstance().getDb();
+  private registry = ContentRegistry.forDir();
 
   /**
    * ユーザーの総合学習分析を取得
@@ -420,6 +424,8 @@ export class AnalyticsService {
    */
   async generateAdaptiveCurriculum(userId: string): Promise<AdaptiveCurriculum> {
     const analysis = await this.getComprehensiveAnalysis(userId);
+    const user = await new UserService().getUserById(userId);
+    const cefrLevel = user?.cefrLevel ?? null;
 
     // 今日のタスクを生成
     const todaysTasks: CurriculumTask[] = [];
@@ -442,9 +448,22 @@ export class AnalyticsService {
       title: '新しい単語を学習',
       description: `${newWordsTarget}個の新しい単語を学習`,
       estimatedMinutes: 15,
-      words: [], // 実際の単語はLessonServiceから取得
+      // CEFRレベルが未判定の場合、実際の単語はLessonServiceから取得
+      words: cefrLevel ? this.pickNewWords(userId, cefrLevel, newWordsTarget) : [],
     });
 
+    // レベルに合った未修了のレッスン
+    const lesson = cefrLevel ? this.findNextLesson(userId, cefrLevel) : null;
+    if (lesson) {
+      todaysTasks.push({
+        type: 'lesson',
+        title: lesson.title,
+        description: `${cefrLevel}レベルのレッスンを受講`,
+        estimatedMinutes: lesson.estimatedTime,
+        lessonId: lesson.id,
+      });
+    }
+
     // クイズ
     if (analysis.wordAnalysis.totalWords >= 10) {
       todaysTasks.push({
@@ -459,6 +478,7 @@ export class AnalyticsService {
       userId,
       generatedAt: new Date().toISOString(),
       currentLevel: this.determineLevel(analysis.overallScore),
+      cefrLevel,
       todaysTasks,
       weeklyGoals: this.generateWeeklyGoals(analysis),
       estimatedTotalMinutes: todaysTasks.reduce((sum, t) => sum + t.estimatedMinutes, 0),
@@ -466,13 +486,48 @@ export class AnalyticsService {
   }
 
   /**
-   * ユーザーレベルを判定
+   * 指定したCEFRレベルの教材の単語のうち、まだ学習していない単語を選ぶ
+   */
+  private pickNewWords(userId: string, cefrLevel: CefrLevel, count: number): string[] {
+    const studied = new Set(
+      (
+        this.db.prepare('SELECT word FROM word_history WHERE user_id = ?').all(userId) as {
+          word: string;
+        }[]
+      ).map((row) => row.word.toLowerCase())
+    );
+
+    return this.registry
+      .getVocabularyDecks()
+      .flatMap((deck) => deck.words.filter((w) => (w.cefr ?? deck.level) === cefrLevel))
+      .map((w) => w.word)
+      .filter((word) => !studied.has(word.toLowerCase()))
+      .slice(0, count);
+  }
+
+  /**
+   * 指定したCEFRレベルのレッスンのうち、最初の未修了のレッスンを選ぶ
+   */
+  private findNextLesson(userId: string, cefrLevel: CefrLevel): LessonManifest | null {
+    const completed = new Set(
+      (
+        this.db
+          .prepare('SELECT DISTINCT lesson_id FROM lesson_completions WHERE user_id = ?')
+          .all(userId) as { lesson_id: string }[]
+      ).map((row) => row.lesson_id)
+    );
+
+    return (
+      this.registry.getLessons().find((l) => l.level === cefrLevel && !completed.has(l.id)) ?? null
+    );
+  }
+
+  /**
+   * 総合スコアからCEFRレベルを推定（0〜100を A1〜C2 に等分）
    */
-  private determineLevel(overallScore: number): string {
-    if (overallScore >= 80) return 'advanced';
-    if (overallScore >= 50) return 'intermediate';
-    if (overallScore >= 20) return 'beginner';
-    return 'starter';
+  private determineLevel(overallScore: number): CefrLevel {
+    const index = Math.floor((overallScore / 100) * CEFR_LEVELS.length);
+    return CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, index))];
   }
 
   /**
@@ -588,18 +643,22 @@ export interface Recommendation {
 export interface AdaptiveCurriculum {
   userId: string;
   generatedAt: string;
-  currentLevel: string;
+  /** 学習状況の総合スコアから推定したCEFRレベル */
+  currentLevel: CefrLevel;
+  /** プレースメントテストで判定したCEFRレベル（未受験は null） */
+  cefrLevel: CefrLevel | null;
   todaysTasks: CurriculumTask[];
   weeklyGoals: WeeklyGoal[];
   estimatedTotalMinutes: number;
 }
 
 export interface CurriculumTask {
-  type: 'review' | 'learn' | 'quiz';
+  type: 'review' | 'learn' | 'lesson' | 'quiz';
   title: string;
   description: string;
   estimatedMinutes: number;
   words?: string[];
+  lessonId?: string;
 }
 
 export interface WeeklyGoal {
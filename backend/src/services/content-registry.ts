@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ContentValidationIssue,
+  LESSON_TYPES,
+  LessonManifest,
+  LessonType,
+  VocabularyLessonManifest,
+  validateLessonManifest,
+} from './content-validation';
+
+/**
+ * 教材ディレクトリ（リポジトリ直下の content/）
+ */
+export const DEFAULT_CONTENT_DIR = path.join(__dirname, '../../../content');
+
+/**
+ * 読み込めなかった教材ファイル
+ */
+export interface ContentError {
+  /** content/ からの相対パス */
+  file: string;
+  issues: ContentValidationIssue[];
+}
+
+/**
+ * 解析済みファイルのキャッシュ（更新日時・サイズが変わったら読み直す）
+ */
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  manifest: LessonManifest | null;
+  issues: ContentValidationIssue[];
+}
+
+// 教材ディレクトリごとに1つのレジストリを使い回す
+const registries = new Map<string, ContentRegistry>();
+
+/**
+ * 教材レジストリ - content/ 配下のレッスンマニフェストの検証・キャッシュ
+ * ファイルを置くだけでレッスンが追加され、変更・削除はアクセス時に反映される
+ * 収益化観点：教材の追加をコード変更なしで行い、コンテンツ拡充の速度を上げる
+ */
+export class ContentRegistry {
+  private contentDir: string;
+  private files = new Map<string, CachedFile>();
+  private lessons: LessonManifest[] = [];
+  private errors: ContentError[] = [];
+  private version = 0;
+
+  private constructor(contentDir: string) {
+    this.contentDir = contentDir;
+  }
+
+  /**
+   * 教材ディレクトリのレジストリを取得
+   */
+  static forDir(contentDir: string = DEFAULT_CONTENT_DIR): ContentRegistry {
+    const key = path.resolve(contentDir);
+    let registry = registries.get(key);
+    if (!registry) {
+      registry = new ContentRegistry(key);
+      registries.set(key, registry);
+    }
+    return registry;
+  }
+
+  /**
+   * キャッシュを破棄（テスト用）
+   */
+  static reset(): void {
+    registries.clear();
+  }
+
+  /**
+   * 教材の版（読み込み直すたびに増える。派生キャッシュの無効化に使う）
+   */
+  getVersion(): number {
+    this.refresh();
+    return this.version;
+  }
+
+  /**
+   * 全レッスン（表示順 → 種類 → ID の順）
+   */
+  getLessons(): LessonManifest[] {
+    this.refresh();
+    return this.lessons;
+  }
+
+  /**
+   * レッスンを取得
+   */
+  getLesson(id: string): LessonManifest | null {
+    return this.getLessons().find((l) => l.id === id) ?? null;
+  }
+
+  /**
+   * 語彙レッスン（単語帳）の一覧
+   */
+  getVocabularyDecks(): VocabularyLessonManifest[] {
+    return this.getLessons().filter((l): l is VocabularyLessonManifest => l.type === 'vocabulary');
+  }
+
+  /**
+   * 読み込めなかった教材ファイルと理由
+   */
+  getErrors(): ContentError[] {
+    this.refresh();
+    return this.errors;
+  }
+
+  /**
+   * ファイルの追加・変更・削除を検出し、変化があればレッスン一覧を作り直す
+   */
+  private refresh(): void {
+    const seen = new Set<string>();
+    let changed = false;
+
+    for (const type of LESSON_TYPES) {
+      const dir = path.join(this.contentDir, type);
+      if (!fs.existsSync(dir)) continue;
+
+      for (const fileName of fs.readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+        const filePath = path.join(dir, fileName);
+        seen.add(filePath);
+
+        let stat: fs.Stats;
+        try {
+          stat = fs.statSync(filePath);
+        } catch {
+          continue;
+        }
+
+        const cached = this.files.get(filePath);
+        if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) continue;
+
+        this.files.set(filePath, {
+          mtimeMs: stat.mtimeMs,
+          size: stat.size,
+          ...this.parseFile(type, filePath),
+        });
+        changed = true;
+      }
+    }
+
+    for (const filePath of this.files.keys()) {
+      if (!seen.has(filePath)) {
+        this.files.delete(filePath);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.rebuild();
+    }
+  }
+
+  /**
+   * 教材ファイルを読み込んで検証
+   */
+  private parseFile(type: LessonType, filePath: string): Pick<CachedFile, 'manifest' | 'issues'> {
+    let data: unknown;
+    try {
+      // BOM除去
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        manifest: null,
+        issues: [{ path: '', message: `JSONの解析に失敗しました: ${message}` }],
+      };
+    }
+
+    const result = validateLessonManifest(type, path.basename(filePath), data);
+    return result.valid
+      ? { manifest: result.manifest, issues: [] }
+      : { manifest: null, issues: result.issues };
+  }
+
+  /**
+   * キャッシュからレッスン一覧・エラー一覧を作り直す（IDが重複した場合は先に読んだファイルを優先）
+   * 前提レッスンが存在しない・循環しているレッスンは読み込まない
+   */
+  private rebuild(): void {
+    const lessons: LessonManifest[] = [];
+    const errors: ContentError[] = [];
+    const owners = new Map<string, string>();
+
+    const filePaths = Array.from(this.files.keys()).sort();
+    for (const filePath of filePaths) {
+      const file = path.relative(this.contentDir, filePath);
+      const { manifest, issues } = this.files.get(filePath)!;
+
+      if (!manifest) {
+        errors.push({ file, issues });
+        continue;
+      }
+
+      const owner = owners.get(manifest.id);
+      if (owner) {
+        errors.push({
+          file,
+          issues: [
+            { path: 'id', message: `レッスンID「${manifest.id}」は ${owner} と重複しています` },
+          ],
+        });
+        continue;
+      }
+
+      owners.set(manifest.id, file);
+      lessons.push(manifest);
+    }
+
+    const resolved = resolvePrerequisites(lessons, owners, errors);
+    resolved.sort(
+      (a, b) =>
+        (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) ||
+        LESSON_TYPES.indexOf(a.type) - LESSON_TYPES.indexOf(b.type) ||
+        a.id.localeCompare(b.id)
+    );
+
+    for (const error of errors) {
+      console.error(
+        `Invalid content ${error.file}:`,
+        error.issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')
+      );
+    }
+
+    this.lessons = resolved;
+    this.errors = errors;
+    this.version++;
+  }
+}
+
+/**
+ * 前提レッスンをたどれないレッスンを除き、エラーに追加する
+ * 除外したレッスンを前提にしているレッスンも続けて除外する
+ */
+function resolvePrerequisites(
+  lessons: LessonManifest[],
+  owners: Map<string, string>,
+  errors: ContentError[]
+): LessonManifest[] {
+  let remaining = lessons;
+
+  for (;;) {
+    const ids = new Set(remaining.map((l) => l.id));
+    const missing = remaining.filter((l) => l.prerequisites.some((p) => !ids.has(p.lessonId)));
+    for (const lesson of missing) {
+      errors.push({
+        file: owners.get(lesson.id)!,
+        issues: lesson.prerequisites
+          .filter((p) => !ids.has(p.lessonId))
+          .map((p) => ({
+            path: 'prerequisites',
+            message: `前提レッスン「${p.lessonId}」が見つかりません`,
+          })),
+      });
+    }
+    if (missing.length > 0) {
+      remaining = remaining.filter((l) => !missing.includes(l));
+      continue;
+    }
+
+    const cycles = findPrerequisiteCycles(
+      new Map(remaining.map((l) => [l.id, l.prerequisites.map((p) => p.lessonId)]))
+    );
+    if (cycles.length === 0) {
+      return remaining;
+    }
+
+    const inCycle = new Set<string>();
+    for (const cycle of cycles) {
+      for (const id of cycle.slice(0, -1)) {
+        if (inCycle.has(id)) continue;
+        inCycle.add(id);
+        errors.push({
+          file: owners.get(id)!,
+          issues: [
+            {
+              path: 'prerequisites',
+              message: `前提レッスンが循環しています: ${cycle.join(' → ')}`,
+            },
+          ],
+        });
+      }
+    }
+    remaining = remaining.filter((l) => !inCycle.has(l.id));
+  }
+}
+
+/**
+ * 前提関係（レッスンID → 前提レッスンID）の循環を探す
+ * 循環は先頭のIDを末尾にも含めた経路で返す（例: [a, b, a]）
+ */
+export function findPrerequisiteCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): void => {
+    const index = stack.indexOf(id);
+    if (index >= 0) {
+      cycles.push([...stack.slice(index), id]);
+      return;
+    }
+    if (done.has(id)) return;
+
+    stack.push(id);
+    for (const next of graph.get(id) ?? []) {
+      visit(next);
+    }
+    stack.pop();
+    done.add(id);
+  };
+
+  for (const id of graph.keys()) {
+    visit(id);
+  }
+  return cycles;
+}
@@ -0,0 +1,604 @@
+import path from 'path';
+import { CLOZE_BLANK, MultipleChoiceQuestion } from './quiz-validation';
+import { normalizeAnswer } from './quiz-grading';
+
+/**
+ * レッスンの種類（content/ 直下のディレクトリ名と一致）
+ */
+export type LessonType = 'vocabulary' | 'grammar' | 'reading';
+
+export const LESSON_TYPES: LessonType[] = ['vocabulary', 'grammar', 'reading'];
+
+/**
+ * CEFR（ヨーロッパ言語共通参照枠）のレベル
+ */
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/**
+ * CEFRレベル（易しい順）
+ */
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export function isCefrLevel(value: unknown): value is CefrLevel {
+  return CEFR_LEVELS.includes(value as CefrLevel);
+}
+
+/**
+ * 語彙レッスンの単語
+ */
+export interface VocabularyWord {
+  word: string;
+  pronunciation: string;
+  partOfSpeech: string;
+  definition: string;
+  definitionJa: string;
+  example: string;
+  exampleJa: string;
+  /** CEFRレベル（省略時はレッスンのレベルとみなす） */
+  cefr?: CefrLevel;
+}
+
+/**
+ * 文法演習の形式
+ * - error_correction: 誤りを含む文を正しく書き直す
+ * - transformation: 指示に従って文を書き換える（能動態→受動態など）
+ * - fill_blank: 空欄に入る語句を答える
+ */
+export type GrammarExerciseType = 'error_correction' | 'transformation' | 'fill_blank';
+
+export const GRAMMAR_EXERCISE_TYPES: GrammarExerciseType[] = [
+  'error_correction',
+  'transformation',
+  'fill_blank',
+];
+
+/**
+ * 文法の例文（正しい文と、よくある誤りの対比）
+ */
+export interface GrammarExample {
+  correct: string;
+  incorrect?: string;
+  note?: string;
+}
+
+/**
+ * 文法演習
+ */
+export interface GrammarExercise {
+  type: GrammarExerciseType;
+  /** 指示文（例: 受動態に書き換えてください） */
+  instruction: string;
+  /** 問題の文（穴埋めは空欄 _____ を含む） */
+  sentence: string;
+  answer: string;
+  /** 別解 */
+  acceptedAnswers: string[];
+  explanation: string;
+}
+
+/**
+ * 前提レッスン（minScore 以上の得点で修了していれば満たす）
+ */
+export interface LessonPrerequisite {
+  lessonId: string;
+  /** 合格とみなす最低得点（0〜100） */
+  minScore: number;
+}
+
+/**
+ * 全レッスン共通のマニフェスト項目
+ */
+interface LessonManifestBase {
+  id: string;
+  title: string;
+  description: string;
+  /** CEFRレベル */
+  level: CefrLevel;
+  /** 所要時間の目安（分） */
+  estimatedTime: number;
+  /** 一覧での表示順（小さいほど先。省略時は末尾） */
+  order: number | null;
+  /** 前提レッスン（すべて満たすと解放される） */
+  prerequisites: LessonPrerequisite[];
+}
+
+export interface VocabularyLessonManifest extends LessonManifestBase {
+  type: 'vocabulary';
+  words: VocabularyWord[];
+}
+
+export interface GrammarLessonManifest extends LessonManifestBase {
+  type: 'grammar';
+  /** 文法事項の要点（1文） */
+  rule: string;
+  explanation: string;
+  examples: GrammarExample[];
+  exercises: GrammarExercise[];
+}
+
+/**
+ * 読解レッスン（本文の段落と内容理解の4択問題）
+ */
+export interface ReadingLessonManifest extends LessonManifestBase {
+  type: 'reading';
+  paragraphs: string[];
+  questions: MultipleChoiceQuestion[];
+}
+
+export type LessonManifest =
+  | VocabularyLessonManifest
+  | GrammarLessonManifest
+  | ReadingLessonManifest;
+
+/**
+ * 検証で見つかった問題点
+ */
+export interface ContentValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ManifestValidationResult =
+  | { valid: true; manifest: LessonManifest }
+  | { valid: false; issues: ContentValidationIssue[] };
+
+/**
+ * 語彙1語あたりの学習時間の目安（分）
+ */
+const MINUTES_PER_WORD = 1.5;
+
+/**
+ * 所要時間が指定されていない場合の最小値・文法/読解のデフォルト（分）
+ */
+const MIN_ESTIMATED_TIME = 5;
+const DEFAULT_ESTIMATED_TIME = 10;
+
+/**
+ * レッスンIDの接頭辞
+ */
+const LESSON_ID_PREFIX: Record<LessonType, string> = {
+  vocabulary: 'vocab',
+  grammar: 'grammar',
+  reading: 'reading',
+};
+
+/**
+ * 読解の速度の目安（語/分。所要時間の算出に使う）
+ */
+const READING_WORDS_PER_MINUTE = 100;
+
+/**
+ * 内容理解問題の選択肢数の範囲
+ */
+const MIN_COMPREHENSION_OPTIONS = 2;
+const MAX_COMPREHENSION_OPTIONS = 4;
+
+/**
+ * 前提レッスンの合格点を省略した場合のデフォルト
+ */
+export const DEFAULT_PREREQUISITE_MIN_SCORE = 60;
+
+const LESSON_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const REQUIRED_WORD_FIELDS = [
+  'word',
+  'partOfSpeech',
+  'definition',
+  'definitionJa',
+  'example',
+  'exampleJa',
+] as const;
+
+/**
+ * ファイル名からレッスンIDを生成（vocabulary/basic_english.json → vocab-basic-english）
+ */
+export function lessonIdFromFile(type: LessonType, fileName: string): string {
+  const name = path.basename(fileName, '.json').toLowerCase().replace(/_/g, '-');
+  return `${LESSON_ID_PREFIX[type]}-${name}`;
+}
+
+/**
+ * レッスンマニフェストの実行時検証
+ * id・所要時間は省略可能で、省略時はファイル名・内容の量から決める
+ */
+export function validateLessonManifest(
+  type: LessonType,
+  fileName: string,
+  data: unknown
+): ManifestValidationResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, issues: [{ path: '', message: 'オブジェクトではありません' }] };
+  }
+
+  const m = data as Record<string, unknown>;
+  const issues: ContentValidationIssue[] = [];
+
+  if (m.type !== undefined && m.type !== type) {
+    issues.push({ path: 'type', message: `ディレクトリの種類（${type}）と一致しません` });
+  }
+  if (m.id !== undefined && !(typeof m.id === 'string' && LESSON_ID_PATTERN.test(m.id))) {
+    issues.push({ path: 'id', message: 'idは英小文字・数字・ハイフンのみ使用できます' });
+  }
+  if (!isNonEmptyString(m.title)) {
+    issues.push({ path: 'title', message: 'タイトルが空です' });
+  }
+  if (!isCefrLevel(m.level)) {
+    issues.push({ path: 'level', message: 'レベルは A1〜C2 のいずれかです' });
+  }
+  if (m.description !== undefined && typeof m.description !== 'string') {
+    issues.push({ path: 'description', message: '説明が文字列ではありません' });
+  }
+  if (
+    m.estimatedTime !== undefined &&
+    !(typeof m.estimatedTime === 'number' && m.estimatedTime > 0)
+  ) {
+    issues.push({ path: 'estimatedTime', message: '所要時間が正の数ではありません' });
+  }
+  if (m.order !== undefined && !Number.isInteger(m.order)) {
+    issues.push({ path: 'order', message: '表示順が整数ではありません' });
+  }
+
+  const id = (m.id as string | undefined) ?? lessonIdFromFile(type, fileName);
+  if (m.prerequisites !== undefined) {
+    issues.push(...validatePrerequisites(id, m.prerequisites));
+  }
+
+  if (type === 'vocabulary') {
+    issues.push(...validateWords(m.words));
+  }
+  if (type === 'grammar') {
+    issues.push(...validateGrammar(m));
+  }
+  if (type === 'reading') {
+    issues.push(...validateReading(m));
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const base = {
+    id,
+    title: (m.title as string).trim(),
+    description: ((m.description as string | undefined) ?? '').trim(),
+    level: m.level as CefrLevel,
+    order: (m.order as number | undefined) ?? null,
+    prerequisites: ((m.prerequisites as unknown[] | undefined) ?? []).map(toLessonPrerequisite),
+  };
+
+  if (type === 'vocabulary') {
+    const words = (m.words as Record<string, unknown>[]).map(toVocabularyWord);
+    return {
+      valid: true,
+      manifest: {
+        ...base,
+        type,
+        estimatedTime:
+          (m.estimatedTime as number | undefined) ??
+          Math.max(MIN_ESTIMATED_TIME, Math.ceil(words.length * MINUTES_PER_WORD)),
+        words,
+      },
+    };
+  }
+
+  if (type === 'grammar') {
+    const examples = m.examples as Record<string, unknown>[];
+    const exercises = m.exercises as Record<string, unknown>[];
+    return {
+      valid: true,
+      manifest: {
+        ...base,
+        type,
+        estimatedTime: (m.estimatedTime as number | undefined) ?? DEFAULT_ESTIMATED_TIME,
+        rule: (m.rule as string).trim(),
+        explanation: (m.explanation as string).trim(),
+        examples: examples.map((e) => ({
+          correct: (e.correct as string).trim(),
+          ...(isNonEmptyString(e.incorrect) ? { incorrect: (e.incorrect as string).trim() } : {}),
+          ...(isNonEmptyString(e.note) ? { note: (e.note as string).trim() } : {}),
+        })),
+        exercises: exercises.map((e) => ({
+          type: e.type as GrammarExerciseType,
+          instruction: (e.instruction as string).trim(),
+          sentence: (e.sentence as string).trim(),
+          answer: (e.answer as string).trim(),
+          acceptedAnswers: ((e.acceptedAnswers as string[] | undefined) ?? []).map((a) => a.trim()),
+          explanation: (e.explanation as string).trim(),
+        })),
+      },
+    };
+  }
+
+  const paragraphs = (m.paragraphs as string[]).map((p) => p.trim());
+  const questions = m.questions as Record<string, unknown>[];
+  const wordCount = paragraphs.join(' ').split(/\s+/).length;
+  return {
+    valid: true,
+    manifest: {
+      ...base,
+      type,
+      estimatedTime:
+        (m.estimatedTime as number | undefined) ??
+        Math.max(
+          MIN_ESTIMATED_TIME,
+          Math.ceil(wordCount / READING_WORDS_PER_MINUTE) + questions.length
+        ),
+      paragraphs,
+      questions: questions.map((q) => ({
+        type: 'multiple_choice',
+        question: (q.question as string).trim(),
+        options: (q.options as string[]).map((o) => o.trim()),
+        correctIndex: q.correctIndex as number,
+        explanation: (q.explanation as string).trim(),
+      })),
+    },
+  };
+}
+
+/**
+ * 単語1語の検証（path は項目名）
+ */
+export function validateVocabularyWord(w: Record<string, unknown>): ContentValidationIssue[] {
+  const issues: ContentValidationIssue[] = [];
+  for (const field of REQUIRED_WORD_FIELDS) {
+    if (!isNonEmptyString(w[field])) {
+      issues.push({ path: field, message: `${field}が空です` });
+    }
+  }
+  if (w.pronunciation !== undefined && typeof w.pronunciation !== 'string') {
+    issues.push({ path: 'pronunciation', message: '発音が文字列ではありません' });
+  }
+  if (w.cefr !== undefined && !isCefrLevel(w.cefr)) {
+    issues.push({ path: 'cefr', message: 'CEFRレベルは A1〜C2 のいずれかです' });
+  }
+  return issues;
+}
+
+/**
+ * 検証済みの単語を VocabularyWord に整形（前後の空白を除く）
+ */
+export function toVocabularyWord(w: Record<string, unknown>): VocabularyWord {
+  return {
+    word: (w.word as string).trim(),
+    pronunciation: ((w.pronunciation as string | undefined) ?? '').trim(),
+    partOfSpeech: (w.partOfSpeech as string).trim(),
+    definition: (w.definition as string).trim(),
+    definitionJa: (w.definitionJa as string).trim(),
+    example: (w.example as string).trim(),
+    exampleJa: (w.exampleJa as string).trim(),
+    ...(w.cefr !== undefined ? { cefr: w.cefr as CefrLevel } : {}),
+  };
+}
+
+/**
+ * 前提レッスンの検証
+ * レッスンIDの文字列、または { lessonId, minScore } で指定する
+ * （存在しないIDや循環は全レッスンを読み込んだ後に ContentRegistry が検出する）
+ */
+function validatePrerequisites(id: string, prerequisites: unknown): ContentValidationIssue[] {
+  if (!Array.isArray(prerequisites)) {
+    return [{ path: 'prerequisites', message: '前提レッスンが配列ではありません' }];
+  }
+
+  const issues: ContentValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  prerequisites.forEach((item, index) => {
+    const itemPath = `prerequisites[${index}]`;
+    const p = (typeof item === 'string' ? { lessonId: item } : item) as Record<string, unknown>;
+    if (!p || typeof p !== 'object') {
+      issues.push({ path: itemPath, message: 'レッスンIDまたはオブジェクトではありません' });
+      return;
+    }
+    if (!(typeof p.lessonId === 'string' && LESSON_ID_PATTERN.test(p.lessonId))) {
+      issues.push({ path: `${itemPath}.lessonId`, message: 'レッスンIDが不正です' });
+      return;
+    }
+    if (
+      p.minScore !== undefined &&
+      !(typeof p.minScore === 'number' && p.minScore >= 0 && p.minScore <= 100)
+    ) {
+      issues.push({ path: `${itemPath}.minScore`, message: '合格点が0〜100の数ではありません' });
+    }
+    if (p.lessonId === id) {
+      issues.push({ path: `${itemPath}.lessonId`, message: '自分自身を前提にできません' });
+    }
+    if (seen.has(p.lessonId)) {
+      issues.push({
+        path: `${itemPath}.lessonId`,
+        message: `前提レッスンが重複しています（${p.lessonId}）`,
+      });
+    }
+    seen.add(p.lessonId);
+  });
+
+  return issues;
+}
+
+function toLessonPrerequisite(item: unknown): LessonPrerequisite {
+  if (typeof item === 'string') {
+    return { lessonId: item, minScore: DEFAULT_PREREQUISITE_MIN_SCORE };
+  }
+  const p = item as Record<string, unknown>;
+  return {
+    lessonId: p.lessonId as string,
+    minScore: (p.minScore as number | undefined) ?? DEFAULT_PREREQUISITE_MIN_SCORE,
+  };
+}
+
+/**
+ * 語彙レッスンの単語配列の検証
+ */
+function validateWords(words: unknown): ContentValidationIssue[] {
+  if (!Array.isArray(words) || words.length === 0) {
+    return [{ path: 'words', message: '単語の配列が空です' }];
+  }
+
+  const issues: ContentValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  words.forEach((item, index) => {
+    const itemPath = `words[${index}]`;
+    if (!item || typeof item !== 'object') {
+      issues.push({ path: itemPath, message: 'オブジェクトではありません' });
+      return;
+    }
+
+    const w = item as Record<string, unknown>;
+    for (const issue of validateVocabularyWord(w)) {
+      issues.push({ path: `${itemPath}.${issue.path}`, message: issue.message });
+    }
+
+    if (isNonEmptyString(w.word)) {
+      const key = (w.word as string).trim().toLowerCase();
+      if (seen.has(key)) {
+        issues.push({ path: `${itemPath}.word`, message: `単語が重複しています（${key}）` });
+      }
+      seen.add(key);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * 文法レッスンの解説・例文・演習の検証
+ */
+function validateGrammar(m: Record<string, unknown>): ContentValidationIssue[] {
+  const issues: ContentValidationIssue[] = [];
+
+  if (!isNonEmptyString(m.rule)) {
+    issues.push({ path: 'rule', message: '文法事項が空です' });
+  }
+  if (!isNonEmptyString(m.explanation)) {
+    issues.push({ path: 'explanation', message: '解説が空です' });
+  }
+
+  if (!Array.isArray(m.examples) || m.examples.length === 0) {
+    issues.push({ path: 'examples', message: '例文の配列が空です' });
+  } else {
+    m.examples.forEach((item, index) => {
+      const itemPath = `examples[${index}]`;
+      const e = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      if (!isNonEmptyString(e.correct)) {
+        issues.push({ path: `${itemPath}.correct`, message: '正しい例文が空です' });
+      }
+      for (const field of ['incorrect', 'note'] as const) {
+        if (e[field] !== undefined && typeof e[field] !== 'string') {
+          issues.push({ path: `${itemPath}.${field}`, message: `${field}が文字列ではありません` });
+        }
+      }
+    });
+  }
+
+  if (!Array.isArray(m.exercises) || m.exercises.length === 0) {
+    issues.push({ path: 'exercises', message: '演習の配列が空です' });
+    return issues;
+  }
+
+  m.exercises.forEach((item, index) => {
+    const itemPath = `exercises[${index}]`;
+    if (!item || typeof item !== 'object') {
+      issues.push({ path: itemPath, message: 'オブジェクトではありません' });
+      return;
+    }
+
+    const e = item as Record<string, unknown>;
+    if (!GRAMMAR_EXERCISE_TYPES.includes(e.type as GrammarExerciseType)) {
+      issues.push({ path: `${itemPath}.type`, message: '演習の形式が不正です' });
+    }
+    for (const field of ['instruction', 'sentence', 'answer', 'explanation'] as const) {
+      if (!isNonEmptyString(e[field])) {
+        issues.push({ path: `${itemPath}.${field}`, message: `${field}が空です` });
+      }
+    }
+    if (
+      e.acceptedAnswers !== undefined &&
+      !(Array.isArray(e.acceptedAnswers) && e.acceptedAnswers.every(isNonEmptyString))
+    ) {
+      issues.push({
+        path: `${itemPath}.acceptedAnswers`,
+        message: '別解が文字列の配列ではありません',
+      });
+    }
+
+    if (!isNonEmptyString(e.sentence) || !isNonEmptyString(e.answer)) return;
+    const sentence = e.sentence as string;
+    if (e.type === 'fill_blank' && !sentence.includes(CLOZE_BLANK)) {
+      issues.push({ path: `${itemPath}.sentence`, message: `空欄（${CLOZE_BLANK}）がありません` });
+    }
+    if (
+      e.type === 'error_correction' &&
+      normalizeAnswer(sentence) === normalizeAnswer(e.answer as string)
+    ) {
+      issues.push({ path: `${itemPath}.answer`, message: '正解が問題の文と同じです' });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * 読解レッスンの本文・内容理解問題の検証
+ */
+function validateReading(m: Record<string, unknown>): ContentValidationIssue[] {
+  const issues: ContentValidationIssue[] = [];
+
+  if (
+    !Array.isArray(m.paragraphs) ||
+    m.paragraphs.length === 0 ||
+    !m.paragraphs.every(isNonEmptyString)
+  ) {
+    issues.push({ path: 'paragraphs', message: '本文の段落が空です' });
+  }
+
+  if (!Array.isArray(m.questions) || m.questions.length === 0) {
+    issues.push({ path: 'questions', message: '内容理解問題の配列が空です' });
+    return issues;
+  }
+
+  m.questions.forEach((item, index) => {
+    const itemPath = `questions[${index}]`;
+    if (!item || typeof item !== 'object') {
+      issues.push({ path: itemPath, message: 'オブジェクトではありません' });
+      return;
+    }
+
+    const q = item as Record<string, unknown>;
+    for (const field of ['question', 'explanation'] as const) {
+      if (!isNonEmptyString(q[field])) {
+        issues.push({ path: `${itemPath}.${field}`, message: `${field}が空です` });
+      }
+    }
+
+    const options = q.options;
+    if (
+      !Array.isArray(options) ||
+      options.length < MIN_COMPREHENSION_OPTIONS ||
+      options.length > MAX_COMPREHENSION_OPTIONS ||
+      !options.every(isNonEmptyString)
+    ) {
+      issues.push({
+        path: `${itemPath}.options`,
+        message: `選択肢は${MIN_COMPREHENSION_OPTIONS}〜${MAX_COMPREHENSION_OPTIONS}個の文字列です`,
+      });
+      return;
+    }
+    if (new Set(options.map((o: string) => o.trim())).size !== options.length) {
+      issues.push({ path: `${itemPath}.options`, message: '選択肢が重複しています' });
+    }
+    if (
+      !Number.isInteger(q.correctIndex) ||
+      (q.correctIndex as number) < 0 ||
+      (q.correctIndex as number) >= options.length
+    ) {
+      issues.push({ path: `${itemPath}.correctIndex`, message: '正解の位置が範囲外です' });
+    }
+  });
+
+  return issues;
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
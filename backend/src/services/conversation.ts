@@ -0,0 +1,328 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, DbConversation, DbConversationMessage } from './database';
+import { AIService, ChatMessage } from './ai';
+import { estimateTokens, TokenUsage } from './llm-provider';
+import { AnswerSource, RetrievalService } from './retrieval';
+
+/**
+ * 会話履歴としてモデルに再送するトークン数の上限（デフォルト）
+ */
+const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+/**
+ * 自動タイトルの最大文字数
+ */
+const TITLE_MAX_LENGTH = 30;
+
+/**
+ * 会話サービス - AIチューターとの複数ターンの会話スレッド管理
+ * 収益化観点：文脈を踏まえた追加質問ができることで、チューター体験の価値が上がる
+ */
+export class ConversationService {
+  private db = DatabaseService.getInstance().getDb();
+  private aiService: AIService;
+  private retrievalService: RetrievalService;
+  private historyTokenBudget: number;
+
+  constructor(
+    aiService: AIService = new AIService(),
+    retrievalService: RetrievalService = new RetrievalService()
+  ) {
+    this.aiService = aiService;
+    this.retrievalService = retrievalService;
+    this.historyTokenBudget =
+      parseInt(process.env.CONVERSATION_HISTORY_TOKEN_BUDGET || '', 10) ||
+      DEFAULT_HISTORY_TOKEN_BUDGET;
+  }
+
+  /**
+   * DBレコードをConversationに変換
+   */
+  private dbToConversation(row: DbConversation): Conversation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * DBレコードをConversationMessageに変換
+   */
+  private dbToMessage(row: DbConversationMessage): ConversationMessage {
+    return {
+      id: row.id,
+      role: row.role as ConversationMessage['role'],
+      content: row.content,
+      tokens: row.tokens,
+      sources: row.sources ? JSON.parse(row.sources) : [],
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * 新しい会話スレッドを作成
+   */
+  async createConversation(userId: string, title?: string): Promise<Conversation> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO conversations (id, user_id, title, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `
+      )
+      .run(id, userId, title || null, now, now);
+
+    return { id, userId, title: title || null, createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * ユーザーの会話スレッド一覧を取得（更新日時の新しい順）
+   */
+  async listConversations(userId: string, limit: number = 20): Promise<Conversation[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT * FROM conversations
+      WHERE user_id = ?
+      ORDER BY updated_at DESC
+      LIMIT ?
+    `
+      )
+      .all(userId, limit) as DbConversation[];
+
+    return rows.map((row) => this.dbToConversation(row));
+  }
+
+  /**
+   * 会話スレッドを取得（他ユーザーのスレッドはnull）
+   */
+  async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    const row = this.db
+      .prepare('SELECT * FROM conversations WHERE id = ? AND user_id = ?')
+      .get(conversationId, userId) as DbConversation | undefined;
+
+    return row ? this.dbToConversation(row) : null;
+  }
+
+  /**
+   * 会話スレッドのメッセージを取得（古い順）
+   */
+  async getMessages(conversationId: string): Promise<ConversationMessage[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT * FROM conversation_messages
+      WHERE conversation_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `
+      )
+      .all(conversationId) as DbConversationMessage[];
+
+    return rows.map((row) => this.dbToMessage(row));
+  }
+
+  /**
+   * 会話スレッドを削除
+   */
+  async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) return false;
+
+    this.db
+      .prepare('DELETE FROM conversation_messages WHERE conversation_id = ?')
+      .run(conversationId);
+    this.db.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+
+    return true;
+  }
+
+  /**
+   * メッセージを追加
+   */
+  async addMessage(
+    conversationId: string,
+    role: ConversationMessage['role'],
+    content: string,
+    sources: AnswerSource[] = []
+  ): Promise<ConversationMessage> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const tokens = estimateTokens(content);
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO conversation_messages (id, conversation_id, role, content, tokens, sources, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        id,
+        conversationId,
+        role,
+        content,
+        tokens,
+        sources.length > 0 ? JSON.stringify(sources) : null,
+        now
+      );
+
+    this.db
+      .prepare('UPDATE conversations SET updated_at = ? WHERE id = ?')
+      .run(now, conversationId);
+
+    return { id, role, content, tokens, sources, createdAt: now };
+  }
+
+  /**
+   * モデルに再送する会話履歴を構築
+   * トークン予算を超える場合は古いターンから切り捨てる（ユーザー発言から始まるよう調整）
+   */
+  buildHistory(
+    messages: ConversationMessage[],
+    budget: number = this.historyTokenBudget
+  ): ChatMessage[] {
+    const kept: ConversationMessage[] = [];
+    let total = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (total + message.tokens > budget) break;
+      total += message.tokens;
+      kept.unshift(message);
+    }
+
+    // アシスタントの発言から始まると文脈が崩れるため先頭を揃える
+    while (kept.length > 0 && kept[0].role !== 'user') {
+      kept.shift();
+    }
+
+    return kept.map((m) => ({ role: m.role, content: m.content }));
+  }
+
+  /**
+   * 質問から自動タイトルを生成
+   */
+  generateTitle(question: string): string {
+    const singleLine = question.replace(/\s+/g, ' ').trim();
+    const chars = Array.from(singleLine);
+    if (chars.length <= TITLE_MAX_LENGTH) return singleLine;
+    return chars.slice(0, TITLE_MAX_LENGTH).join('') + '…';
+  }
+
+  /**
+   * スレッド内で質問し、過去のターンを踏まえた回答を保存して返す
+   * conversationId が null の場合は、回答の生成に成功してから新しいスレッドを作成する
+   */
+  async ask(
+    userId: string,
+    conversationId: string | null,
+    question: string,
+    context?: string
+  ): Promise<ConversationTurn | null> {
+    const conversation = conversationId ? await this.getConversation(userId, conversationId) : null;
+    if (conversationId && !conversation) return null;
+
+    const history = conversation ? this.buildHistory(await this.getMessages(conversation.id)) : [];
+    const references = this.retrievalService.search(question);
+    const answer = await this.aiService.answerQuestion(question, context, history, references);
+
+    return this.saveTurn(
+      conversation ?? (await this.createConversation(userId)),
+      question,
+      answer,
+      this.retrievalService.toSources(references)
+    );
+  }
+
+  /**
+   * スレッド内で質問し、回答をストリーミングしながら生成する
+   * 回答はすべて受信し終えてから保存する（新しいスレッドもその時点で作成する）
+   */
+  async askStream(
+    userId: string,
+    conversationId: string | null,
+    question: string,
+    onChunk: (chunk: string) => void,
+    context?: string
+  ): Promise<StreamedConversationTurn | null> {
+    const conversation = conversationId ? await this.getConversation(userId, conversationId) : null;
+    if (conversationId && !conversation) return null;
+
+    const history = conversation ? this.buildHistory(await this.getMessages(conversation.id)) : [];
+    const references = this.retrievalService.search(question);
+    const { answer, usage } = await this.aiService.streamAnswer(
+      question,
+      onChunk,
+      context,
+      history,
+      references
+    );
+
+    const turn = await this.saveTurn(
+      conversation ?? (await this.createConversation(userId)),
+      question,
+      answer,
+      this.retrievalService.toSources(references)
+    );
+    return { ...turn, usage };
+  }
+
+  /**
+   * 質問と回答（出典付き）を保存し、最初の質問ならタイトルを自動設定
+   */
+  private async saveTurn(
+    conversation: Conversation,
+    question: string,
+    answer: string,
+    sources: AnswerSource[]
+  ): Promise<ConversationTurn> {
+    const userMessage = await this.addMessage(conversation.id, 'user', question);
+    const assistantMessage = await this.addMessage(conversation.id, 'assistant', answer, sources);
+
+    if (!conversation.title) {
+      const title = this.generateTitle(question);
+      this.db
+        .prepare('UPDATE conversations SET title = ? WHERE id = ?')
+        .run(title, conversation.id);
+      conversation.title = title;
+    }
+    conversation.updatedAt = assistantMessage.createdAt;
+
+    return { conversation, userMessage, assistantMessage };
+  }
+}
+
+// 型定義
+export interface Conversation {
+  id: string;
+  userId: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  tokens: number;
+  /** 回答の根拠にした教材エントリ（アシスタントの発言のみ） */
+  sources: AnswerSource[];
+  createdAt: string;
+}
+
+export interface ConversationTurn {
+  conversation: Conversation;
+  userMessage: ConversationMessage;
+  assistantMessage: ConversationMessage;
+}
+
+export interface StreamedConversationTurn extends ConversationTurn {
+  usage: TokenUsage;
+}
@@ -55,9 +55,13 @@ export class DatabaseService {
         plan TEXT DEFAULT 'free',
         daily_questions_used INTEGER DEFAULT 0,
         last_question_date TEXT,
+        cefr_level TEXT,
+        cefr_assessed_at TEXT,
         created_at TEXT NOT NULL
       )
     `);
+    this.ensureColumn('users', 'cefr_level', 'TEXT');
+    this.ensureColumn('users', 'cefr_assessed_at', 'TEXT');
 
     // 学習進捗テーブル
     this.db.exec(`
@@ -98,6 +102,85 @@ export class DatabaseService {
       )
     `);
 
+    // クイズテーブル（生成したクイズをユーザーごとのインスタンスとして保存）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quizzes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        topic TEXT NOT NULL,
+        difficulty TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        completed_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // クイズ問題テーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quiz_questions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quiz_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL DEFAULT 'multiple_choice',
+        question TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        explanation TEXT NOT NULL,
+        word TEXT,
+        item_id INTEGER,
+        FOREIGN KEY (quiz_id) REFERENCES quizzes(id) ON DELETE CASCADE,
+        FOREIGN KEY (item_id) REFERENCES quiz_items(id)
+      )
+    `);
+
+    // 問題バンクテーブル（トピックごとの問題とIRTパラメータ）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quiz_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        topic TEXT NOT NULL,
+        type TEXT NOT NULL,
+        question TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        explanation TEXT NOT NULL,
+        word TEXT,
+        difficulty REAL NOT NULL DEFAULT 0,
+        discrimination REAL NOT NULL DEFAULT 1,
+        response_count INTEGER DEFAULT 0,
+        correct_count INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL,
+        UNIQUE(topic, type, question)
+      )
+    `);
+
+    // 問題ごとの回答記録テーブル（能力推定・難易度の較正用）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS item_responses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        item_id INTEGER NOT NULL,
+        quiz_id TEXT,
+        topic TEXT NOT NULL,
+        correct INTEGER NOT NULL,
+        answered_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (item_id) REFERENCES quiz_items(id) ON DELETE CASCADE
+      )
+    `);
+
+    // トピック別能力推定テーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS user_abilities (
+        user_id TEXT NOT NULL,
+        topic TEXT NOT NULL,
+        theta REAL NOT NULL DEFAULT 0,
+        standard_error REAL NOT NULL DEFAULT 1,
+        response_count INTEGER DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, topic),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
     // 単語学習履歴テーブル（スペースドリピティション用）
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS word_history (
@@ -110,10 +193,93 @@ export class DatabaseService {
         next_review TEXT,
         ease_factor REAL DEFAULT 2.5,
         interval INTEGER DEFAULT 1,
+        stability REAL,
+        difficulty REAL,
+        state TEXT DEFAULT 'active',
+        buried_until TEXT,
+        lapses INTEGER DEFAULT 0,
+        mnemonic TEXT,
         FOREIGN KEY (user_id) REFERENCES users(id),
         UNIQUE(user_id, word)
       )
     `);
+    this.ensureColumn('word_history', 'stability', 'REAL');
+    this.ensureColumn('word_history', 'difficulty', 'REAL');
+    this.ensureColumn('word_history', 'state', "TEXT DEFAULT 'active'");
+    this.ensureColumn('word_history', 'buried_until', 'TEXT');
+    this.ensureColumn('word_history', 'lapses', 'INTEGER DEFAULT 0');
+    this.ensureColumn('word_history', 'mnemonic', 'TEXT');
+
+    // 復習ログテーブル（追記のみ。1回の復習ごとに1行）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS review_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        word TEXT NOT NULL,
+        reviewed_at TEXT NOT NULL,
+        quality INTEGER NOT NULL,
+        response_time_ms INTEGER,
+        previous_interval INTEGER,
+        new_interval INTEGER NOT NULL,
+        previous_ease_factor REAL,
+        new_ease_factor REAL NOT NULL,
+        scheduler_version TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    // ユーザーごとに調整したスケジューラーのパラメータテーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS scheduler_parameters (
+        user_id TEXT PRIMARY KEY,
+        fsrs_weights TEXT NOT NULL,
+        sm2_initial_ease_factor REAL NOT NULL,
+        sm2_interval_modifier REAL NOT NULL,
+        review_count INTEGER NOT NULL,
+        log_loss_before REAL NOT NULL,
+        log_loss_after REAL NOT NULL,
+        retention_before REAL NOT NULL,
+        retention_after REAL NOT NULL,
+        optimized_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    // 復習スケジューラー設定テーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS review_settings (
+        user_id TEXT PRIMARY KEY,
+        scheduler TEXT DEFAULT 'sm2',
+        desired_retention REAL DEFAULT 0.9,
+        leech_threshold INTEGER DEFAULT 8,
+        leech_mnemonic INTEGER DEFAULT 1,
+        new_cards_per_day INTEGER DEFAULT 10,
+        max_reviews_per_day INTEGER DEFAULT 100,
+        study_decks TEXT,
+        updated_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+    this.ensureColumn('review_settings', 'leech_threshold', 'INTEGER DEFAULT 8');
+    this.ensureColumn('review_settings', 'leech_mnemonic', 'INTEGER DEFAULT 1');
+    this.ensureColumn('review_settings', 'new_cards_per_day', 'INTEGER DEFAULT 10');
+    this.ensureColumn('review_settings', 'max_reviews_per_day', 'INTEGER DEFAULT 100');
+    this.ensureColumn('review_settings', 'study_decks', 'TEXT');
+
+    // お知らせテーブル（リーチになった単語など、アプリ内で知らせる出来事）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        data TEXT,
+        created_at TEXT NOT NULL,
+        read_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
 
     // 学習リマインダー設定テーブル
     this.db.exec(`
@@ -138,21 +304,172 @@ export class DatabaseService {
         words_reviewed INTEGER DEFAULT 0,
         quiz_completed INTEGER DEFAULT 0,
         from_reminder INTEGER DEFAULT 0,
+        reading_seconds INTEGER DEFAULT 0,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+    this.ensureColumn('learning_sessions', 'reading_seconds', 'INTEGER DEFAULT 0');
+
+    // AIチューター会話スレッドテーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
         FOREIGN KEY (user_id) REFERENCES users(id)
       )
     `);
 
+    // 会話メッセージテーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tokens INTEGER DEFAULT 0,
+        sources TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+      )
+    `);
+
+    // AI生成失敗ログテーブル（不正な出力を握りつぶさず計数するため）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_generation_failures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        feature TEXT NOT NULL,
+        model TEXT,
+        stage TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        final INTEGER DEFAULT 0,
+        issues TEXT,
+        raw_output TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // AI利用量台帳テーブル（呼び出しごとのトークン数・推定コスト）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT,
+        feature TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cost_usd REAL DEFAULT 0,
+        latency_ms INTEGER,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 個人の単語帳テーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS personal_decks (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // 個人の単語帳の単語テーブル
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS personal_words (
+        id TEXT PRIMARY KEY,
+        deck_id TEXT NOT NULL,
+        word TEXT NOT NULL,
+        pronunciation TEXT DEFAULT '',
+        part_of_speech TEXT DEFAULT '',
+        definition TEXT DEFAULT '',
+        definition_ja TEXT DEFAULT '',
+        example TEXT DEFAULT '',
+        example_ja TEXT DEFAULT '',
+        ai_generated INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (deck_id) REFERENCES personal_decks(id) ON DELETE CASCADE,
+        UNIQUE(deck_id, word)
+      )
+    `);
+
+    // レッスン受講テーブル（途中から再開するためのステップごとの回答）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS lesson_attempts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        lesson_id TEXT NOT NULL,
+        current_step INTEGER DEFAULT 0,
+        total_steps INTEGER NOT NULL,
+        answers TEXT NOT NULL DEFAULT '[]',
+        score INTEGER,
+        started_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // プレースメントテストテーブル（出題した問題とCEFRレベルの判定結果）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS placement_tests (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        questions TEXT NOT NULL,
+        estimated_level TEXT,
+        score INTEGER,
+        total INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        completed_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
     // インデックス作成
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_lesson_completions_user ON lesson_completions(user_id);
       CREATE INDEX IF NOT EXISTS idx_quiz_results_user ON quiz_results(user_id);
+      CREATE INDEX IF NOT EXISTS idx_quizzes_lookup ON quizzes(user_id, topic, difficulty, expires_at);
+      CREATE INDEX IF NOT EXISTS idx_quiz_questions_quiz ON quiz_questions(quiz_id, position);
+      CREATE INDEX IF NOT EXISTS idx_quiz_items_topic ON quiz_items(topic, difficulty);
+      CREATE INDEX IF NOT EXISTS idx_item_responses_user ON item_responses(user_id, topic);
+      CREATE INDEX IF NOT EXISTS idx_item_responses_quiz ON item_responses(quiz_id);
       CREATE INDEX IF NOT EXISTS idx_word_history_user ON word_history(user_id);
       CREATE INDEX IF NOT EXISTS idx_word_history_review ON word_history(next_review);
+      CREATE INDEX IF NOT EXISTS idx_review_logs_user ON review_logs(user_id, reviewed_at);
+      CREATE INDEX IF NOT EXISTS idx_review_logs_word ON review_logs(user_id, word, reviewed_at);
+      CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at);
       CREATE INDEX IF NOT EXISTS idx_learning_sessions_user ON learning_sessions(user_id);
       CREATE INDEX IF NOT EXISTS idx_learning_sessions_started ON learning_sessions(started_at);
+      CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id, updated_at);
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages_conv ON conversation_messages(conversation_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ai_generation_failures_feature ON ai_generation_failures(feature, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_personal_decks_user ON personal_decks(user_id);
+      CREATE INDEX IF NOT EXISTS idx_personal_words_deck ON personal_words(deck_id);
+      CREATE INDEX IF NOT EXISTS idx_lesson_attempts_user ON lesson_attempts(user_id, lesson_id, updated_at);
+      CREATE INDEX IF NOT EXISTS idx_placement_tests_user ON placement_tests(user_id, created_at);
     `);
   }
 
+  /**
+   * 既存のテーブルに列がなければ追加（CREATE TABLE IF NOT EXISTS は既存テーブルを変更しないため）
+   */
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.pragma(`table_info(${table})`) as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   /**
    * データベースインスタンス取得
    */
@@ -182,10 +499,27 @@ export class DatabaseService {
    * テスト用：全テーブルのデータをクリア
    */
   clearAllData(): void {
+    this.db.exec('DELETE FROM placement_tests');
+    this.db.exec('DELETE FROM lesson_attempts');
+    this.db.exec('DELETE FROM personal_words');
+    this.db.exec('DELETE FROM personal_decks');
+    this.db.exec('DELETE FROM ai_usage');
+    this.db.exec('DELETE FROM ai_generation_failures');
+    this.db.exec('DELETE FROM conversation_messages');
+    this.db.exec('DELETE FROM conversations');
     this.db.exec('DELETE FROM learning_sessions');
     this.db.exec('DELETE FROM reminder_settings');
+    this.db.exec('DELETE FROM notifications');
+    this.db.exec('DELETE FROM scheduler_parameters');
+    this.db.exec('DELETE FROM review_logs');
+    this.db.exec('DELETE FROM review_settings');
     this.db.exec('DELETE FROM word_history');
     this.db.exec('DELETE FROM quiz_results');
+    this.db.exec('DELETE FROM user_abilities');
+    this.db.exec('DELETE FROM item_responses');
+    this.db.exec('DELETE FROM quiz_questions');
+    this.db.exec('DELETE FROM quiz_items');
+    this.db.exec('DELETE FROM quizzes');
     this.db.exec('DELETE FROM lesson_completions');
     this.db.exec('DELETE FROM user_progress');
     this.db.exec('DELETE FROM users');
@@ -201,6 +535,8 @@ export interface DbUser {
   plan: string;
   daily_questions_used: number;
   last_question_date: string | null;
+  cefr_level: string | null;
+  cefr_assessed_at: string | null;
   created_at: string;
 }
 
@@ -241,6 +577,62 @@ export interface DbWordHistory {
   next_review: string | null;
   ease_factor: number;
   interval: number;
+  stability: number | null;
+  difficulty: number | null;
+  state: string; // 'active' | 'suspended' | 'buried' | 'leech'
+  buried_until: string | null;
+  lapses: number;
+  mnemonic: string | null;
+}
+
+export interface DbReviewLog {
+  id: number;
+  user_id: string;
+  word: string;
+  reviewed_at: string;
+  quality: number;
+  response_time_ms: number | null;
+  previous_interval: number | null;
+  new_interval: number;
+  previous_ease_factor: number | null;
+  new_ease_factor: number;
+  scheduler_version: string;
+}
+
+export interface DbSchedulerParameters {
+  user_id: string;
+  fsrs_weights: string; // JSON
+  sm2_initial_ease_factor: number;
+  sm2_interval_modifier: number;
+  review_count: number;
+  log_loss_before: number;
+  log_loss_after: number;
+  retention_before: number;
+  retention_after: number;
+  optimized_at: string;
+}
+
+export interface DbReviewSettings {
+  user_id: string;
+  scheduler: string;
+  desired_retention: number;
+  leech_threshold: number;
+  leech_mnemonic: number; // SQLite: 0 or 1
+  new_cards_per_day: number;
+  max_reviews_per_day: number;
+  study_decks: string | null; // JSON: string[]（null は全単語帳）
+  updated_at: string | null;
+}
+
+export interface DbNotification {
+  id: number;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: string | null; // JSON
+  created_at: string;
+  read_at: string | null;
 }
 
 export interface DbReminderSettings {
@@ -260,4 +652,152 @@ export interface DbLearningSession {
   words_reviewed: number;
   quiz_completed: number;
   from_reminder: number; // SQLite: 0 or 1
+  reading_seconds: number;
+}
+
+export interface DbQuiz {
+  id: string;
+  user_id: string | null;
+  topic: string;
+  difficulty: string;
+  created_at: string;
+  expires_at: string;
+  completed_at: string | null;
+}
+
+export interface DbQuizQuestion {
+  id: number;
+  quiz_id: string;
+  position: number;
+  type: string;
+  question: string;
+  payload: string; // JSON（問題形式ごとの選択肢・正解）
+  explanation: string;
+  word: string | null;
+  item_id: number | null;
+}
+
+export interface DbQuizItem {
+  id: number;
+  topic: string;
+  type: string;
+  question: string;
+  payload: string; // JSON（問題形式ごとの選択肢・正解）
+  explanation: string;
+  word: string | null;
+  difficulty: number;
+  discrimination: number;
+  response_count: number;
+  correct_count: number;
+  created_at: string;
+}
+
+export interface DbItemResponse {
+  id: number;
+  user_id: string;
+  item_id: number;
+  quiz_id: string | null;
+  topic: string;
+  correct: number; // SQLite: 0 or 1
+  answered_at: string;
+}
+
+export interface DbUserAbility {
+  user_id: string;
+  topic: string;
+  theta: number;
+  standard_error: number;
+  response_count: number;
+  updated_at: string;
+}
+
+export interface DbConversation {
+  id: string;
+  user_id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbConversationMessage {
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  tokens: number;
+  sources: string | null;
+  created_at: string;
+}
+
+export interface DbAiGenerationFailure {
+  id: number;
+  feature: string;
+  model: string | null;
+  stage: string;
+  attempt: number;
+  final: number; // SQLite: 0 or 1
+  issues: string | null; // JSON
+  raw_output: string | null;
+  created_at: string;
+}
+
+export interface DbAiUsage {
+  id: number;
+  user_id: string | null;
+  feature: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  latency_ms: number | null;
+  created_at: string;
+}
+
+export interface DbPersonalDeck {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbPersonalWord {
+  id: string;
+  deck_id: string;
+  word: string;
+  pronunciation: string;
+  part_of_speech: string;
+  definition: string;
+  definition_ja: string;
+  example: string;
+  example_ja: string;
+  ai_generated: number; // SQLite: 0 or 1
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbLessonAttempt {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  current_step: number;
+  total_steps: number;
+  answers: string; // JSON: (LessonStepAnswer | null)[]
+  score: number | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface DbPlacementTest {
+  id: string;
+  user_id: string;
+  questions: string; // JSON: PlacementQuestion[]
+  estimated_level: string | null;
+  score: number | null;
+  total: number;
+  created_at: string;
+  completed_at: string | null;
 }
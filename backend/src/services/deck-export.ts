@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseService, DbWordHistory } from './database';
+import { DEFAULT_CONTENT_DIR } from './content-registry';
+import { VocabularyWord } from './content-validation';
+import { LessonService } from './lesson';
+import { PersonalDeckService } from './personal-deck';
+import { writeZip } from './zip';
+
+/**
+ * 書き出し形式
+ */
+export type ExportFormat = 'csv' | 'json' | 'apkg';
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'apkg'];
+
+/**
+ * 学習中の単語と復習スケジュール
+ */
+export interface ExportedWord extends VocabularyWord {
+  correctCount: number;
+  incorrectCount: number;
+  lastReviewed: string | null;
+  nextReview: string | null;
+  easeFactor: number;
+  intervalDays: number;
+}
+
+/**
+ * CSVの列（見出しは項目名のまま。単語帳の取り込みでそのまま読み込める）
+ */
+const CSV_COLUMNS: Exclude<keyof ExportedWord, 'cefr'>[] = [
+  'word',
+  'pronunciation',
+  'partOfSpeech',
+  'definition',
+  'definitionJa',
+  'example',
+  'exampleJa',
+  'correctCount',
+  'incorrectCount',
+  'lastReviewed',
+  'nextReview',
+  'easeFactor',
+  'intervalDays',
+];
+
+/**
+ * Ankiのノートタイプのフィールド（名前は小文字にすると VocabularyWord の項目名と一致する）
+ */
+const ANKI_FIELDS: { name: string; key: Exclude<keyof VocabularyWord, 'cefr'> }[] = [
+  { name: 'Word', key: 'word' },
+  { name: 'Pronunciation', key: 'pronunciation' },
+  { name: 'PartOfSpeech', key: 'partOfSpeech' },
+  { name: 'Definition', key: 'definition' },
+  { name: 'DefinitionJa', key: 'definitionJa' },
+  { name: 'Example', key: 'example' },
+  { name: 'ExampleJa', key: 'exampleJa' },
+];
+
+/**
+ * ノートタイプ・デッキのID（固定にして、再度書き出したものをAnkiで上書きできるようにする）
+ */
+const ANKI_MODEL_ID = 1700000000001;
+const ANKI_DECK_ID = 1700000000002;
+const ANKI_DECK_NAME = 'LearnBuddyAI';
+const ANKI_TAG = 'learnbuddy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ankiコレクション（スキーマ11）のテーブル
+ */
+const ANKI_SCHEMA = `
+  CREATE TABLE col (
+    id INTEGER PRIMARY KEY, crt INTEGER NOT NULL, mod INTEGER NOT NULL, scm INTEGER NOT NULL,
+    ver INTEGER NOT NULL, dty INTEGER NOT NULL, usn INTEGER NOT NULL, ls INTEGER NOT NULL,
+    conf TEXT NOT NULL, models TEXT NOT NULL, decks TEXT NOT NULL, dconf TEXT NOT NULL, tags TEXT NOT NULL
+  );
+  CREATE TABLE notes (
+    id INTEGER PRIMARY KEY, guid TEXT NOT NULL, mid INTEGER NOT NULL, mod INTEGER NOT NULL,
+    usn INTEGER NOT NULL, tags TEXT NOT NULL, flds TEXT NOT NULL, sfld INTEGER NOT NULL,
+    csum INTEGER NOT NULL, flags INTEGER NOT NULL, data TEXT NOT NULL
+  );
+  CREATE TABLE cards (
+    id INTEGER PRIMARY KEY, nid INTEGER NOT NULL, did INTEGER NOT NULL, ord INTEGER NOT NULL,
+    mod INTEGER NOT NULL, usn INTEGER NOT NULL, type INTEGER NOT NULL, queue INTEGER NOT NULL,
+    due INTEGER NOT NULL, ivl INTEGER NOT NULL, factor INTEGER NOT NULL, reps INTEGER NOT NULL,
+    lapses INTEGER NOT NULL, left INTEGER NOT NULL, odue INTEGER NOT NULL, odid INTEGER NOT NULL,
+    flags INTEGER NOT NULL, data TEXT NOT NULL
+  );
+  CREATE TABLE revlog (
+    id INTEGER PRIMARY KEY, cid INTEGER NOT NULL, usn INTEGER NOT NULL, ease INTEGER NOT NULL,
+    ivl INTEGER NOT NULL, lastIvl INTEGER NOT NULL, factor INTEGER NOT NULL, time INTEGER NOT NULL,
+    type INTEGER NOT NULL
+  );
+  CREATE TABLE graves (usn INTEGER NOT NULL, oid INTEGER NOT NULL, type INTEGER NOT NULL);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+/**
+ * CSVのセルを必要に応じてダブルクォートで囲む
+ */
+function csvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ankiのフィールドは HTML として表示されるためエスケープする
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * SHA-1ハッシュ
+ */
+function sha1(text: string): Buffer {
+  return crypto.createHash('sha1').update(text).digest();
+}
+
+/**
+ * ISO日時を1970年からの日数に変換
+ */
+function dayNumber(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / DAY_MS);
+}
+
+/**
+ * 単語帳の書き出しサービス - 学習中の単語と復習スケジュールを CSV・JSON・Ankiパッケージに変換
+ * 収益化観点：Premiumの「データエクスポート」。学習データを持ち出せる安心感が有料プランの決め手になる
+ */
+export class DeckExportService {
+  private db = DatabaseService.getInstance().getDb();
+  private lessonService: LessonService;
+
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.lessonService = new LessonService(contentDir);
+  }
+
+  /**
+   * 学習中の単語（word_history）に単語帳の意味・例文を付けて取得
+   * 個人の単語帳の単語を優先し、どの単語帳にもない単語は意味・例文を空にする
+   */
+  async getExportedWords(userId: string): Promise<ExportedWord[]> {
+    const history = this.db
+      .prepare('SELECT * FROM word_history WHERE user_id = ? ORDER BY word ASC')
+      .all(userId) as DbWordHistory[];
+
+    const vocabulary = [
+      ...(await this.lessonService.getAllVocabularyWords()),
+      ...(await new PersonalDeckService().getAllWords(userId)),
+    ];
+    const vocabMap = new Map(vocabulary.map((w) => [w.word.toLowerCase(), w]));
+
+    return history.map((h) => {
+      const vocab = vocabMap.get(h.word.toLowerCase());
+      return {
+        word: h.word,
+        pronunciation: vocab?.pronunciation ?? '',
+        partOfSpeech: vocab?.partOfSpeech ?? '',
+        definition: vocab?.definition ?? '',
+        definitionJa: vocab?.definitionJa ?? '',
+        example: vocab?.example ?? '',
+        exampleJa: vocab?.exampleJa ?? '',
+        correctCount: h.correct_count,
+        incorrectCount: h.incorrect_count,
+        lastReviewed: h.last_reviewed,
+        nextReview: h.next_review,
+        easeFactor: h.ease_factor,
+        intervalDays: h.interval,
+      };
+    });
+  }
+
+  /**
+   * CSV（Excelで文字化けしないようBOM付きUTF-8）
+   */
+  async exportCsv(userId: string): Promise<string> {
+    const words = await this.getExportedWords(userId);
+    const lines = [
+      CSV_COLUMNS.join(','),
+      ...words.map((w) => CSV_COLUMNS.map((column) => csvCell(w[column])).join(',')),
+    ];
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * JSON
+   */
+  async exportJson(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<{ exportedAt: string; words: ExportedWord[] }> {
+    return { exportedAt: now.toISOString(), words: await this.getExportedWords(userId) };
+  }
+
+  /**
+   * Ankiパッケージ（.apkg）
+   * 復習スケジュールはカードの間隔・易しさ・次回復習日として引き継ぐ（未復習の単語は新規カード）
+   */
+  async exportApkg(userId: string, now: Date = new Date()): Promise<Buffer> {
+    const words = await this.getExportedWords(userId);
+
+    // Ankiの復習日はコレクション作成日からの日数のため、最も早い復習日以前を作成日にする
+    const scheduled = words.filter((w) => w.nextReview).map((w) => dayNumber(w.nextReview!));
+    const createdDay = Math.min(Math.floor(now.getTime() / DAY_MS), ...scheduled);
+    const createdSeconds = createdDay * (DAY_MS / 1000);
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deck-export-'));
+    const dbPath = path.join(tmpDir, 'collection.anki2');
+
+    try {
+      const db = new Database(dbPath);
+      try {
+        db.exec(ANKI_SCHEMA);
+        db.prepare(
+          `INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+           VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')`
+        ).run(
+          createdSeconds,
+          nowMs,
+          nowMs,
+          JSON.stringify(this.ankiConf(words.length)),
+          JSON.stringify(this.ankiModels(nowSeconds)),
+          JSON.stringify(this.ankiDecks(nowSeconds)),
+          JSON.stringify(this.ankiDeckConf())
+        );
+
+        const insertNote = db.prepare(
+          `INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+           VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')`
+        );
+        const insertCard = db.prepare(
+          `INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
+           VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')`
+        );
+
+        db.transaction(() => {
+          words.forEach((w, index) => {
+            const id = nowMs + index;
+            const fields = ANKI_FIELDS.map((f) => escapeHtml(w[f.key]));
+            // 同じ単語は同じguidにして、Anki側で重複ではなく更新として扱わせる
+            const guid = sha1(`${userId}:${w.word}`).toString('base64').slice(0, 10);
+            // csum: 並べ替えフィールドのSHA-1の先頭32ビット（Ankiの重複チェック用）
+            const checksum = sha1(fields[0]).readUInt32BE(0);
+            insertNote.run(
+              id,
+              guid,
+              ANKI_MODEL_ID,
+              nowSeconds,
+              ` ${ANKI_TAG} `,
+              fields.join('\x1f'),
+              fields[0],
+              checksum
+            );
+
+            const review = w.nextReview !== null;
+            insertCard.run(
+              id,
+              id,
+              ANKI_DECK_ID,
+              nowSeconds,
+              review ? 2 : 0, // type: 0=新規, 2=復習
+              review ? 2 : 0, // queue
+              review ? dayNumber(w.nextReview!) - createdDay : index + 1,
+              review ? w.intervalDays : 0,
+              review ? Math.round(w.easeFactor * 1000) : 0,
+              w.correctCount + w.incorrectCount,
+              w.incorrectCount
+            );
+          });
+        })();
+      } finally {
+        db.close();
+      }
+
+      return writeZip([
+        { name: 'collection.anki2', data: fs.readFileSync(dbPath) },
+        { name: 'media', data: Buffer.from('{}') },
+      ]);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * コレクション設定
+   */
+  private ankiConf(noteCount: number): Record<string, unknown> {
+    return {
+      nextPos: noteCount + 1,
+      estTimes: true,
+      activeDecks: [ANKI_DECK_ID],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: ANKI_DECK_ID,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(ANKI_MODEL_ID),
+      collapseTime: 1200,
+    };
+  }
+
+  /**
+   * ノートタイプ（表面：単語、裏面：意味・例文）
+   */
+  private ankiModels(mod: number): Record<string, unknown> {
+    return {
+      [ANKI_MODEL_ID]: {
+        id: ANKI_MODEL_ID,
+        name: `${ANKI_DECK_NAME} Vocabulary`,
+        type: 0,
+        mod,
+        usn: -1,
+        sortf: 0,
+        did: ANKI_DECK_ID,
+        tmpls: [
+          {
+            name: 'Card 1',
+            ord: 0,
+            qfmt: '{{Word}}<br><span class="pron">{{Pronunciation}}</span>',
+            afmt:
+              '{{FrontSide}}<hr id="answer">' +
+              '<i>{{PartOfSpeech}}</i> {{DefinitionJa}}<br>{{Definition}}' +
+              '<p>{{Example}}<br>{{ExampleJa}}</p>',
+            did: null,
+            bqfmt: '',
+            bafmt: '',
+          },
+        ],
+        flds: ANKI_FIELDS.map((f, ord) => ({
+          name: f.name,
+          ord,
+          sticky: false,
+          rtl: false,
+          font: 'Arial',
+          size: 20,
+          media: [],
+        })),
+        css: '.card { font-family: arial; font-size: 20px; text-align: center; } .pron { color: #888; }',
+        latexPre: '',
+        latexPost: '',
+        tags: [],
+        vers: [],
+        req: [[0, 'all', [0]]],
+      },
+    };
+  }
+
+  /**
+   * デッキ（既定のデッキと書き出し用のデッキ）
+   */
+  private ankiDecks(mod: number): Record<string, unknown> {
+    const deck = (id: number, name: string) => ({
+      id,
+      name,
+      desc: '',
+      mod,
+      usn: -1,
+      collapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      dyn: 0,
+      conf: 1,
+      extendNew: 10,
+      extendRev: 50,
+    });
+    return { '1': deck(1, 'Default'), [ANKI_DECK_ID]: deck(ANKI_DECK_ID, ANKI_DECK_NAME) };
+  }
+
+  /**
+   * デッキのオプション（Ankiの既定値）
+   */
+  private ankiDeckConf(): Record<string, unknown> {
+    return {
+      '1': {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: {
+          delays: [1, 10],
+          ints: [1, 4, 7],
+          initialFactor: 2500,
+          order: 1,
+          perDay: 20,
+          bury: true,
+        },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, bury: true, hardFactor: 1.2 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    };
+  }
+}
@@ -0,0 +1,521 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import {
+  ContentValidationIssue,
+  VocabularyWord,
+  lessonIdFromFile,
+  toVocabularyWord,
+  validateLessonManifest,
+  validateVocabularyWord,
+} from './content-validation';
+import { ZipError, readZip } from './zip';
+
+/**
+ * 取り込めるファイル形式
+ */
+export type DeckFileFormat = 'csv' | 'tsv' | 'apkg';
+
+/**
+ * 単語の項目 → 列（見出し名、または0始まりの列番号）
+ */
+export type ColumnMapping = Partial<Record<keyof VocabularyWord, string | number>>;
+
+/**
+ * 列の対応を指定しない場合の、見出しなしファイルの列順
+ */
+export const DEFAULT_COLUMN_ORDER: (keyof VocabularyWord)[] = [
+  'word',
+  'pronunciation',
+  'partOfSpeech',
+  'definition',
+  'definitionJa',
+  'example',
+  'exampleJa',
+];
+
+/**
+ * ファイル名（拡張子なし）として使える文字
+ */
+const DECK_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Ankiのフィールド区切り文字
+ */
+const ANKI_FIELD_SEPARATOR = '\x1f';
+
+/**
+ * 取り込みオプション
+ */
+export interface DeckImportOptions {
+  /** 省略時はファイル名の拡張子から判定 */
+  format?: DeckFileFormat;
+  /** 省略時は見出し名が項目名と一致する列（見出しなしの場合は DEFAULT_COLUMN_ORDER） */
+  mapping?: ColumnMapping;
+  /** CSV/TSVの1行目を見出しとして扱う（デフォルト true） */
+  header?: boolean;
+}
+
+export interface DeckCreateOptions extends DeckImportOptions {
+  /** 保存するファイル名（拡張子なし）。レッスンIDは vocab-<name> */
+  name: string;
+  title: string;
+  /** CEFRレベル（A1〜C2） */
+  level: string;
+  description?: string;
+}
+
+/**
+ * 取り込めなかった行
+ */
+export interface DeckImportRowError {
+  /** CSV/TSVは行番号、Ankiはノートの通し番号（いずれも1始まり） */
+  row: number;
+  field?: string;
+  message: string;
+}
+
+/**
+ * 重複のため取り込まなかった行
+ */
+export interface DeckImportDuplicate {
+  row: number;
+  word: string;
+  /** 既存の語彙レッスン（ファイル内での重複はnull） */
+  lessonId: string | null;
+}
+
+export interface DeckImportReport {
+  format: DeckFileFormat;
+  totalRows: number;
+  words: VocabularyWord[];
+  errors: DeckImportRowError[];
+  duplicates: DeckImportDuplicate[];
+}
+
+/**
+ * 取り込みエラー
+ */
+export class DeckImportError extends Error {
+  readonly code:
+    | 'unsupported_format'
+    | 'invalid_file'
+    | 'invalid_mapping'
+    | 'invalid_deck'
+    | 'no_words'
+    | 'deck_exists';
+  readonly issues: ContentValidationIssue[];
+
+  constructor(
+    code: DeckImportError['code'],
+    message: string,
+    issues: ContentValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = 'DeckImportError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 列見出しと行（見出しがない場合は headers が null）
+ */
+interface Table {
+  headers: string[] | null;
+  rows: { row: number; cells: string[] }[];
+}
+
+/**
+ * ファイル名の拡張子から形式を判定（.txt はタブ区切りとして扱う）
+ */
+export function detectFormat(fileName: string): DeckFileFormat | null {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.csv':
+      return 'csv';
+    case '.tsv':
+    case '.txt':
+      return 'tsv';
+    case '.apkg':
+      return 'apkg';
+    default:
+      return null;
+  }
+}
+
+/**
+ * 区切り文字で区切られたテキストを行・列に分割（RFC 4180 のダブルクォートに対応）
+ * 空行は除き、各行に1始まりの行番号を付ける
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: string
+): { row: number; cells: string[] }[] {
+  const rows: { row: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== '')) {
+      rows.push({ row: rowStart, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Ankiのフィールドからタグ・音声・HTMLエンティティを除く
+ */
+export function stripAnkiHtml(text: string): string {
+  return text
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 「項目 → 列」の文字列指定を ColumnMapping に変換（数字のみの列は列番号として扱う）
+ * CLIの --map word=Front やアップロードの mapping[word]=Front 用
+ */
+export function parseColumnMapping(entries: Record<string, string>): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const [field, column] of Object.entries(entries)) {
+    const value = column.trim();
+    mapping[field as keyof VocabularyWord] = /^\d+$/.test(value) ? Number(value) : value;
+  }
+  return mapping;
+}
+
+/**
+ * 単語の項目ごとの列番号を決める
+ *
+ * @throws DeckImportError 指定された列が見つからない場合
+ */
+function resolveColumns(
+  headers: string[] | null,
+  mapping: ColumnMapping | undefined
+): Partial<Record<keyof VocabularyWord, number>> {
+  const columns: Partial<Record<keyof VocabularyWord, number>> = {};
+
+  if (!mapping) {
+    DEFAULT_COLUMN_ORDER.forEach((field, index) => {
+      const column = headers
+        ? headers.findIndex((h) => h.trim().toLowerCase() === field.toLowerCase())
+        : index;
+      if (column >= 0) columns[field] = column;
+    });
+    return columns;
+  }
+
+  for (const [field, target] of Object.entries(mapping) as [
+    keyof VocabularyWord,
+    string | number,
+  ][]) {
+    if (!DEFAULT_COLUMN_ORDER.includes(field)) {
+      throw new DeckImportError('invalid_mapping', `項目「${field}」は単語の項目ではありません`);
+    }
+    const column =
+      typeof target === 'number'
+        ? target
+        : (headers ?? []).findIndex((h) => h.trim().toLowerCase() === target.trim().toLowerCase());
+    if (!Number.isInteger(column) || column < 0) {
+      throw new DeckImportError('invalid_mapping', `列「${target}」が見つかりません`);
+    }
+    columns[field] = column;
+  }
+  return columns;
+}
+
+/**
+ * 単語帳の取り込みサービス - CSV/TSV・Ankiパッケージを語彙レッスンに変換
+ * 収益化観点：教材・単語帳を手元のファイルから追加でき、教育機関のカスタムコンテンツに使える
+ */
+export class DeckImportService {
+  private contentDir: string;
+  private registry: ContentRegistry;
+
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.contentDir = contentDir;
+    this.registry = ContentRegistry.forDir(contentDir);
+  }
+
+  /**
+   * ファイルを解析し、取り込める単語・行ごとのエラー・重複を返す（保存はしない）
+   *
+   * @throws DeckImportError 形式に対応していない・ファイルを読めない・列の指定が不正な場合
+   */
+  parse(file: Buffer, fileName: string, options: DeckImportOptions = {}): DeckImportReport {
+    const format = options.format ?? detectFormat(fileName);
+    if (!format) {
+      throw new DeckImportError(
+        'unsupported_format',
+        'CSV・TSV・Ankiパッケージ（.apkg）のみ取り込めます'
+      );
+    }
+
+    const tables =
+      format === 'apkg'
+        ? this.readApkg(file)
+        : [this.readDelimited(file, format === 'csv' ? ',' : '\t', options.header ?? true)];
+
+    const existing = new Map<string, string>();
+    for (const deck of this.registry.getVocabularyDecks()) {
+      for (const w of deck.words) {
+        const key = w.word.toLowerCase();
+        if (!existing.has(key)) existing.set(key, deck.id);
+      }
+    }
+
+    const report: DeckImportReport = {
+      format,
+      totalRows: 0,
+      words: [],
+      errors: [],
+      duplicates: [],
+    };
+    const seen = new Set<string>();
+    let mappingError: DeckImportError | null = null;
+    let resolvedTables = 0;
+
+    for (const table of tables) {
+      report.totalRows += table.rows.length;
+
+      let columns: Partial<Record<keyof VocabularyWord, number>>;
+      try {
+        columns = resolveColumns(table.headers, options.mapping);
+      } catch (error) {
+        if (!(error instanceof DeckImportError)) throw error;
+        mappingError = error;
+        for (const { row } of table.rows) {
+          report.errors.push({ row, message: error.message });
+        }
+        continue;
+      }
+      resolvedTables++;
+
+      for (const { row, cells } of table.rows) {
+        const raw: Record<string, unknown> = {};
+        for (const [field, column] of Object.entries(columns)) {
+          const value = (cells[column] ?? '').trim();
+          if (value || field !== 'pronunciation') raw[field] = value;
+        }
+
+        const issues = validateVocabularyWord(raw);
+        if (issues.length > 0) {
+          for (const issue of issues) {
+            report.errors.push({ row, field: issue.path, message: issue.message });
+          }
+          continue;
+        }
+
+        const word = toVocabularyWord(raw);
+        const key = word.word.toLowerCase();
+        if (seen.has(key) || existing.has(key)) {
+          report.duplicates.push({ row, word: word.word, lessonId: existing.get(key) ?? null });
+          continue;
+        }
+        seen.add(key);
+        report.words.push(word);
+      }
+    }
+
+    // どの表にも列の指定が合わない場合は、行ごとのエラーではなく指定の誤りとして返す
+    if (mappingError && resolvedTables === 0) throw mappingError;
+
+    return report;
+  }
+
+  /**
+   * ファイルを取り込み、新しい語彙レッスンとして content/vocabulary に保存
+   * エラー・重複の行は除いて保存する
+   *
+   * @throws DeckImportError 取り込める単語がない・同じ名前の単語帳がある場合など
+   */
+  createDeck(
+    file: Buffer,
+    fileName: string,
+    options: DeckCreateOptions
+  ): { lessonId: string; report: DeckImportReport } {
+    if (!DECK_NAME_PATTERN.test(options.name)) {
+      throw new DeckImportError(
+        'invalid_deck',
+        '単語帳の名前は英小文字・数字・ハイフン・アンダースコアのみ使用できます'
+      );
+    }
+
+    const fileNameOnDisk = `${options.name}.json`;
+    const lessonId = lessonIdFromFile('vocabulary', fileNameOnDisk);
+    const filePath = path.join(this.contentDir, 'vocabulary', fileNameOnDisk);
+    if (this.registry.getLesson(lessonId) || fs.existsSync(filePath)) {
+      throw new DeckImportError('deck_exists', `単語帳「${lessonId}」は既に存在します`);
+    }
+
+    const report = this.parse(file, fileName, options);
+    if (report.words.length === 0) {
+      throw new DeckImportError('no_words', '取り込める単語がありません');
+    }
+
+    const manifest = {
+      title: options.title,
+      description: options.description ?? '',
+      level: options.level,
+      words: report.words,
+    };
+    const result = validateLessonManifest('vocabulary', fileNameOnDisk, manifest);
+    if (!result.valid) {
+      throw new DeckImportError('invalid_deck', '単語帳の情報が不正です', result.issues);
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+    return { lessonId, report };
+  }
+
+  /**
+   * CSV/TSVを表に変換
+   */
+  private readDelimited(file: Buffer, delimiter: string, header: boolean): Table {
+    const rows = parseDelimited(file.toString('utf-8'), delimiter);
+    if (!header) return { headers: null, rows };
+    const [first, ...rest] = rows;
+    return { headers: first?.cells ?? [], rows: rest };
+  }
+
+  /**
+   * Ankiパッケージ（SQLiteデータベースを含むZIP）をノートタイプごとの表に変換
+   * フィールド名を見出しとして扱う
+   */
+  private readApkg(file: Buffer): Table[] {
+    let collection: Buffer;
+    try {
+      const zip = readZip(file);
+      const name = ['collection.anki21', 'collection.anki2'].find((n) => zip.names.includes(n));
+      if (!name) {
+        throw new DeckImportError(
+          'invalid_file',
+          zip.names.includes('collection.anki21b')
+            ? 'この形式のAnkiパッケージには対応していません（Ankiで「旧バージョンのAnkiとの互換性を維持」を有効にしてエクスポートしてください）'
+            : 'Ankiのコレクションが含まれていません'
+        );
+      }
+      collection = zip.extract(name);
+    } catch (error) {
+      if (error instanceof ZipError) {
+        throw new DeckImportError(
+          'invalid_file',
+          `Ankiパッケージを読み込めません: ${error.message}`
+        );
+      }
+      throw error;
+    }
+
+    // better-sqlite3 はファイルから開くため一時ファイルに書き出す
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deck-import-'));
+    const dbPath = path.join(tmpDir, 'collection.anki2');
+    fs.writeFileSync(dbPath, collection);
+
+    let db: Database.Database | null = null;
+    try {
+      db = new Database(dbPath, { readonly: true, fileMustExist: true });
+
+      // ノートタイプ → フィールド名（新しいスキーマは fields テーブル、古いスキーマは col.models）
+      const fieldNames = new Map<number, string[]>();
+      const hasFieldsTable = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'fields'")
+        .get();
+      if (hasFieldsTable) {
+        const rows = db.prepare('SELECT ntid, name FROM fields ORDER BY ntid, ord').all() as {
+          ntid: number;
+          name: string;
+        }[];
+        for (const r of rows) {
+          fieldNames.set(r.ntid, [...(fieldNames.get(r.ntid) ?? []), r.name]);
+        }
+      } else {
+        const col = db.prepare('SELECT models FROM col').get() as { models: string } | undefined;
+        const models = JSON.parse(col?.models || '{}') as Record<
+          string,
+          { flds: { name: string; ord: number }[] }
+        >;
+        for (const [id, model] of Object.entries(models)) {
+          const names = [...model.flds].sort((a, b) => a.ord - b.ord).map((f) => f.name);
+          fieldNames.set(Number(id), names);
+        }
+      }
+
+      const notes = db.prepare('SELECT mid, flds FROM notes ORDER BY id').all() as {
+        mid: number;
+        flds: string;
+      }[];
+
+      const tables = new Map<number, Table>();
+      notes.forEach((note, index) => {
+        let table = tables.get(note.mid);
+        if (!table) {
+          table = { headers: fieldNames.get(note.mid) ?? null, rows: [] };
+          tables.set(note.mid, table);
+        }
+        table.rows.push({
+          row: index + 1,
+          cells: note.flds.split(ANKI_FIELD_SEPARATOR).map(stripAnkiHtml),
+        });
+      });
+
+      return Array.from(tables.values());
+    } catch (error) {
+      if (error instanceof DeckImportError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DeckImportError('invalid_file', `Ankiのコレクションを読み込めません: ${message}`);
+    } finally {
+      db?.close();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+}
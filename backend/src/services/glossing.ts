@@ -0,0 +1,70 @@
+/**
+ * 本文中の語彙の注釈（グロス）
+ */
+export interface Gloss {
+  /** 段落の位置 */
+  paragraph: number;
+  /** 段落内の文字位置（end は含まない） */
+  start: number;
+  end: number;
+  /** 見出し語（単語帳の word） */
+  word: string;
+}
+
+/**
+ * 活用形から見出し語の候補を作る（複数形・三単現・過去形・進行形・副詞の -ly）
+ * 辞書は使わず、候補のうち単語帳にあるものを採用する
+ */
+export function lemmaCandidates(token: string): string[] {
+  const t = token.toLowerCase();
+  const candidates = [t];
+  const doubled = (stem: string) =>
+    stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2] ? [stem.slice(0, -1)] : [];
+
+  if (t.endsWith('ies') || t.endsWith('ied')) candidates.push(t.slice(0, -3) + 'y');
+  if (t.endsWith('es')) candidates.push(t.slice(0, -2));
+  if (t.endsWith('s') && !t.endsWith('ss')) candidates.push(t.slice(0, -1));
+  if (t.endsWith('ed')) {
+    const stem = t.slice(0, -2);
+    candidates.push(stem, stem + 'e', ...doubled(stem));
+  }
+  if (t.endsWith('ing')) {
+    const stem = t.slice(0, -3);
+    candidates.push(stem, stem + 'e', ...doubled(stem));
+  }
+  if (t.endsWith('ily')) candidates.push(t.slice(0, -3) + 'y');
+  if (t.endsWith('ly')) candidates.push(t.slice(0, -2));
+
+  return candidates;
+}
+
+/**
+ * 段落中の単語帳にある語に注釈を付ける（活用形も見出し語に対応付ける）
+ *
+ * @param headwords 単語帳の見出し語（大文字小文字は区別しない）
+ */
+export function glossParagraphs(paragraphs: string[], headwords: Iterable<string>): Gloss[] {
+  const lookup = new Map<string, string>();
+  for (const word of headwords) {
+    lookup.set(word.toLowerCase(), word);
+  }
+
+  const glosses: Gloss[] = [];
+  paragraphs.forEach((text, paragraph) => {
+    for (const match of text.matchAll(/[A-Za-z]+/g)) {
+      const word = lemmaCandidates(match[0])
+        .map((c) => lookup.get(c))
+        .find((w) => w !== undefined);
+      if (word) {
+        glosses.push({
+          paragraph,
+          start: match.index,
+          end: match.index + match[0].length,
+          word,
+        });
+      }
+    }
+  });
+
+  return glosses;
+}
@@ -0,0 +1,170 @@
+/**
+ * 項目反応理論（IRT）の計算
+ * 2パラメータロジスティックモデル（識別力 a = 1 の場合はRaschモデル）
+ */
+
+/**
+ * 能力値・難易度の範囲（推定が発散しないように制限する）
+ */
+export const THETA_MIN = -4;
+export const THETA_MAX = 4;
+
+/**
+ * 能力推定の事前分布（標準正規分布）
+ */
+const PRIOR_MEAN = 0;
+const PRIOR_SD = 1;
+
+/**
+ * ニュートン法の反復上限・収束判定
+ */
+const MAX_ITERATIONS = 30;
+const CONVERGENCE = 1e-4;
+
+/**
+ * 難易度較正の学習率（回答数が増えるほど小さくする）
+ */
+const CALIBRATION_RATE = 0.4;
+const CALIBRATION_DECAY_RESPONSES = 20;
+
+/**
+ * 難易度ラベルと難易度パラメータの対応
+ */
+const LABEL_DIFFICULTY: Record<string, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+/**
+ * 能力値から難易度ラベルを決める境界
+ */
+const LEVEL_BOUNDARY = 0.5;
+
+/**
+ * 問題のIRTパラメータ
+ */
+export interface ItemParameters {
+  /** 難易度 b */
+  difficulty: number;
+  /** 識別力 a */
+  discrimination: number;
+}
+
+/**
+ * 能力推定に使う回答
+ */
+export interface ItemResponse extends ItemParameters {
+  correct: boolean;
+}
+
+/**
+ * 能力推定値
+ */
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 能力 theta の学習者が正解する確率
+ */
+export function probability(theta: number, item: ItemParameters): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+/**
+ * 能力 theta における問題の情報量（大きいほど能力の測定に役立つ）
+ */
+export function itemInformation(theta: number, item: ItemParameters): number {
+  const p = probability(theta, item);
+  return item.discrimination * item.discrimination * p * (1 - p);
+}
+
+/**
+ * 回答から能力値を推定（事前分布付きの最大事後確率推定）
+ * 回答がない場合は事前分布の平均
+ */
+export function estimateAbility(responses: ItemResponse[]): AbilityEstimate {
+  const priorVariance = PRIOR_SD * PRIOR_SD;
+  let theta = PRIOR_MEAN;
+  let information = 1 / priorVariance;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let gradient = -(theta - PRIOR_MEAN) / priorVariance;
+    information = 1 / priorVariance;
+    for (const r of responses) {
+      gradient += r.discrimination * ((r.correct ? 1 : 0) - probability(theta, r));
+      information += itemInformation(theta, r);
+    }
+
+    const next = clamp(theta + gradient / information, THETA_MIN, THETA_MAX);
+    const converged = Math.abs(next - theta) < CONVERGENCE;
+    theta = next;
+    if (converged) break;
+  }
+
+  return { theta, standardError: 1 / Math.sqrt(information) };
+}
+
+/**
+ * 回答1件で問題の難易度を較正（正解が予想より多ければ易しく、少なければ難しくする）
+ *
+ * @param responseCount この回答より前の回答数
+ */
+export function calibrateDifficulty(
+  item: ItemParameters,
+  theta: number,
+  correct: boolean,
+  responseCount: number
+): number {
+  const rate = CALIBRATION_RATE / (1 + responseCount / CALIBRATION_DECAY_RESPONSES);
+  const residual = probability(theta, item) - (correct ? 1 : 0);
+  return clamp(item.difficulty + rate * residual, THETA_MIN, THETA_MAX);
+}
+
+/**
+ * 難易度ラベル（easy / medium / hard）かどうか
+ */
+export function isDifficultyLabel(label: string): boolean {
+  return Object.hasOwn(LABEL_DIFFICULTY, label);
+}
+
+/**
+ * 難易度ラベル（easy / medium / hard）を難易度パラメータに変換（不明なラベルは medium）
+ */
+export function difficultyFromLabel(label: string): number {
+  return LABEL_DIFFICULTY[label] ?? LABEL_DIFFICULTY.medium;
+}
+
+/**
+ * 能力値に合う難易度ラベル
+ */
+export function labelFromTheta(theta: number): 'easy' | 'medium' | 'hard' {
+  if (theta < -LEVEL_BOUNDARY) return 'easy';
+  if (theta > LEVEL_BOUNDARY) return 'hard';
+  return 'medium';
+}
+
+/**
+ * 情報量が最大の問題を選ぶ（候補がない場合はnull）
+ */
+export function selectMostInformative<T extends ItemParameters>(
+  theta: number,
+  items: T[]
+): T | null {
+  let best: T | null = null;
+  let bestInformation = -1;
+  for (const item of items) {
+    const information = itemInformation(theta, item);
+    if (information > bestInformation) {
+      best = item;
+      bestInformation = information;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,283 @@
+import { DatabaseService, DbQuizItem, DbUserAbility } from './database';
+import { QuizQuestion, QuizQuestionType } from './quiz-validation';
+import {
+  AbilityEstimate,
+  ItemParameters,
+  calibrateDifficulty,
+  estimateAbility,
+  labelFromTheta,
+} from './irt';
+
+/**
+ * 問題形式ごとの初期難易度（回答が集まるまでの目安。選択式ほど易しく、記述式ほど難しい）
+ */
+export const INITIAL_TYPE_DIFFICULTY: Record<QuizQuestionType, number> = {
+  multiple_choice: -1,
+  matching: -0.5,
+  ordering: 0,
+  cloze: 0.5,
+  typed: 1,
+};
+
+/**
+ * 問題の保存形式（問題形式ごとのフィールドはpayloadにJSONでまとめる）
+ */
+export interface StoredQuestion {
+  type: string;
+  question: string;
+  payload: string;
+  explanation: string;
+  word: string | null;
+}
+
+/**
+ * 問題を保存形式に変換
+ */
+export function toStoredQuestion(q: QuizQuestion): StoredQuestion {
+  const { type, question, explanation, word, ...payload } = q;
+  return { type, question, payload: JSON.stringify(payload), explanation, word: word ?? null };
+}
+
+/**
+ * 保存形式から問題を復元
+ */
+export function fromStoredQuestion(row: StoredQuestion): QuizQuestion {
+  return {
+    type: row.type,
+    question: row.question,
+    ...JSON.parse(row.payload),
+    explanation: row.explanation,
+    ...(row.word ? { word: row.word } : {}),
+  } as QuizQuestion;
+}
+
+/**
+ * 問題バンクサービス - 問題の難易度較正とトピック別の能力推定（IRT）
+ * 収益化観点：クイズの得点を実力の指標にし、レベルに合った出題で学習を続けやすくする
+ */
+export class ItemBankService {
+  private db = DatabaseService.getInstance().getDb();
+
+  /**
+   * DBレコードをQuizItemに変換
+   */
+  private dbToItem(row: DbQuizItem): QuizItem {
+    return {
+      id: row.id,
+      topic: row.topic,
+      question: fromStoredQuestion(row),
+      difficulty: row.difficulty,
+      discrimination: row.discrimination,
+      responseCount: row.response_count,
+      correctCount: row.correct_count,
+    };
+  }
+
+  /**
+   * 問題をバンクに登録し、問題IDを返す（同じトピック・形式・問題文の問題は既存のIDを返す）
+   *
+   * @param difficulty 初期難易度。省略時は問題形式ごとの初期値
+   */
+  addItems(topic: string, questions: QuizQuestion[], difficulty?: number): number[] {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO quiz_items (topic, type, question, payload, explanation, word, difficulty, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const find = this.db.prepare(
+      'SELECT id FROM quiz_items WHERE topic = ? AND type = ? AND question = ?'
+    );
+    const now = new Date().toISOString();
+
+    return this.db.transaction(() =>
+      questions.map((q) => {
+        const stored = toStoredQuestion(q);
+        insert.run(
+          topic,
+          stored.type,
+          stored.question,
+          stored.payload,
+          stored.explanation,
+          stored.word,
+          difficulty ?? INITIAL_TYPE_DIFFICULTY[q.type],
+          now
+        );
+        return (find.get(topic, stored.type, stored.question) as { id: number }).id;
+      })
+    )();
+  }
+
+  /**
+   * 問題を取得
+   */
+  getItem(itemId: number): QuizItem | null {
+    const row = this.db.prepare('SELECT * FROM quiz_items WHERE id = ?').get(itemId) as
+      | DbQuizItem
+      | undefined;
+    return row ? this.dbToItem(row) : null;
+  }
+
+  /**
+   * トピックの問題を取得（易しい順）
+   */
+  getItems(topic: string): QuizItem[] {
+    const rows = this.db
+      .prepare('SELECT * FROM quiz_items WHERE topic = ? ORDER BY difficulty ASC, id ASC')
+      .all(topic) as DbQuizItem[];
+    return rows.map((row) => this.dbToItem(row));
+  }
+
+  /**
+   * クイズ内の回答（回答順）
+   */
+  getQuizResponses(quizId: string): { itemId: number; correct: boolean }[] {
+    const rows = this.db
+      .prepare('SELECT item_id, correct FROM item_responses WHERE quiz_id = ? ORDER BY id ASC')
+      .all(quizId) as { item_id: number; correct: number }[];
+    return rows.map((r) => ({ itemId: r.item_id, correct: r.correct === 1 }));
+  }
+
+  /**
+   * ユーザーが回答したことのある問題ID
+   */
+  getAnsweredItemIds(userId: string, topic: string): Set<number> {
+    const rows = this.db
+      .prepare('SELECT DISTINCT item_id FROM item_responses WHERE user_id = ? AND topic = ?')
+      .all(userId, topic) as { item_id: number }[];
+    return new Set(rows.map((r) => r.item_id));
+  }
+
+  /**
+   * トピック別の能力推定値を取得（未回答の場合は初期値）
+   */
+  getAbility(userId: string, topic: string): TopicAbility {
+    const row = this.db
+      .prepare('SELECT * FROM user_abilities WHERE user_id = ? AND topic = ?')
+      .get(userId, topic) as DbUserAbility | undefined;
+
+    if (!row) {
+      const initial = estimateAbility([]);
+      return {
+        topic,
+        ...initial,
+        level: labelFromTheta(initial.theta),
+        responseCount: 0,
+        updatedAt: null,
+      };
+    }
+
+    return this.dbToAbility(row);
+  }
+
+  /**
+   * ユーザーの全トピックの能力推定値を取得
+   */
+  getAbilities(userId: string): TopicAbility[] {
+    const rows = this.db
+      .prepare('SELECT * FROM user_abilities WHERE user_id = ? ORDER BY topic ASC')
+      .all(userId) as DbUserAbility[];
+    return rows.map((row) => this.dbToAbility(row));
+  }
+
+  private dbToAbility(row: DbUserAbility): TopicAbility {
+    return {
+      topic: row.topic,
+      theta: row.theta,
+      standardError: row.standard_error,
+      level: labelFromTheta(row.theta),
+      responseCount: row.response_count,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * 回答を記録し、問題の難易度とユーザーの能力推定値を更新
+   * 難易度は回答前の能力値で較正し、能力値はトピックの全回答から推定し直す
+   *
+   * @returns 更新後の能力推定値（問題が存在しない場合はnull）
+   */
+  recordResponse(
+    userId: string,
+    itemId: number,
+    quizId: string | null,
+    correct: boolean
+  ): TopicAbility | null {
+    const item = this.getItem(itemId);
+    if (!item) return null;
+
+    const before = this.getAbility(userId, item.topic);
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `
+        UPDATE quiz_items
+        SET difficulty = ?, response_count = response_count + 1, correct_count = correct_count + ?
+        WHERE id = ?
+      `
+        )
+        .run(
+          calibrateDifficulty(item, before.theta, correct, item.responseCount),
+          correct ? 1 : 0,
+          itemId
+        );
+
+      this.db
+        .prepare(
+          `
+        INSERT INTO item_responses (user_id, item_id, quiz_id, topic, correct, answered_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `
+        )
+        .run(userId, itemId, quizId, item.topic, correct ? 1 : 0, now);
+
+      const responses = this.db
+        .prepare(
+          `
+        SELECT r.correct, i.difficulty, i.discrimination
+        FROM item_responses r
+        JOIN quiz_items i ON i.id = r.item_id
+        WHERE r.user_id = ? AND r.topic = ?
+      `
+        )
+        .all(userId, item.topic) as Array<ItemParameters & { correct: number }>;
+
+      const estimate: AbilityEstimate = estimateAbility(
+        responses.map((r) => ({ ...r, correct: r.correct === 1 }))
+      );
+
+      this.db
+        .prepare(
+          `
+        INSERT INTO user_abilities (user_id, topic, theta, standard_error, response_count, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, topic) DO UPDATE SET
+          theta = excluded.theta,
+          standard_error = excluded.standard_error,
+          response_count = excluded.response_count,
+          updated_at = excluded.updated_at
+      `
+        )
+        .run(userId, item.topic, estimate.theta, estimate.standardError, responses.length, now);
+    })();
+
+    return this.getAbility(userId, item.topic);
+  }
+}
+
+// 型定義
+export interface QuizItem extends ItemParameters {
+  id: number;
+  topic: string;
+  question: QuizQuestion;
+  responseCount: number;
+  correctCount: number;
+}
+
+export interface TopicAbility extends AbilityEstimate {
+  topic: string;
+  /** 能力値に合う難易度 */
+  level: 'easy' | 'medium' | 'hard';
+  responseCount: number;
+  updatedAt: string | null;
+}
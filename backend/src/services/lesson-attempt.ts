@@ -0,0 +1,340 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, DbLessonAttempt } from './database';
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import { LessonType } from './content-validation';
+import { gradeGrammarExercise, gradeQuestion } from './quiz-grading';
+import { LessonExerciseResult, LessonService } from './lesson';
+
+/**
+ * ステップの回答
+ * - vocabulary: 単語を覚えたか（true / false）
+ * - grammar: 文法演習の回答（文字列）
+ * - reading: 内容理解問題で選んだ選択肢の位置
+ */
+export type LessonStepAnswer = boolean | string | number;
+
+/**
+ * レッスンの受講（途中までの回答を保存し、中断しても再開できる）
+ */
+export interface LessonAttempt {
+  id: string;
+  userId: string;
+  lessonId: string;
+  /** 次に取り組むステップ（0始まり。totalSteps と同じなら全ステップに回答済み） */
+  currentStep: number;
+  totalSteps: number;
+  /** ステップごとの回答（未回答は null） */
+  answers: (LessonStepAnswer | null)[];
+  /** 正答率（修了時にサーバー側で算出。修了前は null） */
+  score: number | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * 受講の修了結果
+ */
+export interface LessonAttemptResult {
+  attempt: LessonAttempt;
+  /** 正解した（語彙は覚えた）ステップ数 */
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * 演習・内容理解問題をまとめて提出した結果
+ */
+export interface LessonSubmitResult extends LessonExerciseResult {
+  /** 採点して修了した受講 */
+  attempt: LessonAttempt;
+}
+
+/**
+ * 受講の操作ができない場合のエラー
+ * - not_found: レッスン・受講が存在しない（他ユーザーの受講を含む）
+ * - no_steps: ステップのないレッスン
+ * - invalid_step: ステップの位置が範囲外
+ * - invalid_answer: レッスンの種類に合わない回答
+ * - already_completed: 修了済みの受講
+ */
+export class LessonAttemptError extends Error {
+  readonly code: 'not_found' | 'no_steps' | 'invalid_step' | 'invalid_answer' | 'already_completed';
+
+  constructor(code: LessonAttemptError['code'], message: string) {
+    super(message);
+    this.name = 'LessonAttemptError';
+    this.code = code;
+  }
+}
+
+/**
+ * レッスンの種類ごとの回答の形
+ */
+const ANSWER_CHECKS: Record<LessonType, (answer: unknown) => boolean> = {
+  vocabulary: (answer) => typeof answer === 'boolean',
+  grammar: (answer) => typeof answer === 'string',
+  reading: (answer) => Number.isInteger(answer),
+};
+
+/**
+ * レッスン受講サービス - ステップ（単語・演習・設問）ごとの進捗の保存と再開、修了時の採点
+ * 収益化観点：途中で離脱しても続きから再開でき、長いレッスンでも最後まで学習してもらえる
+ */
+export class LessonAttemptService {
+  private db = DatabaseService.getInstance().getDb();
+  private registry: ContentRegistry;
+  private lessonService: LessonService;
+
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.registry = ContentRegistry.forDir(contentDir);
+    this.lessonService = new LessonService(contentDir);
+  }
+
+  /**
+   * DBレコードを LessonAttempt に変換
+   */
+  private dbToAttempt(row: DbLessonAttempt): LessonAttempt {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      lessonId: row.lesson_id,
+      currentStep: row.current_step,
+      totalSteps: row.total_steps,
+      answers: JSON.parse(row.answers),
+      score: row.score,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at,
+    };
+  }
+
+  /**
+   * レッスンの種類とステップ数（語彙: 単語、文法: 演習、読解: 内容理解問題）
+   */
+  private async getSteps(lessonId: string): Promise<{ type: LessonType; count: number } | null> {
+    const content = await this.lessonService.getLessonContent(lessonId);
+    if (!content) return null;
+
+    switch (content.type) {
+      case 'vocabulary':
+        return { type: content.type, count: content.words.length };
+      case 'grammar':
+        return { type: content.type, count: content.exercises.length };
+      case 'reading':
+        return { type: content.type, count: content.questions.length };
+    }
+  }
+
+  /**
+   * ステップごとの正誤（未回答は不正解）
+   */
+  private gradeSteps(lessonId: string, answers: (LessonStepAnswer | null)[]): boolean[] {
+    const manifest = this.registry.getLesson(lessonId);
+
+    if (manifest?.type === 'grammar') {
+      return manifest.exercises.map((e, i) => gradeGrammarExercise(e, answers[i]).correct);
+    }
+    if (manifest?.type === 'reading') {
+      return manifest.questions.map((q, i) => gradeQuestion(q, answers[i]).correct);
+    }
+    // 語彙レッスン（今日の単語を含む）は覚えたと回答した単語を正解とする
+    return answers.map((answer) => answer === true);
+  }
+
+  /**
+   * 受講を開始（同じレッスンの修了していない受講は破棄して最初からやり直す）
+   *
+   * @throws LessonAttemptError レッスンが存在しない・ステップがない場合
+   */
+  async startAttempt(userId: string, lessonId: string): Promise<LessonAttempt> {
+    const steps = await this.getSteps(lessonId);
+    if (!steps) {
+      throw new LessonAttemptError('not_found', 'レッスンが見つかりません');
+    }
+    if (steps.count === 0) {
+      throw new LessonAttemptError('no_steps', 'このレッスンには学習するステップがありません');
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const answers = new Array(steps.count).fill(null);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'DELETE FROM lesson_attempts WHERE user_id = ? AND lesson_id = ? AND completed_at IS NULL'
+        )
+        .run(userId, lessonId);
+      this.db
+        .prepare(
+          `
+        INSERT INTO lesson_attempts (id, user_id, lesson_id, current_step, total_steps, answers, started_at, updated_at)
+        VALUES (?, ?, ?, 0, ?, ?, ?, ?)
+      `
+        )
+        .run(id, userId, lessonId, steps.count, JSON.stringify(answers), now, now);
+    })();
+
+    return {
+      id,
+      userId,
+      lessonId,
+      currentStep: 0,
+      totalSteps: steps.count,
+      answers,
+      score: null,
+      startedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+  }
+
+  /**
+   * 再開する受講（修了していない最新の受講。なければnull）
+   */
+  async getResumableAttempt(userId: string, lessonId: string): Promise<LessonAttempt | null> {
+    const row = this.db
+      .prepare(
+        `
+      SELECT * FROM lesson_attempts
+      WHERE user_id = ? AND lesson_id = ? AND completed_at IS NULL
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `
+      )
+      .get(userId, lessonId) as DbLessonAttempt | undefined;
+    return row ? this.dbToAttempt(row) : null;
+  }
+
+  /**
+   * 受講を取得（存在しない・他ユーザーの受講はnull）
+   */
+  async getAttempt(userId: string, attemptId: string): Promise<LessonAttempt | null> {
+    const row = this.db
+      .prepare('SELECT * FROM lesson_attempts WHERE id = ? AND user_id = ?')
+      .get(attemptId, userId) as DbLessonAttempt | undefined;
+    return row ? this.dbToAttempt(row) : null;
+  }
+
+  /**
+   * 修了していない受講を取得
+   *
+   * @throws LessonAttemptError 受講が存在しない・修了済みの場合
+   */
+  private async getOpenAttempt(userId: string, attemptId: string): Promise<LessonAttempt> {
+    const attempt = await this.getAttempt(userId, attemptId);
+    if (!attempt) {
+      throw new LessonAttemptError('not_found', '受講が見つかりません');
+    }
+    if (attempt.completedAt) {
+      throw new LessonAttemptError('already_completed', 'この受講は修了済みです');
+    }
+    return attempt;
+  }
+
+  /**
+   * ステップの回答を保存し、次のステップに進める（回答済みのステップは上書きする）
+   *
+   * @throws LessonAttemptError 受講が存在しない・修了済み・ステップや回答が不正な場合
+   */
+  async checkpoint(
+    userId: string,
+    attemptId: string,
+    step: number,
+    answer: unknown
+  ): Promise<LessonAttempt> {
+    const attempt = await this.getOpenAttempt(userId, attemptId);
+    if (!Number.isInteger(step) || step < 0 || step >= attempt.totalSteps) {
+      throw new LessonAttemptError('invalid_step', 'ステップの位置が範囲外です');
+    }
+
+    const type = this.registry.getLesson(attempt.lessonId)?.type ?? 'vocabulary';
+    if (!ANSWER_CHECKS[type](answer)) {
+      throw new LessonAttemptError('invalid_answer', 'レッスンの種類に合わない回答です');
+    }
+
+    const answers = [...attempt.answers];
+    answers[step] = answer as LessonStepAnswer;
+    const currentStep = Math.max(attempt.currentStep, step + 1);
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        'UPDATE lesson_attempts SET answers = ?, current_step = ?, updated_at = ? WHERE id = ?'
+      )
+      .run(JSON.stringify(answers), currentStep, now, attemptId);
+
+    return { ...attempt, answers, currentStep, updatedAt: now };
+  }
+
+  /**
+   * 受講を修了し、保存済みの回答から得点を算出してレッスン完了を記録
+   *
+   * @throws LessonAttemptError 受講が存在しない・修了済みの場合
+   */
+  async finishAttempt(userId: string, attemptId: string): Promise<LessonAttemptResult> {
+    const attempt = await this.getOpenAttempt(userId, attemptId);
+
+    const results = this.gradeSteps(attempt.lessonId, attempt.answers);
+    const correct = results.filter(Boolean).length;
+    const total = results.length;
+    const percentage = total > 0 ? Math.round((correct / total) * 100) : 0;
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        'UPDATE lesson_attempts SET score = ?, completed_at = ?, updated_at = ? WHERE id = ?'
+      )
+      .run(percentage, now, now, attemptId);
+    await this.lessonService.markComplete(userId, attempt.lessonId, percentage);
+
+    return {
+      attempt: { ...attempt, score: percentage, updatedAt: now, completedAt: now },
+      correct,
+      total,
+      percentage,
+    };
+  }
+
+  /**
+   * 文法演習・読解の内容理解問題の回答をまとめて提出し、受講として採点・修了する
+   * 途中の受講があればその受講の回答を提出内容で置き換え、なければ新しい受講を作る
+   * 読解レッスンでは読書時間を学習セッションに記録する
+   *
+   * @param answers 問題ごとの回答（文法演習: 文字列、内容理解問題: 選択肢の位置）
+   * @param readingSeconds 本文を読んでいた時間（秒、読解レッスンのみ）
+   * @throws LessonSubmitError レッスンが存在しない・採点できる問題がない場合
+   */
+  async submitExercises(
+    userId: string,
+    lessonId: string,
+    answers: unknown[],
+    readingSeconds?: number
+  ): Promise<LessonSubmitResult> {
+    const graded = this.lessonService.gradeExercises(lessonId, answers);
+    const type = this.registry.getLesson(lessonId)?.type ?? 'vocabulary';
+
+    const open =
+      (await this.getResumableAttempt(userId, lessonId)) ??
+      (await this.startAttempt(userId, lessonId));
+    const stepAnswers = open.answers.map((_, i) =>
+      ANSWER_CHECKS[type](answers[i]) ? (answers[i] as LessonStepAnswer) : null
+    );
+    this.db
+      .prepare(
+        'UPDATE lesson_attempts SET answers = ?, current_step = ?, updated_at = ? WHERE id = ?'
+      )
+      .run(JSON.stringify(stepAnswers), open.totalSteps, new Date().toISOString(), open.id);
+
+    const { attempt, percentage } = await this.finishAttempt(userId, open.id);
+    const result: LessonSubmitResult = { ...graded, percentage, attempt };
+
+    if (type === 'reading' && readingSeconds !== undefined) {
+      result.readingSeconds = await this.lessonService.recordReadingTime(userId, readingSeconds);
+    }
+
+    return result;
+  }
+}
@@ -1,30 +1,121 @@
-import fs from 'fs';
-import path from 'path';
 import { DatabaseService, DbLessonCompletion } from './database';
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import {
+  CefrLevel,
+  GrammarExample,
+  GrammarExerciseType,
+  LessonManifest,
+  LessonPrerequisite,
+  LessonType,
+  VocabularyWord,
+} from './content-validation';
+import { gradeGrammarExercise, gradeQuestion } from './quiz-grading';
+import { QuizAnswer } from './quiz-validation';
+import { Gloss, glossParagraphs } from './glossing';
+import { ReminderService } from './reminder';
 
-interface VocabularyWord {
+/**
+ * 1回の提出で記録する読書時間の上限（秒。タブの放置などによる過大な記録を防ぐ）
+ */
+const MAX_READING_SECONDS = 2 * 60 * 60;
+
+export interface Lesson {
+  id: string;
+  title: string;
+  description: string;
+  type: LessonType;
+  /** CEFRレベル（全レベル向けの組み込みレッスンは null） */
+  level: CefrLevel | null;
+  estimatedTime: number;
+}
+
+/**
+ * 教材ファイルを持たない組み込みレッスン（全語彙レッスンの単語から出題）
+ */
+export const WORD_OF_THE_DAY_LESSON: Lesson = {
+  id: 'word-of-the-day',
+  title: '今日の単語',
+  description: '毎日1つの新しい単語を学習し、例文と一緒に覚えます',
+  type: 'vocabulary',
+  level: null,
+  estimatedTime: 5,
+};
+
+/**
+ * 文法演習（正解・解説を除いた出題用の形）
+ */
+export interface PublicGrammarExercise {
+  type: GrammarExerciseType;
+  instruction: string;
+  sentence: string;
+}
+
+/**
+ * 読解本文の注釈に表示する単語情報
+ */
+export interface GlossaryEntry {
   word: string;
   pronunciation: string;
   partOfSpeech: string;
   definition: string;
   definitionJa: string;
-  example: string;
-  exampleJa: string;
+  /** 単語が収録されている語彙レッスン */
+  lessonId: string;
 }
 
-interface VocabularyLesson {
-  title: string;
-  level: string;
-  words: VocabularyWord[];
+/**
+ * レッスン本文（種類ごと。採点が必要な演習は正解を含めない）
+ */
+export type LessonContent =
+  | { type: 'vocabulary'; words: VocabularyWord[] }
+  | {
+      type: 'grammar';
+      rule: string;
+      explanation: string;
+      examples: GrammarExample[];
+      exercises: PublicGrammarExercise[];
+    }
+  | {
+      type: 'reading';
+      paragraphs: string[];
+      /** 単語帳にある語の位置 */
+      glosses: Gloss[];
+      /** 注釈の見出し語 → 単語情報 */
+      glossary: Record<string, GlossaryEntry>;
+      questions: { question: string; options: string[] }[];
+    };
+
+/**
+ * 演習の採点結果
+ */
+export interface LessonExerciseResult {
+  score: number;
+  total: number;
+  percentage: number;
+  details: {
+    exerciseIndex: number;
+    /** 文法演習の形式、または読解の内容理解問題（comprehension） */
+    type: GrammarExerciseType | 'comprehension';
+    correct: boolean;
+    userAnswer: QuizAnswer | null;
+    correctAnswer: QuizAnswer;
+    explanation: string;
+  }[];
+  /** 学習セッションに記録した読書時間（秒、読解レッスンの場合） */
+  readingSeconds?: number;
 }
 
-interface Lesson {
-  id: string;
-  title: string;
-  description: string;
-  type: 'vocabulary' | 'grammar' | 'reading';
-  level: string;
-  estimatedTime: number;
+/**
+ * 演習を提出できない場合のエラー
+ */
+export class LessonSubmitError extends Error {
+  readonly code: 'not_found' | 'not_gradable';
+
+  constructor(code: LessonSubmitError['code'], message: string) {
+    super(message);
+    this.name = 'LessonSubmitError';
+    this.code = code;
+  }
 }
 
 export interface LessonCompletion {
@@ -34,42 +125,61 @@ export interface LessonCompletion {
   completedAt: string;
 }
 
+/**
+ * スキルツリー上のレッスンの状態
+ * - locked: 前提レッスンを合格点で修了していない
+ * - unlocked: 受講できる（未修了）
+ * - completed: 修了済み
+ */
+export type SkillTreeState = 'locked' | 'unlocked' | 'completed';
+
+export interface SkillTreeNode {
+  lesson: Lesson;
+  prerequisites: (LessonPrerequisite & { satisfied: boolean })[];
+  state: SkillTreeState;
+  /** 最高得点（未修了・得点のない修了のみの場合は null） */
+  bestScore: number | null;
+  /** 前提レッスンをたどった最長の段数（前提なしは0） */
+  depth: number;
+}
+
 /**
  * レッスンサービス - 学習コンテンツの管理
  * 収益化観点：レッスン完了追跡は有料機能（進捗分析・カリキュラム生成）の基盤
  */
 export class LessonService {
-  private contentDir: string;
+  private registry: ContentRegistry;
   private db = DatabaseService.getInstance().getDb();
 
-  constructor() {
-    this.contentDir = path.join(__dirname, '../../../content');
-  }
-
-  /**
-   * 利用可能なレッスン一覧を取得
-   */
-  async getAllLessons(): Promise<Lesson[]> {
-    const lessons: Lesson[] = [
-      {
-        id: 'vocab-basic-english',
-        title: '基礎英単語',
-        description: 'ビジネスや日常会話で使える基本的な英単語を学習します',
-        type: 'vocabulary',
-        level: 'beginner',
-        estimatedTime: 15,
-      },
-      {
-        id: 'word-of-the-day',
-        title: '今日の単語',
-        description: '毎日1つの新しい単語を学習し、例文と一緒に覚えます',
-        type: 'vocabulary',
-        level: 'all',
-        estimatedTime: 5,
-      },
-    ];
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.registry = ContentRegistry.forDir(contentDir);
+  }
+
+  /**
+   * マニフェストからレッスン情報を取り出す
+   */
+  private toLesson(manifest: LessonManifest): Lesson {
+    return {
+      id: manifest.id,
+      title: manifest.title,
+      description: manifest.description,
+      type: manifest.type,
+      level: manifest.level,
+      estimatedTime: manifest.estimatedTime,
+    };
+  }
 
-    return lessons;
+  /**
+   * 利用可能なレッスン一覧を取得（content/ の教材 + 組み込みレッスン）
+   *
+   * @param cefr 指定した場合はそのCEFRレベルとレベル未設定のレッスンのみ
+   */
+  async getAllLessons(cefr?: CefrLevel): Promise<Lesson[]> {
+    const lessons = [
+      ...this.registry.getLessons().map((manifest) => this.toLesson(manifest)),
+      WORD_OF_THE_DAY_LESSON,
+    ];
+    return cefr ? lessons.filter((l) => l.level === null || l.level === cefr) : lessons;
   }
 
   /**
@@ -81,27 +191,173 @@ export class LessonService {
   }
 
   /**
-   * 語彙レッスンの単語リストを取得
+   * 語彙レッスンの単語リストを取得（語彙レッスン以外・存在しないIDは空配列）
+   */
+  async getVocabularyWords(lessonId: string): Promise<VocabularyWord[]> {
+    if (lessonId === WORD_OF_THE_DAY_LESSON.id) {
+      return this.getAllVocabularyWords();
+    }
+    const lesson = this.registry.getLesson(lessonId);
+    return lesson?.type === 'vocabulary' ? lesson.words : [];
+  }
+
+  /**
+   * 全語彙レッスンの単語を取得（同じ単語は先に見つかったレッスンのものを使う）
    */
-  async getVocabularyWords(_lessonId: string): Promise<VocabularyWord[]> {
-    try {
-      const filePath = path.join(this.contentDir, 'vocabulary', 'basic_english.json');
-      const content = fs.readFileSync(filePath, 'utf-8');
-      // BOM除去
-      const cleanContent = content.replace(/^\uFEFF/, '');
-      const data: VocabularyLesson = JSON.parse(cleanContent);
-      return data.words;
-    } catch (error) {
-      console.error('Failed to load vocabulary:', error);
-      return [];
+  async getAllVocabularyWords(): Promise<VocabularyWord[]> {
+    const words = new Map<string, VocabularyWord>();
+    for (const deck of this.registry.getVocabularyDecks()) {
+      for (const w of deck.words) {
+        if (!words.has(w.word)) words.set(w.word, w);
+      }
     }
+    return Array.from(words.values());
+  }
+
+  /**
+   * レッスン本文を取得（存在しない場合はnull）
+   */
+  async getLessonContent(id: string): Promise<LessonContent | null> {
+    if (id === WORD_OF_THE_DAY_LESSON.id) {
+      const word = await this.getWordOfTheDay();
+      return { type: 'vocabulary', words: word ? [word] : [] };
+    }
+
+    const manifest = this.registry.getLesson(id);
+    if (!manifest) return null;
+
+    switch (manifest.type) {
+      case 'vocabulary':
+        return { type: 'vocabulary', words: manifest.words };
+      case 'grammar':
+        return {
+          type: 'grammar',
+          rule: manifest.rule,
+          explanation: manifest.explanation,
+          examples: manifest.examples,
+          exercises: manifest.exercises.map(({ type, instruction, sentence }) => ({
+            type,
+            instruction,
+            sentence,
+          })),
+        };
+      case 'reading': {
+        const glossary = this.getGlossary();
+        const glosses = glossParagraphs(manifest.paragraphs, glossary.keys());
+        return {
+          type: 'reading',
+          paragraphs: manifest.paragraphs,
+          glosses,
+          glossary: Object.fromEntries(
+            Array.from(new Set(glosses.map((g) => g.word))).map((w) => [w, glossary.get(w)!])
+          ),
+          questions: manifest.questions.map(({ question, options }) => ({ question, options })),
+        };
+      }
+    }
+  }
+
+  /**
+   * 全語彙レッスンの見出し語 → 単語情報（同じ単語は先に見つかったレッスンのものを使う）
+   */
+  private getGlossary(): Map<string, GlossaryEntry> {
+    const glossary = new Map<string, GlossaryEntry>();
+    for (const deck of this.registry.getVocabularyDecks()) {
+      for (const w of deck.words) {
+        if (glossary.has(w.word)) continue;
+        glossary.set(w.word, {
+          word: w.word,
+          pronunciation: w.pronunciation,
+          partOfSpeech: w.partOfSpeech,
+          definition: w.definition,
+          definitionJa: w.definitionJa,
+          lessonId: deck.id,
+        });
+      }
+    }
+    return glossary;
+  }
+
+  /**
+   * 採点できる演習（文法演習・読解の内容理解問題）のあるレッスンか
+   */
+  isGradable(lessonId: string): boolean {
+    const type = this.registry.getLesson(lessonId)?.type;
+    return type === 'grammar' || type === 'reading';
+  }
+
+  /**
+   * 文法演習・読解の内容理解問題を採点（完了の記録は LessonAttemptService の受講として行う）
+   *
+   * @param answers 問題ごとの回答（文法演習: 文字列、内容理解問題: 選択肢の位置）
+   * @throws LessonSubmitError レッスンが存在しない・採点できる問題がない場合
+   */
+  gradeExercises(lessonId: string, answers: unknown[]): LessonExerciseResult {
+    const manifest = this.registry.getLesson(lessonId);
+    if (!manifest) {
+      throw new LessonSubmitError('not_found', 'レッスンが見つかりません');
+    }
+
+    let details: LessonExerciseResult['details'];
+    if (manifest.type === 'grammar') {
+      details = manifest.exercises.map((exercise, index) => {
+        const { correct } = gradeGrammarExercise(exercise, answers[index]);
+        return {
+          exerciseIndex: index,
+          type: exercise.type,
+          correct,
+          userAnswer: typeof answers[index] === 'string' ? (answers[index] as string) : null,
+          correctAnswer: exercise.answer,
+          explanation: exercise.explanation,
+        };
+      });
+    } else if (manifest.type === 'reading') {
+      details = manifest.questions.map((question, index) => {
+        const { correct, correctAnswer } = gradeQuestion(question, answers[index]);
+        return {
+          exerciseIndex: index,
+          type: 'comprehension',
+          correct,
+          userAnswer: Number.isInteger(answers[index]) ? (answers[index] as number) : null,
+          correctAnswer,
+          explanation: question.explanation,
+        };
+      });
+    } else {
+      throw new LessonSubmitError('not_gradable', 'このレッスンには採点できる演習がありません');
+    }
+
+    const correctCount = details.filter((d) => d.correct).length;
+    return {
+      score: correctCount,
+      total: details.length,
+      percentage: Math.round((correctCount / details.length) * 100),
+      details,
+    };
+  }
+
+  /**
+   * 読書時間を進行中の学習セッションに加算（進行中のセッションがなければ開始する）
+   *
+   * @returns 記録した秒数（上限で丸めた値）
+   */
+  async recordReadingTime(userId: string, seconds: number): Promise<number> {
+    const recorded = Math.round(Math.min(Math.max(seconds, 0), MAX_READING_SECONDS));
+    const reminderService = new ReminderService();
+    const session =
+      (await reminderService.getActiveSession(userId)) ??
+      (await reminderService.startSession(userId));
+    await reminderService.updateSession(session.id, {
+      readingSeconds: session.readingSeconds + recorded,
+    });
+    return recorded;
   }
 
   /**
    * 今日の単語を取得
    */
   async getWordOfTheDay(): Promise<VocabularyWord | null> {
-    const words = await this.getVocabularyWords('vocab-basic-english');
+    const words = await this.getAllVocabularyWords();
     if (words.length === 0) return null;
 
     // 日付ベースで単語を選択（毎日異なる単語）
@@ -196,4 +452,65 @@ export class LessonService {
 
     return result.best_score;
   }
+
+  /**
+   * ユーザーのスキルツリー（全レッスンの前提関係と解放状態）
+   * 採点のないレッスン（語彙レッスンなど）の完了は合格点を満たしたものとして扱う
+   * 採点のあるレッスンは、得点のない完了だけでは合格点を満たさない
+   */
+  async getSkillTree(userId: string): Promise<SkillTreeNode[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT lesson_id, MAX(score) as best_score, COUNT(score) as scored_count
+      FROM lesson_completions
+      WHERE user_id = ?
+      GROUP BY lesson_id
+    `
+      )
+      .all(userId) as { lesson_id: string; best_score: number | null; scored_count: number }[];
+    const completions = new Map(rows.map((row) => [row.lesson_id, row]));
+
+    const passed = (prerequisite: LessonPrerequisite): boolean => {
+      const completion = completions.get(prerequisite.lessonId);
+      if (!completion) return false;
+      if (completion.scored_count === 0) return !this.isGradable(prerequisite.lessonId);
+      return completion.best_score! >= prerequisite.minScore;
+    };
+
+    const manifests = this.registry.getLessons();
+    const prerequisitesById = new Map(manifests.map((m) => [m.id, m.prerequisites]));
+    const depths = new Map<string, number>();
+    // 循環はレジストリの読み込み時に除外済み
+    const depthOf = (id: string): number => {
+      let depth = depths.get(id);
+      if (depth === undefined) {
+        const prerequisites = prerequisitesById.get(id) ?? [];
+        depth = Math.max(0, ...prerequisites.map((p) => depthOf(p.lessonId) + 1));
+        depths.set(id, depth);
+      }
+      return depth;
+    };
+
+    const toNode = (lesson: Lesson, prerequisites: LessonPrerequisite[]): SkillTreeNode => {
+      const completion = completions.get(lesson.id);
+      const withStatus = prerequisites.map((p) => ({ ...p, satisfied: passed(p) }));
+      return {
+        lesson,
+        prerequisites: withStatus,
+        state: completion
+          ? 'completed'
+          : withStatus.every((p) => p.satisfied)
+            ? 'unlocked'
+            : 'locked',
+        bestScore: completion?.best_score ?? null,
+        depth: depthOf(lesson.id),
+      };
+    };
+
+    return [
+      ...manifests.map((manifest) => toNode(this.toLesson(manifest), manifest.prerequisites)),
+      toNode(WORD_OF_THE_DAY_LESSON, []),
+    ];
+  }
 }
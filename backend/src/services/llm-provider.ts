@@ -0,0 +1,310 @@
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+
+/**
+ * LLMを利用する機能（機能ごとにプロバイダーを切り替え可能）
+ */
+export type LLMFeature = 'ask' | 'quiz' | 'word';
+
+/**
+ * プロバイダー種別
+ * - openai: OpenAI API
+ * - local: OpenAI互換のローカルエンドポイント（llama.cpp server / Ollama など）
+ * - fixture: 記録済みレスポンスを再生（ネットワーク不要）
+ * - mock: 開発用の固定モック（AIService側のモック回答を使用）
+ */
+export type LLMProviderType = 'openai' | 'local' | 'fixture' | 'mock';
+
+/**
+ * モデルに送るメッセージ
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 生成リクエスト
+ */
+export interface LLMRequest {
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * トークン使用量
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * 生成結果
+ */
+export interface LLMCompletion {
+  content: string;
+  usage: TokenUsage;
+  model: string;
+}
+
+/**
+ * LLMプロバイダーインターフェース
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  stream(request: LLMRequest, onChunk: (chunk: string) => void): Promise<LLMCompletion>;
+}
+
+/**
+ * 記録済みレスポンス
+ * matchを指定した場合は最後のユーザー発言に部分一致したときに使用し、
+ * 指定しない場合は一致するものがないときに順番に使用する
+ */
+export interface FixtureResponse {
+  match?: string;
+  content: string;
+}
+
+export type FixtureSet = Partial<Record<LLMFeature, FixtureResponse[]>>;
+
+/**
+ * ストリーミング再生時の1チャンクの文字数
+ */
+export const STREAM_CHUNK_SIZE = 8;
+
+/**
+ * 機能ごとのデフォルトモデル（OpenAI）
+ */
+const DEFAULT_OPENAI_MODEL = 'gpt-4';
+
+/**
+ * ローカルエンドポイントのデフォルト設定
+ */
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:8080/v1';
+const DEFAULT_LOCAL_MODEL = 'local-model';
+
+/**
+ * トークン数の概算
+ * 英数字は約4文字で1トークン、日本語などのマルチバイト文字は1文字1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let multibyte = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      multibyte++;
+    }
+  }
+  return Math.ceil(ascii / 4) + multibyte;
+}
+
+/**
+ * APIから使用量が得られない場合の概算
+ */
+export function estimateUsage(messages: LLMMessage[], completion: string): TokenUsage {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * 文字列を一定文字数ごとに分割（サロゲートペアを壊さない）
+ */
+export function splitIntoChunks(text: string, size: number = STREAM_CHUNK_SIZE): string[] {
+  const chars = Array.from(text);
+  const chunks: string[] = [];
+  for (let i = 0; i < chars.length; i += size) {
+    chunks.push(chars.slice(i, i + size).join(''));
+  }
+  return chunks;
+}
+
+/**
+ * OpenAI（およびOpenAI互換API）プロバイダー
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  private client: OpenAI;
+  private usageInStream: boolean;
+
+  constructor(options: {
+    type?: 'openai' | 'local';
+    apiKey: string;
+    model: string;
+    baseURL?: string;
+  }) {
+    this.type = options.type || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    // ローカルサーバーはstream_optionsに未対応のものが多いため概算で補う
+    this.usageInStream = this.type === 'openai';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+
+    const content = response.choices[0]?.message?.content || '';
+    const usage = response.usage
+      ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        }
+      : estimateUsage(request.messages, content);
+
+    return { content, usage, model: response.model || this.model };
+  }
+
+  async stream(request: LLMRequest, onChunk: (chunk: string) => void): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      ...(this.usageInStream ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    let content = '';
+    let usage: TokenUsage | null = null;
+    for await (const part of stream) {
+      const text = part.choices[0]?.delta?.content;
+      if (text) {
+        content += text;
+        onChunk(text);
+      }
+      if (part.usage) {
+        usage = {
+          promptTokens: part.usage.prompt_tokens,
+          completionTokens: part.usage.completion_tokens,
+          totalTokens: part.usage.total_tokens,
+        };
+      }
+    }
+
+    return { content, usage: usage ?? estimateUsage(request.messages, content), model: this.model };
+  }
+}
+
+/**
+ * フィクスチャープロバイダー - 記録済みレスポンスを再生
+ * テスト・ステージングでネットワークなしに実際に近いフローを確認するために使用
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'fixture';
+  readonly model = 'fixture';
+  private responses: FixtureResponse[];
+  private cursor = 0;
+
+  constructor(responses: FixtureResponse[]) {
+    this.responses = responses;
+  }
+
+  /**
+   * JSONファイルから機能別のフィクスチャーを読み込む
+   */
+  static fromFile(filePath: string, feature: LLMFeature): FixtureProvider {
+    const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+    const fixtures: FixtureSet = JSON.parse(content);
+    return new FixtureProvider(fixtures[feature] || []);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const content = this.pick(request.messages);
+    return { content, usage: estimateUsage(request.messages, content), model: this.model };
+  }
+
+  async stream(request: LLMRequest, onChunk: (chunk: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    for (const chunk of splitIntoChunks(completion.content)) {
+      await new Promise((resolve) => setImmediate(resolve));
+      onChunk(chunk);
+    }
+    return completion;
+  }
+
+  /**
+   * リクエストに対応するレスポンスを選択
+   */
+  private pick(messages: LLMMessage[]): string {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+
+    const matched = this.responses.find((r) => r.match && lastUser.includes(r.match));
+    if (matched) return matched.content;
+
+    const fallbacks = this.responses.filter((r) => !r.match);
+    if (fallbacks.length === 0) {
+      throw new Error('No fixture response matches the request');
+    }
+    const response = fallbacks[this.cursor % fallbacks.length];
+    this.cursor++;
+    return response.content;
+  }
+}
+
+/**
+ * 環境変数から機能別の設定値を取得（例: LLM_PROVIDER_QUIZ → LLM_PROVIDER）
+ */
+function getFeatureEnv(name: string, feature: LLMFeature): string | undefined {
+  return process.env[`${name}_${feature.toUpperCase()}`] || process.env[name];
+}
+
+/**
+ * 設定に基づいて機能別のプロバイダーを生成
+ * mockの場合はnullを返し、呼び出し側の開発用モックを使用する
+ *
+ * 設定（機能別に _ASK / _QUIZ / _WORD を付けて上書き可能）:
+ * - LLM_PROVIDER: openai | local | fixture | mock（未指定時はOPENAI_API_KEYの有無で判定）
+ * - LLM_MODEL: 使用するモデル名
+ * - LOCAL_LLM_BASE_URL / LOCAL_LLM_API_KEY: ローカルエンドポイント設定
+ * - LLM_FIXTURE_PATH: フィクスチャーJSONのパス
+ */
+export function createLLMProvider(feature: LLMFeature): LLMProvider | null {
+  const type = (getFeatureEnv('LLM_PROVIDER', feature) ||
+    (process.env.OPENAI_API_KEY ? 'openai' : 'mock')) as LLMProviderType;
+  const model = getFeatureEnv('LLM_MODEL', feature);
+
+  switch (type) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.warn(`警告: OPENAI_API_KEYが未設定のため ${feature} はモックで動作します`);
+        return null;
+      }
+      return new OpenAIProvider({ apiKey, model: model || DEFAULT_OPENAI_MODEL });
+    }
+    case 'local':
+      return new OpenAIProvider({
+        type: 'local',
+        // ローカルサーバーはキー不要なことが多いがSDKは空文字を受け付けない
+        apiKey: getFeatureEnv('LOCAL_LLM_API_KEY', feature) || 'not-needed',
+        baseURL: getFeatureEnv('LOCAL_LLM_BASE_URL', feature) || DEFAULT_LOCAL_BASE_URL,
+        model: model || DEFAULT_LOCAL_MODEL,
+      });
+    case 'fixture': {
+      const fixturePath = getFeatureEnv('LLM_FIXTURE_PATH', feature);
+      if (!fixturePath) {
+        throw new Error('LLM_FIXTURE_PATH is required for the fixture provider');
+      }
+      return FixtureProvider.fromFile(path.resolve(fixturePath), feature);
+    }
+    case 'mock':
+      return null;
+    default:
+      throw new Error(`Unknown LLM provider: ${type}`);
+  }
+}
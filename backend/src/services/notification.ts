@@ -0,0 +1,113 @@
+import { DatabaseService, DbNotification } from './database';
+
+/**
+ * お知らせの種類
+ * - leech: 何度も忘れる単語が復習から外された
+ */
+export type NotificationType = 'leech';
+
+/**
+ * アプリ内のお知らせ
+ */
+export interface Notification {
+  id: number;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** 種類ごとの付加情報（leech: { word }） */
+  data: Record<string, unknown> | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+/**
+ * お知らせサービス - 学習中に起きた出来事をアプリ内で知らせる
+ * 収益化観点：つまずきを放置させずに声をかけ、学習の離脱を防ぐ
+ */
+export class NotificationService {
+  private db = DatabaseService.getInstance().getDb();
+
+  /**
+   * DBレコードを Notification に変換
+   */
+  private dbToNotification(row: DbNotification): Notification {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type as NotificationType,
+      title: row.title,
+      body: row.body,
+      data: row.data ? JSON.parse(row.data) : null,
+      createdAt: row.created_at,
+      readAt: row.read_at,
+    };
+  }
+
+  /**
+   * お知らせを作成
+   */
+  async notify(
+    userId: string,
+    type: NotificationType,
+    title: string,
+    body: string,
+    data: Record<string, unknown> | null = null
+  ): Promise<Notification> {
+    const now = new Date().toISOString();
+    const result = this.db
+      .prepare(
+        `
+      INSERT INTO notifications (user_id, type, title, body, data, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(userId, type, title, body, data ? JSON.stringify(data) : null, now);
+
+    return {
+      id: result.lastInsertRowid as number,
+      userId,
+      type,
+      title,
+      body,
+      data,
+      createdAt: now,
+      readAt: null,
+    };
+  }
+
+  /**
+   * お知らせを新しい順に取得
+   */
+  async list(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<Notification[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT * FROM notifications
+      WHERE user_id = ? ${options.unreadOnly ? 'AND read_at IS NULL' : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `
+      )
+      .all(userId, options.limit ?? 20) as DbNotification[];
+
+    return rows.map((row) => this.dbToNotification(row));
+  }
+
+  /**
+   * お知らせを既読にする
+   *
+   * @returns お知らせが存在したか（他ユーザーのお知らせは存在しない扱い）
+   */
+  async markRead(userId: string, notificationId: number): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        'UPDATE notifications SET read_at = COALESCE(read_at, ?) WHERE id = ? AND user_id = ?'
+      )
+      .run(new Date().toISOString(), notificationId, userId);
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,447 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, DbPersonalDeck, DbPersonalWord } from './database';
+import { AIService, WORD_DETAIL_FIELDS, WordDetails, WordGenerationError } from './ai';
+import { VocabularyWord } from './content-validation';
+
+/**
+ * 単語帳名・単語の最大文字数
+ */
+const DECK_NAME_MAX_LENGTH = 100;
+const WORD_MAX_LENGTH = 100;
+
+/**
+ * 個人の単語帳の操作エラー
+ */
+export class PersonalDeckError extends Error {
+  readonly code: 'not_found' | 'invalid_input' | 'duplicate_word' | 'generation_failed';
+
+  constructor(code: PersonalDeckError['code'], message: string) {
+    super(message);
+    this.name = 'PersonalDeckError';
+    this.code = code;
+  }
+}
+
+/**
+ * 個人の単語帳サービス - 教科書などの単語をユーザーごとの単語帳に登録して復習する
+ * 収益化観点：手持ちの教材をそのまま学習できることで、日々の利用と継続率が上がる
+ */
+export class PersonalDeckService {
+  private db = DatabaseService.getInstance().getDb();
+  private aiService: AIService;
+
+  constructor(aiService: AIService = new AIService()) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * DBレコードをPersonalDeckに変換
+   */
+  private dbToDeck(row: DbPersonalDeck & { word_count?: number }): PersonalDeck {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      wordCount: row.word_count ?? 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * DBレコードをPersonalWordに変換
+   */
+  private dbToWord(row: DbPersonalWord): PersonalWord {
+    return {
+      id: row.id,
+      deckId: row.deck_id,
+      word: row.word,
+      pronunciation: row.pronunciation,
+      partOfSpeech: row.part_of_speech,
+      definition: row.definition,
+      definitionJa: row.definition_ja,
+      example: row.example,
+      exampleJa: row.example_ja,
+      aiGenerated: row.ai_generated === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * 単語帳を作成
+   *
+   * @throws PersonalDeckError 名前が空・長すぎる場合
+   */
+  async createDeck(userId: string, name: string, description: string = ''): Promise<PersonalDeck> {
+    const trimmedName = this.validateDeckName(name);
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO personal_decks (id, user_id, name, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(id, userId, trimmedName, description.trim(), now, now);
+
+    return {
+      id,
+      name: trimmedName,
+      description: description.trim(),
+      wordCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * ユーザーの単語帳一覧（作成順）
+   */
+  async listDecks(userId: string): Promise<PersonalDeck[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT d.*, COUNT(w.id) as word_count
+      FROM personal_decks d
+      LEFT JOIN personal_words w ON w.deck_id = d.id
+      WHERE d.user_id = ?
+      GROUP BY d.id
+      ORDER BY d.created_at ASC, d.rowid ASC
+    `
+      )
+      .all(userId) as (DbPersonalDeck & { word_count: number })[];
+
+    return rows.map((row) => this.dbToDeck(row));
+  }
+
+  /**
+   * 単語帳と単語を取得（他ユーザーの単語帳はnull）
+   */
+  async getDeck(
+    userId: string,
+    deckId: string
+  ): Promise<(PersonalDeck & { words: PersonalWord[] }) | null> {
+    const row = this.findDeck(userId, deckId);
+    if (!row) return null;
+
+    const words = (
+      this.db
+        .prepare(
+          'SELECT * FROM personal_words WHERE deck_id = ? ORDER BY created_at ASC, rowid ASC'
+        )
+        .all(deckId) as DbPersonalWord[]
+    ).map((w) => this.dbToWord(w));
+
+    return { ...this.dbToDeck({ ...row, word_count: words.length }), words };
+  }
+
+  /**
+   * 単語帳の名前・説明を変更（他ユーザーの単語帳はnull）
+   *
+   * @throws PersonalDeckError 名前が空・長すぎる場合
+   */
+  async updateDeck(
+    userId: string,
+    deckId: string,
+    updates: { name?: string; description?: string }
+  ): Promise<PersonalDeck | null> {
+    const row = this.findDeck(userId, deckId);
+    if (!row) return null;
+
+    const name = updates.name !== undefined ? this.validateDeckName(updates.name) : row.name;
+    const description =
+      updates.description !== undefined ? updates.description.trim() : row.description;
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare('UPDATE personal_decks SET name = ?, description = ?, updated_at = ? WHERE id = ?')
+      .run(name, description, now, deckId);
+
+    const count = this.db
+      .prepare('SELECT COUNT(*) as count FROM personal_words WHERE deck_id = ?')
+      .get(deckId) as { count: number };
+    return this.dbToDeck({ ...row, name, description, updated_at: now, word_count: count.count });
+  }
+
+  /**
+   * 単語帳と単語を削除（学習履歴は残す）
+   */
+  async deleteDeck(userId: string, deckId: string): Promise<boolean> {
+    if (!this.findDeck(userId, deckId)) return false;
+
+    this.db.prepare('DELETE FROM personal_words WHERE deck_id = ?').run(deckId);
+    this.db.prepare('DELETE FROM personal_decks WHERE id = ?').run(deckId);
+    return true;
+  }
+
+  /**
+   * 単語を追加
+   * aiFill を指定すると、空の項目（発音・品詞・意味・例文）をAIで補う
+   *
+   * @throws PersonalDeckError 単語帳がない・入力が不正・同じ単語がある・AIの補完に失敗した場合
+   */
+  async addWord(userId: string, deckId: string, input: PersonalWordInput): Promise<PersonalWord> {
+    if (!this.findDeck(userId, deckId)) {
+      throw new PersonalDeckError('not_found', '単語帳が見つかりません');
+    }
+
+    const word = this.validateWord(input.word);
+    const existing = this.db
+      .prepare('SELECT id FROM personal_words WHERE deck_id = ? AND lower(word) = lower(?)')
+      .get(deckId, word);
+    if (existing) {
+      throw new PersonalDeckError('duplicate_word', `「${word}」は既にこの単語帳にあります`);
+    }
+
+    const { details, aiGenerated } = await this.completeDetails(word, input);
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `
+      INSERT INTO personal_words (id, deck_id, word, pronunciation, part_of_speech, definition, definition_ja, example, example_ja, ai_generated, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        id,
+        deckId,
+        word,
+        details.pronunciation,
+        details.partOfSpeech,
+        details.definition,
+        details.definitionJa,
+        details.example,
+        details.exampleJa,
+        aiGenerated ? 1 : 0,
+        now,
+        now
+      );
+    this.touchDeck(deckId, now);
+
+    return {
+      id,
+      deckId,
+      word,
+      ...details,
+      aiGenerated,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * 単語の項目を変更（単語そのものは変更できない。他ユーザーの単語はnull）
+   *
+   * @throws PersonalDeckError 意味が空になる場合
+   */
+  async updateWord(
+    userId: string,
+    deckId: string,
+    wordId: string,
+    updates: Partial<WordDetails>
+  ): Promise<PersonalWord | null> {
+    if (!this.findDeck(userId, deckId)) return null;
+    const row = this.db
+      .prepare('SELECT * FROM personal_words WHERE id = ? AND deck_id = ?')
+      .get(wordId, deckId) as DbPersonalWord | undefined;
+    if (!row) return null;
+
+    const current = this.dbToWord(row);
+    const details = {} as WordDetails;
+    for (const field of WORD_DETAIL_FIELDS) {
+      const value = updates[field];
+      details[field] = typeof value === 'string' ? value.trim() : current[field];
+    }
+    this.validateMeaning(details);
+
+    const now = new Date().toISOString();
+    this.db
+      .prepare(
+        `
+      UPDATE personal_words
+      SET pronunciation = ?, part_of_speech = ?, definition = ?, definition_ja = ?, example = ?, example_ja = ?, updated_at = ?
+      WHERE id = ?
+    `
+      )
+      .run(
+        details.pronunciation,
+        details.partOfSpeech,
+        details.definition,
+        details.definitionJa,
+        details.example,
+        details.exampleJa,
+        now,
+        wordId
+      );
+    this.touchDeck(deckId, now);
+
+    return { ...current, ...details, updatedAt: now };
+  }
+
+  /**
+   * 単語を削除（学習履歴は残す）
+   */
+  async deleteWord(userId: string, deckId: string, wordId: string): Promise<boolean> {
+    if (!this.findDeck(userId, deckId)) return false;
+
+    const result = this.db
+      .prepare('DELETE FROM personal_words WHERE id = ? AND deck_id = ?')
+      .run(wordId, deckId);
+    if (result.changes > 0) this.touchDeck(deckId, new Date().toISOString());
+    return result.changes > 0;
+  }
+
+  /**
+   * ユーザーの全単語帳の単語（同じ単語は先に登録したものを使う）
+   * 復習・学習開始で共有の単語帳と合わせて参照する
+   */
+  async getAllWords(userId: string): Promise<VocabularyWord[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT w.* FROM personal_words w
+      JOIN personal_decks d ON d.id = w.deck_id
+      WHERE d.user_id = ?
+      ORDER BY w.created_at ASC, w.rowid ASC
+    `
+      )
+      .all(userId) as DbPersonalWord[];
+
+    const seen = new Set<string>();
+    const words: VocabularyWord[] = [];
+    for (const row of rows) {
+      const key = row.word.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      words.push({
+        word: row.word,
+        pronunciation: row.pronunciation,
+        partOfSpeech: row.part_of_speech,
+        definition: row.definition,
+        definitionJa: row.definition_ja,
+        example: row.example,
+        exampleJa: row.example_ja,
+      });
+    }
+    return words;
+  }
+
+  /**
+   * 入力された項目とAIの補完結果をまとめる
+   */
+  private async completeDetails(
+    word: string,
+    input: PersonalWordInput
+  ): Promise<{ details: WordDetails; aiGenerated: boolean }> {
+    const known: Partial<WordDetails> = {};
+    for (const field of WORD_DETAIL_FIELDS) {
+      const value = input[field];
+      if (typeof value === 'string' && value.trim()) known[field] = value.trim();
+    }
+
+    const missing = WORD_DETAIL_FIELDS.some((f) => !known[f]);
+    if (input.aiFill && missing) {
+      try {
+        return {
+          details: await this.aiService.generateWordDetails(word, known),
+          aiGenerated: true,
+        };
+      } catch (error) {
+        if (error instanceof WordGenerationError) {
+          throw new PersonalDeckError('generation_failed', error.message);
+        }
+        throw error;
+      }
+    }
+
+    const details: WordDetails = {
+      pronunciation: known.pronunciation ?? '',
+      partOfSpeech: known.partOfSpeech ?? '',
+      definition: known.definition ?? '',
+      definitionJa: known.definitionJa ?? '',
+      example: known.example ?? '',
+      exampleJa: known.exampleJa ?? '',
+    };
+    this.validateMeaning(details);
+    return { details, aiGenerated: false };
+  }
+
+  /**
+   * 自分の単語帳を取得
+   */
+  private findDeck(userId: string, deckId: string): DbPersonalDeck | undefined {
+    return this.db
+      .prepare('SELECT * FROM personal_decks WHERE id = ? AND user_id = ?')
+      .get(deckId, userId) as DbPersonalDeck | undefined;
+  }
+
+  /**
+   * 単語帳の更新日時を進める
+   */
+  private touchDeck(deckId: string, now: string): void {
+    this.db.prepare('UPDATE personal_decks SET updated_at = ? WHERE id = ?').run(now, deckId);
+  }
+
+  private validateDeckName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > DECK_NAME_MAX_LENGTH) {
+      throw new PersonalDeckError(
+        'invalid_input',
+        `単語帳の名前は1〜${DECK_NAME_MAX_LENGTH}文字で入力してください`
+      );
+    }
+    return trimmed;
+  }
+
+  private validateWord(word: unknown): string {
+    const trimmed = typeof word === 'string' ? word.trim() : '';
+    if (!trimmed || trimmed.length > WORD_MAX_LENGTH) {
+      throw new PersonalDeckError(
+        'invalid_input',
+        `単語は1〜${WORD_MAX_LENGTH}文字で入力してください`
+      );
+    }
+    return trimmed;
+  }
+
+  /**
+   * 復習で表示できるよう、英語・日本語のどちらかの意味を必須にする
+   */
+  private validateMeaning(details: WordDetails): void {
+    if (!details.definition && !details.definitionJa) {
+      throw new PersonalDeckError(
+        'invalid_input',
+        '意味（definition または definitionJa）を入力するか、AIで補完してください'
+      );
+    }
+  }
+}
+
+// 型定義
+export interface PersonalDeck {
+  id: string;
+  name: string;
+  description: string;
+  wordCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PersonalWord extends VocabularyWord {
+  id: string;
+  deckId: string;
+  aiGenerated: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PersonalWordInput extends Partial<WordDetails> {
+  word: string;
+  /** 空の項目をAIで補う */
+  aiFill?: boolean;
+}
@@ -0,0 +1,208 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, DbPlacementTest } from './database';
+import { DEFAULT_CONTENT_DIR } from './content-registry';
+import { CEFR_LEVELS, CefrLevel } from './content-validation';
+import { MultipleChoiceQuestion } from './quiz-validation';
+import { gradeQuestion } from './quiz-grading';
+import { PublicQuizQuestion, toPublicQuestion } from './quiz';
+import { UserService } from './user';
+import { VocabularyQuizService, shuffle } from './vocabulary-quiz';
+
+/**
+ * レベルごとに出題する単語数
+ */
+const PLACEMENT_WORDS_PER_LEVEL = 3;
+
+/**
+ * そのレベルに達しているとみなす正答率
+ */
+const PLACEMENT_PASS_RATE = 0.6;
+
+/**
+ * 出題した問題（単語のCEFRレベル付き）
+ */
+export interface PlacementQuestion {
+  level: CefrLevel;
+  question: MultipleChoiceQuestion;
+}
+
+/**
+ * 開始したプレースメントテスト（正解を除いた問題）
+ */
+export interface PlacementTest {
+  testId: string;
+  questions: PublicQuizQuestion[];
+}
+
+export interface PlacementLevelResult {
+  level: CefrLevel;
+  correct: number;
+  total: number;
+}
+
+export interface PlacementResult {
+  testId: string;
+  /** 判定したCEFRレベル（ユーザーのプロフィールに保存する） */
+  level: CefrLevel;
+  score: number;
+  total: number;
+  /** 出題したレベルごとの正答数（易しい順） */
+  levels: PlacementLevelResult[];
+  completedAt: string;
+}
+
+/**
+ * プレースメントテストのエラー
+ * - not_found: テストが存在しない（他ユーザーのテストを含む）
+ * - already_submitted: 回答済み
+ * - unavailable: CEFRレベル付きの単語がなく出題できない
+ */
+export class PlacementError extends Error {
+  readonly code: 'not_found' | 'already_submitted' | 'unavailable';
+
+  constructor(code: PlacementError['code'], message: string) {
+    super(message);
+    this.name = 'PlacementError';
+    this.code = code;
+  }
+}
+
+/**
+ * レベルごとの正答数からCEFRレベルを推定
+ * 易しいレベルから順に見て、正答率が合格ラインを下回ったレベルの1つ下を判定結果とする
+ * （すべてのレベルで合格ラインに達した場合は出題した最上位のレベル）
+ */
+export function estimateCefrLevel(levels: PlacementLevelResult[]): CefrLevel {
+  const tested = levels
+    .filter((l) => l.total > 0)
+    .sort((a, b) => CEFR_LEVELS.indexOf(a.level) - CEFR_LEVELS.indexOf(b.level));
+
+  for (const result of tested) {
+    if (result.correct / result.total < PLACEMENT_PASS_RATE) {
+      return CEFR_LEVELS[Math.max(0, CEFR_LEVELS.indexOf(result.level) - 1)];
+    }
+  }
+  return tested.length > 0 ? tested[tested.length - 1].level : CEFR_LEVELS[0];
+}
+
+/**
+ * プレースメントテストサービス - 各CEFRレベルの単語から出題し、学習者のレベルを判定
+ * 収益化観点：初回から適切なレベルの教材を提示し、易しすぎ・難しすぎによる離脱を防ぐ
+ */
+export class PlacementService {
+  private db = DatabaseService.getInstance().getDb();
+  private vocabularyQuizService: VocabularyQuizService;
+  private random: () => number;
+
+  /**
+   * @param random 乱数生成関数（テストで固定するために差し替え可能）
+   */
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR, random: () => number = Math.random) {
+    this.vocabularyQuizService = new VocabularyQuizService(contentDir, random);
+    this.random = random;
+  }
+
+  /**
+   * テストを開始（CEFRレベルごとに単語を選び、意味を答える4択問題にする）
+   *
+   * @throws PlacementError CEFRレベル付きの単語がない場合
+   */
+  async startTest(userId: string): Promise<PlacementTest> {
+    const vocabulary = this.vocabularyQuizService.loadVocabulary();
+    const questions: PlacementQuestion[] = [];
+    const picked = new Set<string>();
+
+    for (const level of CEFR_LEVELS) {
+      let count = 0;
+      for (const entry of shuffle(
+        vocabulary.filter((e) => e.cefr === level),
+        this.random
+      )) {
+        if (count >= PLACEMENT_WORDS_PER_LEVEL) break;
+        const key = entry.word.toLowerCase();
+        if (picked.has(key)) continue;
+
+        const question = this.vocabularyQuizService.buildMultipleChoice(entry, vocabulary);
+        if (!question) continue;
+        picked.add(key);
+        questions.push({ level, question });
+        count++;
+      }
+    }
+
+    if (questions.length === 0) {
+      throw new PlacementError(
+        'unavailable',
+        'CEFRレベルが設定された単語がないため、テストを作成できません'
+      );
+    }
+
+    const testId = uuidv4();
+    this.db
+      .prepare(
+        `
+      INSERT INTO placement_tests (id, user_id, questions, total, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `
+      )
+      .run(testId, userId, JSON.stringify(questions), questions.length, new Date().toISOString());
+
+    return { testId, questions: questions.map((q) => toPublicQuestion(q.question)) };
+  }
+
+  /**
+   * 回答を採点してCEFRレベルを判定し、ユーザーのプロフィールに保存
+   * 回答のない問題は不正解として扱う
+   *
+   * @throws PlacementError テストが存在しない・回答済みの場合
+   */
+  async submitTest(userId: string, testId: string, answers: unknown[]): Promise<PlacementResult> {
+    const row = this.db
+      .prepare('SELECT * FROM placement_tests WHERE id = ? AND user_id = ?')
+      .get(testId, userId) as DbPlacementTest | undefined;
+    if (!row) {
+      throw new PlacementError('not_found', 'テストが見つかりません');
+    }
+    if (row.completed_at) {
+      throw new PlacementError('already_submitted', 'このテストは回答済みです');
+    }
+
+    const questions = JSON.parse(row.questions) as PlacementQuestion[];
+    const levels: PlacementLevelResult[] = CEFR_LEVELS.map((level) => ({
+      level,
+      correct: 0,
+      total: 0,
+    }));
+    let score = 0;
+
+    questions.forEach(({ level, question }, index) => {
+      const result = levels[CEFR_LEVELS.indexOf(level)];
+      result.total++;
+      if (gradeQuestion(question, answers[index]).correct) {
+        result.correct++;
+        score++;
+      }
+    });
+
+    const level = estimateCefrLevel(levels);
+    const completedAt = new Date().toISOString();
+    this.db
+      .prepare(
+        `
+      UPDATE placement_tests SET estimated_level = ?, score = ?, completed_at = ?
+      WHERE id = ?
+    `
+      )
+      .run(level, score, completedAt, testId);
+    await new UserService().updateCefrLevel(userId, level);
+
+    return {
+      testId,
+      level,
+      score,
+      total: questions.length,
+      levels: levels.filter((l) => l.total > 0),
+      completedAt,
+    };
+  }
+}
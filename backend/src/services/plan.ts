@@ -25,10 +25,12 @@ export interface PlanDetails {
 export interface PlanLimits {
   dailyQuestions: number; // 日次質問数（-1は無制限）
   lessonsPerMonth: number; // 月次レッスン数（-1は無制限）
+  monthlyAiTokens: number; // 月次AIトークン予算（-1は無制限）
   analyticsAccess: boolean; // 詳細分析へのアクセス
   curriculumAccess: boolean; // 適応型カリキュラムへのアクセス
   reminderFeatures: boolean; // リマインダー機能
   exportData: boolean; // データエクスポート
+  customContent: boolean; // カスタムコンテンツ（単語帳の取り込み）
   prioritySupport: boolean; // 優先サポート
 }
 
@@ -75,10 +77,12 @@ export const PLANS: Record<PlanType, PlanDetails> = {
     limits: {
       dailyQuestions: 5,
       lessonsPerMonth: 10,
+      monthlyAiTokens: 50000,
       analyticsAccess: false,
       curriculumAccess: false,
       reminderFeatures: false,
       exportData: false,
+      customContent: false,
       prioritySupport: false,
     },
   },
@@ -99,10 +103,12 @@ export const PLANS: Record<PlanType, PlanDetails> = {
     limits: {
       dailyQuestions: -1,
       lessonsPerMonth: -1,
+      monthlyAiTokens: 2000000,
       analyticsAccess: true,
       curriculumAccess: true,
       reminderFeatures: true,
       exportData: true,
+      customContent: false,
       prioritySupport: false,
     },
   },
@@ -122,10 +128,12 @@ export const PLANS: Record<PlanType, PlanDetails> = {
     limits: {
       dailyQuestions: -1,
       lessonsPerMonth: -1,
+      monthlyAiTokens: 5000000,
       analyticsAccess: true,
       curriculumAccess: true,
       reminderFeatures: true,
       exportData: true,
+      customContent: true,
       prioritySupport: true,
     },
   },
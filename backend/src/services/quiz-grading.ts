@@ -0,0 +1,140 @@
+import { QuizAnswer, QuizQuestion } from './quiz-validation';
+import { GrammarExercise } from './content-validation';
+
+/**
+ * 1問の採点結果
+ */
+export interface QuestionGrade {
+  correct: boolean;
+  /** 正解（回答と同じ形式） */
+  correctAnswer: QuizAnswer;
+  /** 綴りの軽微な誤りを許容して正解とした場合 true（記述・穴埋め） */
+  typo?: boolean;
+}
+
+/**
+ * 入力文字列を比較用に正規化
+ * 全角・半角を揃え、アクセント記号・句読点を除き、小文字化して空白を詰める
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\-\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 2つの文字列の編集距離（レーベンシュタイン距離）
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 正解の長さに応じて許容する綴りの誤りの数（短い単語ほど厳しくする）
+ */
+export function allowedTypos(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 9) return 1;
+  return 2;
+}
+
+/**
+ * 入力された文字列を正解と照合
+ * 正規化後に一致すれば正解、許容範囲内の綴りの誤りなら typo 付きで正解とする
+ */
+export function matchTypedAnswer(
+  input: string,
+  accepted: string[]
+): { correct: boolean; typo: boolean } {
+  const normalized = normalizeAnswer(input);
+  if (!normalized) return { correct: false, typo: false };
+
+  const candidates = accepted.map(normalizeAnswer);
+  if (candidates.includes(normalized)) {
+    return { correct: true, typo: false };
+  }
+
+  const typo = candidates.some((c) => editDistance(normalized, c) <= allowedTypos(c.length));
+  return { correct: typo, typo };
+}
+
+function isIndexArray(value: unknown, length: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === length &&
+    value.every((v) => Number.isInteger(v) && v >= 0 && v < length)
+  );
+}
+
+/**
+ * 問題形式に応じて1問を採点
+ * 回答の形式が問題と合わない場合は不正解とする
+ */
+export function gradeQuestion(question: QuizQuestion, answer: unknown): QuestionGrade {
+  switch (question.type) {
+    case 'multiple_choice':
+      return { correct: answer === question.correctIndex, correctAnswer: question.correctIndex };
+
+    case 'cloze':
+    case 'typed': {
+      const accepted =
+        question.type === 'typed'
+          ? [question.answer, ...(question.acceptedAnswers || [])]
+          : [question.answer];
+      if (typeof answer !== 'string') {
+        return { correct: false, correctAnswer: question.answer };
+      }
+      const { correct, typo } = matchTypedAnswer(answer, accepted);
+      return { correct, correctAnswer: question.answer, ...(typo ? { typo } : {}) };
+    }
+
+    case 'matching': {
+      const correct =
+        isIndexArray(answer, question.terms.length) &&
+        answer.every((definitionIndex, i) => definitionIndex === question.correctMatches[i]);
+      return { correct, correctAnswer: question.correctMatches };
+    }
+
+    case 'ordering': {
+      // 同じ単語が複数ある場合も正解の文と一致すれば正解
+      const expected = question.correctOrder.map((i) => question.tokens[i]).join(' ');
+      const correct =
+        isIndexArray(answer, question.tokens.length) &&
+        new Set(answer).size === answer.length &&
+        answer.map((i) => question.tokens[i]).join(' ') === expected;
+      return { correct, correctAnswer: question.correctOrder };
+    }
+  }
+}
+
+/**
+ * 文法演習を採点
+ * 文法の誤りは1文字の違いで決まることが多いため、綴りの誤りは許容せず正規化後の一致のみ正解とする
+ */
+export function gradeGrammarExercise(exercise: GrammarExercise, answer: unknown): QuestionGrade {
+  if (typeof answer !== 'string' || !normalizeAnswer(answer)) {
+    return { correct: false, correctAnswer: exercise.answer };
+  }
+  const normalized = normalizeAnswer(answer);
+  const correct = [exercise.answer, ...exercise.acceptedAnswers].some(
+    (accepted) => normalizeAnswer(accepted) === normalized
+  );
+  return { correct, correctAnswer: exercise.answer };
+}
@@ -0,0 +1,247 @@
+/**
+ * 問題形式
+ * - multiple_choice: 4択
+ * - cloze: 例文の空欄に入る単語を入力
+ * - typed: 意味から英単語を入力（綴りの軽微な誤り・アクセント記号の有無は許容）
+ * - matching: 英単語と意味の組み合わせ
+ * - ordering: 単語を並べ替えて例文を完成
+ */
+export type QuizQuestionType = 'multiple_choice' | 'cloze' | 'typed' | 'matching' | 'ordering';
+
+interface QuizQuestionBase {
+  question: string;
+  explanation: string;
+  /** 問題が扱う英単語（語彙問題の場合。復習スケジュールとの連携に使用） */
+  word?: string;
+}
+
+/**
+ * 4択問題
+ */
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
+  options: string[];
+  correctIndex: number;
+}
+
+/**
+ * 穴埋め問題（sentenceの空欄 CLOZE_BLANK に入る語を入力）
+ */
+export interface ClozeQuestion extends QuizQuestionBase {
+  type: 'cloze';
+  sentence: string;
+  answer: string;
+  hint?: string;
+}
+
+/**
+ * 記述問題（英単語を入力）
+ */
+export interface TypedQuestion extends QuizQuestionBase {
+  type: 'typed';
+  answer: string;
+  /** answer以外に正解とする表記 */
+  acceptedAnswers?: string[];
+  hint?: string;
+}
+
+/**
+ * 組み合わせ問題（terms[i] の正解は definitions[correctMatches[i]]）
+ */
+export interface MatchingQuestion extends QuizQuestionBase {
+  type: 'matching';
+  terms: string[];
+  definitions: string[];
+  correctMatches: number[];
+}
+
+/**
+ * 並べ替え問題（tokens を correctOrder の順に並べると正解の文になる）
+ */
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  tokens: string[];
+  correctOrder: number[];
+}
+
+/**
+ * クイズ問題
+ */
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | ClozeQuestion
+  | TypedQuestion
+  | MatchingQuestion
+  | OrderingQuestion;
+
+/**
+ * 回答（4択: 選択肢の位置、穴埋め・記述: 入力文字列、組み合わせ: 各termに選んだdefinitionの位置、並べ替え: tokensの位置の並び）
+ */
+export type QuizAnswer = number | string | number[];
+
+/**
+ * 穴埋め問題の空欄
+ */
+export const CLOZE_BLANK = '_____';
+
+/**
+ * 検証で見つかった問題点
+ */
+export interface QuizValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type QuizValidationResult =
+  | { valid: true; questions: MultipleChoiceQuestion[] }
+  | { valid: false; issues: QuizValidationIssue[] };
+
+/**
+ * 1問あたりの選択肢数
+ */
+export const QUIZ_OPTION_COUNT = 4;
+
+/**
+ * モデルの出力からJSON部分を取り出す
+ * ```json フェンスや前後の説明文が付いていても配列（またはオブジェクト）部分を抽出する
+ */
+export function extractJson(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) return null;
+
+  const open = candidate[start];
+  const close = open === '[' ? ']' : '}';
+  const end = candidate.lastIndexOf(close);
+  if (end <= start) return null;
+
+  return candidate.slice(start, end + 1);
+}
+
+/**
+ * モデルの出力をパースして検証
+ */
+export function parseQuizOutput(text: string, expectedCount: number): QuizValidationResult {
+  const json = extractJson(text);
+  if (!json) {
+    return { valid: false, issues: [{ path: '', message: 'JSONが見つかりません' }] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      valid: false,
+      issues: [{ path: '', message: `JSONの構文エラー: ${(error as Error).message}` }],
+    };
+  }
+
+  // { "questions": [...] } 形式も受け付ける
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    data = (data as { questions?: unknown }).questions;
+  }
+
+  return validateQuizQuestions(data, expectedCount);
+}
+
+/**
+ * クイズ問題配列の実行時検証（モデルが生成する4択問題）
+ */
+export function validateQuizQuestions(data: unknown, expectedCount: number): QuizValidationResult {
+  if (!Array.isArray(data)) {
+    return { valid: false, issues: [{ path: '', message: '問題の配列ではありません' }] };
+  }
+
+  const issues: QuizValidationIssue[] = [];
+
+  if (data.length !== expectedCount) {
+    issues.push({
+      path: '',
+      message: `問題数が${expectedCount}問ではありません（${data.length}問）`,
+    });
+  }
+
+  data.forEach((item, index) => {
+    const path = `[${index}]`;
+
+    if (!item || typeof item !== 'object') {
+      issues.push({ path, message: 'オブジェクトではありません' });
+      return;
+    }
+
+    const q = item as Record<string, unknown>;
+
+    if (!isNonEmptyString(q.question)) {
+      issues.push({ path: `${path}.question`, message: '問題文が空です' });
+    }
+
+    if (!isNonEmptyString(q.explanation)) {
+      issues.push({ path: `${path}.explanation`, message: '解説が空です' });
+    }
+
+    if (!Array.isArray(q.options)) {
+      issues.push({ path: `${path}.options`, message: '選択肢が配列ではありません' });
+    } else {
+      if (q.options.length !== QUIZ_OPTION_COUNT) {
+        issues.push({
+          path: `${path}.options`,
+          message: `選択肢が${QUIZ_OPTION_COUNT}つではありません（${q.options.length}つ）`,
+        });
+      }
+      if (!q.options.every(isNonEmptyString)) {
+        issues.push({ path: `${path}.options`, message: '空の選択肢があります' });
+      } else {
+        const normalized = q.options.map((o) => (o as string).trim().toLowerCase());
+        if (new Set(normalized).size !== normalized.length) {
+          issues.push({ path: `${path}.options`, message: '重複した選択肢があります' });
+        }
+      }
+    }
+
+    if (q.word !== undefined && q.word !== null && !isNonEmptyString(q.word)) {
+      issues.push({ path: `${path}.word`, message: 'wordが文字列ではありません' });
+    }
+
+    const optionCount = Array.isArray(q.options) ? q.options.length : QUIZ_OPTION_COUNT;
+    if (
+      typeof q.correctIndex !== 'number' ||
+      !Number.isInteger(q.correctIndex) ||
+      q.correctIndex < 0 ||
+      q.correctIndex >= optionCount
+    ) {
+      issues.push({
+        path: `${path}.correctIndex`,
+        message: `correctIndexが0〜${optionCount - 1}の整数ではありません`,
+      });
+    }
+  });
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const questions = (data as Record<string, unknown>[]).map((q) => ({
+    type: 'multiple_choice' as const,
+    question: (q.question as string).trim(),
+    options: (q.options as string[]).map((o) => o.trim()),
+    correctIndex: q.correctIndex as number,
+    explanation: (q.explanation as string).trim(),
+    ...(isNonEmptyString(q.word) ? { word: (q.word as string).trim() } : {}),
+  }));
+
+  return { valid: true, questions };
+}
+
+/**
+ * 検証エラーをモデルへの修正依頼用テキストに整形
+ */
+export function formatIssues(issues: QuizValidationIssue[]): string {
+  return issues.map((i) => `- ${i.path ? `${i.path}: ` : ''}${i.message}`).join('\n');
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
@@ -0,0 +1,605 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, DbQuiz, DbQuizQuestion } from './database';
+import { AIService } from './ai';
+import {
+  ClozeQuestion,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  OrderingQuestion,
+  QuizAnswer,
+  QuizQuestion,
+  QuizQuestionType,
+  TypedQuestion,
+} from './quiz-validation';
+import { gradeQuestion } from './quiz-grading';
+import { ItemBankService, TopicAbility, fromStoredQuestion, toStoredQuestion } from './item-bank';
+import { difficultyFromLabel, isDifficultyLabel } from './irt';
+import { RetrievalService } from './retrieval';
+import { ReviewResult, SpacedRepetitionService } from './spaced-repetition';
+import { ReminderService } from './reminder';
+import { UserService } from './user';
+import { VocabularyQuizService } from './vocabulary-quiz';
+
+/**
+ * クイズの有効期限（時間、デフォルト）
+ */
+const DEFAULT_QUIZ_TTL_HOURS = 24;
+
+/**
+ * 語彙復習クイズのトピック・難易度（学習状況から出題するため難易度は固定）
+ */
+export const VOCABULARY_REVIEW_TOPIC = 'vocabulary-review';
+const VOCABULARY_REVIEW_DIFFICULTY = 'adaptive';
+
+/**
+ * クイズのトピックに対応する問題バンクのトピック（語彙復習クイズの問題は語彙の問題として扱う）
+ */
+export function itemTopic(topic: string): string {
+  return topic === VOCABULARY_REVIEW_TOPIC ? 'vocabulary' : topic;
+}
+
+/**
+ * 回答時間による品質判定の閾値（ミリ秒）
+ */
+const FAST_ANSWER_MS = 10_000;
+const SLOW_ANSWER_MS = 30_000;
+
+/**
+ * 正誤と回答時間から復習品質（0-5）を求める
+ * 正解でも時間がかかった場合は定着が弱いとみなして品質を下げる。回答時間が不明な場合は4
+ */
+export function qualityFromAnswer(correct: boolean, responseTimeMs?: number): number {
+  if (!correct) return 1;
+  if (responseTimeMs === undefined || !Number.isFinite(responseTimeMs)) return 4;
+  if (responseTimeMs <= FAST_ANSWER_MS) return 5;
+  if (responseTimeMs <= SLOW_ANSWER_MS) return 4;
+  return 3;
+}
+
+/**
+ * 綴りの誤りを許容して正解とした問題の復習品質の上限
+ */
+const TYPO_QUALITY_CAP = 3;
+
+/**
+ * 問題文と正解から、扱っている教材の英単語を探す
+ */
+export function findTestedWord(question: QuizQuestion, headwords: string[]): string | undefined {
+  const correct =
+    question.type === 'multiple_choice'
+      ? question.options[question.correctIndex]
+      : 'answer' in question
+        ? question.answer
+        : '';
+  const text = `${question.question} ${correct ?? ''}`;
+  return headwords.find((word) =>
+    new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text)
+  );
+}
+
+/**
+ * 出題用に正解を除いた問題
+ */
+export type PublicQuizQuestion =
+  | Pick<MultipleChoiceQuestion, 'type' | 'question' | 'options'>
+  | Pick<ClozeQuestion, 'type' | 'question' | 'sentence' | 'hint'>
+  | Pick<TypedQuestion, 'type' | 'question' | 'hint'>
+  | Pick<MatchingQuestion, 'type' | 'question' | 'terms' | 'definitions'>
+  | Pick<OrderingQuestion, 'type' | 'question' | 'tokens'>;
+
+/**
+ * 問題から正解を除いて出題用に変換
+ */
+export function toPublicQuestion(q: QuizQuestion): PublicQuizQuestion {
+  switch (q.type) {
+    case 'multiple_choice':
+      return { type: q.type, question: q.question, options: q.options };
+    case 'cloze':
+      return { type: q.type, question: q.question, sentence: q.sentence, hint: q.hint };
+    case 'typed':
+      return { type: q.type, question: q.question, hint: q.hint };
+    case 'matching':
+      return { type: q.type, question: q.question, terms: q.terms, definitions: q.definitions };
+    case 'ordering':
+      return { type: q.type, question: q.question, tokens: q.tokens };
+  }
+}
+
+/**
+ * クイズ提出エラー
+ * - not_found: クイズが存在しない
+ * - forbidden: 他ユーザーのクイズ
+ * - expired: 有効期限切れ
+ * - already_submitted: 回答済み
+ */
+export class QuizSubmitError extends Error {
+  readonly code: 'not_found' | 'forbidden' | 'expired' | 'already_submitted';
+
+  constructor(code: QuizSubmitError['code'], message: string) {
+    super(message);
+    this.name = 'QuizSubmitError';
+    this.code = code;
+  }
+}
+
+/**
+ * クイズサービス - 生成したクイズの保存・出題・採点
+ * 収益化観点：ユーザーごとに新しい問題を出し、結果を記録して学習効果を可視化する
+ *
+ * 認証済みユーザーには個別のクイズを発行し、提出後または期限切れで再生成する。
+ * 未認証の場合は同じトピック・難易度の共有クイズを期限まで使い回す（生成コスト抑制）
+ */
+export class QuizService {
+  private db = DatabaseService.getInstance().getDb();
+  private aiService: AIService;
+  private ttlHours: number;
+
+  private vocabularyQuizService: VocabularyQuizService;
+  private itemBank: ItemBankService;
+
+  constructor(
+    aiService: AIService = new AIService(),
+    vocabularyQuizService: VocabularyQuizService = new VocabularyQuizService(),
+    itemBank: ItemBankService = new ItemBankService()
+  ) {
+    this.aiService = aiService;
+    this.vocabularyQuizService = vocabularyQuizService;
+    this.itemBank = itemBank;
+    this.ttlHours = parseInt(process.env.QUIZ_TTL_HOURS || '', 10) || DEFAULT_QUIZ_TTL_HOURS;
+  }
+
+  /**
+   * DBレコードをQuizに変換
+   */
+  private dbToQuiz(row: DbQuiz, questions: DbQuizQuestion[]): Quiz {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      topic: row.topic,
+      difficulty: row.difficulty,
+      questions: questions.map(fromStoredQuestion),
+      itemIds: questions.map((q) => q.item_id),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      completedAt: row.completed_at,
+    };
+  }
+
+  /**
+   * クイズを取得
+   */
+  async getQuiz(quizId: string): Promise<Quiz | null> {
+    const row = this.db.prepare('SELECT * FROM quizzes WHERE id = ?').get(quizId) as
+      | DbQuiz
+      | undefined;
+    if (!row) return null;
+
+    const questions = this.db
+      .prepare('SELECT * FROM quiz_questions WHERE quiz_id = ? ORDER BY position ASC')
+      .all(quizId) as DbQuizQuestion[];
+
+    return this.dbToQuiz(row, questions);
+  }
+
+  /**
+   * 出題中（未提出・有効期限内）のクイズを取得
+   */
+  async findActiveQuiz(
+    userId: string | null,
+    topic: string,
+    difficulty: string
+  ): Promise<Quiz | null> {
+    const row = this.db
+      .prepare(
+        `
+      SELECT id FROM quizzes
+      WHERE user_id IS ? AND topic = ? AND difficulty = ?
+        AND completed_at IS NULL AND expires_at > ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `
+      )
+      .get(userId, topic, difficulty, new Date().toISOString()) as { id: string } | undefined;
+
+    return row ? this.getQuiz(row.id) : null;
+  }
+
+  /**
+   * クイズを保存
+   * 問題は問題バンクにも登録する（難易度ラベル指定時はその難易度、それ以外は問題形式ごとの初期難易度）
+   */
+  async createQuiz(
+    userId: string | null,
+    topic: string,
+    difficulty: string,
+    questions: QuizQuestion[]
+  ): Promise<Quiz> {
+    const id = uuidv4();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.ttlHours * 60 * 60 * 1000);
+
+    // モデルが単語を指定しなかった問題も、教材の単語を含んでいれば紐付ける
+    const headwords = new RetrievalService()
+      .loadDocuments()
+      .filter((d) => d.type === 'vocabulary')
+      .map((d) => d.headword);
+    const linked = questions.map((q) => {
+      const word = q.word ?? findTestedWord(q, headwords);
+      return word ? { ...q, word } : q;
+    });
+
+    const insertQuiz = this.db.prepare(`
+      INSERT INTO quizzes (id, user_id, topic, difficulty, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const itemIds = this.itemBank.addItems(
+      itemTopic(topic),
+      linked,
+      isDifficultyLabel(difficulty) ? difficultyFromLabel(difficulty) : undefined
+    );
+
+    this.db.transaction(() => {
+      insertQuiz.run(id, userId, topic, difficulty, now.toISOString(), expiresAt.toISOString());
+      linked.forEach((q, index) => this.insertQuestion(id, index, q, itemIds[index]));
+    })();
+
+    return {
+      id,
+      userId,
+      topic,
+      difficulty,
+      questions: linked,
+      itemIds,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      completedAt: null,
+    };
+  }
+
+  /**
+   * 問題を1問保存
+   */
+  private insertQuestion(
+    quizId: string,
+    position: number,
+    q: QuizQuestion,
+    itemId: number | null
+  ): void {
+    const stored = toStoredQuestion(q);
+    this.db
+      .prepare(
+        `
+      INSERT INTO quiz_questions (quiz_id, position, type, question, payload, explanation, word, item_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        quizId,
+        position,
+        stored.type,
+        stored.question,
+        stored.payload,
+        stored.explanation,
+        stored.word,
+        itemId
+      );
+  }
+
+  /**
+   * 出題済みのクイズに問題を追加（適応型クイズで1問ずつ出題する場合）
+   *
+   * @returns 追加した問題の位置
+   */
+  appendQuestion(quizId: string, q: QuizQuestion, itemId: number | null): number {
+    const { count } = this.db
+      .prepare('SELECT COUNT(*) as count FROM quiz_questions WHERE quiz_id = ?')
+      .get(quizId) as { count: number };
+    this.insertQuestion(quizId, count, q, itemId);
+    return count;
+  }
+
+  /**
+   * 出題中のクイズを返し、なければ生成する
+   *
+   * @param regenerate trueの場合は出題中のクイズがあっても新しく生成する
+   * @throws QuizGenerationError 生成に失敗した場合
+   */
+  async getOrCreateQuiz(
+    userId: string | null,
+    topic: string,
+    difficulty: string,
+    regenerate: boolean = false
+  ): Promise<Quiz> {
+    if (!regenerate) {
+      const active = await this.findActiveQuiz(userId, topic, difficulty);
+      if (active) return active;
+    }
+
+    this.deleteExpiredQuizzes();
+
+    const questions = await this.aiService.generateQuiz(topic, difficulty);
+    return this.createQuiz(userId, topic, difficulty, questions);
+  }
+
+  /**
+   * ユーザーの復習期限・苦手単語から語彙クイズを出題（LLMを使わずローカルで生成）
+   * 出題できる単語がない場合はnull
+   */
+  async getOrCreateVocabularyQuiz(
+    userId: string,
+    regenerate: boolean = false
+  ): Promise<Quiz | null> {
+    if (!regenerate) {
+      const active = await this.findActiveQuiz(
+        userId,
+        VOCABULARY_REVIEW_TOPIC,
+        VOCABULARY_REVIEW_DIFFICULTY
+      );
+      if (active) return active;
+    }
+
+    this.deleteExpiredQuizzes();
+
+    const questions = await this.vocabularyQuizService.generateQuiz(userId);
+    if (questions.length === 0) return null;
+
+    return this.createQuiz(
+      userId,
+      VOCABULARY_REVIEW_TOPIC,
+      VOCABULARY_REVIEW_DIFFICULTY,
+      questions
+    );
+  }
+
+  /**
+   * 回答を問題形式ごとに採点
+   */
+  gradeQuiz(questions: QuizQuestion[], answers: unknown[]): QuizResult {
+    const details = questions.map((q, index) => {
+      const { correct, correctAnswer, typo } = gradeQuestion(q, answers[index]);
+      return {
+        questionIndex: index,
+        type: q.type,
+        correct,
+        userAnswer: (answers[index] ?? null) as QuizAnswer | null,
+        correctAnswer,
+        explanation: q.explanation,
+        ...(typo ? { typo } : {}),
+        ...(q.word ? { word: q.word } : {}),
+      };
+    });
+
+    const correctCount = details.filter((d) => d.correct).length;
+
+    return {
+      score: correctCount,
+      total: questions.length,
+      percentage: Math.round((correctCount / questions.length) * 100),
+      details,
+    };
+  }
+
+  /**
+   * クイズを提出して採点し、認証済みユーザーの結果を記録
+   * 単語に紐付いた問題は復習スケジュールに反映し、学習セッション・連続学習日数も更新する
+   *
+   * @param answers 問題ごとの回答（形式は QuizAnswer を参照）
+   * @param responseTimesMs 問題ごとの回答時間（ミリ秒）。復習品質の判定に使用
+   * @throws QuizSubmitError 提出できない場合
+   */
+  async submitQuiz(
+    quizId: string,
+    userId: string | null,
+    answers: unknown[],
+    responseTimesMs: number[] = []
+  ): Promise<QuizResult> {
+    const quiz = await this.getQuiz(quizId);
+    if (!quiz) {
+      throw new QuizSubmitError('not_found', 'クイズが見つかりません');
+    }
+    if (quiz.userId && quiz.userId !== userId) {
+      throw new QuizSubmitError('forbidden', 'このクイズには回答できません');
+    }
+    // 共有クイズは提出済みにしないため、認証済みユーザーの提出はユーザーごとの結果で判定する
+    if (quiz.completedAt || (userId && this.hasSubmitted(userId, quiz.id))) {
+      throw new QuizSubmitError('already_submitted', 'このクイズは回答済みです');
+    }
+    if (quiz.expiresAt <= new Date().toISOString()) {
+      throw new QuizSubmitError('expired', 'クイズの有効期限が切れています');
+    }
+
+    const result = this.gradeQuiz(quiz.questions, answers);
+    this.completeQuiz(quiz, userId, result);
+
+    if (!userId) {
+      return result;
+    }
+
+    // 問題バンクの問題は回答ごとに難易度と能力推定値を更新する
+    let ability: TopicAbility | undefined;
+    for (const detail of result.details) {
+      const itemId = quiz.itemIds[detail.questionIndex];
+      if (itemId === null) continue;
+      ability = this.itemBank.recordResponse(userId, itemId, quizId, detail.correct) ?? ability;
+    }
+
+    const reviews = await this.recordProgress(userId, result, responseTimesMs);
+    const streak = await new UserService().updateStreak(userId);
+
+    return { ...result, reviews, streak, ...(ability ? { ability } : {}) };
+  }
+
+  /**
+   * ユーザーがクイズの結果を記録済みか
+   */
+  private hasSubmitted(userId: string, quizId: string): boolean {
+    return !!this.db
+      .prepare('SELECT 1 FROM quiz_results WHERE user_id = ? AND quiz_id = ?')
+      .get(userId, quizId);
+  }
+
+  /**
+   * 採点結果を記録し、個別クイズを提出済みにする
+   */
+  completeQuiz(
+    quiz: Pick<Quiz, 'id' | 'userId'>,
+    userId: string | null,
+    result: Pick<QuizResult, 'score' | 'total' | 'percentage'>
+  ): void {
+    const now = new Date().toISOString();
+
+    if (userId) {
+      this.db
+        .prepare(
+          `
+        INSERT INTO quiz_results (user_id, quiz_id, score, total, percentage, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `
+        )
+        .run(userId, quiz.id, result.score, result.total, result.percentage, now);
+    }
+
+    // 個別クイズは提出済みにして次回は新しい問題を出す（共有クイズは期限まで使い回す）
+    if (quiz.userId) {
+      this.db.prepare('UPDATE quizzes SET completed_at = ? WHERE id = ?').run(now, quiz.id);
+    }
+  }
+
+  /**
+   * 採点結果を復習スケジュールと学習セッションに反映
+   */
+  private async recordProgress(
+    userId: string,
+    result: QuizResult,
+    responseTimesMs: number[]
+  ): Promise<ReviewResult[]> {
+    const spacedRepetition = new SpacedRepetitionService();
+    const reviews: ReviewResult[] = [];
+
+    for (const detail of result.details) {
+      if (!detail.word) continue;
+      let quality = qualityFromAnswer(detail.correct, responseTimesMs[detail.questionIndex]);
+      if (detail.typo) quality = Math.min(quality, TYPO_QUALITY_CAP);
+      reviews.push(
+        await spacedRepetition.recordReview(
+          userId,
+          detail.word,
+          quality,
+          responseTimesMs[detail.questionIndex]
+        )
+      );
+    }
+
+    // 進行中のセッションがなければ開始してクイズの実施を記録する
+    const reminderService = new ReminderService();
+    const session =
+      (await reminderService.getActiveSession(userId)) ??
+      (await reminderService.startSession(userId));
+    await reminderService.updateSession(session.id, {
+      wordsReviewed: session.wordsReviewed + reviews.length,
+      quizCompleted: session.quizCompleted + 1,
+    });
+
+    return reviews;
+  }
+
+  /**
+   * ユーザーのクイズ結果履歴を取得（新しい順）
+   */
+  async getResults(userId: string, limit: number = 20): Promise<QuizResultRecord[]> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT r.quiz_id, r.score, r.total, r.percentage, r.completed_at, q.topic, q.difficulty
+      FROM quiz_results r
+      LEFT JOIN quizzes q ON q.id = r.quiz_id
+      WHERE r.user_id = ?
+      ORDER BY r.completed_at DESC, r.id DESC
+      LIMIT ?
+    `
+      )
+      .all(userId, limit) as Array<{
+      quiz_id: string;
+      score: number;
+      total: number;
+      percentage: number;
+      completed_at: string;
+      topic: string | null;
+      difficulty: string | null;
+    }>;
+
+    return rows.map((row) => ({
+      quizId: row.quiz_id,
+      topic: row.topic,
+      difficulty: row.difficulty,
+      score: row.score,
+      total: row.total,
+      percentage: row.percentage,
+      completedAt: row.completed_at,
+    }));
+  }
+
+  /**
+   * 期限切れで未提出のクイズを削除（提出済みのクイズは結果の参照用に残す）
+   */
+  deleteExpiredQuizzes(): number {
+    const now = new Date().toISOString();
+    const expired = `
+      SELECT id FROM quizzes
+      WHERE completed_at IS NULL AND expires_at <= ?
+        AND id NOT IN (SELECT quiz_id FROM quiz_results)
+    `;
+
+    return this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM quiz_questions WHERE quiz_id IN (${expired})`).run(now);
+      return this.db.prepare(`DELETE FROM quizzes WHERE id IN (${expired})`).run(now).changes;
+    })();
+  }
+}
+
+// 型定義
+export interface Quiz {
+  id: string;
+  userId: string | null;
+  topic: string;
+  difficulty: string;
+  questions: QuizQuestion[];
+  /** 各問題の問題バンクID */
+  itemIds: (number | null)[];
+  createdAt: string;
+  expiresAt: string;
+  completedAt: string | null;
+}
+
+export interface QuizResult {
+  score: number;
+  total: number;
+  percentage: number;
+  details: {
+    questionIndex: number;
+    type: QuizQuestionType;
+    correct: boolean;
+    userAnswer: QuizAnswer | null;
+    correctAnswer: QuizAnswer;
+    explanation: string;
+    /** 綴りの軽微な誤りを許容して正解とした場合 */
+    typo?: boolean;
+    word?: string;
+  }[];
+  /** 復習スケジュールに反映した単語（認証済みの場合） */
+  reviews?: ReviewResult[];
+  /** 更新後の連続学習日数（認証済みの場合） */
+  streak?: number;
+  /** 更新後のトピック別能力推定値（認証済みの場合） */
+  ability?: TopicAbility;
+}
+
+export interface QuizResultRecord {
+  quizId: string;
+  topic: string | null;
+  difficulty: string | null;
+  score: number;
+  total: number;
+  percentage: number;
+  completedAt: string;
+}
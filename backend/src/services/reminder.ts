@@ -136,6 +136,7 @@ export class ReminderService {
       wordsReviewed: 0,
       quizCompleted: 0,
       fromReminder,
+      readingSeconds: 0,
     };
   }
 
@@ -144,7 +145,7 @@ export class ReminderService {
    */
   async updateSession(
     sessionId: number,
-    updates: { wordsReviewed?: number; quizCompleted?: number }
+    updates: { wordsReviewed?: number; quizCompleted?: number; readingSeconds?: number }
   ): Promise<void> {
     if (updates.wordsReviewed !== undefined) {
       this.db
@@ -156,6 +157,11 @@ export class ReminderService {
         .prepare('UPDATE learning_sessions SET quiz_completed = ? WHERE id = ?')
         .run(updates.quizCompleted, sessionId);
     }
+    if (updates.readingSeconds !== undefined) {
+      this.db
+        .prepare('UPDATE learning_sessions SET reading_seconds = ? WHERE id = ?')
+        .run(updates.readingSeconds, sessionId);
+    }
   }
 
   /**
@@ -181,7 +187,32 @@ export class ReminderService {
       )
       .all(userId, limit) as DbLearningSession[];
 
-    return sessions.map((s) => ({
+    return sessions.map((s) => this.dbToSession(s));
+  }
+
+  /**
+   * 進行中（未終了）の最新セッションを取得
+   */
+  async getActiveSession(userId: string): Promise<LearningSession | null> {
+    const session = this.db
+      .prepare(
+        `
+        SELECT * FROM learning_sessions
+        WHERE user_id = ? AND ended_at IS NULL
+        ORDER BY started_at DESC, id DESC
+        LIMIT 1
+      `
+      )
+      .get(userId) as DbLearningSession | undefined;
+
+    return session ? this.dbToSession(session) : null;
+  }
+
+  /**
+   * DBレコードをLearningSessionに変換
+   */
+  private dbToSession(s: DbLearningSession): LearningSession {
+    return {
       id: s.id,
       userId: s.user_id,
       startedAt: s.started_at,
@@ -189,7 +220,8 @@ export class ReminderService {
       wordsReviewed: s.words_reviewed,
       quizCompleted: s.quiz_completed,
       fromReminder: s.from_reminder === 1,
-    }));
+      readingSeconds: s.reading_seconds,
+    };
   }
 
   /**
@@ -308,6 +340,8 @@ export interface LearningSession {
   wordsReviewed: number;
   quizCompleted: number;
   fromReminder: boolean;
+  /** 読解レッスンの読書時間（秒） */
+  readingSeconds: number;
 }
 
 export interface ReminderTarget {
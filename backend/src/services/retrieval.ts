@@ -0,0 +1,257 @@
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import { lessonIdFromFile } from './content-validation';
+
+/**
+ * BM25パラメータ
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * 見出し語の重み（見出し語に一致した文書を優先する）
+ */
+const HEADWORD_WEIGHT = 3;
+
+/**
+ * 検索結果の件数・スコア下限（デフォルト）
+ */
+const DEFAULT_LIMIT = 3;
+const DEFAULT_MIN_SCORE = 1.0;
+
+/**
+ * 英語の機能語（検索語から除外）
+ */
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'is',
+  'are',
+  'was',
+  'were',
+  'be',
+  'to',
+  'of',
+  'in',
+  'on',
+  'at',
+  'for',
+  'and',
+  'or',
+  'it',
+  'this',
+  'that',
+  'what',
+  'how',
+  'do',
+  'does',
+  'i',
+  'you',
+  'my',
+  'me',
+]);
+
+/**
+ * 検索対象の教材エントリ
+ */
+export interface ContentDocument {
+  id: string;
+  lessonId: string;
+  type: 'vocabulary' | 'grammar' | 'reading';
+  headword: string;
+  text: string;
+  /** プロンプトに埋め込む本文 */
+  excerpt: string;
+}
+
+/**
+ * 検索結果
+ */
+export interface RetrievedDocument extends ContentDocument {
+  score: number;
+}
+
+/**
+ * 回答の出典（UIからレッスンへリンクするための情報）
+ */
+export interface AnswerSource {
+  lessonId: string;
+  type: ContentDocument['type'];
+  word: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  doc: ContentDocument;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+interface ContentIndex {
+  documents: IndexedDocument[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+/**
+ * 文字列を検索語に分割
+ * 英単語は小文字化した単語単位、日本語（かな・漢字）は文字bigramに分割する
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const normalized = text.toLowerCase().normalize('NFKC');
+
+  for (const word of normalized.match(/[a-z][a-z'-]*/g) || []) {
+    if (!STOPWORDS.has(word)) tokens.push(word);
+  }
+
+  for (const run of normalized.match(/[\u3040-\u30ff\u3400-\u9fff]+/g) || []) {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(chars[0]);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 語彙ファイル名からレッスンIDを生成（basic_english.json → vocab-basic-english）
+ */
+export function vocabularyLessonId(fileName: string): string {
+  return lessonIdFromFile('vocabulary', fileName);
+}
+
+// 検索インデックスは教材が更新されるまで使い回す
+let cachedIndex: { registry: ContentRegistry; version: number; index: ContentIndex } | null = null;
+
+/**
+ * 検索サービス - 自社教材（content/）からの関連エントリ検索（BM25）
+ * 収益化観点：回答を自社教材の定義・例文に揃え、レッスンへの導線を作る
+ */
+export class RetrievalService {
+  private registry: ContentRegistry;
+
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.registry = ContentRegistry.forDir(contentDir);
+  }
+
+  /**
+   * 教材エントリを読み込む
+   */
+  loadDocuments(): ContentDocument[] {
+    const documents: ContentDocument[] = [];
+
+    for (const deck of this.registry.getVocabularyDecks()) {
+      for (const w of deck.words) {
+        documents.push({
+          id: `${deck.id}:${w.word}`,
+          lessonId: deck.id,
+          type: 'vocabulary',
+          headword: w.word,
+          text: [w.definition, w.definitionJa, w.example, w.exampleJa].join(' '),
+          excerpt: `${w.word} (${w.partOfSpeech}): ${w.definition} / ${w.definitionJa}\n例文: ${w.example}（${w.exampleJa}）`,
+        });
+      }
+    }
+
+    return documents;
+  }
+
+  /**
+   * 検索インデックスを構築
+   */
+  buildIndex(documents: ContentDocument[] = this.loadDocuments()): ContentIndex {
+    const docFreq = new Map<string, number>();
+    const indexed = documents.map((doc) => {
+      const termFreq = new Map<string, number>();
+      const headwordTokens = tokenize(doc.headword);
+      for (const token of headwordTokens) {
+        termFreq.set(token, (termFreq.get(token) || 0) + HEADWORD_WEIGHT);
+      }
+      const bodyTokens = tokenize(doc.text);
+      for (const token of bodyTokens) {
+        termFreq.set(token, (termFreq.get(token) || 0) + 1);
+      }
+      for (const token of termFreq.keys()) {
+        docFreq.set(token, (docFreq.get(token) || 0) + 1);
+      }
+      return {
+        doc,
+        termFreq,
+        length: headwordTokens.length * HEADWORD_WEIGHT + bodyTokens.length,
+      };
+    });
+
+    const avgLength =
+      indexed.length > 0 ? indexed.reduce((sum, d) => sum + d.length, 0) / indexed.length : 0;
+
+    return { documents: indexed, docFreq, avgLength };
+  }
+
+  /**
+   * キャッシュ済みのインデックスを取得
+   */
+  private getIndex(): ContentIndex {
+    const version = this.registry.getVersion();
+    if (!cachedIndex || cachedIndex.registry !== this.registry || cachedIndex.version !== version) {
+      cachedIndex = { registry: this.registry, version, index: this.buildIndex() };
+    }
+    return cachedIndex.index;
+  }
+
+  /**
+   * キャッシュを破棄（教材更新時・テスト用）
+   */
+  static resetIndex(): void {
+    cachedIndex = null;
+  }
+
+  /**
+   * 質問に関連する教材エントリを検索
+   */
+  search(
+    query: string,
+    limit: number = DEFAULT_LIMIT,
+    index: ContentIndex = this.getIndex()
+  ): RetrievedDocument[] {
+    const minScore = parseFloat(process.env.RETRIEVAL_MIN_SCORE || '') || DEFAULT_MIN_SCORE;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const total = index.documents.length;
+
+    const results: RetrievedDocument[] = [];
+    for (const { doc, termFreq, length } of index.documents) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termFreq.get(term);
+        if (!tf) continue;
+        const df = index.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * (tf * (BM25_K1 + 1))) /
+          (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (index.avgLength || 1)));
+      }
+      if (score >= minScore) {
+        results.push({ ...doc, score: Math.round(score * 1000) / 1000 });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * 検索結果を回答の出典に変換
+   */
+  toSources(documents: RetrievedDocument[]): AnswerSource[] {
+    return documents.map((d) => ({
+      lessonId: d.lessonId,
+      type: d.type,
+      word: d.headword,
+      score: d.score,
+    }));
+  }
+}
@@ -0,0 +1,343 @@
+import { DatabaseService, DbReviewLog, DbSchedulerParameters } from './database';
+import {
+  DEFAULT_EASE_FACTOR,
+  FSRS_DEFAULT_WEIGHTS,
+  FsrsMemoryState,
+  MIN_EASE_FACTOR,
+  PASSING_QUALITY,
+  Sm2Parameters,
+  fsrsNextState,
+  fsrsRetrievability,
+} from './scheduler';
+import { SpacedRepetitionService } from './spaced-repetition';
+
+/**
+ * パラメータを調整するのに必要な復習数（2回目以降の復習。初回の学習は想起の成否がないため数えない）
+ */
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 50;
+
+/**
+ * SM-2 の間隔係数・初期 ease factor の範囲
+ */
+const MIN_INTERVAL_MODIFIER = 0.5;
+const MAX_INTERVAL_MODIFIER = 2;
+const MAX_INITIAL_EASE_FACTOR = 3;
+
+/**
+ * 初期 ease factor の推定に使う単語の最低復習回数
+ */
+const MIN_REVIEWS_PER_WORD_FOR_EASE = 3;
+
+/**
+ * FSRS のパラメータ探索（座標降下法）の設定
+ * 復習数が少なくても極端な値にならないよう、デフォルトからの相対的なずれに罰則を付ける
+ */
+const MAX_SEARCH_ITERATIONS = 40;
+const INITIAL_STEP = 0.2;
+const MIN_STEP = 0.005;
+const PRIOR_STRENGTH = 0.005;
+const MIN_WEIGHT = 0.001;
+const MAX_WEIGHT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 1回の復習（前回の復習からの経過日数と回答品質）
+ */
+export interface ReviewEvent {
+  elapsedDays: number;
+  quality: number;
+}
+
+/**
+ * パラメータ調整の結果
+ */
+export interface SchedulerOptimizationReport {
+  userId: string;
+  /** 調整に使った復習数（2回目以降の復習） */
+  reviewCount: number;
+  fsrsWeights: number[];
+  sm2: Sm2Parameters;
+  /** FSRS の想起予測の対数損失（デフォルト / 調整後。小さいほど予測が正確） */
+  logLossBefore: number;
+  logLossAfter: number;
+  /** これまでの復習で実際に想起できた割合 */
+  retentionBefore: number;
+  /** 調整後のパラメータで見込まれる想起率（現在のスケジューラーで計算） */
+  retentionAfter: number;
+  /** 見込まれる想起率の改善（負の値は、想起率が目標より高く復習の間隔を延ばせることを示す） */
+  predictedRetentionGain: number;
+  optimizedAt: string;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 復習ログを単語ごとの復習の列に変換（ログは単語ごとに古い順に並んでいること）
+ */
+export function buildReviewSequences(logs: DbReviewLog[]): ReviewEvent[][] {
+  const sequences = new Map<string, { events: ReviewEvent[]; lastReviewedAt: number }>();
+
+  for (const log of logs) {
+    const reviewedAt = new Date(log.reviewed_at).getTime();
+    const sequence = sequences.get(log.word);
+    if (sequence) {
+      sequence.events.push({
+        elapsedDays: Math.max(0, (reviewedAt - sequence.lastReviewedAt) / DAY_MS),
+        quality: log.quality,
+      });
+      sequence.lastReviewedAt = reviewedAt;
+    } else {
+      sequences.set(log.word, {
+        events: [{ elapsedDays: 0, quality: log.quality }],
+        lastReviewedAt: reviewedAt,
+      });
+    }
+  }
+
+  return [...sequences.values()].map((s) => s.events);
+}
+
+/**
+ * FSRS の想起予測の対数損失（各単語の2回目以降の復習で、予測した想起率と実際の成否を比べる）
+ */
+export function fsrsLogLoss(weights: number[], sequences: ReviewEvent[][]): number {
+  let loss = 0;
+  let count = 0;
+
+  for (const events of sequences) {
+    let state: FsrsMemoryState | null = null;
+    for (const event of events) {
+      if (state) {
+        const p = clamp(fsrsRetrievability(state.stability, event.elapsedDays), 1e-4, 1 - 1e-4);
+        loss -= event.quality >= PASSING_QUALITY ? Math.log(p) : Math.log(1 - p);
+        count++;
+      }
+      state = fsrsNextState(weights, state, event.quality, event.elapsedDays);
+    }
+  }
+
+  return count > 0 ? loss / count : 0;
+}
+
+/**
+ * 復習ログに合うよう FSRS のパラメータを調整（デフォルトから座標降下法で探索）
+ */
+export function fitFsrsWeights(
+  sequences: ReviewEvent[][],
+  initial: number[] = FSRS_DEFAULT_WEIGHTS
+): number[] {
+  const objective = (w: number[]): number =>
+    fsrsLogLoss(w, sequences) +
+    PRIOR_STRENGTH *
+      w.reduce((sum, value, i) => sum + Math.pow((value - initial[i]) / initial[i], 2), 0);
+
+  let weights = [...initial];
+  let best = objective(weights);
+  let step = INITIAL_STEP;
+
+  for (let iteration = 0; iteration < MAX_SEARCH_ITERATIONS && step >= MIN_STEP; iteration++) {
+    let improved = false;
+
+    for (let i = 0; i < weights.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = [...weights];
+        // w[7] は難易度を初期値に引き戻す割合のため 1 を超えないようにする
+        const max = i === 7 ? 1 : MAX_WEIGHT;
+        candidate[i] = clamp(weights[i] * (1 + direction * step), MIN_WEIGHT, max);
+        const value = objective(candidate);
+        if (value < best - 1e-9) {
+          weights = candidate;
+          best = value;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) step /= 2;
+  }
+
+  return weights;
+}
+
+/**
+ * 実際の想起率と目標の想起率から SM-2 のパラメータを調整
+ * 間隔係数は想起率が間隔に対して指数的に下がると仮定し、目標の想起率になる倍率を求める
+ * 初期 ease factor は、十分に復習した単語の ease factor の平均（その学習者で落ち着く値）とする
+ */
+export function fitSm2Parameters(
+  retention: number,
+  desiredRetention: number,
+  settledEaseFactors: number[]
+): Sm2Parameters {
+  let intervalModifier: number;
+  if (retention >= 1) {
+    intervalModifier = MAX_INTERVAL_MODIFIER;
+  } else if (retention <= 0) {
+    intervalModifier = MIN_INTERVAL_MODIFIER;
+  } else {
+    intervalModifier = clamp(
+      Math.log(desiredRetention) / Math.log(retention),
+      MIN_INTERVAL_MODIFIER,
+      MAX_INTERVAL_MODIFIER
+    );
+  }
+
+  const initialEaseFactor =
+    settledEaseFactors.length > 0
+      ? clamp(
+          settledEaseFactors.reduce((sum, e) => sum + e, 0) / settledEaseFactors.length,
+          MIN_EASE_FACTOR,
+          MAX_INITIAL_EASE_FACTOR
+        )
+      : DEFAULT_EASE_FACTOR;
+
+  return { initialEaseFactor, intervalModifier };
+}
+
+/**
+ * スケジューラー最適化サービス - 学習者自身の復習ログから FSRS・SM-2 のパラメータを調整する
+ * 復習数が十分なユーザーのみ保存し、以降の復習（SpacedRepetitionService）で使われる
+ *
+ * 収益化観点：一人ひとりの忘れ方に合わせた復習間隔で、少ない復習回数でも定着を実感してもらえる
+ */
+export class SchedulerOptimizerService {
+  private db = DatabaseService.getInstance().getDb();
+  private spacedRepetition = new SpacedRepetitionService();
+
+  /**
+   * DBレコードを SchedulerOptimizationReport に変換
+   */
+  private dbToReport(row: DbSchedulerParameters): SchedulerOptimizationReport {
+    return {
+      userId: row.user_id,
+      reviewCount: row.review_count,
+      fsrsWeights: JSON.parse(row.fsrs_weights),
+      sm2: {
+        initialEaseFactor: row.sm2_initial_ease_factor,
+        intervalModifier: row.sm2_interval_modifier,
+      },
+      logLossBefore: row.log_loss_before,
+      logLossAfter: row.log_loss_after,
+      retentionBefore: row.retention_before,
+      retentionAfter: row.retention_after,
+      predictedRetentionGain: row.retention_after - row.retention_before,
+      optimizedAt: row.optimized_at,
+    };
+  }
+
+  /**
+   * 保存済みの調整結果（未調整の場合はnull）
+   */
+  async getReport(userId: string): Promise<SchedulerOptimizationReport | null> {
+    const row = this.db
+      .prepare('SELECT * FROM scheduler_parameters WHERE user_id = ?')
+      .get(userId) as DbSchedulerParameters | undefined;
+    return row ? this.dbToReport(row) : null;
+  }
+
+  /**
+   * ユーザーの復習ログからパラメータを調整して保存
+   *
+   * @param options.dryRun true の場合は保存せずに結果だけ返す
+   * @returns 調整結果（復習数が足りない場合はnull）
+   */
+  async optimizeUser(
+    userId: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<SchedulerOptimizationReport | null> {
+    const logs = this.db
+      .prepare('SELECT * FROM review_logs WHERE user_id = ? ORDER BY word, reviewed_at, id')
+      .all(userId) as DbReviewLog[];
+    const sequences = buildReviewSequences(logs);
+
+    const reviews = sequences.flatMap((events) => events.slice(1));
+    if (reviews.length < MIN_REVIEWS_FOR_OPTIMIZATION) return null;
+
+    const settings = await this.spacedRepetition.getSettings(userId);
+    const retentionBefore =
+      reviews.filter((e) => e.quality >= PASSING_QUALITY).length / reviews.length;
+
+    const fsrsWeights = fitFsrsWeights(sequences);
+
+    // 十分に復習した単語の最新の ease factor
+    const latestEase = new Map<string, { count: number; easeFactor: number }>();
+    for (const log of logs) {
+      const count = (latestEase.get(log.word)?.count ?? 0) + 1;
+      latestEase.set(log.word, { count, easeFactor: log.new_ease_factor });
+    }
+    const sm2 = fitSm2Parameters(
+      retentionBefore,
+      settings.desiredRetention,
+      [...latestEase.values()]
+        .filter((e) => e.count >= MIN_REVIEWS_PER_WORD_FOR_EASE)
+        .map((e) => e.easeFactor)
+    );
+
+    // FSRS は調整後のモデルで目標の想起率になる間隔を選ぶ。SM-2 は間隔係数の分だけ想起率が変わる
+    const retentionAfter =
+      settings.scheduler === 'fsrs'
+        ? settings.desiredRetention
+        : Math.pow(retentionBefore, sm2.intervalModifier);
+
+    const report: SchedulerOptimizationReport = {
+      userId,
+      reviewCount: reviews.length,
+      fsrsWeights,
+      sm2,
+      logLossBefore: fsrsLogLoss(FSRS_DEFAULT_WEIGHTS, sequences),
+      logLossAfter: fsrsLogLoss(fsrsWeights, sequences),
+      retentionBefore,
+      retentionAfter,
+      predictedRetentionGain: retentionAfter - retentionBefore,
+      optimizedAt: new Date().toISOString(),
+    };
+
+    if (!options.dryRun) {
+      this.db
+        .prepare(
+          `
+        INSERT OR REPLACE INTO scheduler_parameters
+          (user_id, fsrs_weights, sm2_initial_ease_factor, sm2_interval_modifier, review_count,
+           log_loss_before, log_loss_after, retention_before, retention_after, optimized_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+        )
+        .run(
+          userId,
+          JSON.stringify(report.fsrsWeights),
+          report.sm2.initialEaseFactor,
+          report.sm2.intervalModifier,
+          report.reviewCount,
+          report.logLossBefore,
+          report.logLossAfter,
+          report.retentionBefore,
+          report.retentionAfter,
+          report.optimizedAt
+        );
+    }
+
+    return report;
+  }
+
+  /**
+   * 復習ログのある全ユーザーのパラメータを調整
+   *
+   * @returns 調整したユーザーの結果（復習数が足りないユーザーは含まない）
+   */
+  async optimizeAll(options: { dryRun?: boolean } = {}): Promise<SchedulerOptimizationReport[]> {
+    const users = this.db.prepare('SELECT DISTINCT user_id FROM review_logs').all() as {
+      user_id: string;
+    }[];
+
+    const reports: SchedulerOptimizationReport[] = [];
+    for (const { user_id } of users) {
+      const report = await this.optimizeUser(user_id, options);
+      if (report) reports.push(report);
+    }
+    return reports;
+  }
+}
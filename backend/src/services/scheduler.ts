@@ -0,0 +1,342 @@
+/**
+ * 復習スケジューラーの種類
+ * - sm2: SM-2 の簡略版（初回1日 → 6日 → 以降は ease factor 倍）
+ * - fsrs: FSRS（記憶の安定性・難易度から、目標の想起率を保てる間隔を求める）
+ */
+export type SchedulerName = 'sm2' | 'fsrs';
+
+export const SCHEDULER_NAMES: SchedulerName[] = ['sm2', 'fsrs'];
+
+export function isSchedulerName(value: unknown): value is SchedulerName {
+  return SCHEDULER_NAMES.includes(value as SchedulerName);
+}
+
+/**
+ * スケジューラーに渡す単語の学習状態（word_history の1行）
+ */
+export interface SchedulerCard {
+  correctCount: number;
+  incorrectCount: number;
+  easeFactor: number;
+  intervalDays: number;
+  lastReviewed: string | null;
+  /** FSRS の記憶の安定性（日。FSRS で復習していない場合は null） */
+  stability: number | null;
+  /** FSRS の難易度（1〜10。FSRS で復習していない場合は null） */
+  difficulty: number | null;
+}
+
+/**
+ * 復習後の次の状態
+ */
+export interface ScheduleResult {
+  intervalDays: number;
+  easeFactor: number;
+  stability: number | null;
+  difficulty: number | null;
+}
+
+/**
+ * 復習スケジューラー
+ */
+export interface ReviewScheduler {
+  readonly name: SchedulerName;
+  /** アルゴリズムのバージョン（復習ログに記録し、パラメータ調整時に区別する） */
+  readonly version: string;
+  /**
+   * 回答品質から次の間隔を求める
+   *
+   * @param card 学習状態（初めて学習する単語は null）
+   * @param quality 回答品質 (0-5)
+   */
+  schedule(card: SchedulerCard | null, quality: number, now: Date): ScheduleResult;
+}
+
+/**
+ * 正解とみなす回答品質の下限
+ */
+export const PASSING_QUALITY = 3;
+
+/**
+ * ease factor の初期値・下限
+ */
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SM-2 の ease factor の更新式（FSRS でも分析用に同じ式で更新する）
+ */
+function nextEaseFactor(easeFactor: number, quality: number): number {
+  const updated = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(MIN_EASE_FACTOR, updated);
+}
+
+/**
+ * SM-2 のユーザーごとのパラメータ（復習ログから調整する）
+ */
+export interface Sm2Parameters {
+  /** 新しい単語の ease factor */
+  initialEaseFactor: number;
+  /** 正解時の間隔に掛ける係数（想起率が目標より高ければ 1 より大きくする） */
+  intervalModifier: number;
+}
+
+export const SM2_DEFAULT_PARAMETERS: Sm2Parameters = {
+  initialEaseFactor: DEFAULT_EASE_FACTOR,
+  intervalModifier: 1,
+};
+
+/**
+ * SM-2 の簡略版
+ * 正解の間隔は 初回→1日、2回目→6日、以降は前回の間隔 × ease factor。不正解は1日に戻す
+ */
+export class Sm2Scheduler implements ReviewScheduler {
+  readonly name = 'sm2';
+  readonly version = 'sm2-simplified';
+  private parameters: Sm2Parameters;
+
+  constructor(parameters: Sm2Parameters = SM2_DEFAULT_PARAMETERS) {
+    this.parameters = parameters;
+  }
+
+  schedule(card: SchedulerCard | null, quality: number): ScheduleResult {
+    // SM-2 で復習すると FSRS の状態は使えなくなるため消す（FSRS に戻したときに改めて推定する）
+    if (!card) {
+      return {
+        intervalDays: 1,
+        easeFactor: this.parameters.initialEaseFactor,
+        stability: null,
+        difficulty: null,
+      };
+    }
+
+    let intervalDays: number;
+    if (quality < PASSING_QUALITY) {
+      intervalDays = 1;
+    } else {
+      let baseInterval: number;
+      if (card.correctCount === 0) {
+        baseInterval = 1;
+      } else if (card.correctCount === 1) {
+        baseInterval = 6;
+      } else {
+        baseInterval = card.intervalDays * card.easeFactor;
+      }
+      intervalDays = Math.max(1, Math.round(baseInterval * this.parameters.intervalModifier));
+    }
+
+    return {
+      intervalDays,
+      easeFactor: nextEaseFactor(card.easeFactor, quality),
+      stability: null,
+      difficulty: null,
+    };
+  }
+}
+
+/**
+ * FSRS-4.5 のデフォルトのパラメータ
+ */
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+/**
+ * 目標の想起率（デフォルト）と指定できる範囲
+ */
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+
+/**
+ * 忘却曲線 R(t) = (1 + FACTOR * t / S) ^ DECAY（t = S のとき R = 0.9）
+ */
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+const MAX_INTERVAL_DAYS = 36500;
+
+/**
+ * FSRS の評価（1: Again, 2: Hard, 3: Good, 4: Easy）
+ */
+type FsrsRating = 1 | 2 | 3 | 4;
+
+/**
+ * 回答品質 (0-5) を FSRS の評価に変換（不正解は Again、3 は Hard、4 は Good、5 は Easy）
+ */
+function toRating(quality: number): FsrsRating {
+  if (quality < PASSING_QUALITY) return 1;
+  if (quality < 4) return 2;
+  if (quality < 5) return 3;
+  return 4;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 最後の復習から elapsedDays 日後の想起率（安定性 stability 日のとき）
+ */
+export function fsrsRetrievability(stability: number, elapsedDays: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * Math.max(0, elapsedDays)) / stability, FSRS_DECAY);
+}
+
+/**
+ * SM-2 の学習状態から FSRS の安定性・難易度を推定（既存の単語を FSRS に移行するときに使う）
+ * 安定性は現在の間隔（SM-2 の間隔は想起率 9 割程度を想定している）、
+ * 難易度は ease factor 2.5 を中間の 5、下限の 1.3 を最大の 10 とする
+ */
+export function seedFsrsState(card: SchedulerCard): FsrsMemoryState {
+  return {
+    stability: Math.max(1, card.intervalDays),
+    difficulty: clamp(
+      10 - ((card.easeFactor - MIN_EASE_FACTOR) * 5) / (DEFAULT_EASE_FACTOR - MIN_EASE_FACTOR),
+      1,
+      10
+    ),
+  };
+}
+
+/**
+ * FSRS の記憶の状態
+ */
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+/**
+ * 初回の難易度
+ */
+function fsrsInitialDifficulty(w: number[], rating: FsrsRating): number {
+  return clamp(w[4] - (rating - 3) * w[5], 1, 10);
+}
+
+/**
+ * 復習後の記憶の状態（初めて学習する単語は state = null）
+ *
+ * @param w FSRS のパラメータ
+ * @param elapsedDays 前回の復習からの経過日数
+ */
+export function fsrsNextState(
+  w: number[],
+  state: FsrsMemoryState | null,
+  quality: number,
+  elapsedDays: number
+): FsrsMemoryState {
+  const rating = toRating(quality);
+  if (!state) {
+    return { stability: w[rating - 1], difficulty: fsrsInitialDifficulty(w, rating) };
+  }
+
+  const { stability, difficulty } = state;
+  const retrievability = fsrsRetrievability(stability, elapsedDays);
+
+  let nextStability: number;
+  if (rating === 1) {
+    nextStability = Math.min(
+      stability,
+      w[11] *
+        Math.pow(difficulty, -w[12]) *
+        (Math.pow(stability + 1, w[13]) - 1) *
+        Math.exp(w[14] * (1 - retrievability))
+    );
+  } else {
+    nextStability =
+      stability *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -w[9]) *
+          (Math.exp(w[10] * (1 - retrievability)) - 1) *
+          (rating === 2 ? w[15] : 1) *
+          (rating === 4 ? w[16] : 1));
+  }
+
+  // 難易度は評価に応じて増減させ、初期値（Good）に少し引き戻す
+  const nextDifficulty = clamp(
+    w[7] * fsrsInitialDifficulty(w, 3) + (1 - w[7]) * (difficulty - w[6] * (rating - 3)),
+    1,
+    10
+  );
+
+  return { stability: nextStability, difficulty: nextDifficulty };
+}
+
+/**
+ * 安定性 stability で想起率が desiredRetention まで下がる日数
+ */
+export function fsrsInterval(stability: number, desiredRetention: number): number {
+  const days = (stability / FSRS_FACTOR) * (Math.pow(desiredRetention, 1 / FSRS_DECAY) - 1);
+  return clamp(Math.round(days), 1, MAX_INTERVAL_DAYS);
+}
+
+/**
+ * FSRS（Free Spaced Repetition Scheduler）
+ * 単語ごとの安定性・難易度と経過日数から想起率を求め、目標の想起率まで下がる日を次の復習日にする
+ */
+export class FsrsScheduler implements ReviewScheduler {
+  readonly name = 'fsrs';
+  readonly version = 'fsrs-4.5';
+  private desiredRetention: number;
+  private w: number[];
+
+  constructor(
+    desiredRetention: number = DEFAULT_DESIRED_RETENTION,
+    weights: number[] = FSRS_DEFAULT_WEIGHTS
+  ) {
+    this.desiredRetention = desiredRetention;
+    this.w = weights;
+  }
+
+  schedule(card: SchedulerCard | null, quality: number, now: Date): ScheduleResult {
+    if (!card) {
+      const state = fsrsNextState(this.w, null, quality, 0);
+      return {
+        intervalDays: fsrsInterval(state.stability, this.desiredRetention),
+        easeFactor: DEFAULT_EASE_FACTOR,
+        ...state,
+      };
+    }
+
+    const state =
+      card.stability !== null && card.difficulty !== null
+        ? { stability: card.stability, difficulty: card.difficulty }
+        : seedFsrsState(card);
+    const elapsedDays = card.lastReviewed
+      ? (now.getTime() - new Date(card.lastReviewed).getTime()) / DAY_MS
+      : 0;
+    const next = fsrsNextState(this.w, state, quality, elapsedDays);
+
+    return {
+      intervalDays: fsrsInterval(next.stability, this.desiredRetention),
+      easeFactor: nextEaseFactor(card.easeFactor, quality),
+      ...next,
+    };
+  }
+}
+
+/**
+ * ユーザーごとに調整したスケジューラーのパラメータ（未調整の項目はデフォルトを使う）
+ */
+export interface SchedulerParameters {
+  fsrsWeights?: number[];
+  sm2?: Sm2Parameters;
+}
+
+/**
+ * ユーザーの設定に応じたスケジューラーを作る
+ */
+export function createScheduler(
+  name: SchedulerName,
+  desiredRetention: number = DEFAULT_DESIRED_RETENTION,
+  parameters: SchedulerParameters = {}
+): ReviewScheduler {
+  return name === 'fsrs'
+    ? new FsrsScheduler(desiredRetention, parameters.fsrsWeights)
+    : new Sm2Scheduler(parameters.sm2);
+}
@@ -1,13 +1,238 @@
-import { DatabaseService, DbWordHistory } from './database';
+import {
+  DatabaseService,
+  DbReviewLog,
+  DbReviewSettings,
+  DbSchedulerParameters,
+  DbWordHistory,
+} from './database';
+import {
+  DEFAULT_DESIRED_RETENTION,
+  PASSING_QUALITY,
+  SchedulerCard,
+  SchedulerName,
+  SchedulerParameters,
+  createScheduler,
+  fsrsRetrievability,
+  seedFsrsState,
+} from './scheduler';
+import { AIService } from './ai';
+import { NotificationService } from './notification';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 単語（カード）の状態
+ * - active: 通常どおり復習する
+ * - suspended: ユーザーが復習を停止した
+ * - buried: buried_until の日まで復習を延期した
+ * - leech: 何度も忘れたため自動的に復習から外した（再開するまで出題しない）
+ */
+export type CardState = 'active' | 'suspended' | 'buried' | 'leech';
+
+/**
+ * リーチとみなす忘却回数（デフォルト・指定できる範囲）
+ */
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const MIN_LEECH_THRESHOLD = 2;
+export const MAX_LEECH_THRESHOLD = 50;
+
+/**
+ * 1日に学習する新しい単語数・復習数の上限（デフォルト・指定できる最大値）
+ */
+export const DEFAULT_NEW_CARDS_PER_DAY = 10;
+export const MAX_NEW_CARDS_PER_DAY = 100;
+export const DEFAULT_MAX_REVIEWS_PER_DAY = 100;
+export const MAX_REVIEWS_PER_DAY = 1000;
+
+/**
+ * 忘れた単語をもう一度出題するまでの時間（分）
+ * スケジューラーの間隔（1日以上）は、この再学習のステップで思い出してから数える
+ */
+export const RELEARNING_STEP_MINUTES = 10;
+
+/**
+ * 復習対象の状態（延期した単語は延期の期限が来たら対象に戻す）
+ */
+const REVIEWABLE_STATE = `(state = 'active' OR (state = 'buried' AND buried_until <= date(?)))`;
+
+/**
+ * 復習ログの1ページの件数（デフォルト・上限）
+ */
+export const DEFAULT_REVIEW_LOG_LIMIT = 20;
+export const MAX_REVIEW_LOG_LIMIT = 100;
 
 /**
  * スペースドリピティション（間隔反復）サービス
- * SM-2アルゴリズムを簡略化して実装
+ * 次回の復習日はユーザーが選んだスケジューラー（SM-2 簡略版 / FSRS）で計算する
  *
  * 収益化観点：効果的な学習法はPremiumユーザーの継続率向上に直結
  */
 export class SpacedRepetitionService {
   private db = DatabaseService.getInstance().getDb();
+  private aiService: AIService | null;
+
+  /**
+   * @param aiService リーチの覚え方の生成に使う（省略時は覚え方を求めたユーザーに利用量を計上して生成）
+   */
+  constructor(aiService: AIService | null = null) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * DBレコードをスケジューラーに渡す学習状態に変換
+   */
+  private toCard(row: DbWordHistory): SchedulerCard {
+    return {
+      correctCount: row.correct_count,
+      incorrectCount: row.incorrect_count,
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval,
+      lastReviewed: row.last_reviewed,
+      stability: row.stability,
+      difficulty: row.difficulty,
+    };
+  }
+
+  /**
+   * DBレコードを WordToReview に変換
+   */
+  private toWordToReview(row: DbWordHistory, now: Date = new Date()): WordToReview {
+    return {
+      word: row.word,
+      correctCount: row.correct_count,
+      incorrectCount: row.incorrect_count,
+      lastReviewed: row.last_reviewed,
+      nextReview: row.next_review,
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval,
+      stability: row.stability,
+      difficulty: row.difficulty,
+      retrievability:
+        row.stability !== null && row.last_reviewed
+          ? fsrsRetrievability(
+              row.stability,
+              (now.getTime() - new Date(row.last_reviewed).getTime()) / DAY_MS
+            )
+          : null,
+      state: row.state as CardState,
+      buriedUntil: row.buried_until,
+      lapses: row.lapses,
+      mnemonic: row.mnemonic,
+    };
+  }
+
+  /**
+   * 復習スケジューラーの設定を取得（未設定の場合は SM-2）
+   */
+  async getSettings(userId: string): Promise<ReviewSettings> {
+    const row = this.db.prepare('SELECT * FROM review_settings WHERE user_id = ?').get(userId) as
+      | DbReviewSettings
+      | undefined;
+
+    return {
+      scheduler: (row?.scheduler as SchedulerName) ?? 'sm2',
+      desiredRetention: row?.desired_retention ?? DEFAULT_DESIRED_RETENTION,
+      leechThreshold: row?.leech_threshold ?? DEFAULT_LEECH_THRESHOLD,
+      leechMnemonic: row ? row.leech_mnemonic === 1 : true,
+      newCardsPerDay: row?.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY,
+      maxReviewsPerDay: row?.max_reviews_per_day ?? DEFAULT_MAX_REVIEWS_PER_DAY,
+      studyDecks: row?.study_decks ? JSON.parse(row.study_decks) : null,
+    };
+  }
+
+  /**
+   * 復習スケジューラーの設定を更新
+   * FSRS に切り替えた場合は、既存の学習履歴から FSRS の状態を推定して移行する
+   */
+  async updateSettings(
+    userId: string,
+    updates: Partial<ReviewSettings>
+  ): Promise<ReviewSettings & { migratedWords: number }> {
+    const existing = await this.getSettings(userId);
+    const settings: ReviewSettings = {
+      scheduler: updates.scheduler ?? existing.scheduler,
+      desiredRetention: updates.desiredRetention ?? existing.desiredRetention,
+      leechThreshold: updates.leechThreshold ?? existing.leechThreshold,
+      leechMnemonic: updates.leechMnemonic ?? existing.leechMnemonic,
+      newCardsPerDay: updates.newCardsPerDay ?? existing.newCardsPerDay,
+      maxReviewsPerDay: updates.maxReviewsPerDay ?? existing.maxReviewsPerDay,
+      // null は「全単語帳」を表すため、省略（undefined）の場合のみ既存の値を使う
+      studyDecks: updates.studyDecks !== undefined ? updates.studyDecks : existing.studyDecks,
+    };
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO review_settings (user_id, scheduler, desired_retention, leech_threshold, leech_mnemonic,
+                                   new_cards_per_day, max_reviews_per_day, study_decks, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        scheduler = excluded.scheduler,
+        desired_retention = excluded.desired_retention,
+        leech_threshold = excluded.leech_threshold,
+        leech_mnemonic = excluded.leech_mnemonic,
+        new_cards_per_day = excluded.new_cards_per_day,
+        max_reviews_per_day = excluded.max_reviews_per_day,
+        study_decks = excluded.study_decks,
+        updated_at = excluded.updated_at
+    `
+      )
+      .run(
+        userId,
+        settings.scheduler,
+        settings.desiredRetention,
+        settings.leechThreshold,
+        settings.leechMnemonic ? 1 : 0,
+        settings.newCardsPerDay,
+        settings.maxReviewsPerDay,
+        settings.studyDecks ? JSON.stringify(settings.studyDecks) : null,
+        new Date().toISOString()
+      );
+
+    const migratedWords = settings.scheduler === 'fsrs' ? await this.migrateToFsrs(userId) : 0;
+    return { ...settings, migratedWords };
+  }
+
+  /**
+   * 復習ログから調整したスケジューラーのパラメータ（復習数が足りず未調整の場合はデフォルトを使う）
+   */
+  private getSchedulerParameters(userId: string): SchedulerParameters {
+    const row = this.db
+      .prepare('SELECT * FROM scheduler_parameters WHERE user_id = ?')
+      .get(userId) as DbSchedulerParameters | undefined;
+    if (!row) return {};
+
+    return {
+      fsrsWeights: JSON.parse(row.fsrs_weights),
+      sm2: {
+        initialEaseFactor: row.sm2_initial_ease_factor,
+        intervalModifier: row.sm2_interval_modifier,
+      },
+    };
+  }
+
+  /**
+   * FSRS の状態がない学習履歴に、SM-2 の間隔・ease factor から推定した安定性・難易度を設定
+   *
+   * @returns 移行した単語数
+   */
+  async migrateToFsrs(userId: string): Promise<number> {
+    const rows = this.db
+      .prepare('SELECT * FROM word_history WHERE user_id = ? AND stability IS NULL')
+      .all(userId) as DbWordHistory[];
+    const update = this.db.prepare(
+      'UPDATE word_history SET stability = ?, difficulty = ? WHERE id = ?'
+    );
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const { stability, difficulty } = seedFsrsState(this.toCard(row));
+        update.run(stability, difficulty, row.id);
+      }
+    })();
+
+    return rows.length;
+  }
 
   /**
    * 単語の学習結果を記録し、次回復習日を計算
@@ -15,9 +240,16 @@ export class SpacedRepetitionService {
    * @param userId ユーザーID
    * @param word 単語
    * @param quality 回答品質 (0-5: 0=完全に忘れた, 5=完璧に覚えている)
+   * @param responseTimeMs 回答にかかった時間（ミリ秒。計測していない場合は省略）
    */
-  async recordReview(userId: string, word: string, quality: number): Promise<ReviewResult> {
+  async recordReview(
+    userId: string,
+    word: string,
+    quality: number,
+    responseTimeMs?: number
+  ): Promise<ReviewResult> {
     const clampedQuality = Math.max(0, Math.min(5, quality));
+    const isCorrect = clampedQuality >= PASSING_QUALITY;
     const now = new Date();
     const today = now.toISOString();
 
@@ -26,86 +258,77 @@ export class SpacedRepetitionService {
       .prepare('SELECT * FROM word_history WHERE user_id = ? AND word = ?')
       .get(userId, word) as DbWordHistory | undefined;
 
-    let interval: number;
-    let easeFactor: number;
-    let correctCount: number;
-    let incorrectCount: number;
-
-    if (existing) {
-      // 既存の学習記録がある場合
-      easeFactor = existing.ease_factor;
-      correctCount = existing.correct_count;
-      incorrectCount = existing.incorrect_count;
-
-      if (clampedQuality >= 3) {
-        // 正解の場合
-        correctCount++;
-
-        if (existing.interval === 1) {
-          interval = 1;
-        } else if (existing.interval === 6) {
-          interval = 6;
-        } else {
-          interval = Math.round(existing.interval * easeFactor);
-        }
-
-        // 次のインターバル（初回→1日、2回目→6日、以降は倍増）
-        if (existing.correct_count === 0) {
-          interval = 1;
-        } else if (existing.correct_count === 1) {
-          interval = 6;
-        } else {
-          interval = Math.round(existing.interval * easeFactor);
-        }
-      } else {
-        // 不正解の場合：最初からやり直し
-        incorrectCount++;
-        interval = 1;
-      }
+    const settings = await this.getSettings(userId);
+    const reviewScheduler = createScheduler(
+      settings.scheduler,
+      settings.desiredRetention,
+      this.getSchedulerParameters(userId)
+    );
+    const next = reviewScheduler.schedule(
+      existing ? this.toCard(existing) : null,
+      clampedQuality,
+      now
+    );
+    // 忘れた単語は同じ日のうちに再学習させる
+    const nextReview = new Date(
+      now.getTime() + (isCorrect ? next.intervalDays * DAY_MS : RELEARNING_STEP_MINUTES * 60 * 1000)
+    ).toISOString();
 
-      // Ease Factor の更新（SM-2アルゴリズム簡略版）
-      easeFactor = easeFactor + (0.1 - (5 - clampedQuality) * (0.08 + (5 - clampedQuality) * 0.02));
-      easeFactor = Math.max(1.3, easeFactor); // 最小値1.3
+    const correctCount = (existing?.correct_count ?? 0) + (isCorrect ? 1 : 0);
+    const incorrectCount = (existing?.incorrect_count ?? 0) + (isCorrect ? 0 : 1);
 
-      const nextReview = new Date(now.getTime() + interval * 24 * 60 * 60 * 1000).toISOString();
+    // 一度覚えた単語を忘れた回数が上限に達したらリーチとして復習から外す（停止中の単語はそのまま）
+    const lapses = (existing?.lapses ?? 0) + (!isCorrect && existing?.correct_count ? 1 : 0);
+    let state: CardState = (existing?.state as CardState | undefined) ?? 'active';
+    const becameLeech =
+      lapses >= settings.leechThreshold && (state === 'active' || state === 'buried');
+    if (becameLeech) state = 'leech';
 
+    if (existing) {
       this.db
         .prepare(
           `
         UPDATE word_history
         SET correct_count = ?, incorrect_count = ?, last_reviewed = ?, next_review = ?,
-            ease_factor = ?, interval = ?
+            ease_factor = ?, interval = ?, stability = ?, difficulty = ?, lapses = ?, state = ?
         WHERE user_id = ? AND word = ?
       `
         )
-        .run(correctCount, incorrectCount, today, nextReview, easeFactor, interval, userId, word);
-
-      return {
-        word,
-        isCorrect: clampedQuality >= 3,
-        nextReviewDate: nextReview,
-        intervalDays: interval,
-        easeFactor,
-        correctCount,
-        incorrectCount,
-      };
+        .run(
+          correctCount,
+          incorrectCount,
+          today,
+          nextReview,
+          next.easeFactor,
+          next.intervalDays,
+          next.stability,
+          next.difficulty,
+          lapses,
+          state,
+          userId,
+          word
+        );
     } else {
       // 新規の単語
-      interval = 1;
-      easeFactor = 2.5;
-      correctCount = clampedQuality >= 3 ? 1 : 0;
-      incorrectCount = clampedQuality >= 3 ? 0 : 1;
-
-      const nextReview = new Date(now.getTime() + interval * 24 * 60 * 60 * 1000).toISOString();
-
       this.db
         .prepare(
           `
-        INSERT INTO word_history (user_id, word, correct_count, incorrect_count, last_reviewed, next_review, ease_factor, interval)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO word_history (user_id, word, correct_count, incorrect_count, last_reviewed, next_review, ease_factor, interval, stability, difficulty)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
         )
-        .run(userId, word, correctCount, incorrectCount, today, nextReview, easeFactor, interval);
+        .run(
+          userId,
+          word,
+          correctCount,
+          incorrectCount,
+          today,
+          nextReview,
+          next.easeFactor,
+          next.intervalDays,
+          next.stability,
+          next.difficulty
+        );
 
       // 学習単語数をカウントアップ
       this.db
@@ -115,21 +338,202 @@ export class SpacedRepetitionService {
       `
         )
         .run(userId);
+    }
 
-      return {
+    this.db
+      .prepare(
+        `
+      INSERT INTO review_logs (user_id, word, reviewed_at, quality, response_time_ms, previous_interval,
+                               new_interval, previous_ease_factor, new_ease_factor, scheduler_version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        userId,
         word,
-        isCorrect: clampedQuality >= 3,
-        nextReviewDate: nextReview,
-        intervalDays: interval,
-        easeFactor,
-        correctCount,
-        incorrectCount,
-      };
+        today,
+        clampedQuality,
+        responseTimeMs !== undefined && Number.isFinite(responseTimeMs)
+          ? Math.round(responseTimeMs)
+          : null,
+        existing?.interval ?? null,
+        next.intervalDays,
+        existing?.ease_factor ?? null,
+        next.easeFactor,
+        reviewScheduler.version
+      );
+
+    if (becameLeech) {
+      await this.tagLeech(userId, word, lapses, settings.leechMnemonic);
     }
+
+    return {
+      word,
+      isCorrect,
+      nextReviewDate: nextReview,
+      intervalDays: next.intervalDays,
+      easeFactor: next.easeFactor,
+      correctCount,
+      incorrectCount,
+      stability: next.stability,
+      difficulty: next.difficulty,
+      lapses,
+      state,
+    };
+  }
+
+  /**
+   * リーチになった単語をユーザーに知らせる
+   * 覚え方は復習の記録を待たせないよう、表示するときに getOrCreateMnemonic で生成する
+   */
+  private async tagLeech(
+    userId: string,
+    word: string,
+    lapses: number,
+    withMnemonic: boolean
+  ): Promise<void> {
+    await new NotificationService().notify(
+      userId,
+      'leech',
+      `「${word}」を復習から外しました`,
+      `「${word}」は${lapses}回忘れたため、いったん復習から外しました。${withMnemonic ? 'AIが作成する覚え方を確認して' : '例文や覚え方を工夫して'}から復習を再開しましょう。`,
+      { word }
+    );
+  }
+
+  /**
+   * リーチの単語の覚え方を取得（未作成なら生成して保存する）
+   *
+   * @returns 覚え方付きの学習履歴（学習していない単語はnull）。リーチでない単語や、
+   *          覚え方の生成を無効にしている場合は覚え方を生成せずに返す
+   */
+  async getOrCreateMnemonic(userId: string, word: string): Promise<WordToReview | null> {
+    const wordHistory = await this.getWordHistory(userId, word);
+    if (!wordHistory || wordHistory.state !== 'leech' || wordHistory.mnemonic) return wordHistory;
+
+    const settings = await this.getSettings(userId);
+    if (!settings.leechMnemonic) return wordHistory;
+
+    const mnemonic = await (this.aiService ?? new AIService({}, userId)).generateMnemonic(word);
+    this.db
+      .prepare('UPDATE word_history SET mnemonic = ? WHERE user_id = ? AND word = ?')
+      .run(mnemonic, userId, word);
+    return { ...wordHistory, mnemonic };
+  }
+
+  /**
+   * 単語の状態を変更
+   *
+   * @returns 変更後の学習履歴（学習していない単語はnull）
+   */
+  private setCardState(
+    userId: string,
+    word: string,
+    state: CardState,
+    buriedUntil: string | null
+  ): WordToReview | null {
+    // 再開した単語は忘却回数を数え直す（すぐにリーチに戻らないようにする）
+    const result = this.db
+      .prepare(
+        `
+      UPDATE word_history
+      SET state = ?, buried_until = ?, lapses = CASE WHEN ? = 'active' AND state = 'leech' THEN 0 ELSE lapses END
+      WHERE user_id = ? AND word = ?
+    `
+      )
+      .run(state, buriedUntil, state, userId, word);
+    if (result.changes === 0) return null;
+
+    const row = this.db
+      .prepare('SELECT * FROM word_history WHERE user_id = ? AND word = ?')
+      .get(userId, word) as DbWordHistory;
+    return this.toWordToReview(row);
+  }
+
+  /**
+   * 単語の復習を停止
+   */
+  async suspendWord(userId: string, word: string): Promise<WordToReview | null> {
+    return this.setCardState(userId, word, 'suspended', null);
+  }
+
+  /**
+   * 停止・延期した単語、リーチの単語の復習を再開
+   */
+  async unsuspendWord(userId: string, word: string): Promise<WordToReview | null> {
+    return this.setCardState(userId, word, 'active', null);
+  }
+
+  /**
+   * 単語の復習を days 日後まで延期（days = 1 なら明日から復習対象に戻る）
+   */
+  async buryWord(userId: string, word: string, days: number = 1): Promise<WordToReview | null> {
+    const until = new Date(Date.now() + days * DAY_MS).toISOString().split('T')[0];
+    return this.setCardState(userId, word, 'buried', until);
+  }
+
+  /**
+   * リーチの単語を取得
+   */
+  async getLeeches(userId: string): Promise<WordToReview[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM word_history WHERE user_id = ? AND state = 'leech' ORDER BY lapses DESC, word`
+      )
+      .all(userId) as DbWordHistory[];
+    return rows.map((row) => this.toWordToReview(row));
+  }
+
+  /**
+   * 復習ログを新しい順に取得（word を指定するとその単語のみ）
+   */
+  async getReviewLog(
+    userId: string,
+    options: { word?: string; limit?: number; offset?: number } = {}
+  ): Promise<ReviewLogPage> {
+    const limit = Math.min(
+      MAX_REVIEW_LOG_LIMIT,
+      Math.max(1, Math.floor(options.limit ?? DEFAULT_REVIEW_LOG_LIMIT))
+    );
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    const where = options.word ? 'user_id = ? AND word = ?' : 'user_id = ?';
+    const params = options.word ? [userId, options.word] : [userId];
+
+    const rows = this.db
+      .prepare(
+        `
+      SELECT * FROM review_logs
+      WHERE ${where}
+      ORDER BY reviewed_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `
+      )
+      .all(...params, limit, offset) as DbReviewLog[];
+    const total = this.db
+      .prepare(`SELECT COUNT(*) as count FROM review_logs WHERE ${where}`)
+      .get(...params) as { count: number };
+
+    return {
+      entries: rows.map((row) => ({
+        id: row.id,
+        word: row.word,
+        reviewedAt: row.reviewed_at,
+        quality: row.quality,
+        responseTimeMs: row.response_time_ms,
+        previousIntervalDays: row.previous_interval,
+        newIntervalDays: row.new_interval,
+        previousEaseFactor: row.previous_ease_factor,
+        newEaseFactor: row.new_ease_factor,
+        schedulerVersion: row.scheduler_version,
+      })),
+      total: total.count,
+      limit,
+      offset,
+    };
   }
 
   /**
-   * 今日復習すべき単語を取得
+   * 今日復習すべき単語を取得（停止中・延期中・リーチの単語は除く）
    */
   async getWordsToReview(userId: string, limit: number = 10): Promise<WordToReview[]> {
     const today = new Date().toISOString().split('T')[0];
@@ -137,24 +541,35 @@ export class SpacedRepetitionService {
     const words = this.db
       .prepare(
         `
-      SELECT word, correct_count, incorrect_count, last_reviewed, next_review, ease_factor, interval
-      FROM word_history
+      SELECT * FROM word_history
       WHERE user_id = ? AND (next_review IS NULL OR date(next_review) <= date(?))
+        AND ${REVIEWABLE_STATE}
       ORDER BY next_review ASC
       LIMIT ?
     `
       )
-      .all(userId, today, limit) as DbWordHistory[];
+      .all(userId, today, today, limit) as DbWordHistory[];
+
+    return words.map((w) => this.toWordToReview(w));
+  }
+
+  /**
+   * dueBy までに復習日が来る単語をすべて取得（停止中・延期中・リーチの単語は除く）
+   *
+   * @param localDate 学習者の今日の日付（YYYY-MM-DD。延期の期限の判定に使う）
+   */
+  async getDueWords(userId: string, dueBy: Date, localDate: string): Promise<WordToReview[]> {
+    const words = this.db
+      .prepare(
+        `
+      SELECT * FROM word_history
+      WHERE user_id = ? AND (next_review IS NULL OR next_review < ?) AND ${REVIEWABLE_STATE}
+      ORDER BY next_review ASC
+    `
+      )
+      .all(userId, dueBy.toISOString(), localDate) as DbWordHistory[];
 
-    return words.map((w) => ({
-      word: w.word,
-      correctCount: w.correct_count,
-      incorrectCount: w.incorrect_count,
-      lastReviewed: w.last_reviewed,
-      nextReview: w.next_review,
-      easeFactor: w.ease_factor,
-      intervalDays: w.interval,
-    }));
+    return words.map((w) => this.toWordToReview(w));
   }
 
   /**
@@ -174,14 +589,15 @@ export class SpacedRepetitionService {
       )
       .get(userId) as { count: number };
 
+    const today = new Date().toISOString().split('T')[0];
     const dueToday = this.db
       .prepare(
         `
       SELECT COUNT(*) as count FROM word_history
-      WHERE user_id = ? AND date(next_review) <= date('now')
+      WHERE user_id = ? AND date(next_review) <= date(?) AND ${REVIEWABLE_STATE}
     `
       )
-      .get(userId) as { count: number };
+      .get(userId, today, today) as { count: number };
 
     const avgEaseFactor = this.db
       .prepare('SELECT AVG(ease_factor) as avg FROM word_history WHERE user_id = ?')
@@ -207,15 +623,7 @@ export class SpacedRepetitionService {
 
     if (!history) return null;
 
-    return {
-      word: history.word,
-      correctCount: history.correct_count,
-      incorrectCount: history.incorrect_count,
-      lastReviewed: history.last_reviewed,
-      nextReview: history.next_review,
-      easeFactor: history.ease_factor,
-      intervalDays: history.interval,
-    };
+    return this.toWordToReview(history);
   }
 }
 
@@ -223,11 +631,18 @@ export class SpacedRepetitionService {
 export interface ReviewResult {
   word: string;
   isCorrect: boolean;
+  /** 次回の復習日時（忘れた場合は再学習のステップの後） */
   nextReviewDate: string;
   intervalDays: number;
   easeFactor: number;
   correctCount: number;
   incorrectCount: number;
+  /** FSRS の安定性・難易度（SM-2 で復習した場合は null） */
+  stability: number | null;
+  difficulty: number | null;
+  /** 一度覚えた後に忘れた回数 */
+  lapses: number;
+  state: CardState;
 }
 
 export interface WordToReview {
@@ -238,6 +653,53 @@ export interface WordToReview {
   nextReview: string | null;
   easeFactor: number;
   intervalDays: number;
+  stability: number | null;
+  difficulty: number | null;
+  /** 現在の想起率の推定値（FSRS の状態がない場合は null） */
+  retrievability: number | null;
+  state: CardState;
+  /** 延期の期限（この日から復習対象に戻る。YYYY-MM-DD） */
+  buriedUntil: string | null;
+  lapses: number;
+  /** リーチになった単語の覚え方（AIで生成） */
+  mnemonic: string | null;
+}
+
+export interface ReviewLogEntry {
+  id: number;
+  word: string;
+  reviewedAt: string;
+  quality: number;
+  responseTimeMs: number | null;
+  /** 復習前の間隔・ease factor（初めての学習は null） */
+  previousIntervalDays: number | null;
+  newIntervalDays: number;
+  previousEaseFactor: number | null;
+  newEaseFactor: number;
+  schedulerVersion: string;
+}
+
+export interface ReviewLogPage {
+  entries: ReviewLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ReviewSettings {
+  scheduler: SchedulerName;
+  /** FSRS の目標の想起率（この値まで下がる日を次の復習日にする） */
+  desiredRetention: number;
+  /** リーチとみなす忘却回数 */
+  leechThreshold: number;
+  /** リーチになった単語の覚え方を AI で生成するか */
+  leechMnemonic: boolean;
+  /** 1日に学習する新しい単語数の上限 */
+  newCardsPerDay: number;
+  /** 1日の復習数の上限 */
+  maxReviewsPerDay: number;
+  /** 新しい単語を取り出す単語帳（共有の語彙レッスンID・個人の単語帳ID。null は全単語帳） */
+  studyDecks: string[] | null;
 }
 
 export interface LearningStats {
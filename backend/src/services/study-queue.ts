@@ -0,0 +1,357 @@
+import { DatabaseService } from './database';
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import { VocabularyWord } from './content-validation';
+import { PersonalDeckService } from './personal-deck';
+import { ReminderService } from './reminder';
+import { PASSING_QUALITY } from './scheduler';
+import { SpacedRepetitionService, WordToReview } from './spaced-repetition';
+
+/**
+ * タイムゾーンが未設定・不正な場合に使う学習者のタイムゾーン（リマインダー設定のデフォルトと同じ）
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 学習者の1日（現地時間の0時から翌日0時まで）
+ */
+export interface LocalDay {
+  /** 現地の日付（YYYY-MM-DD） */
+  date: string;
+  timezone: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * キューの項目の種類
+ * - relearning: 前回の復習で忘れた単語（忘れた直後に定着させるため最優先）
+ * - review: 復習日が来た単語
+ * - new: 選んだ単語帳から取り出した新しい単語
+ */
+export type StudyQueueItemKind = 'relearning' | 'review' | 'new';
+
+export interface StudyQueueItem {
+  kind: StudyQueueItemKind;
+  word: string;
+  /** 新しい単語の取り出し元の単語帳（復習する単語は null） */
+  deckId: string | null;
+  /** 復習日を過ぎた日数（新しい単語は null） */
+  overdueDays: number | null;
+  /** 学習履歴（新しい単語は null） */
+  history: WordToReview | null;
+}
+
+/**
+ * 1日の上限と今日の学習数
+ */
+export interface StudyQueueDailyLimits {
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  newStudiedToday: number;
+  reviewsDoneToday: number;
+  newRemaining: number;
+  reviewsRemaining: number;
+}
+
+export interface StudyQueue {
+  date: string;
+  timezone: string;
+  items: StudyQueueItem[];
+  counts: Record<StudyQueueItemKind, number>;
+  daily: StudyQueueDailyLimits;
+}
+
+/**
+ * 1日の上限を超えて学習しようとした場合のエラー
+ * - new_limit_reached: 今日の新しい単語数の上限に達した
+ * - review_limit_reached: 今日の復習数の上限に達した
+ */
+export class StudyLimitError extends Error {
+  readonly code: 'new_limit_reached' | 'review_limit_reached';
+
+  constructor(code: StudyLimitError['code'], message: string) {
+    super(message);
+    this.name = 'StudyLimitError';
+    this.code = code;
+  }
+}
+
+/**
+ * 指定したタイムゾーンでの日時の各部分
+ */
+function zonedParts(date: Date, timeZone: string): number[] {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return [get('year'), get('month'), get('day'), get('hour'), get('minute'), get('second')];
+}
+
+/**
+ * 指定した日時でのタイムゾーンの UTC からのずれ（ミリ秒）
+ */
+function timezoneOffset(date: Date, timeZone: string): number {
+  const [year, month, day, hour, minute, second] = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 現地の日付の0時（夏時間の切り替え日も、その時点のずれで求め直す）
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - timezoneOffset(new Date(utcMidnight), timeZone);
+  return new Date(utcMidnight - timezoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * 学習者の今日（タイムゾーンが不正な場合はデフォルトのタイムゾーン）
+ */
+export function getLocalDay(timeZone: string, now: Date = new Date()): LocalDay {
+  let zone = timeZone;
+  let parts: number[];
+  try {
+    parts = zonedParts(now, zone);
+  } catch {
+    zone = DEFAULT_TIMEZONE;
+    parts = zonedParts(now, zone);
+  }
+
+  const [year, month, day] = parts;
+  return {
+    date: [year, String(month).padStart(2, '0'), String(day).padStart(2, '0')].join('-'),
+    timezone: zone,
+    start: zonedMidnight(year, month, day, zone),
+    end: zonedMidnight(year, month, day + 1, zone),
+  };
+}
+
+/**
+ * 復習の間に新しい単語を均等に挟む
+ */
+function interleave<T>(reviews: T[], newItems: T[]): T[] {
+  if (newItems.length === 0) return reviews;
+
+  const gap = Math.ceil(reviews.length / newItems.length);
+  const result: T[] = [];
+  let n = 0;
+  reviews.forEach((item, i) => {
+    result.push(item);
+    if ((i + 1) % gap === 0 && n < newItems.length) result.push(newItems[n++]);
+  });
+  return result.concat(newItems.slice(n));
+}
+
+/**
+ * 学習キューサービス - 今日取り組む単語（忘れた単語・復習・新しい単語）を並べる
+ * 1日の新しい単語数・復習数の上限は学習者の現地時間の日付で数える
+ *
+ * 収益化観点：毎日の学習量を一定に保ち、復習が溜まって挫折するのを防ぐ
+ */
+export class StudyQueueService {
+  private db = DatabaseService.getInstance().getDb();
+  private registry: ContentRegistry;
+  private spacedRepetition = new SpacedRepetitionService();
+  private personalDecks = new PersonalDeckService();
+
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR) {
+    this.registry = ContentRegistry.forDir(contentDir);
+  }
+
+  /**
+   * 新しい単語を取り出せる単語帳（共有の語彙レッスン・ユーザーの個人の単語帳）のID
+   */
+  async getAvailableDeckIds(userId: string): Promise<string[]> {
+    const personal = await this.personalDecks.listDecks(userId);
+    return [...this.registry.getVocabularyDecks().map((d) => d.id), ...personal.map((d) => d.id)];
+  }
+
+  /**
+   * 単語帳の単語（存在しない・他ユーザーの単語帳は空）
+   */
+  private async getDeckWords(userId: string, deckId: string): Promise<VocabularyWord[]> {
+    const lesson = this.registry.getLesson(deckId);
+    if (lesson) return lesson.type === 'vocabulary' ? lesson.words : [];
+    return (await this.personalDecks.getDeck(userId, deckId))?.words ?? [];
+  }
+
+  /**
+   * 単語帳の順にまだ学習していない単語を取り出す
+   */
+  private async pickNewWords(
+    userId: string,
+    deckIds: string[],
+    count: number
+  ): Promise<StudyQueueItem[]> {
+    if (count <= 0) return [];
+
+    const studied = new Set(
+      (
+        this.db.prepare('SELECT word FROM word_history WHERE user_id = ?').all(userId) as {
+          word: string;
+        }[]
+      ).map((w) => w.word.toLowerCase())
+    );
+
+    const picked: StudyQueueItem[] = [];
+    for (const deckId of deckIds) {
+      for (const w of await this.getDeckWords(userId, deckId)) {
+        const key = w.word.toLowerCase();
+        if (studied.has(key)) continue;
+        studied.add(key);
+        picked.push({ kind: 'new', word: w.word, deckId, overdueDays: null, history: null });
+        if (picked.length >= count) return picked;
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * since 以降に学習した新しい単語数と復習数（復習ログから数える）
+   */
+  private countStudied(userId: string, since: Date): { newWords: number; reviews: number } {
+    const row = this.db
+      .prepare(
+        `
+      SELECT
+        SUM(CASE WHEN previous_interval IS NULL THEN 1 ELSE 0 END) as new_words,
+        SUM(CASE WHEN previous_interval IS NOT NULL THEN 1 ELSE 0 END) as reviews
+      FROM review_logs
+      WHERE user_id = ? AND reviewed_at >= ?
+    `
+      )
+      .get(userId, since.toISOString()) as { new_words: number | null; reviews: number | null };
+    return { newWords: row.new_words ?? 0, reviews: row.reviews ?? 0 };
+  }
+
+  /**
+   * 前回の復習で忘れた単語
+   */
+  private getForgottenWords(userId: string): Set<string> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT word, quality FROM review_logs
+      WHERE id IN (SELECT MAX(id) FROM review_logs WHERE user_id = ? GROUP BY word)
+    `
+      )
+      .all(userId) as { word: string; quality: number }[];
+    return new Set(rows.filter((r) => r.quality < PASSING_QUALITY).map((r) => r.word));
+  }
+
+  /**
+   * 学習者の今日と、1日の上限・今日の学習数
+   */
+  private async getDailyLimits(
+    userId: string,
+    now: Date
+  ): Promise<{ day: LocalDay; daily: StudyQueueDailyLimits }> {
+    const settings = await this.spacedRepetition.getSettings(userId);
+    const reminder = await new ReminderService().getSettings(userId);
+    const day = getLocalDay(reminder?.timezone ?? DEFAULT_TIMEZONE, now);
+    const studied = this.countStudied(userId, day.start);
+
+    return {
+      day,
+      daily: {
+        newCardsPerDay: settings.newCardsPerDay,
+        maxReviewsPerDay: settings.maxReviewsPerDay,
+        newStudiedToday: studied.newWords,
+        reviewsDoneToday: studied.reviews,
+        newRemaining: Math.max(0, settings.newCardsPerDay - studied.newWords),
+        reviewsRemaining: Math.max(0, settings.maxReviewsPerDay - studied.reviews),
+      },
+    };
+  }
+
+  /**
+   * 単語を今日学習できるか確認し、1日の上限に達している場合は StudyLimitError を投げる
+   * 学習履歴のない単語は新しい単語、ある単語は復習（忘れた単語の再学習を含む）として数える
+   */
+  async assertWithinDailyLimits(
+    userId: string,
+    word: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const { daily } = await this.getDailyLimits(userId, now);
+    const isNew = !(await this.spacedRepetition.getWordHistory(userId, word));
+
+    if (isNew && daily.newRemaining <= 0) {
+      throw new StudyLimitError('new_limit_reached', '今日の新しい単語数の上限に達しました');
+    }
+    if (!isNew && daily.reviewsRemaining <= 0) {
+      throw new StudyLimitError('review_limit_reached', '今日の復習数の上限に達しました');
+    }
+  }
+
+  /**
+   * 今日の学習キューを作成
+   * 忘れた単語 → 復習（期限の過ぎ方が大きい順）の順に1日の復習数の上限まで並べ、
+   * 1日の新しい単語数の残りを選んだ単語帳から取り出して復習の間に挟む
+   */
+  async buildQueue(userId: string, now: Date = new Date()): Promise<StudyQueue> {
+    const settings = await this.spacedRepetition.getSettings(userId);
+    const { day, daily } = await this.getDailyLimits(userId, now);
+    const { newRemaining, reviewsRemaining } = daily;
+
+    // 今日（現地時間）のうちに復習日が来る単語
+    const forgotten = this.getForgottenWords(userId);
+    const due = (await this.spacedRepetition.getDueWords(userId, day.end, day.date)).map(
+      (history): StudyQueueItem => ({
+        kind: forgotten.has(history.word) ? 'relearning' : 'review',
+        word: history.word,
+        deckId: null,
+        overdueDays: history.nextReview
+          ? (now.getTime() - new Date(history.nextReview).getTime()) / DAY_MS
+          : 0,
+        history,
+      })
+    );
+
+    // 期限の過ぎ方は間隔に対する割合で比べる（長い間隔の単語は数日遅れても忘れにくい）
+    const overdueness = (item: StudyQueueItem): number =>
+      (item.overdueDays ?? 0) / Math.max(1, item.history?.intervalDays ?? 1);
+    const byOverdueness = (a: StudyQueueItem, b: StudyQueueItem): number =>
+      overdueness(b) - overdueness(a);
+
+    const reviews = [
+      ...due.filter((item) => item.kind === 'relearning').sort(byOverdueness),
+      ...due.filter((item) => item.kind === 'review').sort(byOverdueness),
+    ].slice(0, reviewsRemaining);
+
+    const deckIds = settings.studyDecks ?? (await this.getAvailableDeckIds(userId));
+    const newWords = await this.pickNewWords(userId, deckIds, newRemaining);
+
+    const relearning = reviews.filter((item) => item.kind === 'relearning');
+    const items = [
+      ...relearning,
+      ...interleave(
+        reviews.filter((item) => item.kind === 'review'),
+        newWords
+      ),
+    ];
+
+    return {
+      date: day.date,
+      timezone: day.timezone,
+      items,
+      counts: {
+        relearning: relearning.length,
+        review: reviews.length - relearning.length,
+        new: newWords.length,
+      },
+      daily,
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { DatabaseService, DbUser } from './database';
+import { LLMFeature, TokenUsage } from './llm-provider';
+import { PLANS, PlanType } from './plan';
+
+/**
+ * モデル別の料金（USD / 100万トークン）
+ * 一覧にないモデル（ローカル・フィクスチャー等）は0として扱う
+ */
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+};
+
+/**
+ * 推定コストを計算（USD）
+ * APIが返すモデル名は日付付き（gpt-4o-2024-08-06 など）のため前方一致で最長のものを使う
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const key = Object.keys(MODEL_PRICING)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+
+  const price = MODEL_PRICING[key];
+  return (
+    (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000
+  );
+}
+
+/**
+ * 当月の開始日時（UTC）
+ */
+export function getMonthStart(date: Date = new Date()): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * 利用量サービス - AI呼び出しのトークン数・推定コストの記録と月次予算管理
+ * 収益化観点：無制限プランでもアカウントごとの原価を把握し、上限で赤字を防ぐ
+ */
+export class UsageService {
+  private db = DatabaseService.getInstance().getDb();
+
+  /**
+   * AI呼び出し1回分の利用量を記録
+   */
+  recordUsage(entry: UsageEntry): void {
+    const costUsd = estimateCost(entry.model, entry.usage);
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO ai_usage (user_id, feature, model, prompt_tokens, completion_tokens, total_tokens, cost_usd, latency_ms, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        entry.userId,
+        entry.feature,
+        entry.model,
+        entry.usage.promptTokens,
+        entry.usage.completionTokens,
+        entry.usage.totalTokens,
+        costUsd,
+        entry.latencyMs,
+        new Date().toISOString()
+      );
+  }
+
+  /**
+   * 期間内の機能別利用量を取得
+   */
+  getUsageByFeature(userId: string, since: string = getMonthStart()): FeatureUsage[] {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT feature,
+             COUNT(*) as requests,
+             SUM(prompt_tokens) as prompt_tokens,
+             SUM(completion_tokens) as completion_tokens,
+             SUM(total_tokens) as total_tokens,
+             SUM(cost_usd) as cost_usd
+      FROM ai_usage
+      WHERE user_id = ? AND created_at >= ?
+      GROUP BY feature
+      ORDER BY feature
+    `
+      )
+      .all(userId, since) as Array<{
+      feature: string;
+      requests: number;
+      prompt_tokens: number;
+      completion_tokens: number;
+      total_tokens: number;
+      cost_usd: number;
+    }>;
+
+    return rows.map((row) => ({
+      feature: row.feature as LLMFeature,
+      requests: row.requests,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens,
+      costUsd: row.cost_usd,
+    }));
+  }
+
+  /**
+   * 当月の使用トークン数を取得
+   */
+  getMonthlyTokens(userId: string): number {
+    const row = this.db
+      .prepare(
+        `
+      SELECT COALESCE(SUM(total_tokens), 0) as total
+      FROM ai_usage
+      WHERE user_id = ? AND created_at >= ?
+    `
+      )
+      .get(userId, getMonthStart()) as { total: number };
+
+    return row.total;
+  }
+
+  /**
+   * 当月のトークン予算を確認
+   */
+  checkBudget(userId: string): TokenBudget {
+    const user = this.db.prepare('SELECT plan FROM users WHERE id = ?').get(userId) as
+      | Pick<DbUser, 'plan'>
+      | undefined;
+    const limit = PLANS[(user?.plan as PlanType) || 'free']?.limits.monthlyAiTokens ?? 0;
+    const used = this.getMonthlyTokens(userId);
+
+    if (limit === -1) {
+      return { allowed: true, used, limit: Infinity, remaining: Infinity };
+    }
+
+    return {
+      allowed: used < limit,
+      used,
+      limit,
+      remaining: Math.max(0, limit - used),
+    };
+  }
+
+  /**
+   * 当月の利用状況サマリーを取得
+   */
+  getMonthlySummary(userId: string): UsageSummary {
+    const byFeature = this.getUsageByFeature(userId);
+    const budget = this.checkBudget(userId);
+
+    return {
+      periodStart: getMonthStart(),
+      tokens: { used: budget.used, limit: budget.limit, remaining: budget.remaining },
+      costUsd: byFeature.reduce((sum, f) => sum + f.costUsd, 0),
+      byFeature,
+    };
+  }
+}
+
+// 型定義
+export interface UsageEntry {
+  userId: string | null;
+  feature: LLMFeature;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number | null;
+}
+
+export interface FeatureUsage {
+  feature: LLMFeature;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface TokenBudget {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface UsageSummary {
+  periodStart: string;
+  tokens: { used: number; limit: number; remaining: number };
+  costUsd: number;
+  byFeature: FeatureUsage[];
+}
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { DatabaseService, DbUser, DbUserProgress } from './database';
+import { CefrLevel, isCefrLevel } from './content-validation';
 
 type UserPlan = 'free' | 'premium' | 'education';
 
@@ -12,6 +13,9 @@ export interface User {
   plan: UserPlan;
   dailyQuestionsUsed: number;
   lastQuestionDate: string;
+  /** CEFRレベル（プレースメントテストの判定結果。未受験は null） */
+  cefrLevel: CefrLevel | null;
+  cefrAssessedAt: string | null;
   createdAt: string;
 }
 
@@ -49,6 +53,8 @@ export class UserService {
       plan: dbUser.plan as UserPlan,
       dailyQuestionsUsed: dbUser.daily_questions_used,
       lastQuestionDate: dbUser.last_question_date || '',
+      cefrLevel: isCefrLevel(dbUser.cefr_level) ? dbUser.cefr_level : null,
+      cefrAssessedAt: dbUser.cefr_assessed_at,
       createdAt: dbUser.created_at,
     };
   }
@@ -108,6 +114,8 @@ export class UserService {
       plan: 'free',
       dailyQuestionsUsed: 0,
       lastQuestionDate: '',
+      cefrLevel: null,
+      cefrAssessedAt: null,
       createdAt: now,
     };
   }
@@ -197,6 +205,21 @@ export class UserService {
     return true;
   }
 
+  /**
+   * 回答の生成に失敗した質問の回数を戻す（Free tier制限）
+   */
+  async refundQuestionLimit(userId: string): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    this.db
+      .prepare(
+        `
+      UPDATE users SET daily_questions_used = daily_questions_used - 1
+      WHERE id = ? AND plan = 'free' AND last_question_date = ? AND daily_questions_used > 0
+    `
+      )
+      .run(userId, today);
+  }
+
   /**
    * プランをアップグレード
    */
@@ -205,6 +228,16 @@ export class UserService {
     return result.changes > 0;
   }
 
+  /**
+   * CEFRレベルを更新
+   */
+  async updateCefrLevel(userId: string, level: CefrLevel): Promise<boolean> {
+    const result = this.db
+      .prepare('UPDATE users SET cefr_level = ?, cefr_assessed_at = ? WHERE id = ?')
+      .run(level, new Date().toISOString(), userId);
+    return result.changes > 0;
+  }
+
   /**
    * 進捗を更新
    */
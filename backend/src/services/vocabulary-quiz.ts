@@ -0,0 +1,343 @@
+import {
+  ClozeQuestion,
+  CLOZE_BLANK,
+  MatchingQuestion,
+  MultipleChoiceQuestion,
+  OrderingQuestion,
+  QuizQuestion,
+  QuizQuestionType,
+  QUIZ_OPTION_COUNT,
+  TypedQuestion,
+} from './quiz-validation';
+import { ContentRegistry, DEFAULT_CONTENT_DIR } from './content-registry';
+import { CefrLevel } from './content-validation';
+import { SpacedRepetitionService } from './spaced-repetition';
+import { AnalyticsService } from './analytics';
+
+/**
+ * 1回の語彙クイズで出題する問題数（デフォルト）
+ */
+const DEFAULT_QUESTION_COUNT = 5;
+
+/**
+ * 出題する問題形式（順に繰り返す）
+ * 4択だけでは想起力を過大評価するため、入力・並べ替え形式を混ぜる
+ */
+export const VOCABULARY_QUESTION_TYPES: QuizQuestionType[] = [
+  'multiple_choice',
+  'cloze',
+  'typed',
+  'matching',
+  'ordering',
+];
+
+/**
+ * 並べ替え問題のシャッフルをやり直す回数の上限（元の順序と同じになった場合）
+ */
+const MAX_ORDERING_SHUFFLES = 5;
+
+/**
+ * 語彙エントリ（content/vocabulary の単語 + 所属レッスン）
+ */
+export interface VocabularyEntry {
+  lessonId: string;
+  word: string;
+  partOfSpeech: string;
+  definition: string;
+  definitionJa: string;
+  example: string;
+  exampleJa: string;
+  /** CEFRレベル（単語に指定がなければレッスンのレベル） */
+  cefr: CefrLevel;
+}
+
+/**
+ * 出題理由
+ * - due: 復習期限が来ている単語
+ * - weak: 正答率が低い・ease factorが低い単語
+ * - new: まだ学習していない単語（対象が足りない場合の補充）
+ */
+export type VocabularyQuizReason = 'due' | 'weak' | 'new';
+
+export interface VocabularyQuizTarget {
+  entry: VocabularyEntry;
+  reason: VocabularyQuizReason;
+}
+
+/**
+ * 配列をシャッフル（Fisher-Yates）
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 解説文（意味・英英定義・例文）
+ */
+function explain(entry: VocabularyEntry): string {
+  return `${entry.word}: ${entry.definitionJa}（${entry.definition}）\n例文: ${entry.example}（${entry.exampleJa}）`;
+}
+
+/**
+ * 語彙クイズサービス - 学習中の単語から4択問題をローカルで生成（LLM不要）
+ * 収益化観点：各学習者の復習期限・苦手単語に絞った練習で定着率を上げる
+ */
+export class VocabularyQuizService {
+  private registry: ContentRegistry;
+  private random: () => number;
+
+  /**
+   * @param random 乱数生成関数（テストで固定するために差し替え可能）
+   */
+  constructor(contentDir: string = DEFAULT_CONTENT_DIR, random: () => number = Math.random) {
+    this.registry = ContentRegistry.forDir(contentDir);
+    this.random = random;
+  }
+
+  /**
+   * 語彙エントリを読み込む
+   */
+  loadVocabulary(): VocabularyEntry[] {
+    return this.registry.getVocabularyDecks().flatMap((deck) =>
+      deck.words.map((w) => ({
+        lessonId: deck.id,
+        word: w.word,
+        partOfSpeech: w.partOfSpeech,
+        definition: w.definition,
+        definitionJa: w.definitionJa,
+        example: w.example,
+        exampleJa: w.exampleJa,
+        cefr: w.cefr ?? deck.level,
+      }))
+    );
+  }
+
+  /**
+   * 出題する単語を選ぶ
+   * 復習期限の来た単語 → 苦手単語 → 未学習の単語 の順に、教材に含まれる単語だけを選ぶ
+   */
+  async selectTargets(
+    userId: string,
+    vocabulary: VocabularyEntry[],
+    count: number = DEFAULT_QUESTION_COUNT
+  ): Promise<VocabularyQuizTarget[]> {
+    const byWord = new Map(vocabulary.map((e) => [e.word.toLowerCase(), e]));
+    const targets: VocabularyQuizTarget[] = [];
+    const picked = new Set<string>();
+
+    const add = (word: string, reason: VocabularyQuizReason) => {
+      const key = word.toLowerCase();
+      const entry = byWord.get(key);
+      if (!entry || picked.has(key) || targets.length >= count) return;
+      picked.add(key);
+      targets.push({ entry, reason });
+    };
+
+    const due = await new SpacedRepetitionService().getWordsToReview(userId, count);
+    due.forEach((w) => add(w.word, 'due'));
+
+    const { weakWords } = await new AnalyticsService().detectWeaknesses(userId);
+    weakWords.forEach((w) => add(w.word, 'weak'));
+
+    if (targets.length < count) {
+      const srService = new SpacedRepetitionService();
+      for (const entry of shuffle(vocabulary, this.random)) {
+        if (targets.length >= count) break;
+        if (picked.has(entry.word.toLowerCase())) continue;
+        if (!(await srService.getWordHistory(userId, entry.word))) {
+          add(entry.word, 'new');
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * 誤答の選択肢を選ぶ（同じ品詞を優先し、足りない場合は他の品詞で補う）
+   */
+  pickDistractors(target: VocabularyEntry, vocabulary: VocabularyEntry[]): VocabularyEntry[] {
+    const others = vocabulary.filter(
+      (e) =>
+        e.word.toLowerCase() !== target.word.toLowerCase() && e.definitionJa !== target.definitionJa
+    );
+    const samePos = shuffle(
+      others.filter((e) => e.partOfSpeech === target.partOfSpeech),
+      this.random
+    );
+    const otherPos = shuffle(
+      others.filter((e) => e.partOfSpeech !== target.partOfSpeech),
+      this.random
+    );
+
+    return [...samePos, ...otherPos].slice(0, QUIZ_OPTION_COUNT - 1);
+  }
+
+  /**
+   * 4択問題を組み立てる
+   *
+   * @param reverse trueの場合は意味→英単語、falseの場合は英単語→意味
+   */
+  buildMultipleChoice(
+    target: VocabularyEntry,
+    vocabulary: VocabularyEntry[],
+    reverse: boolean = false
+  ): MultipleChoiceQuestion | null {
+    const distractors = this.pickDistractors(target, vocabulary);
+    if (distractors.length < QUIZ_OPTION_COUNT - 1) return null;
+
+    const choices = shuffle([target, ...distractors], this.random);
+    const label = (e: VocabularyEntry) => (reverse ? e.word : e.definitionJa);
+
+    return {
+      type: 'multiple_choice',
+      question: reverse
+        ? `「${target.definitionJa}」を意味する英単語はどれですか？`
+        : `「${target.word}」（${target.partOfSpeech}）の意味はどれですか？`,
+      options: choices.map(label),
+      correctIndex: choices.indexOf(target),
+      explanation: explain(target),
+      word: target.word,
+    };
+  }
+
+  /**
+   * 穴埋め問題を組み立てる（例文中の単語を空欄にする。活用形はそのまま正解とする）
+   * 例文に単語が含まれない場合はnull
+   */
+  buildCloze(target: VocabularyEntry): ClozeQuestion | null {
+    const pattern = new RegExp(`\\b${escapeRegExp(target.word)}[a-z]*\\b`, 'i');
+    const match = target.example.match(pattern);
+    if (!match) return null;
+
+    return {
+      type: 'cloze',
+      question: '空欄に入る英単語を入力してください',
+      sentence: target.example.replace(pattern, CLOZE_BLANK),
+      answer: match[0],
+      hint: `${target.exampleJa}（${target.definitionJa}）`,
+      explanation: explain(target),
+      word: target.word,
+    };
+  }
+
+  /**
+   * 記述問題を組み立てる（意味から英単語を入力）
+   */
+  buildTyped(target: VocabularyEntry): TypedQuestion {
+    return {
+      type: 'typed',
+      question: `「${target.definitionJa}」を意味する英単語を入力してください`,
+      answer: target.word,
+      hint: `${target.partOfSpeech}, ${target.word[0]}で始まる${target.word.length}文字`,
+      explanation: explain(target),
+      word: target.word,
+    };
+  }
+
+  /**
+   * 組み合わせ問題を組み立てる（対象の単語と誤答候補の単語を意味と対応させる）
+   */
+  buildMatching(target: VocabularyEntry, vocabulary: VocabularyEntry[]): MatchingQuestion | null {
+    const distractors = this.pickDistractors(target, vocabulary);
+    if (distractors.length < QUIZ_OPTION_COUNT - 1) return null;
+
+    const entries = shuffle([target, ...distractors], this.random);
+    const definitions = shuffle(
+      entries.map((e) => e.definitionJa),
+      this.random
+    );
+
+    return {
+      type: 'matching',
+      question: 'それぞれの英単語に合う意味を選んでください',
+      terms: entries.map((e) => e.word),
+      definitions,
+      correctMatches: entries.map((e) => definitions.indexOf(e.definitionJa)),
+      explanation: entries.map((e) => `${e.word}: ${e.definitionJa}`).join('\n'),
+      word: target.word,
+    };
+  }
+
+  /**
+   * 並べ替え問題を組み立てる（例文の単語を並べ替える）
+   * 例文が2語未満の場合はnull
+   */
+  buildOrdering(target: VocabularyEntry): OrderingQuestion | null {
+    const words = target.example.split(/\s+/).filter((w) => w.length > 0);
+    if (words.length < 2) return null;
+
+    let order = words.map((_, i) => i);
+    for (let i = 0; i < MAX_ORDERING_SHUFFLES; i++) {
+      order = shuffle(order, this.random);
+      if (order.some((position, index) => words[position] !== words[index])) break;
+    }
+
+    const tokens = order.map((i) => words[i]);
+    return {
+      type: 'ordering',
+      question: `「${target.exampleJa}」となるように単語を並べ替えてください`,
+      tokens,
+      correctOrder: words.map((_, i) => order.indexOf(i)),
+      explanation: explain(target),
+      word: target.word,
+    };
+  }
+
+  /**
+   * 指定した形式で1問を組み立てる
+   * その形式で作れない場合は4択にする
+   */
+  buildQuestion(
+    type: QuizQuestionType,
+    target: VocabularyEntry,
+    vocabulary: VocabularyEntry[],
+    reverse: boolean = false
+  ): QuizQuestion | null {
+    const built =
+      type === 'cloze'
+        ? this.buildCloze(target)
+        : type === 'typed'
+          ? this.buildTyped(target)
+          : type === 'matching'
+            ? this.buildMatching(target, vocabulary)
+            : type === 'ordering'
+              ? this.buildOrdering(target)
+              : null;
+
+    return built ?? this.buildMultipleChoice(target, vocabulary, reverse);
+  }
+
+  /**
+   * ユーザーの学習状況に合わせた語彙クイズを生成
+   * 問題形式は types を順に繰り返し、4択は周回ごとに英単語→意味 と 意味→英単語 を入れ替える
+   */
+  async generateQuiz(
+    userId: string,
+    count: number = DEFAULT_QUESTION_COUNT,
+    types: QuizQuestionType[] = VOCABULARY_QUESTION_TYPES
+  ): Promise<QuizQuestion[]> {
+    const vocabulary = this.loadVocabulary();
+    const targets = await this.selectTargets(userId, vocabulary, count);
+
+    return targets
+      .map((t, index) =>
+        this.buildQuestion(
+          types[index % types.length],
+          t.entry,
+          vocabulary,
+          Math.floor(index / types.length) % 2 === 1
+        )
+      )
+      .filter((q): q is QuizQuestion => q !== null);
+  }
+}
@@ -0,0 +1,153 @@
+import zlib from 'zlib';
+
+/**
+ * ZIPのシグネチャ
+ */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * 圧縮方式（格納・Deflateのみ対応）
+ */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * 展開に必要なバージョン（2.0: Deflate）
+ */
+const ZIP_VERSION = 20;
+
+/**
+ * 終端レコードの最小サイズと、末尾のコメントを含めた検索範囲
+ */
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * ZIPファイルを読めない場合のエラー
+ */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/**
+ * ZIPファイルのエントリ名一覧と展開関数
+ * Anki パッケージ（.apkg）の読み込み用の最小実装（ZIP64・暗号化は非対応、CRCは検証しない）
+ */
+export function readZip(buffer: Buffer): { names: string[]; extract: (name: string) => Buffer } {
+  const entries = new Map<string, { method: number; compressedSize: number; offset: number }>();
+
+  let end = -1;
+  const searchFrom = Math.max(0, buffer.length - END_RECORD_SIZE - MAX_COMMENT_LENGTH);
+  for (let i = buffer.length - END_RECORD_SIZE; i >= searchFrom; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ZipError('ZIPファイルではありません');
+  }
+
+  const count = buffer.readUInt16LE(end + 10);
+  let position = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (
+      position + 46 > buffer.length ||
+      buffer.readUInt32LE(position) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new ZipError('ZIPファイルの目次が壊れています');
+    }
+    const nameLength = buffer.readUInt16LE(position + 28);
+    const extraLength = buffer.readUInt16LE(position + 30);
+    const commentLength = buffer.readUInt16LE(position + 32);
+    const name = buffer.toString('utf-8', position + 46, position + 46 + nameLength);
+    entries.set(name, {
+      method: buffer.readUInt16LE(position + 10),
+      compressedSize: buffer.readUInt32LE(position + 20),
+      offset: buffer.readUInt32LE(position + 42),
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const extract = (name: string): Buffer => {
+    const entry = entries.get(name);
+    if (!entry) {
+      throw new ZipError(`${name} が含まれていません`);
+    }
+    if (buffer.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+      throw new ZipError(`${name} のヘッダーが壊れています`);
+    }
+    const start =
+      entry.offset +
+      30 +
+      buffer.readUInt16LE(entry.offset + 26) +
+      buffer.readUInt16LE(entry.offset + 28);
+    const data = buffer.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return Buffer.from(data);
+    if (entry.method === METHOD_DEFLATE) {
+      try {
+        return zlib.inflateRawSync(data);
+      } catch {
+        throw new ZipError(`${name} の展開に失敗しました`);
+      }
+    }
+    throw new ZipError(`${name} の圧縮方式（${entry.method}）には対応していません`);
+  };
+
+  return { names: Array.from(entries.keys()), extract };
+}
+
+/**
+ * エントリをDeflateで圧縮したZIPファイルを作成（Anki パッケージの書き出し用）
+ */
+export function writeZip(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const compressed = zlib.deflateRawSync(file.data);
+    const crc = zlib.crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(END_RECORD_SIZE);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
@@ -11,6 +11,7 @@ import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Learn from './pages/Learn';
 import Quiz from './pages/Quiz';
+import Reading from './pages/Reading';
 import Plans from './pages/Plans';
 import './App.css';
 
@@ -69,6 +70,14 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/reading"
+                element={
+                  <ProtectedRoute>
+                    <Reading />
+                  </ProtectedRoute>
+                }
+              />
             </Routes>
           </Layout>
         </Router>
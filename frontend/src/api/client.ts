@@ -2,7 +2,7 @@
 
 import axios from 'axios';
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
 export const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -25,6 +25,40 @@ apiClient.interceptors.request.use(
   }
 );
 
+// 期限切れのトークンを破棄してログイン画面へ移動
+function logout(): void {
+  localStorage.removeItem('accessToken');
+  localStorage.removeItem('refreshToken');
+  window.location.href = '/login';
+}
+
+// アクセストークンを更新して返す（リフレッシュトークンがない・更新に失敗した場合はログアウトしてnull）
+export async function refreshAccessToken(): Promise<string | null> {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    // 無効なアクセストークンを残すと以降のリクエストも失敗し続ける
+    if (localStorage.getItem('accessToken')) {
+      logout();
+    }
+    return null;
+  }
+
+  try {
+    const response = await axios.post(`${API_BASE_URL}/api/auth/refresh`, {
+      refreshToken,
+    });
+
+    const { accessToken, refreshToken: newRefreshToken } = response.data;
+    localStorage.setItem('accessToken', accessToken);
+    localStorage.setItem('refreshToken', newRefreshToken);
+    return accessToken;
+  } catch {
+    // リフレッシュ失敗時はログアウト処理
+    logout();
+    return null;
+  }
+}
+
 // レスポンスインターセプター: トークンリフレッシュ処理
 apiClient.interceptors.response.use(
   (response) => response,
@@ -35,25 +69,10 @@ apiClient.interceptors.response.use(
     if (error.response?.status === 401 && !originalRequest._retry) {
       originalRequest._retry = true;
 
-      try {
-        const refreshToken = localStorage.getItem('refreshToken');
-        if (refreshToken) {
-          const response = await axios.post(`${API_BASE_URL}/api/auth/refresh`, {
-            refreshToken,
-          });
-
-          const { accessToken, refreshToken: newRefreshToken } = response.data;
-          localStorage.setItem('accessToken', accessToken);
-          localStorage.setItem('refreshToken', newRefreshToken);
-
-          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-          return apiClient(originalRequest);
-        }
-      } catch {
-        // リフレッシュ失敗時はログアウト処理
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        window.location.href = '/login';
+      const accessToken = await refreshAccessToken();
+      if (accessToken) {
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return apiClient(originalRequest);
       }
     }
 
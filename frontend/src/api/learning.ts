@@ -1,47 +1,214 @@
 // 学習API
 
-import apiClient from './client';
+import axios from 'axios';
+import apiClient, { API_BASE_URL, refreshAccessToken } from './client';
 
 // Q&A
 export interface AskRequest {
   question: string;
   context?: string;
+  conversationId?: string;
+}
+
+// 回答の出典（自社教材のエントリ）
+export interface AnswerSource {
+  lessonId: string;
+  type: 'vocabulary' | 'grammar' | 'reading';
+  word: string;
+  score: number;
 }
 
 export interface AskResponse {
   answer: string;
-  sources?: string[];
+  sources?: AnswerSource[];
+  conversationId?: string;
+  messageId?: string;
+}
+
+// ストリーミング回答の完了イベント
+export interface AskStreamDone {
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  sources: AnswerSource[];
+  conversationId?: string;
+  messageId?: string;
+}
+
+// 会話スレッド
+export interface Conversation {
+  id: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: AnswerSource[];
+  createdAt: string;
 }
 
 // クイズ
+// 問題形式: 4択・穴埋め・記述・組み合わせ・並べ替え（出題データには正解を含まない）
+export type QuizQuestionType = 'multiple_choice' | 'cloze' | 'typed' | 'matching' | 'ordering';
+
+export type QuizQuestion =
+  | { type: 'multiple_choice'; question: string; options: string[] }
+  | { type: 'cloze'; question: string; sentence: string; hint?: string }
+  | { type: 'typed'; question: string; hint?: string }
+  | { type: 'matching'; question: string; terms: string[]; definitions: string[] }
+  | { type: 'ordering'; question: string; tokens: string[] };
+
+// 回答（4択: 選択肢の位置、穴埋め・記述: 入力文字列、組み合わせ: 各単語に選んだ意味の位置、並べ替え: 単語の位置の並び）
+export type QuizAnswer = number | string | number[];
+
 export interface Quiz {
-  id: string;
+  quizId: string;
   topic: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  explanation: string;
+  difficulty: string;
+  expiresAt: string;
+  questions: QuizQuestion[];
 }
 
 export interface QuizSubmitRequest {
   quizId: string;
-  answer: number;
+  answers: (QuizAnswer | null)[];
+  responseTimesMs?: number[];
+}
+
+export interface QuizResultDetail {
+  questionIndex: number;
+  type: QuizQuestionType;
+  correct: boolean;
+  userAnswer: QuizAnswer | null;
+  correctAnswer: QuizAnswer;
+  explanation: string;
+  typo?: boolean;
+  word?: string;
 }
 
 export interface QuizSubmitResponse {
+  score: number;
+  total: number;
+  percentage: number;
+  details: QuizResultDetail[];
+  streak?: number;
+}
+
+// トピック別の能力推定値（IRT）
+export interface TopicAbility {
+  topic: string;
+  theta: number;
+  standardError: number;
+  level: 'easy' | 'medium' | 'hard';
+  responseCount: number;
+  updatedAt: string | null;
+}
+
+// 適応型クイズ（能力に合わせて1問ずつ出題）
+export interface AdaptiveQuizStart {
+  quizId: string;
+  topic: string;
+  ability: TopicAbility;
+  maxItems: number;
+  position: number;
+  question: QuizQuestion;
+}
+
+export interface AdaptiveQuizAnswer {
   correct: boolean;
-  correctAnswer: number;
+  correctAnswer: QuizAnswer;
+  typo?: boolean;
   explanation: string;
+  ability: TopicAbility;
+  finished: boolean;
+  next?: { position: number; question: QuizQuestion };
+  result?: { score: number; total: number; percentage: number; streak: number };
 }
 
 // レッスン
+export type LessonType = 'vocabulary' | 'grammar' | 'reading';
+
 export interface Lesson {
   id: string;
   title: string;
   description: string;
-  content: string;
-  order: number;
-  completed?: boolean;
+  type: LessonType;
+  // CEFRレベル（A1〜C2。全レベル向けのレッスンはnull）
+  level: string | null;
+  estimatedTime: number;
+}
+
+// 読解本文中の語彙の注釈（段落内の文字位置）
+export interface Gloss {
+  paragraph: number;
+  start: number;
+  end: number;
+  word: string;
+}
+
+export interface GlossaryEntry {
+  word: string;
+  pronunciation: string;
+  partOfSpeech: string;
+  definition: string;
+  definitionJa: string;
+  lessonId: string;
+}
+
+export interface ReadingContent {
+  type: 'reading';
+  paragraphs: string[];
+  glosses: Gloss[];
+  glossary: Record<string, GlossaryEntry>;
+  questions: { question: string; options: string[] }[];
+}
+
+// レッスンの受講（途中までの回答を保存し、中断しても再開できる）
+// 回答: 語彙は覚えたか（true/false）、文法は文字列、読解は選んだ選択肢の位置
+export type LessonStepAnswer = boolean | string | number;
+
+export interface LessonAttempt {
+  id: string;
+  lessonId: string;
+  currentStep: number;
+  totalSteps: number;
+  answers: (LessonStepAnswer | null)[];
+  score: number | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface LessonCompleteResponse {
+  success: boolean;
+  message: string;
+  // 受講を修了した場合のみ（得点はサーバーで保存済みの回答から算出）
+  attempt?: LessonAttempt;
+  correct?: number;
+  total?: number;
+  percentage?: number;
+}
+
+export interface LessonSubmitResponse {
+  score: number;
+  total: number;
+  percentage: number;
+  details: {
+    exerciseIndex: number;
+    type: string;
+    correct: boolean;
+    userAnswer: QuizAnswer | null;
+    correctAnswer: QuizAnswer;
+    explanation: string;
+  }[];
+  readingSeconds?: number;
+  attempt: LessonAttempt;
 }
 
 // 進捗
@@ -61,12 +228,125 @@ export const learningApi = {
     return response.data;
   },
 
+  // Q&A（ストリーミング）: 回答の断片ごとにonChunkを呼び、完了イベントを返す
+  // axiosはブラウザでレスポンスを逐次読めないためfetchを使う（401時のトークン更新はインターセプターと同様に行う）
+  async askStream(data: AskRequest, onChunk: (text: string) => void): Promise<AskStreamDone> {
+    const post = async (token: string | null): Promise<Response> => {
+      try {
+        return await fetch(`${API_BASE_URL}/api/ask/stream`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify(data),
+        });
+      } catch {
+        throw new Error('通信に失敗しました。接続を確認してください。');
+      }
+    };
+
+    let response = await post(localStorage.getItem('accessToken'));
+    if (response.status === 401) {
+      const accessToken = await refreshAccessToken();
+      if (accessToken) {
+        response = await post(accessToken);
+      }
+    }
+
+    if (!response.ok || !response.body) {
+      // サーバーのエラーメッセージ（質問回数・AI利用上限など）をそのまま伝える
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? `回答の取得に失敗しました（${response.status}）`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let done: AskStreamDone | null = null;
+
+    for (;;) {
+      const { value, done: finished } = await reader.read();
+      if (finished) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // イベントは空行で区切られる
+      let separator = buffer.indexOf('\n\n');
+      while (separator !== -1) {
+        const rawEvent = buffer.slice(0, separator);
+        buffer = buffer.slice(separator + 2);
+        separator = buffer.indexOf('\n\n');
+
+        const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+        const payload = rawEvent.match(/^data: (.*)$/m)?.[1];
+        if (!event || !payload) continue;
+
+        const parsed = JSON.parse(payload);
+        if (event === 'chunk') {
+          onChunk(parsed.text);
+        } else if (event === 'done') {
+          done = parsed;
+        } else if (event === 'error') {
+          throw new Error(parsed.error);
+        }
+      }
+    }
+
+    if (!done) {
+      throw new Error('回答が途中で途切れました。もう一度お試しください。');
+    }
+    return done;
+  },
+
+  // 会話スレッド一覧
+  async getConversations(): Promise<Conversation[]> {
+    const response = await apiClient.get('/api/conversations');
+    return response.data.conversations;
+  },
+
+  // 会話スレッド詳細（メッセージ含む）
+  async getConversation(
+    id: string
+  ): Promise<{ conversation: Conversation; messages: ConversationMessage[] }> {
+    const response = await apiClient.get(`/api/conversations/${id}`);
+    return response.data;
+  },
+
+  // 会話スレッド削除
+  async deleteConversation(id: string): Promise<void> {
+    await apiClient.delete(`/api/conversations/${id}`);
+  },
+
   // クイズ取得
   async getQuiz(topic: string): Promise<Quiz> {
     const response = await apiClient.get(`/api/quiz/${topic}`);
     return response.data;
   },
 
+  // 語彙の復習クイズ取得（復習期限・苦手な単語から出題）
+  async getVocabularyQuiz(): Promise<Quiz> {
+    const response = await apiClient.get('/api/quiz/vocabulary/review');
+    return response.data;
+  },
+
+  // 適応型クイズ開始
+  async startAdaptiveQuiz(topic: string): Promise<AdaptiveQuizStart> {
+    const response = await apiClient.post(`/api/quiz/adaptive/${topic}`);
+    return response.data;
+  },
+
+  // 適応型クイズ回答（次の問題または結果を返す）
+  async answerAdaptiveQuiz(quizId: string, answer: QuizAnswer): Promise<AdaptiveQuizAnswer> {
+    const response = await apiClient.post(`/api/quiz/adaptive/${quizId}/answer`, { answer });
+    return response.data;
+  },
+
+  // トピック別の能力推定値
+  async getAbilities(): Promise<TopicAbility[]> {
+    const response = await apiClient.get('/api/quiz/abilities');
+    return response.data.abilities;
+  },
+
   // クイズ回答
   async submitQuiz(data: QuizSubmitRequest): Promise<QuizSubmitResponse> {
     const response = await apiClient.post('/api/quiz/submit', data);
@@ -76,18 +356,76 @@ export const learningApi = {
   // レッスン一覧
   async getLessons(): Promise<Lesson[]> {
     const response = await apiClient.get('/api/lessons');
-    return response.data;
+    return response.data.lessons;
   },
 
   // レッスン詳細
   async getLesson(id: string): Promise<Lesson> {
     const response = await apiClient.get(`/api/lessons/${id}`);
+    return response.data.lesson;
+  },
+
+  // 読解レッスンの本文（注釈付き）
+  async getReadingContent(id: string): Promise<ReadingContent> {
+    const response = await apiClient.get(`/api/lessons/${id}/content`);
+    return response.data.content;
+  },
+
+  // レッスンの問題を提出して採点（読解は読書時間も記録）
+  async submitLesson(
+    id: string,
+    answers: (QuizAnswer | null)[],
+    readingSeconds?: number
+  ): Promise<LessonSubmitResponse> {
+    const response = await apiClient.post(`/api/lessons/${id}/submit`, {
+      answers,
+      readingSeconds,
+    });
     return response.data;
   },
 
-  // レッスン完了
-  async completeLesson(id: string): Promise<void> {
-    await apiClient.post(`/api/lessons/${id}/complete`);
+  // 単語を復習対象に追加
+  async startLearningWord(userId: string, word: string): Promise<void> {
+    await apiClient.post('/api/review/start', { word }, { headers: { 'x-user-id': userId } });
+  },
+
+  // レッスンの受講を開始（途中の受講は破棄して最初から）
+  async startLessonAttempt(id: string): Promise<LessonAttempt> {
+    const response = await apiClient.post(`/api/lessons/${id}/attempts`);
+    return response.data.attempt;
+  },
+
+  // 途中の受講（なければnull）
+  async getCurrentLessonAttempt(id: string): Promise<LessonAttempt | null> {
+    try {
+      const response = await apiClient.get(`/api/lessons/${id}/attempts/current`);
+      return response.data.attempt;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  // ステップの回答を保存
+  async checkpointLessonAttempt(
+    id: string,
+    attemptId: string,
+    step: number,
+    answer: LessonStepAnswer
+  ): Promise<LessonAttempt> {
+    const response = await apiClient.put(`/api/lessons/${id}/attempts/${attemptId}`, {
+      step,
+      answer,
+    });
+    return response.data.attempt;
+  },
+
+  // レッスン完了（受講を修了して採点。attemptId省略時は途中の受講）
+  async completeLesson(id: string, attemptId?: string): Promise<LessonCompleteResponse> {
+    const response = await apiClient.post(`/api/lessons/${id}/complete`, { attemptId });
+    return response.data;
   },
 
   // 進捗取得
@@ -21,6 +21,22 @@ export interface Subscription {
   currentPeriodEnd: string;
 }
 
+// 当月のAI利用量（無制限の場合limit/remainingはnull）
+export interface AiUsage {
+  periodStart: string;
+  tokens: { used: number; limit: number | null; remaining: number | null };
+  costUsd: number;
+  byFeature: {
+    feature: 'ask' | 'quiz';
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+  }[];
+  dailyQuestions: { used: number; limit: number | null; remaining: number | null };
+}
+
 export interface CheckoutSession {
   url: string;
 }
@@ -38,6 +54,12 @@ export const plansApi = {
     return response.data;
   },
 
+  // 当月のAI利用量取得
+  async getUsage(): Promise<AiUsage> {
+    const response = await apiClient.get('/api/plans/usage');
+    return response.data.usage;
+  },
+
   // Stripe Checkout Session作成
   async createCheckoutSession(planId: string, billingCycle: 'monthly' | 'yearly'): Promise<CheckoutSession> {
     const response = await apiClient.post('/api/stripe/create-checkout-session', {
@@ -0,0 +1,152 @@
+// 適応型クイズ（回答ごとに能力を推定し、レベルに合う問題を1問ずつ出題）
+
+import React, { useCallback, useEffect, useState } from 'react';
+import learningApi from '../api/learning';
+import type { AdaptiveQuizAnswer, QuizAnswer, QuizQuestion, TopicAbility } from '../api/learning';
+import QuizQuestionInput from './QuizQuestionInput';
+import { formatAnswer, isAnswerComplete } from './quizAnswer';
+
+const LEVEL_LABELS: Record<TopicAbility['level'], string> = {
+  easy: '初級',
+  medium: '中級',
+  hard: '上級',
+};
+
+interface AdaptiveQuizProps {
+  topic: string;
+  onFinish?: (score: number, total: number) => void;
+}
+
+const AdaptiveQuiz: React.FC<AdaptiveQuizProps> = ({ topic, onFinish }) => {
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [maxItems, setMaxItems] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [answer, setAnswer] = useState<QuizAnswer | null>(null);
+  const [feedback, setFeedback] = useState<AdaptiveQuizAnswer | null>(null);
+  const [ability, setAbility] = useState<TopicAbility | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const start = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    setFeedback(null);
+    setAnswer(null);
+
+    try {
+      const started = await learningApi.startAdaptiveQuiz(topic);
+      setQuizId(started.quizId);
+      setMaxItems(started.maxItems);
+      setPosition(started.position);
+      setQuestion(started.question);
+      setAbility(started.ability);
+    } catch (err) {
+      console.error('適応型クイズ開始エラー:', err);
+      setError('クイズの開始に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [topic]);
+
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  const handleSubmit = async () => {
+    if (!quizId || answer === null) return;
+
+    setIsLoading(true);
+    try {
+      const response = await learningApi.answerAdaptiveQuiz(quizId, answer);
+      setFeedback(response);
+      setAbility(response.ability);
+      if (response.result) {
+        onFinish?.(response.result.score, response.result.total);
+      }
+    } catch (err) {
+      console.error('回答送信エラー:', err);
+      setError('回答の送信に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (!feedback?.next) return;
+    setPosition(feedback.next.position);
+    setQuestion(feedback.next.question);
+    setAnswer(null);
+    setFeedback(null);
+  };
+
+  if (error) return <div className="error-message">{error}</div>;
+  if (!question) return <div className="loading">クイズを読み込み中...</div>;
+
+  return (
+    <div className="quiz-card">
+      <div className="quiz-progress">
+        {position + 1} / 最大{maxItems}問
+        {ability && (
+          <span className="ability-level">
+            推定レベル: {LEVEL_LABELS[ability.level]}（θ = {ability.theta.toFixed(2)} ±{' '}
+            {ability.standardError.toFixed(2)}）
+          </span>
+        )}
+      </div>
+
+      <div className="quiz-question">
+        <h3>{question.question}</h3>
+      </div>
+
+      {feedback === null ? (
+        <>
+          <QuizQuestionInput
+            key={position}
+            question={question}
+            answer={answer}
+            onChange={setAnswer}
+          />
+          <button
+            className="btn btn-primary submit-btn"
+            onClick={handleSubmit}
+            disabled={!isAnswerComplete(question, answer) || isLoading}
+          >
+            {isLoading ? '送信中...' : '回答する'}
+          </button>
+        </>
+      ) : (
+        <div className="quiz-result">
+          <div className={`result-banner ${feedback.correct ? 'correct' : 'incorrect'}`}>
+            {feedback.correct ? '🎉 正解！' : '❌ 不正解'}
+          </div>
+          {(!feedback.correct || feedback.typo) && (
+            <p>正解: {formatAnswer(question, feedback.correctAnswer)}</p>
+          )}
+          <div className="explanation">
+            <h4>解説</h4>
+            <p>{feedback.explanation}</p>
+          </div>
+
+          {feedback.result ? (
+            <>
+              <div className="result-banner correct">
+                測定結果: {LEVEL_LABELS[feedback.ability.level]}（{feedback.result.score} /{' '}
+                {feedback.result.total} 問正解）
+              </div>
+              <button className="btn btn-primary" onClick={start}>
+                もう一度測定する
+              </button>
+            </>
+          ) : (
+            <button className="btn btn-primary" onClick={handleNext}>
+              次の問題
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdaptiveQuiz;
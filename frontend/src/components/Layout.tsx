@@ -50,6 +50,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 >
                   クイズ
                 </Link>
+                <Link
+                  to="/reading"
+                  className={`nav-link ${isActive('/reading') ? 'active' : ''}`}
+                >
+                  読解
+                </Link>
                 <Link
                   to="/plans"
                   className={`nav-link ${isActive('/plans') ? 'active' : ''}`}
@@ -0,0 +1,114 @@
+// クイズの回答入力（問題形式ごと）
+
+import React from 'react';
+import type { QuizAnswer, QuizQuestion } from '../api/learning';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | null;
+  onChange: (answer: QuizAnswer | null) => void;
+}
+
+const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, answer, onChange }) => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <div className="quiz-options">
+          {question.options.map((option, index) => (
+            <button
+              key={index}
+              className={`option-btn ${answer === index ? 'selected' : ''}`}
+              onClick={() => onChange(index)}
+            >
+              <span className="option-letter">{String.fromCharCode(65 + index)}</span>
+              <span className="option-text">{option}</span>
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'cloze':
+    case 'typed':
+      return (
+        <div className="quiz-typed">
+          {question.type === 'cloze' && <p className="cloze-sentence">{question.sentence}</p>}
+          {question.hint && <p className="quiz-hint">ヒント: {question.hint}</p>}
+          <input
+            type="text"
+            className="typed-answer"
+            value={typeof answer === 'string' ? answer : ''}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="英単語を入力"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+          />
+        </div>
+      );
+
+    case 'matching': {
+      const selected = Array.isArray(answer) ? answer : question.terms.map(() => -1);
+      return (
+        <div className="quiz-matching">
+          {question.terms.map((term, i) => (
+            <label key={term} className="matching-row">
+              <span className="matching-term">{term}</span>
+              <select
+                value={selected[i]}
+                onChange={(e) => {
+                  const next = [...selected];
+                  next[i] = Number(e.target.value);
+                  onChange(next);
+                }}
+              >
+                <option value={-1}>意味を選択</option>
+                {question.definitions.map((definition, j) => (
+                  <option key={j} value={j}>
+                    {definition}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const order = Array.isArray(answer) ? answer : [];
+      return (
+        <div className="quiz-ordering">
+          <div className="ordering-answer">
+            {order.length === 0 ? (
+              <span className="ordering-placeholder">下の単語を順にクリック</span>
+            ) : (
+              order.map((tokenIndex, position) => (
+                <button
+                  key={position}
+                  className="ordering-token placed"
+                  onClick={() => onChange(order.filter((_, p) => p !== position))}
+                >
+                  {question.tokens[tokenIndex]}
+                </button>
+              ))
+            )}
+          </div>
+          <div className="ordering-pool">
+            {question.tokens.map((token, tokenIndex) => (
+              <button
+                key={tokenIndex}
+                className="ordering-token"
+                disabled={order.includes(tokenIndex)}
+                onClick={() => onChange([...order, tokenIndex])}
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+    }
+  }
+};
+
+export default QuizQuestionInput;
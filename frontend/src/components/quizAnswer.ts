@@ -0,0 +1,42 @@
+// クイズの回答の判定・表示
+
+import type { QuizAnswer, QuizQuestion } from '../api/learning';
+
+// 回答が入力済みか（組み合わせはすべての単語に意味を選んだ場合、並べ替えはすべての単語を並べた場合）
+export const isAnswerComplete = (question: QuizQuestion, answer: QuizAnswer | null): boolean => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return typeof answer === 'number';
+    case 'cloze':
+    case 'typed':
+      return typeof answer === 'string' && answer.trim().length > 0;
+    case 'matching':
+      return (
+        Array.isArray(answer) &&
+        answer.length === question.terms.length &&
+        answer.every((i) => i >= 0)
+      );
+    case 'ordering':
+      return Array.isArray(answer) && answer.length === question.tokens.length;
+  }
+};
+
+// 回答を表示用の文字列に変換
+export const formatAnswer = (question: QuizQuestion, answer: QuizAnswer | null): string => {
+  if (answer === null) return '（未回答）';
+  switch (question.type) {
+    case 'multiple_choice':
+      return typeof answer === 'number' ? (question.options[answer] ?? '') : '';
+    case 'cloze':
+    case 'typed':
+      return String(answer);
+    case 'matching':
+      return Array.isArray(answer)
+        ? question.terms
+            .map((term, i) => `${term} = ${question.definitions[answer[i]] ?? '?'}`)
+            .join(' / ')
+        : '';
+    case 'ordering':
+      return Array.isArray(answer) ? answer.map((i) => question.tokens[i]).join(' ') : '';
+  }
+};
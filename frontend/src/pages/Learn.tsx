@@ -1,17 +1,21 @@
 // 学習ページ（Q&A）
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import learningApi from '../api/learning';
-import type { AskResponse } from '../api/learning';
+import type { AnswerSource, AskStreamDone } from '../api/learning';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  sources?: AnswerSource[];
   timestamp: Date;
 }
 
+// 続きから会話できるよう、最後に使ったスレッドIDを保存する
+const CONVERSATION_STORAGE_KEY = 'conversationId';
+
 const Learn: React.FC = () => {
   const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
@@ -19,6 +23,47 @@ const Learn: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [questionsToday, setQuestionsToday] = useState(0);
+  const [conversationId, setConversationId] = useState<string | null>(() =>
+    localStorage.getItem(CONVERSATION_STORAGE_KEY)
+  );
+
+  // リロード時に前回の会話を復元（会話中に変わるスレッドIDではなく、保存済みのIDから読み込む）
+  useEffect(() => {
+    const storedId = localStorage.getItem(CONVERSATION_STORAGE_KEY);
+    if (!user || !storedId) return;
+
+    let cancelled = false;
+    learningApi
+      .getConversation(storedId)
+      .then(({ messages: history }) => {
+        if (cancelled) return;
+        setMessages(
+          history.map((m) => ({
+            id: m.id,
+            role: m.role,
+            content: m.content,
+            sources: m.sources,
+            timestamp: new Date(m.createdAt),
+          }))
+        );
+      })
+      .catch(() => {
+        // 削除済みなどで取得できない場合は新しい会話から始める
+        localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+        if (!cancelled) setConversationId(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const handleNewConversation = () => {
+    localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+    setConversationId(null);
+    setMessages([]);
+    setError('');
+  };
 
   const dailyLimit = user?.plan === 'free' ? 5 : -1;
   const isLimitReached = dailyLimit !== -1 && questionsToday >= dailyLimit;
@@ -42,21 +87,48 @@ const Learn: React.FC = () => {
     setIsLoading(true);
     setError('');
 
-    try {
-      const response: AskResponse = await learningApi.ask({ question: userMessage.content });
+    // 回答は届いた断片から順に表示する
+    const assistantId = `${Date.now()}-assistant`;
+    let started = false;
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.answer,
-        timestamp: new Date(),
-      };
+    try {
+      const done: AskStreamDone = await learningApi.askStream(
+        {
+          question: userMessage.content,
+          conversationId: conversationId ?? undefined,
+        },
+        (text) => {
+          if (!started) {
+            started = true;
+            setMessages((prev) => [
+              ...prev,
+              { id: assistantId, role: 'assistant', content: text, timestamp: new Date() },
+            ]);
+            return;
+          }
+          setMessages((prev) =>
+            prev.map((m) => (m.id === assistantId ? { ...m, content: m.content + text } : m))
+          );
+        }
+      );
+
+      if (done.conversationId && done.conversationId !== conversationId) {
+        localStorage.setItem(CONVERSATION_STORAGE_KEY, done.conversationId);
+        setConversationId(done.conversationId);
+      }
+
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === assistantId ? { ...m, id: done.messageId ?? m.id, sources: done.sources } : m
+        )
+      );
 
-      setMessages((prev) => [...prev, assistantMessage]);
       setQuestionsToday((prev) => prev + 1);
     } catch (err) {
       console.error('質問エラー:', err);
-      setError('回答の取得に失敗しました。もう一度お試しください。');
+      setError(
+        err instanceof Error ? err.message : '回答の取得に失敗しました。もう一度お試しください。'
+      );
     } finally {
       setIsLoading(false);
     }
@@ -81,6 +153,12 @@ const Learn: React.FC = () => {
             )}
           </div>
         )}
+
+        {messages.length > 0 && (
+          <button type="button" className="btn new-conversation-btn" onClick={handleNewConversation}>
+            新しい会話
+          </button>
+        )}
       </div>
 
       <div className="chat-container">
@@ -110,6 +188,20 @@ const Learn: React.FC = () => {
                 </div>
                 <div className="message-content">
                   <div className="message-text">{message.content}</div>
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="message-sources">
+                      参考教材:{' '}
+                      {message.sources.map((source) => (
+                        <span
+                          key={`${source.lessonId}:${source.word}`}
+                          className="source-tag"
+                          title={source.lessonId}
+                        >
+                          {source.word}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="message-time">
                     {message.timestamp.toLocaleTimeString('ja-JP', {
                       hour: '2-digit',
@@ -121,7 +213,7 @@ const Learn: React.FC = () => {
             ))
           )}
 
-          {isLoading && (
+          {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
             <div className="message assistant-message">
               <div className="message-avatar">🤖</div>
               <div className="message-content">
@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import plansApi from '../api/plans';
-import type { Plan } from '../api/plans';
+import type { AiUsage, Plan } from '../api/plans';
 
 const Plans: React.FC = () => {
   const { user, updateUser } = useAuth();
@@ -12,6 +12,7 @@ const Plans: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState('');
   const [billingCycle, setBillingCycle] = useState<'monthly' | 'yearly'>('monthly');
+  const [usage, setUsage] = useState<AiUsage | null>(null);
 
   useEffect(() => {
     const fetchPlans = async () => {
@@ -29,6 +30,15 @@ const Plans: React.FC = () => {
     fetchPlans();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    plansApi
+      .getUsage()
+      .then(setUsage)
+      .catch((err) => console.error('利用量取得エラー:', err));
+  }, [user]);
+
   const handleSelectPlan = async (planId: string) => {
     if (planId === 'free') {
       return; // 無料プランは選択不要
@@ -197,6 +207,16 @@ const Plans: React.FC = () => {
         ))}
       </div>
 
+      {usage && (
+        <div className="usage-summary">
+          <h3>今月のAI利用量</h3>
+          <p>
+            {usage.tokens.used.toLocaleString()}
+            {usage.tokens.limit !== null && ` / ${usage.tokens.limit.toLocaleString()}`} トークン
+          </p>
+        </div>
+      )}
+
       {user?.plan !== 'free' && (
         <div className="subscription-management">
           <h3>サブスクリプション管理</h3>
@@ -1,11 +1,19 @@
 // クイズページ
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 import learningApi from '../api/learning';
-import type { Quiz as QuizType, QuizSubmitResponse } from '../api/learning';
+import type { QuizAnswer, Quiz as QuizType, QuizSubmitResponse } from '../api/learning';
+import QuizQuestionInput from '../components/QuizQuestionInput';
+import AdaptiveQuiz from '../components/AdaptiveQuiz';
+import { formatAnswer, isAnswerComplete } from '../components/quizAnswer';
+
+// 復習期限・苦手な単語から出題する語彙クイズ
+const VOCABULARY_REVIEW_TOPIC = 'vocabulary-review';
 
 const QUIZ_TOPICS = [
+  { id: VOCABULARY_REVIEW_TOPIC, name: '単語の復習', icon: '🔁' },
   { id: 'vocabulary', name: '語彙', icon: '📝' },
   { id: 'grammar', name: '文法', icon: '📖' },
   { id: 'idioms', name: 'イディオム', icon: '💬' },
@@ -16,24 +24,41 @@ const Quiz: React.FC = () => {
   const { user } = useAuth();
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [quiz, setQuiz] = useState<QuizType | null>(null);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<(QuizAnswer | null)[]>([]);
+  const [responseTimes, setResponseTimes] = useState<number[]>([]);
   const [result, setResult] = useState<QuizSubmitResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [score, setScore] = useState({ correct: 0, total: 0 });
+  // 実力測定モード（適応型クイズ）
+  const [adaptive, setAdaptive] = useState(false);
+  // 表示中の問題を出題した時刻（回答時間の計測用）
+  const questionStartedAt = useRef(0);
 
   const fetchQuiz = async (topic: string) => {
     setIsLoading(true);
     setError('');
-    setSelectedAnswer(null);
+    setQuiz(null);
     setResult(null);
 
     try {
-      const data = await learningApi.getQuiz(topic);
+      const data =
+        topic === VOCABULARY_REVIEW_TOPIC
+          ? await learningApi.getVocabularyQuiz()
+          : await learningApi.getQuiz(topic);
       setQuiz(data);
+      setCurrentIndex(0);
+      setAnswers(data.questions.map(() => null));
+      setResponseTimes([]);
+      questionStartedAt.current = Date.now();
     } catch (err) {
       console.error('クイズ取得エラー:', err);
-      setError('クイズの取得に失敗しました');
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        setError('復習する単語がありません。レッスンで新しい単語を学習しましょう');
+      } else {
+        setError('クイズの取得に失敗しました');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -41,28 +66,35 @@ const Quiz: React.FC = () => {
 
   const handleTopicSelect = (topic: string) => {
     setSelectedTopic(topic);
-    fetchQuiz(topic);
+    if (!adaptive) {
+      fetchQuiz(topic);
+    }
+  };
+
+  const handleAdaptiveFinish = (correct: number, total: number) => {
+    setScore((prev) => ({ correct: prev.correct + correct, total: prev.total + total }));
   };
 
-  const handleAnswerSelect = (index: number) => {
-    if (result !== null) return; // 既に回答済み
-    setSelectedAnswer(index);
+  const handleAnswerChange = (answer: QuizAnswer | null) => {
+    if (result !== null) return; // 既に提出済み
+    setAnswers((prev) => prev.map((a, i) => (i === currentIndex ? answer : a)));
   };
 
-  const handleSubmit = async () => {
-    if (selectedAnswer === null || !quiz) return;
+  const handleSubmit = async (times: number[]) => {
+    if (!quiz) return;
 
     setIsLoading(true);
     try {
       const response = await learningApi.submitQuiz({
-        quizId: quiz.id,
-        answer: selectedAnswer,
+        quizId: quiz.quizId,
+        answers,
+        responseTimesMs: times,
       });
 
       setResult(response);
       setScore((prev) => ({
-        correct: prev.correct + (response.correct ? 1 : 0),
-        total: prev.total + 1,
+        correct: prev.correct + response.score,
+        total: prev.total + response.total,
       }));
     } catch (err) {
       console.error('回答送信エラー:', err);
@@ -72,12 +104,29 @@ const Quiz: React.FC = () => {
     }
   };
 
+  const handleNextQuestion = () => {
+    if (!quiz) return;
+
+    const times = [...responseTimes];
+    times[currentIndex] = Date.now() - questionStartedAt.current;
+    setResponseTimes(times);
+
+    if (currentIndex < quiz.questions.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+      questionStartedAt.current = Date.now();
+    } else {
+      handleSubmit(times);
+    }
+  };
+
   const handleNextQuiz = () => {
     if (selectedTopic) {
       fetchQuiz(selectedTopic);
     }
   };
 
+  const currentQuestion = quiz?.questions[currentIndex];
+
   return (
     <div className="quiz-page">
       <div className="quiz-header">
@@ -95,8 +144,18 @@ const Quiz: React.FC = () => {
       {!selectedTopic ? (
         <div className="topic-selection">
           <h2>トピックを選択</h2>
+          <label className="adaptive-toggle">
+            <input
+              type="checkbox"
+              checked={adaptive}
+              onChange={(e) => setAdaptive(e.target.checked)}
+            />
+            実力測定モード（回答に合わせて難易度が変わり、レベルを判定します）
+          </label>
           <div className="topics-grid">
-            {QUIZ_TOPICS.map((topic) => (
+            {QUIZ_TOPICS.filter(
+              (topic) => !adaptive || topic.id !== VOCABULARY_REVIEW_TOPIC
+            ).map((topic) => (
               <button
                 key={topic.id}
                 className="topic-card"
@@ -121,66 +180,73 @@ const Quiz: React.FC = () => {
 
           {error && <div className="error-message">{error}</div>}
 
-          {isLoading && !quiz ? (
+          {adaptive ? (
+            <AdaptiveQuiz topic={selectedTopic} onFinish={handleAdaptiveFinish} />
+          ) : isLoading && !quiz ? (
             <div className="loading">クイズを読み込み中...</div>
-          ) : quiz ? (
+          ) : quiz && result ? (
             <div className="quiz-card">
-              <div className="quiz-question">
-                <h3>{quiz.question}</h3>
+              <div className={`result-banner ${result.percentage >= 60 ? 'correct' : 'incorrect'}`}>
+                {result.score} / {result.total} 問正解（{result.percentage}%）
               </div>
 
-              <div className="quiz-options">
-                {quiz.options.map((option, index) => (
-                  <button
-                    key={index}
-                    className={`option-btn ${
-                      selectedAnswer === index ? 'selected' : ''
-                    } ${
-                      result !== null
-                        ? index === result.correctAnswer
-                          ? 'correct'
-                          : selectedAnswer === index
-                          ? 'incorrect'
-                          : ''
-                        : ''
-                    }`}
-                    onClick={() => handleAnswerSelect(index)}
-                    disabled={result !== null}
-                  >
-                    <span className="option-letter">
-                      {String.fromCharCode(65 + index)}
-                    </span>
-                    <span className="option-text">{option}</span>
-                  </button>
-                ))}
+              <ul className="quiz-review">
+                {result.details.map((detail) => {
+                  const question = quiz.questions[detail.questionIndex];
+                  return (
+                    <li
+                      key={detail.questionIndex}
+                      className={`quiz-review-item ${detail.correct ? 'correct' : 'incorrect'}`}
+                    >
+                      <p className="quiz-review-question">
+                        {detail.correct ? '⭕' : '❌'} {question.question}
+                      </p>
+                      <p>あなたの回答: {formatAnswer(question, detail.userAnswer)}</p>
+                      {(!detail.correct || detail.typo) && (
+                        <p>正解: {formatAnswer(question, detail.correctAnswer)}</p>
+                      )}
+                      {detail.typo && <p className="quiz-hint">綴りに誤りがあります</p>}
+                      <div className="explanation">
+                        <h4>解説</h4>
+                        <p>{detail.explanation}</p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <button className="btn btn-primary" onClick={handleNextQuiz}>
+                次のクイズ
+              </button>
+            </div>
+          ) : quiz && currentQuestion ? (
+            <div className="quiz-card">
+              <div className="quiz-progress">
+                {currentIndex + 1} / {quiz.questions.length}
               </div>
 
-              {result === null ? (
-                <button
-                  className="btn btn-primary submit-btn"
-                  onClick={handleSubmit}
-                  disabled={selectedAnswer === null || isLoading}
-                >
-                  {isLoading ? '送信中...' : '回答する'}
-                </button>
-              ) : (
-                <div className="quiz-result">
-                  <div
-                    className={`result-banner ${result.correct ? 'correct' : 'incorrect'}`}
-                  >
-                    {result.correct ? '🎉 正解！' : '❌ 不正解'}
-                  </div>
-
-                  <div className="explanation">
-                    <h4>解説</h4>
-                    <p>{result.explanation}</p>
-                  </div>
-
-                  <button className="btn btn-primary" onClick={handleNextQuiz}>
-                    次の問題
-                  </button>
-                </div>
-              )}
+              <div className="quiz-question">
+                <h3>{currentQuestion.question}</h3>
+              </div>
+
+              <QuizQuestionInput
+                key={currentIndex}
+                question={currentQuestion}
+                answer={answers[currentIndex]}
+                onChange={handleAnswerChange}
+              />
+
+              <button
+                className="btn btn-primary submit-btn"
+                onClick={handleNextQuestion}
+                disabled={!isAnswerComplete(currentQuestion, answers[currentIndex]) || isLoading}
+              >
+                {isLoading
+                  ? '送信中...'
+                  : currentIndex < quiz.questions.length - 1
+                    ? '次の問題'
+                    : '回答する'}
+              </button>
             </div>
           ) : null}
         </div>
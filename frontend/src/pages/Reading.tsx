@@ -0,0 +1,253 @@
+// 読解ページ
+
+import React, { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
+import learningApi from '../api/learning';
+import type { Gloss, Lesson, LessonSubmitResponse, ReadingContent } from '../api/learning';
+
+// 段落を注釈付きの語とそれ以外の文字列に分割
+function splitParagraph(text: string, glosses: Gloss[]): (string | Gloss)[] {
+  const segments: (string | Gloss)[] = [];
+  let position = 0;
+  for (const gloss of glosses) {
+    if (gloss.start > position) segments.push(text.slice(position, gloss.start));
+    segments.push(gloss);
+    position = gloss.end;
+  }
+  if (position < text.length) segments.push(text.slice(position));
+  return segments;
+}
+
+const Reading: React.FC = () => {
+  const { user } = useAuth();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [content, setContent] = useState<ReadingContent | null>(null);
+  const [selectedWord, setSelectedWord] = useState<string | null>(null);
+  const [addedWords, setAddedWords] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [result, setResult] = useState<LessonSubmitResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  // 本文を表示した時刻（読書時間の計測用）
+  const startedAt = useRef(0);
+
+  useEffect(() => {
+    learningApi
+      .getLessons()
+      .then((all) => setLessons(all.filter((l) => l.type === 'reading')))
+      .catch((err) => {
+        console.error('レッスン取得エラー:', err);
+        setError('レッスン一覧の取得に失敗しました');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const openLesson = async (target: Lesson) => {
+    setIsLoading(true);
+    setError('');
+    setLesson(target);
+    setContent(null);
+    setResult(null);
+    setSelectedWord(null);
+
+    try {
+      const data = await learningApi.getReadingContent(target.id);
+      setContent(data);
+      setAnswers(data.questions.map(() => null));
+      startedAt.current = Date.now();
+    } catch (err) {
+      console.error('本文取得エラー:', err);
+      setError('本文の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddToReview = async (word: string) => {
+    if (!user) return;
+    try {
+      await learningApi.startLearningWord(user.id, word);
+      setAddedWords((prev) => [...prev, word]);
+    } catch (err) {
+      console.error('復習追加エラー:', err);
+      if (axios.isAxiosError(err) && err.response?.status === 429) {
+        setError('今日の新しい単語数の上限に達しました。明日また追加しましょう');
+      } else {
+        setError('復習への追加に失敗しました');
+      }
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!lesson) return;
+
+    setIsLoading(true);
+    try {
+      const readingSeconds = (Date.now() - startedAt.current) / 1000;
+      setResult(await learningApi.submitLesson(lesson.id, answers, readingSeconds));
+    } catch (err) {
+      console.error('回答送信エラー:', err);
+      setError('回答の送信に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selected = selectedWord ? content?.glossary[selectedWord] : undefined;
+
+  return (
+    <div className="reading-page">
+      <div className="quiz-header">
+        <h1>読解</h1>
+        <p>英文を読んで、知らない単語はタップして意味を確認しましょう</p>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {!lesson ? (
+        isLoading ? (
+          <div className="loading">読み込み中...</div>
+        ) : lessons.length === 0 ? (
+          <p className="empty-state">読解レッスンがまだありません</p>
+        ) : (
+          <div className="topics-grid">
+            {lessons.map((l) => (
+              <button key={l.id} className="topic-card" onClick={() => openLesson(l)}>
+                <span className="topic-name">{l.title}</span>
+                <span className="reading-meta">
+                  {l.level}・約{l.estimatedTime}分
+                </span>
+              </button>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="quiz-container">
+          <div className="quiz-topic-info">
+            <button className="back-btn" onClick={() => setLesson(null)}>
+              ← レッスン一覧に戻る
+            </button>
+            <span className="current-topic">{lesson.title}</span>
+          </div>
+
+          {isLoading && !content ? (
+            <div className="loading">本文を読み込み中...</div>
+          ) : content ? (
+            <>
+              <div className="quiz-card reading-passage">
+                {content.paragraphs.map((text, index) => (
+                  <p key={index}>
+                    {splitParagraph(
+                      text,
+                      content.glosses.filter((g) => g.paragraph === index)
+                    ).map((segment, i) =>
+                      typeof segment === 'string' ? (
+                        segment
+                      ) : (
+                        <button
+                          key={i}
+                          className={`gloss-word ${selectedWord === segment.word ? 'active' : ''}`}
+                          onClick={() => setSelectedWord(segment.word)}
+                        >
+                          {text.slice(segment.start, segment.end)}
+                        </button>
+                      )
+                    )}
+                  </p>
+                ))}
+              </div>
+
+              {selected && (
+                <div className="gloss-card">
+                  <div className="gloss-headword">
+                    <strong>{selected.word}</strong>
+                    {selected.pronunciation && <span> {selected.pronunciation}</span>}
+                    <span className="gloss-pos"> {selected.partOfSpeech}</span>
+                  </div>
+                  <p>{selected.definitionJa}</p>
+                  <p className="gloss-definition">{selected.definition}</p>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => handleAddToReview(selected.word)}
+                    disabled={addedWords.includes(selected.word)}
+                  >
+                    {addedWords.includes(selected.word) ? '復習に追加済み' : '復習に追加'}
+                  </button>
+                </div>
+              )}
+
+              <div className="quiz-card">
+                <h3>内容理解</h3>
+                <ul className="quiz-review">
+                  {content.questions.map((question, qIndex) => {
+                    const detail = result?.details[qIndex];
+                    return (
+                      <li
+                        key={qIndex}
+                        className={`quiz-review-item ${detail ? (detail.correct ? 'correct' : 'incorrect') : ''}`}
+                      >
+                        <p className="quiz-review-question">
+                          {detail && (detail.correct ? '⭕ ' : '❌ ')}
+                          {question.question}
+                        </p>
+                        <div className="quiz-options">
+                          {question.options.map((option, oIndex) => (
+                            <button
+                              key={oIndex}
+                              className={`option-btn ${answers[qIndex] === oIndex ? 'selected' : ''} ${
+                                detail && detail.correctAnswer === oIndex ? 'correct' : ''
+                              }`}
+                              onClick={() =>
+                                !result &&
+                                setAnswers((prev) =>
+                                  prev.map((a, i) => (i === qIndex ? oIndex : a))
+                                )
+                              }
+                            >
+                              <span className="option-letter">
+                                {String.fromCharCode(65 + oIndex)}
+                              </span>
+                              <span className="option-text">{option}</span>
+                            </button>
+                          ))}
+                        </div>
+                        {detail && (
+                          <div className="explanation">
+                            <h4>解説</h4>
+                            <p>{detail.explanation}</p>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                {result ? (
+                  <div
+                    className={`result-banner ${result.percentage >= 60 ? 'correct' : 'incorrect'}`}
+                  >
+                    {result.score} / {result.total} 問正解（{result.percentage}%）
+                    {result.readingSeconds !== undefined &&
+                      `・読書時間 ${Math.max(1, Math.round(result.readingSeconds / 60))}分`}
+                  </div>
+                ) : (
+                  <button
+                    className="btn btn-primary submit-btn"
+                    onClick={handleSubmit}
+                    disabled={answers.some((a) => a === null) || isLoading}
+                  >
+                    {isLoading ? '送信中...' : '回答する'}
+                  </button>
+                )}
+              </div>
+            </>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Reading;
@@ -0,0 +1,135 @@
+import path from 'path';
+import {
+  AdaptiveQuizService,
+  ADAPTIVE_QUIZ_DIFFICULTY,
+} from '../backend/src/services/adaptive-quiz';
+import { AIService } from '../backend/src/services/ai';
+import { ItemBankService } from '../backend/src/services/item-bank';
+import { QuizService, QuizSubmitError } from '../backend/src/services/quiz';
+import { gradeQuestion } from '../backend/src/services/quiz-grading';
+import { VocabularyQuizService } from '../backend/src/services/vocabulary-quiz';
+import { UserService } from '../backend/src/services/user';
+
+describe('AdaptiveQuizService', () => {
+  let adaptiveQuizService: AdaptiveQuizService;
+  let itemBank: ItemBankService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    itemBank = new ItemBankService();
+    adaptiveQuizService = new AdaptiveQuizService(
+      new AIService({ quiz: null }),
+      itemBank,
+      new VocabularyQuizService(path.join(__dirname, '../content'))
+    );
+
+    const user = await new UserService().register(
+      'adaptive',
+      `adaptive${Date.now()}@example.com`,
+      'password'
+    );
+    testUserId = user.id;
+  });
+
+  describe('seedVocabularyItems', () => {
+    it('教材の単語から問題形式ごとの初期難易度で問題バンクを作る', () => {
+      const count = adaptiveQuizService.seedVocabularyItems();
+      const items = itemBank.getItems('vocabulary');
+
+      expect(count).toBe(items.length);
+      expect(items.length).toBeGreaterThan(0);
+      const typed = items.find((i) => i.question.type === 'typed')!;
+      const choice = items.find((i) => i.question.type === 'multiple_choice')!;
+      expect(typed.difficulty).toBeGreaterThan(choice.difficulty);
+
+      // 2回目は重複して登録しない
+      expect(adaptiveQuizService.seedVocabularyItems()).toBe(count);
+    });
+  });
+
+  describe('startQuiz / answer', () => {
+    it('初期能力値に最も近い難易度の問題から出題する', async () => {
+      const started = await adaptiveQuizService.startQuiz(testUserId, 'vocabulary');
+
+      expect(started?.ability.theta).toBe(0);
+      expect(started?.position).toBe(0);
+      expect(started?.question.type).toBe('ordering');
+    });
+
+    it('正解すると能力値が上がり、より難しい問題を出題する', async () => {
+      const started = (await adaptiveQuizService.startQuiz(testUserId, 'vocabulary'))!;
+
+      const first = await adaptiveQuizService.answer(
+        started.quizId,
+        testUserId,
+        gradeQuestion(started.question, null).correctAnswer
+      );
+
+      expect(first.correct).toBe(true);
+      expect(first.ability.theta).toBeGreaterThan(0);
+      expect(first.finished).toBe(false);
+      expect(first.next?.position).toBe(1);
+
+      const [bankItem] = itemBank
+        .getItems('vocabulary')
+        .filter((i) => i.question.question === first.next!.question.question);
+      expect(bankItem.difficulty).toBeGreaterThan(0);
+    });
+
+    it('出題数の上限まで回答すると結果を記録して終了する', async () => {
+      const started = (await adaptiveQuizService.startQuiz(testUserId, 'vocabulary'))!;
+      let question = started.question;
+      let answered = 0;
+
+      for (;;) {
+        const response = await adaptiveQuizService.answer(started.quizId, testUserId, 'wrong');
+        answered++;
+        if (response.finished) {
+          expect(response.result?.score).toBe(0);
+          expect(response.result?.total).toBe(answered);
+          expect(response.ability.theta).toBeLessThan(-0.5);
+          expect(response.ability.level).toBe('easy');
+          break;
+        }
+        question = response.next!.question;
+      }
+      expect(question).toBeDefined();
+
+      const results = await new QuizService().getResults(testUserId);
+      expect(results[0].difficulty).toBe(ADAPTIVE_QUIZ_DIFFICULTY);
+      await expect(adaptiveQuizService.answer(started.quizId, testUserId, 'wrong')).rejects.toThrow(
+        QuizSubmitError
+      );
+    });
+
+    it('他のユーザーのクイズには回答できない', async () => {
+      const started = (await adaptiveQuizService.startQuiz(testUserId, 'vocabulary'))!;
+      const other = await new UserService().register(
+        'other',
+        `other${Date.now()}@example.com`,
+        'password'
+      );
+
+      await expect(adaptiveQuizService.answer(started.quizId, other.id, 0)).rejects.toMatchObject({
+        code: 'forbidden',
+      });
+    });
+  });
+
+  describe('通常のクイズとの連携', () => {
+    it('提出した回答で能力推定値を更新する', async () => {
+      const quizService = new QuizService(new AIService({ quiz: null }));
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'hard');
+
+      const result = await quizService.submitQuiz(
+        quiz.id,
+        testUserId,
+        quiz.questions.map((q) => gradeQuestion(q, null).correctAnswer)
+      );
+
+      expect(result.ability?.topic).toBe('grammar');
+      expect(result.ability?.theta).toBeGreaterThan(0);
+      expect(itemBank.getAbilities(testUserId).map((a) => a.topic)).toEqual(['grammar']);
+    });
+  });
+});
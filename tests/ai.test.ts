@@ -0,0 +1,67 @@
+import { AIService } from '../backend/src/services/ai';
+import { FixtureProvider, LLMRequest } from '../backend/src/services/llm-provider';
+import { RetrievalService } from '../backend/src/services/retrieval';
+
+describe('AIService - Streaming', () => {
+  let aiService: AIService;
+
+  beforeEach(() => {
+    aiService = new AIService();
+  });
+
+  describe('streamAnswer', () => {
+    it('モックモードでも回答を分割して流す', async () => {
+      const chunks: string[] = [];
+
+      const result = await aiService.streamAnswer('現在完了形とは？', (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(result.answer);
+      expect(result.answer).toContain('現在完了形とは？');
+    });
+
+    it('ストリーミングと通常の回答が一致する', async () => {
+      const streamed = await aiService.streamAnswer('質問', () => undefined);
+      const answer = await aiService.answerQuestion('質問');
+
+      expect(streamed.answer).toBe(answer);
+    });
+
+    it('使用トークン数を返す', async () => {
+      const { usage } = await aiService.streamAnswer('質問', () => undefined);
+
+      expect(usage.promptTokens).toBeGreaterThan(0);
+      expect(usage.completionTokens).toBeGreaterThan(0);
+      expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens);
+    });
+  });
+
+  describe('教材に基づく回答', () => {
+    it('参考資料をシステムプロンプトに埋め込む', async () => {
+      const provider = new FixtureProvider([{ content: '回答' }]);
+      const spy = jest.spyOn(provider, 'complete');
+      const service = new AIService({ ask: provider });
+      const references = new RetrievalService().search('abundantの意味は？');
+
+      await service.answerQuestion('abundantの意味は？', undefined, [], references);
+
+      const request = spy.mock.calls[0][0] as LLMRequest;
+      expect(request.messages[0].role).toBe('system');
+      expect(request.messages[0].content).toContain('参考資料');
+      expect(request.messages[0].content).toContain(references[0].excerpt);
+    });
+
+    it('参考資料がない場合はプロンプトに含めない', async () => {
+      const provider = new FixtureProvider([{ content: '回答' }]);
+      const spy = jest.spyOn(provider, 'complete');
+      const service = new AIService({ ask: provider });
+
+      await service.answerQuestion('質問');
+
+      const request = spy.mock.calls[0][0] as LLMRequest;
+      expect(request.messages[0].content).not.toContain('参考資料');
+    });
+  });
+});
@@ -164,7 +164,7 @@ describe('AnalyticsService', () => {
 
       expect(curriculum.userId).toBe(testUserId);
       expect(curriculum.generatedAt).toBeDefined();
-      expect(curriculum.currentLevel).toBeDefined();
+      expect(['A1', 'A2', 'B1', 'B2', 'C1', 'C2']).toContain(curriculum.currentLevel);
       expect(Array.isArray(curriculum.todaysTasks)).toBe(true);
       expect(Array.isArray(curriculum.weeklyGoals)).toBe(true);
       expect(curriculum.estimatedTotalMinutes).toBeGreaterThanOrEqual(0);
@@ -180,6 +180,24 @@ describe('AnalyticsService', () => {
       expect(reviewTask).toBeDefined();
     });
 
+    it('CEFRレベルが判定済みならそのレベルの単語・レッスンを選ぶ', async () => {
+      await userService.updateCefrLevel(testUserId, 'B1');
+      await srService.recordReview(testUserId, 'essential', 4);
+      await lessonService.markComplete(testUserId, 'vocab-basic-english');
+
+      const curriculum = await analyticsService.generateAdaptiveCurriculum(testUserId);
+
+      expect(curriculum.cefrLevel).toBe('B1');
+      expect(curriculum.todaysTasks.find((t) => t.type === 'learn')?.words).toEqual([
+        'benefit',
+        'challenge',
+        'attend',
+      ]);
+      expect(curriculum.todaysTasks.find((t) => t.type === 'lesson')?.lessonId).toBe(
+        'vocab-workplace-english'
+      );
+    });
+
     it('週間目標を含む', async () => {
       const curriculum = await analyticsService.generateAdaptiveCurriculum(testUserId);
 
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRegistry } from '../backend/src/services/content-registry';
+import {
+  lessonIdFromFile,
+  validateLessonManifest,
+} from '../backend/src/services/content-validation';
+import { LessonService } from '../backend/src/services/lesson';
+
+const word = (w: string) => ({
+  word: w,
+  pronunciation: '',
+  partOfSpeech: 'noun',
+  definition: `definition of ${w}`,
+  definitionJa: `${w}の意味`,
+  example: `This is ${w}.`,
+  exampleJa: `これは${w}です。`,
+});
+
+describe('content-validation', () => {
+  it('ファイル名からレッスンIDを生成する', () => {
+    expect(lessonIdFromFile('vocabulary', 'basic_english.json')).toBe('vocab-basic-english');
+    expect(lessonIdFromFile('grammar', 'Present_Perfect.json')).toBe('grammar-present-perfect');
+  });
+
+  it('省略された項目を補う', () => {
+    const result = validateLessonManifest('vocabulary', 'travel.json', {
+      title: '旅行',
+      level: 'A1',
+      words: [word('ticket'), word('luggage')],
+    });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.manifest).toMatchObject({
+      id: 'vocab-travel',
+      type: 'vocabulary',
+      description: '',
+      estimatedTime: 5,
+      order: null,
+    });
+  });
+
+  it('必須項目の欠落・CEFR以外のレベル・単語の重複を問題として返す', () => {
+    const result = validateLessonManifest('vocabulary', 'broken.json', {
+      title: '',
+      level: 'beginner',
+      words: [word('ticket'), { ...word('Ticket'), definitionJa: '' }],
+    });
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues.map((i) => i.path)).toEqual([
+      'title',
+      'level',
+      'words[1].definitionJa',
+      'words[1].word',
+    ]);
+  });
+});
+
+describe('ContentRegistry', () => {
+  let contentDir: string;
+  let errorSpy: jest.SpyInstance;
+  let writes = 0;
+
+  const writeManifest = (type: string, fileName: string, data: unknown) => {
+    fs.mkdirSync(path.join(contentDir, type), { recursive: true });
+    const filePath = path.join(contentDir, type, fileName);
+    fs.writeFileSync(filePath, typeof data === 'string' ? data : JSON.stringify(data));
+    // 同じミリ秒内の書き換えも変更として検出させる
+    const mtime = new Date(Date.now() + ++writes * 1000);
+    fs.utimesSync(filePath, mtime, mtime);
+  };
+
+  beforeEach(() => {
+    ContentRegistry.reset();
+    contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-'));
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(contentDir, { recursive: true, force: true });
+  });
+
+  it('content/ 配下の全マニフェストをレッスンとして読み込む', () => {
+    writeManifest('vocabulary', 'travel.json', {
+      title: '旅行',
+      level: 'A1',
+      order: 2,
+      words: [word('ticket')],
+    });
+    writeManifest('vocabulary', 'business.json', {
+      title: 'ビジネス',
+      level: 'B1',
+      order: 1,
+      words: [word('invoice')],
+    });
+    writeManifest('grammar', 'articles.json', {
+      title: '冠詞',
+      level: 'A1',
+      rule: '数えられる名詞の単数形には a/an を付ける',
+      explanation: '母音で始まる語の前では an を使います。',
+      examples: [{ correct: 'an apple' }],
+      exercises: [
+        {
+          type: 'fill_blank',
+          instruction: '空欄に入る語を答えてください。',
+          sentence: 'I ate _____ apple.',
+          answer: 'an',
+          explanation: 'apple は母音で始まるので an。',
+        },
+      ],
+    });
+
+    const lessons = ContentRegistry.forDir(contentDir).getLessons();
+
+    expect(lessons.map((l) => l.id)).toEqual([
+      'vocab-business',
+      'vocab-travel',
+      'grammar-articles',
+    ]);
+  });
+
+  it('ファイルの変更・追加・削除を反映する', () => {
+    const registry = ContentRegistry.forDir(contentDir);
+    writeManifest('vocabulary', 'travel.json', {
+      title: '旅行',
+      level: 'A1',
+      words: [word('ticket')],
+    });
+    const version = registry.getVersion();
+    expect(registry.getVersion()).toBe(version);
+
+    writeManifest('vocabulary', 'travel.json', {
+      title: '旅行',
+      level: 'A1',
+      words: [word('ticket'), word('passport')],
+    });
+    expect(registry.getVocabularyDecks()[0].words.map((w) => w.word)).toEqual([
+      'ticket',
+      'passport',
+    ]);
+    expect(registry.getVersion()).toBeGreaterThan(version);
+
+    fs.rmSync(path.join(contentDir, 'vocabulary', 'travel.json'));
+    expect(registry.getLessons()).toEqual([]);
+  });
+
+  it('不正なマニフェストは読み込まずにエラーとして報告する', () => {
+    writeManifest('vocabulary', 'good.json', {
+      title: '正常',
+      level: 'A1',
+      words: [word('ticket')],
+    });
+    writeManifest('vocabulary', 'empty.json', { title: '空', level: 'A1', words: [] });
+    writeManifest('vocabulary', 'syntax.json', '{ "title": ');
+
+    const registry = ContentRegistry.forDir(contentDir);
+
+    expect(registry.getLessons().map((l) => l.id)).toEqual(['vocab-good']);
+    expect(registry.getErrors().map((e) => e.file)).toEqual([
+      path.join('vocabulary', 'empty.json'),
+      path.join('vocabulary', 'syntax.json'),
+    ]);
+  });
+
+  it('レッスンIDの重複は後のファイルをエラーにする', () => {
+    writeManifest('vocabulary', 'a.json', {
+      id: 'shared',
+      title: 'A',
+      level: 'A1',
+      words: [word('ticket')],
+    });
+    writeManifest('vocabulary', 'b.json', {
+      id: 'shared',
+      title: 'B',
+      level: 'A1',
+      words: [word('invoice')],
+    });
+
+    const registry = ContentRegistry.forDir(contentDir);
+
+    expect(registry.getLessons().map((l) => l.title)).toEqual(['A']);
+    expect(registry.getErrors()[0].issues[0].path).toBe('id');
+  });
+
+  it('LessonServiceは追加された単語帳をレッスンとして返す', async () => {
+    writeManifest('vocabulary', 'travel.json', {
+      title: '旅行',
+      level: 'A1',
+      estimatedTime: 12,
+      words: [word('ticket')],
+    });
+    const lessonService = new LessonService(contentDir);
+
+    const lesson = await lessonService.getLessonById('vocab-travel');
+    expect(lesson).toEqual({
+      id: 'vocab-travel',
+      title: '旅行',
+      description: '',
+      type: 'vocabulary',
+      level: 'A1',
+      estimatedTime: 12,
+    });
+    expect((await lessonService.getVocabularyWords('vocab-travel')).map((w) => w.word)).toEqual([
+      'ticket',
+    ]);
+    expect(await lessonService.getVocabularyWords('vocab-unknown')).toEqual([]);
+  });
+});
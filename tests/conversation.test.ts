@@ -0,0 +1,200 @@
+import { ConversationService } from '../backend/src/services/conversation';
+import { AIService, ChatMessage } from '../backend/src/services/ai';
+import { estimateTokens } from '../backend/src/services/llm-provider';
+import { UserService } from '../backend/src/services/user';
+
+describe('ConversationService', () => {
+  let conversationService: ConversationService;
+  let userService: UserService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    conversationService = new ConversationService();
+    userService = new UserService();
+
+    const user = await userService.register(
+      'convtest',
+      `convtest${Date.now()}@example.com`,
+      'password'
+    );
+    testUserId = user.id;
+  });
+
+  describe('createConversation / listConversations', () => {
+    it('会話スレッドを作成して一覧取得できる', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+
+      const list = await conversationService.listConversations(testUserId);
+      expect(list.length).toBe(1);
+      expect(list[0].id).toBe(conversation.id);
+      expect(list[0].title).toBeNull();
+    });
+
+    it('他ユーザーのスレッドは取得できない', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+
+      const other = await conversationService.getConversation('other-user', conversation.id);
+      expect(other).toBeNull();
+    });
+  });
+
+  describe('ask', () => {
+    it('質問と回答がスレッドに保存され、タイトルが自動設定される', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+
+      const turn = await conversationService.ask(
+        testUserId,
+        conversation.id,
+        '現在完了形の使い方を教えて'
+      );
+
+      expect(turn).not.toBeNull();
+      expect(turn?.conversation.title).toBe('現在完了形の使い方を教えて');
+
+      const messages = await conversationService.getMessages(conversation.id);
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(messages[0].content).toBe('現在完了形の使い方を教えて');
+    });
+
+    it('2回目以降の質問では過去のターンをモデルに渡す', async () => {
+      const aiService = new AIService();
+      const spy = jest.spyOn(aiService, 'answerQuestion');
+      const service = new ConversationService(aiService);
+      const conversation = await service.createConversation(testUserId);
+
+      await service.ask(testUserId, conversation.id, 'effectとaffectの違いは？');
+      await service.ask(testUserId, conversation.id, '別の例文もください');
+
+      const history = spy.mock.calls[1][2] as ChatMessage[];
+      expect(history.length).toBe(2);
+      expect(history[0]).toEqual({ role: 'user', content: 'effectとaffectの違いは？' });
+      expect(history[1].role).toBe('assistant');
+    });
+
+    it('教材に関連する質問では出典を回答と一緒に保存する', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+
+      const turn = await conversationService.ask(testUserId, conversation.id, 'abundantの意味は？');
+
+      expect(turn?.assistantMessage.sources[0]).toMatchObject({
+        lessonId: 'vocab-basic-english',
+        word: 'abundant',
+      });
+
+      const messages = await conversationService.getMessages(conversation.id);
+      expect(messages[1].sources).toEqual(turn?.assistantMessage.sources);
+      expect(messages[0].sources).toEqual([]);
+    });
+
+    it('存在しないスレッドはnullを返す', async () => {
+      const turn = await conversationService.ask(testUserId, 'non-existent', '質問');
+
+      expect(turn).toBeNull();
+    });
+
+    it('スレッド未指定の場合は回答の生成に成功してからスレッドを作成する', async () => {
+      const aiService = new AIService();
+      const spy = jest.spyOn(aiService, 'answerQuestion').mockRejectedValueOnce(new Error('down'));
+      const service = new ConversationService(aiService);
+
+      await expect(service.ask(testUserId, null, '質問')).rejects.toThrow('down');
+      expect(await service.listConversations(testUserId)).toEqual([]);
+
+      spy.mockRestore();
+      const turn = await service.ask(testUserId, null, '質問');
+      expect(await service.listConversations(testUserId)).toMatchObject([
+        { id: turn?.conversation.id, title: '質問' },
+      ]);
+    });
+  });
+
+  describe('askStream', () => {
+    it('断片を受け取りつつ、完了後に回答を保存する', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+      const chunks: string[] = [];
+
+      const turn = await conversationService.askStream(
+        testUserId,
+        conversation.id,
+        'giveの使い方は？',
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(turn).not.toBeNull();
+      expect(chunks.join('')).toBe(turn?.assistantMessage.content);
+      expect(turn?.usage.totalTokens).toBeGreaterThan(0);
+
+      const messages = await conversationService.getMessages(conversation.id);
+      expect(messages[1].id).toBe(turn?.assistantMessage.id);
+    });
+  });
+
+  describe('buildHistory', () => {
+    it('トークン予算を超えた古いターンを切り捨てる', () => {
+      const messages = [
+        { id: '1', role: 'user' as const, content: 'a', tokens: 50, sources: [], createdAt: '' },
+        {
+          id: '2',
+          role: 'assistant' as const,
+          content: 'b',
+          tokens: 50,
+          sources: [],
+          createdAt: '',
+        },
+        { id: '3', role: 'user' as const, content: 'c', tokens: 30, sources: [], createdAt: '' },
+        {
+          id: '4',
+          role: 'assistant' as const,
+          content: 'd',
+          tokens: 30,
+          sources: [],
+          createdAt: '',
+        },
+      ];
+
+      const history = conversationService.buildHistory(messages, 100);
+
+      expect(history.map((m) => m.content)).toEqual(['c', 'd']);
+    });
+
+    it('先頭がアシスタントの発言にならない', () => {
+      const messages = [
+        { id: '1', role: 'user' as const, content: 'a', tokens: 50, sources: [], createdAt: '' },
+        {
+          id: '2',
+          role: 'assistant' as const,
+          content: 'b',
+          tokens: 10,
+          sources: [],
+          createdAt: '',
+        },
+        { id: '3', role: 'user' as const, content: 'c', tokens: 10, sources: [], createdAt: '' },
+      ];
+
+      const history = conversationService.buildHistory(messages, 30);
+
+      expect(history[0].role).toBe('user');
+      expect(history.map((m) => m.content)).toEqual(['c']);
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('スレッドとメッセージを削除できる', async () => {
+      const conversation = await conversationService.createConversation(testUserId);
+      await conversationService.ask(testUserId, conversation.id, '質問');
+
+      const deleted = await conversationService.deleteConversation(testUserId, conversation.id);
+
+      expect(deleted).toBe(true);
+      expect(await conversationService.getMessages(conversation.id)).toEqual([]);
+      expect(await conversationService.listConversations(testUserId)).toEqual([]);
+    });
+  });
+
+  describe('estimateTokens', () => {
+    it('英語は約4文字、日本語は1文字を1トークンとして数える', () => {
+      expect(estimateTokens('abcdefgh')).toBe(2);
+      expect(estimateTokens('日本語')).toBe(3);
+    });
+  });
+});
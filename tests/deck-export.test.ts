@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRegistry } from '../backend/src/services/content-registry';
+import { DeckExportService } from '../backend/src/services/deck-export';
+import { DeckImportService, parseDelimited } from '../backend/src/services/deck-import';
+import { PLANS } from '../backend/src/services/plan';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { UserService } from '../backend/src/services/user';
+import { readZip } from '../backend/src/services/zip';
+
+describe('DeckExportService', () => {
+  let userId: string;
+  let exportService: DeckExportService;
+
+  beforeEach(async () => {
+    const user = await new UserService().register('exporter', 'exporter@example.com', 'password');
+    userId = user.id;
+    exportService = new DeckExportService();
+
+    const srService = new SpacedRepetitionService();
+    await srService.recordReview(userId, 'efficient', 5);
+    await srService.recordReview(userId, 'efficient', 4);
+    await srService.recordReview(userId, 'challenge', 1);
+    await srService.recordReview(userId, 'serendipity', 5);
+  });
+
+  it('データエクスポートはPremium以上の機能', () => {
+    expect(PLANS.free.limits.exportData).toBe(false);
+    expect(PLANS.premium.limits.exportData).toBe(true);
+  });
+
+  it('学習中の単語に意味・例文と復習スケジュールを付ける', async () => {
+    const words = await exportService.getExportedWords(userId);
+
+    expect(words.map((w) => w.word)).toEqual(['challenge', 'efficient', 'serendipity']);
+    expect(words[1]).toMatchObject({
+      word: 'efficient',
+      definitionJa: expect.any(String),
+      correctCount: 2,
+      incorrectCount: 0,
+      intervalDays: 6,
+      nextReview: expect.any(String),
+    });
+    expect(words[1].definitionJa).not.toBe('');
+    // 単語帳にない単語は意味を空にする
+    expect(words[2]).toMatchObject({ word: 'serendipity', definition: '', correctCount: 1 });
+  });
+
+  it('CSVは項目名の見出しと復習スケジュールの列を持つ', async () => {
+    const csv = await exportService.exportCsv(userId);
+    const rows = parseDelimited(csv, ',');
+
+    expect(rows[0].cells).toEqual([
+      'word',
+      'pronunciation',
+      'partOfSpeech',
+      'definition',
+      'definitionJa',
+      'example',
+      'exampleJa',
+      'correctCount',
+      'incorrectCount',
+      'lastReviewed',
+      'nextReview',
+      'easeFactor',
+      'intervalDays',
+    ]);
+    expect(rows).toHaveLength(4);
+    expect(rows[1].cells.slice(7, 9)).toEqual(['0', '1']);
+  });
+
+  it('JSONは書き出し日時と単語を含む', async () => {
+    const now = new Date('2026-01-15T00:00:00Z');
+    const data = await exportService.exportJson(userId, now);
+
+    expect(data.exportedAt).toBe(now.toISOString());
+    expect(data.words).toHaveLength(3);
+  });
+
+  describe('Ankiパッケージ', () => {
+    let contentDir: string;
+
+    beforeEach(() => {
+      ContentRegistry.reset();
+      contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deck-export-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(contentDir, { recursive: true, force: true });
+    });
+
+    it('コレクションとメディアを含み、単語帳の取り込みでそのまま読み込める', async () => {
+      const apkg = await exportService.exportApkg(userId);
+
+      expect(readZip(apkg).names).toEqual(['collection.anki2', 'media']);
+
+      const report = new DeckImportService(contentDir).parse(apkg, 'export.apkg');
+      const exported = await exportService.getExportedWords(userId);
+      // 単語帳にない単語は意味が空のため取り込みではエラーになる
+      expect(report.words.map((w) => w.word)).toEqual(['challenge', 'efficient']);
+      expect(report.words[1]).toEqual({
+        word: exported[1].word,
+        pronunciation: exported[1].pronunciation,
+        partOfSpeech: exported[1].partOfSpeech,
+        definition: exported[1].definition,
+        definitionJa: exported[1].definitionJa,
+        example: exported[1].example,
+        exampleJa: exported[1].exampleJa,
+      });
+      expect(report.errors.every((e) => e.row === 3)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRegistry } from '../backend/src/services/content-registry';
+import {
+  DeckImportService,
+  parseColumnMapping,
+  parseDelimited,
+} from '../backend/src/services/deck-import';
+import { LessonService } from '../backend/src/services/lesson';
+
+const existingDeck = {
+  title: '旅行',
+  level: 'A1',
+  words: [
+    {
+      word: 'ticket',
+      pronunciation: '',
+      partOfSpeech: 'noun',
+      definition: 'a piece of paper that allows you to travel',
+      definitionJa: '切符',
+      example: 'I bought a ticket.',
+      exampleJa: '切符を買いました。',
+    },
+  ],
+};
+
+const csv = [
+  'word,partOfSpeech,definition,definitionJa,example,exampleJa',
+  'luggage,noun,"bags, suitcases","手荷物","Where is my ""luggage""?",荷物はどこ？',
+  'passport,noun,an official document,,Show your passport.,パスポートを見せて。',
+  'Ticket,noun,a pass,切符,Buy a ticket.,切符を買う。',
+  'luggage,noun,bags,手荷物,My luggage.,私の荷物。',
+].join('\r\n');
+
+const apkgPath = path.join(__dirname, 'fixtures', 'vocabulary.apkg');
+
+describe('deck-import', () => {
+  let contentDir: string;
+  let service: DeckImportService;
+
+  beforeEach(() => {
+    ContentRegistry.reset();
+    contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deck-import-test-'));
+    fs.mkdirSync(path.join(contentDir, 'vocabulary'));
+    fs.writeFileSync(
+      path.join(contentDir, 'vocabulary', 'travel.json'),
+      JSON.stringify(existingDeck)
+    );
+    service = new DeckImportService(contentDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(contentDir, { recursive: true, force: true });
+  });
+
+  describe('parseDelimited', () => {
+    it('ダブルクォート・改行を含むセルを分割し、空行を除いて行番号を付ける', () => {
+      const rows = parseDelimited('\uFEFFa,"b, ""c"""\n\n"multi\nline",d\n', ',');
+
+      expect(rows).toEqual([
+        { row: 1, cells: ['a', 'b, "c"'] },
+        { row: 3, cells: ['multi\nline', 'd'] },
+      ]);
+    });
+  });
+
+  describe('parse', () => {
+    it('CSVの見出しを項目名として読み、行ごとのエラーと重複を返す', () => {
+      const report = service.parse(Buffer.from(csv), 'words.csv');
+
+      expect(report.format).toBe('csv');
+      expect(report.totalRows).toBe(4);
+      expect(report.words).toEqual([
+        {
+          word: 'luggage',
+          pronunciation: '',
+          partOfSpeech: 'noun',
+          definition: 'bags, suitcases',
+          definitionJa: '手荷物',
+          example: 'Where is my "luggage"?',
+          exampleJa: '荷物はどこ？',
+        },
+      ]);
+      expect(report.errors).toEqual([
+        { row: 3, field: 'definitionJa', message: expect.any(String) },
+      ]);
+      expect(report.duplicates).toEqual([
+        { row: 4, word: 'Ticket', lessonId: 'vocab-travel' },
+        { row: 5, word: 'luggage', lessonId: null },
+      ]);
+    });
+
+    it('TSVの列を見出し名・列番号で対応付ける', () => {
+      const tsv = 'Front\tBack\tPOS\nsouvenir\tお土産\tnoun\n';
+      const report = service.parse(Buffer.from(tsv), 'words.tsv', {
+        mapping: parseColumnMapping({ word: 'front', definitionJa: '1', partOfSpeech: 'POS' }),
+      });
+
+      expect(report.format).toBe('tsv');
+      expect(report.errors.map((e) => e.field)).toEqual(['definition', 'example', 'exampleJa']);
+
+      const full = service.parse(
+        Buffer.from('souvenir\tお土産\tnoun\ta gift\tA souvenir.\tお土産です。\n'),
+        'words.txt',
+        {
+          header: false,
+          mapping: parseColumnMapping({
+            word: '0',
+            definitionJa: '1',
+            partOfSpeech: '2',
+            definition: '3',
+            example: '4',
+            exampleJa: '5',
+          }),
+        }
+      );
+      expect(full.words).toHaveLength(1);
+      expect(full.words[0]).toMatchObject({ word: 'souvenir', definitionJa: 'お土産' });
+    });
+
+    it('存在しない列・未対応の形式はエラーにする', () => {
+      expect(() =>
+        service.parse(Buffer.from(csv), 'words.csv', { mapping: { word: 'Front' } })
+      ).toThrow(expect.objectContaining({ code: 'invalid_mapping' }));
+      expect(() => service.parse(Buffer.from(csv), 'words.xlsx')).toThrow(
+        expect.objectContaining({ code: 'unsupported_format' })
+      );
+    });
+
+    it('Ankiパッケージのノートをフィールド名で読み、HTMLと音声を除く', () => {
+      // Front/Back/POS/Meaning/Example/ExampleJa のフィールドを持つノート3件
+      const apkg = fs.readFileSync(apkgPath);
+      const report = service.parse(apkg, 'deck.apkg', {
+        mapping: parseColumnMapping({
+          word: 'Front',
+          definitionJa: 'Back',
+          partOfSpeech: 'POS',
+          definition: 'Meaning',
+          example: 'Example',
+          exampleJa: 'ExampleJa',
+        }),
+      });
+
+      expect(report.format).toBe('apkg');
+      expect(report.words).toEqual([
+        {
+          word: 'itinerary',
+          pronunciation: '',
+          partOfSpeech: 'noun',
+          definition: 'a plan of a journey',
+          definitionJa: '旅程',
+          example: 'Check the itinerary.',
+          exampleJa: '旅程を確認して。',
+        },
+      ]);
+      expect(report.errors).toEqual([{ row: 3, field: 'definition', message: expect.any(String) }]);
+      expect(report.duplicates).toEqual([{ row: 2, word: 'ticket', lessonId: 'vocab-travel' }]);
+    });
+
+    it('ZIPでないファイルはエラーにする', () => {
+      expect(() => service.parse(Buffer.from('not a zip file at all'), 'deck.apkg')).toThrow(
+        expect.objectContaining({ code: 'invalid_file' })
+      );
+    });
+  });
+
+  describe('createDeck', () => {
+    it('新しい語彙レッスンとして保存し、LessonServiceから利用できる', async () => {
+      const { lessonId, report } = service.createDeck(Buffer.from(csv), 'words.csv', {
+        name: 'airport',
+        title: '空港',
+        level: 'A1',
+      });
+
+      expect(lessonId).toBe('vocab-airport');
+      expect(report.words).toHaveLength(1);
+
+      const lessonService = new LessonService(contentDir);
+      const lesson = await lessonService.getLessonById('vocab-airport');
+      expect(lesson).toMatchObject({ title: '空港', type: 'vocabulary' });
+      const words = await lessonService.getVocabularyWords('vocab-airport');
+      expect(words.map((w) => w.word)).toEqual(['luggage']);
+    });
+
+    it('同じ名前の単語帳・取り込める単語がない場合はエラーにする', () => {
+      const options = { name: 'travel', title: '旅行', level: 'A1' };
+      expect(() => service.createDeck(Buffer.from(csv), 'words.csv', options)).toThrow(
+        expect.objectContaining({ code: 'deck_exists' })
+      );
+
+      const empty = Buffer.from('word,definition\nticket,a pass\n');
+      expect(() => service.createDeck(empty, 'words.csv', { ...options, name: 'empty' })).toThrow(
+        expect.objectContaining({ code: 'no_words' })
+      );
+      expect(fs.existsSync(path.join(contentDir, 'vocabulary', 'empty.json'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  validateLessonManifest,
+  GrammarExercise,
+} from '../backend/src/services/content-validation';
+import { gradeGrammarExercise } from '../backend/src/services/quiz-grading';
+import { LessonService, LessonSubmitError } from '../backend/src/services/lesson';
+import { LessonAttemptService } from '../backend/src/services/lesson-attempt';
+import { UserService } from '../backend/src/services/user';
+
+const exercise: GrammarExercise = {
+  type: 'transformation',
+  instruction: '否定文に書き換えてください。',
+  sentence: 'They have arrived.',
+  answer: 'They have not arrived.',
+  acceptedAnswers: ["They haven't arrived."],
+  explanation: 'have の後ろに not を置きます。',
+};
+
+const grammarManifest = {
+  title: '現在完了形',
+  level: 'A1',
+  rule: 'have/has + 過去分詞',
+  explanation: '主語が三人称単数のときは has を使います。',
+  examples: [{ correct: 'She has lived here.', incorrect: 'She have lived here.' }],
+  exercises: [
+    {
+      type: 'error_correction',
+      instruction: '誤りを直してください。',
+      sentence: 'He have worked here.',
+      answer: 'He has worked here.',
+      explanation: '三人称単数なので has。',
+    },
+  ],
+};
+
+describe('文法レッスン', () => {
+  describe('validateLessonManifest（grammar）', () => {
+    it('正しいマニフェストは有効', () => {
+      const result = validateLessonManifest('grammar', 'present_perfect.json', grammarManifest);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.manifest).toMatchObject({
+        id: 'grammar-present-perfect',
+        type: 'grammar',
+        estimatedTime: 10,
+        exercises: [{ type: 'error_correction', acceptedAnswers: [] }],
+      });
+    });
+
+    it('演習の形式・空欄・正解の誤りを問題として返す', () => {
+      const result = validateLessonManifest('grammar', 'broken.json', {
+        ...grammarManifest,
+        examples: [],
+        exercises: [
+          { ...grammarManifest.exercises[0], type: 'essay' },
+          { ...grammarManifest.exercises[0], answer: 'He have worked here!' },
+          { ...grammarManifest.exercises[0], type: 'fill_blank', answer: 'has' },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.issues.map((i) => i.path)).toEqual([
+        'examples',
+        'exercises[0].type',
+        'exercises[1].answer',
+        'exercises[2].sentence',
+      ]);
+    });
+  });
+
+  describe('gradeGrammarExercise', () => {
+    it('大文字小文字・句読点の違いは無視する', () => {
+      expect(gradeGrammarExercise(exercise, 'they have not arrived').correct).toBe(true);
+    });
+
+    it('別解も正解とする', () => {
+      expect(gradeGrammarExercise(exercise, "They haven't arrived.").correct).toBe(true);
+    });
+
+    it('1文字の違いでも不正解とする（綴りの誤りを許容しない）', () => {
+      const grade = gradeGrammarExercise(exercise, 'They has not arrived.');
+
+      expect(grade).toEqual({ correct: false, correctAnswer: 'They have not arrived.' });
+    });
+
+    it('文字列以外・空の回答は不正解', () => {
+      expect(gradeGrammarExercise(exercise, 0).correct).toBe(false);
+      expect(gradeGrammarExercise(exercise, '  ').correct).toBe(false);
+    });
+  });
+
+  describe('LessonService', () => {
+    let lessonService: LessonService;
+    let attemptService: LessonAttemptService;
+
+    beforeEach(() => {
+      lessonService = new LessonService();
+      attemptService = new LessonAttemptService();
+    });
+
+    it('文法レッスンが一覧に含まれる', async () => {
+      const lesson = await lessonService.getLessonById('grammar-present-perfect');
+
+      expect(lesson?.type).toBe('grammar');
+    });
+
+    it('本文の演習には正解・解説を含めない', async () => {
+      const content = await lessonService.getLessonContent('grammar-present-perfect');
+
+      expect(content?.type).toBe('grammar');
+      if (content?.type !== 'grammar') return;
+      expect(content.rule).toBeTruthy();
+      expect(content.examples.length).toBeGreaterThan(0);
+      expect(content.exercises[0]).toEqual({
+        type: 'error_correction',
+        instruction: expect.any(String),
+        sentence: 'He have worked here since April.',
+      });
+    });
+
+    it('語彙レッスンの本文は単語リスト', async () => {
+      const content = await lessonService.getLessonContent('vocab-basic-english');
+
+      expect(content?.type).toBe('vocabulary');
+    });
+
+    it('存在しないレッスンの本文はnull', async () => {
+      expect(await lessonService.getLessonContent('grammar-unknown')).toBeNull();
+    });
+
+    it('演習を採点し、正答率をスコアとして完了を記録する', async () => {
+      const user = await new UserService().register('grammar', 'grammar@example.com', 'password');
+
+      const result = await attemptService.submitExercises(user.id, 'grammar-present-perfect', [
+        'He has worked here since April.',
+        'I saw that movie yesterday.',
+        'She has finish the report.',
+        "They haven't arrived at the station.",
+      ]);
+
+      expect(result.score).toBe(3);
+      expect(result.total).toBe(5);
+      expect(result.percentage).toBe(60);
+      expect(result.details[2]).toMatchObject({
+        correct: false,
+        userAnswer: 'She has finish the report.',
+        correctAnswer: 'She has finished the report.',
+      });
+      expect(result.details[4].userAnswer).toBeNull();
+
+      const completed = await lessonService.getCompletedLessons(user.id);
+      expect(completed[0]).toMatchObject({ lessonId: 'grammar-present-perfect', score: 60 });
+      expect(result.attempt).toMatchObject({ score: 60, currentStep: 5 });
+      expect(result.attempt.completedAt).not.toBeNull();
+    });
+
+    it('採点できないレッスンはエラー', async () => {
+      const user = await new UserService().register('vocab', 'vocab@example.com', 'password');
+
+      await expect(
+        attemptService.submitExercises(user.id, 'vocab-basic-english', [])
+      ).rejects.toMatchObject({ code: 'not_gradable' });
+      await expect(attemptService.submitExercises(user.id, 'grammar-unknown', [])).rejects.toThrow(
+        LessonSubmitError
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  calibrateDifficulty,
+  difficultyFromLabel,
+  estimateAbility,
+  itemInformation,
+  labelFromTheta,
+  probability,
+  selectMostInformative,
+} from '../backend/src/services/irt';
+
+const item = (difficulty: number, discrimination = 1) => ({ difficulty, discrimination });
+
+describe('irt', () => {
+  describe('probability', () => {
+    it('能力と難易度が等しいとき正答確率は0.5', () => {
+      expect(probability(0.7, item(0.7))).toBeCloseTo(0.5);
+      expect(probability(2, item(0))).toBeGreaterThan(0.8);
+    });
+
+    it('識別力が高いほど能力差に対する変化が大きい', () => {
+      expect(probability(1, item(0, 2))).toBeGreaterThan(probability(1, item(0, 1)));
+    });
+  });
+
+  describe('itemInformation', () => {
+    it('能力と難易度が近い問題ほど情報量が大きい', () => {
+      expect(itemInformation(0, item(0))).toBeCloseTo(0.25);
+      expect(itemInformation(0, item(2))).toBeLessThan(itemInformation(0, item(0.5)));
+    });
+  });
+
+  describe('estimateAbility', () => {
+    it('回答がない場合は平均0・標準誤差1', () => {
+      expect(estimateAbility([])).toEqual({ theta: 0, standardError: 1 });
+    });
+
+    it('正解が多いほど能力値が高く、回答が増えるほど標準誤差が小さい', () => {
+      const allCorrect = estimateAbility([0, 0.5, 1].map((b) => ({ ...item(b), correct: true })));
+      const allWrong = estimateAbility([0, -0.5, -1].map((b) => ({ ...item(b), correct: false })));
+      const mixed = estimateAbility(
+        [-1, -0.5, 0, 0.5, 1, 1.5].map((b, i) => ({ ...item(b), correct: i < 3 }))
+      );
+
+      expect(allCorrect.theta).toBeGreaterThan(0);
+      expect(allWrong.theta).toBeLessThan(0);
+      expect(mixed.standardError).toBeLessThan(allCorrect.standardError);
+    });
+  });
+
+  describe('calibrateDifficulty', () => {
+    it('予想外の正解は問題を易しく、予想外の不正解は難しくする', () => {
+      expect(calibrateDifficulty(item(1), -1, true, 0)).toBeLessThan(1);
+      expect(calibrateDifficulty(item(-1), 1, false, 0)).toBeGreaterThan(-1);
+    });
+
+    it('回答数が多い問題ほど変化が小さい', () => {
+      const fresh = 1 - calibrateDifficulty(item(1), 0, true, 0);
+      const calibrated = 1 - calibrateDifficulty(item(1), 0, true, 100);
+
+      expect(calibrated).toBeLessThan(fresh);
+    });
+  });
+
+  describe('難易度ラベル', () => {
+    it('ラベルと能力値を相互に変換する', () => {
+      expect(difficultyFromLabel('hard')).toBe(1);
+      expect(difficultyFromLabel('unknown')).toBe(0);
+      expect(labelFromTheta(-1.2)).toBe('easy');
+      expect(labelFromTheta(0.2)).toBe('medium');
+      expect(labelFromTheta(1.5)).toBe('hard');
+    });
+  });
+
+  describe('selectMostInformative', () => {
+    it('能力値に最も近い難易度の問題を選ぶ', () => {
+      const items = [item(-2), item(0.8), item(2)];
+
+      expect(selectMostInformative(1, items)).toBe(items[1]);
+      expect(selectMostInformative(1, [])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { LessonService } from '../backend/src/services/lesson';
+import { LessonAttemptService } from '../backend/src/services/lesson-attempt';
+import { UserService } from '../backend/src/services/user';
+
+describe('LessonAttemptService', () => {
+  let userId: string;
+  let service: LessonAttemptService;
+
+  beforeEach(async () => {
+    userId = (await new UserService().register('attempt', 'attempt@example.com', 'password')).id;
+    service = new LessonAttemptService();
+  });
+
+  it('ステップごとの回答を保存し、中断したステップから再開できる', async () => {
+    const attempt = await service.startAttempt(userId, 'vocab-basic-english');
+    expect(attempt).toMatchObject({ currentStep: 0, totalSteps: 10 });
+
+    await service.checkpoint(userId, attempt.id, 0, true);
+    await service.checkpoint(userId, attempt.id, 1, false);
+
+    const resumed = await service.getResumableAttempt(userId, 'vocab-basic-english');
+    expect(resumed).toMatchObject({ id: attempt.id, currentStep: 2 });
+    expect(resumed?.answers.slice(0, 3)).toEqual([true, false, null]);
+
+    // 前のステップを回答し直しても進んだ位置は戻らない
+    expect((await service.checkpoint(userId, attempt.id, 0, false)).currentStep).toBe(2);
+
+    // やり直すと途中の受講は破棄される
+    const restarted = await service.startAttempt(userId, 'vocab-basic-english');
+    expect(await service.getAttempt(userId, attempt.id)).toBeNull();
+    expect((await service.getResumableAttempt(userId, 'vocab-basic-english'))?.id).toBe(
+      restarted.id
+    );
+  });
+
+  it('修了時に保存済みの回答から得点を算出して完了を記録する', async () => {
+    const attempt = await service.startAttempt(userId, 'grammar-present-perfect');
+    await service.checkpoint(userId, attempt.id, 0, 'He has worked here since April.');
+    await service.checkpoint(userId, attempt.id, 1, 'I have seen that movie yesterday.');
+    await service.checkpoint(userId, attempt.id, 4, 'since');
+
+    const result = await service.finishAttempt(userId, attempt.id);
+
+    expect(result).toMatchObject({ correct: 2, total: 5, percentage: 40 });
+    expect(result.attempt.completedAt).not.toBeNull();
+    expect(await new LessonService().getBestScore(userId, 'grammar-present-perfect')).toBe(40);
+    expect(await service.getResumableAttempt(userId, 'grammar-present-perfect')).toBeNull();
+
+    await expect(service.finishAttempt(userId, attempt.id)).rejects.toMatchObject({
+      code: 'already_completed',
+    });
+  });
+
+  it('まとめて提出した回答は途中の受講の回答として採点し、その受講を修了する', async () => {
+    const attempt = await service.startAttempt(userId, 'reading-remote-work');
+    await service.checkpoint(userId, attempt.id, 0, 1);
+
+    const result = await service.submitExercises(userId, 'reading-remote-work', [1, 0, 0]);
+
+    expect(result).toMatchObject({ score: 2, total: 3, percentage: 67 });
+    expect(result.attempt).toMatchObject({ id: attempt.id, answers: [1, 0, 0], score: 67 });
+    expect(await service.getResumableAttempt(userId, 'reading-remote-work')).toBeNull();
+    expect(await new LessonService().getBestScore(userId, 'reading-remote-work')).toBe(67);
+  });
+
+  it('範囲外のステップ・種類に合わない回答・他ユーザーの受講はエラーにする', async () => {
+    const attempt = await service.startAttempt(userId, 'reading-remote-work');
+    const other = await new UserService().register('other', 'other@example.com', 'password');
+
+    await expect(service.checkpoint(userId, attempt.id, 99, 0)).rejects.toMatchObject({
+      code: 'invalid_step',
+    });
+    await expect(service.checkpoint(userId, attempt.id, 0, 'A')).rejects.toMatchObject({
+      code: 'invalid_answer',
+    });
+    await expect(service.checkpoint(other.id, attempt.id, 0, 0)).rejects.toMatchObject({
+      code: 'not_found',
+    });
+    await expect(service.startAttempt(userId, 'unknown-lesson')).rejects.toMatchObject({
+      code: 'not_found',
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../backend/src/app';
+import { AuthService } from '../backend/src/services/auth';
+import { LessonService } from '../backend/src/services/lesson';
+import { UserService } from '../backend/src/services/user';
+
+describe('POST /api/lessons/:id/complete', () => {
+  let server: Server;
+  let baseUrl: string;
+  let userId: string;
+  let token: string;
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(async () => {
+    const user = await new UserService().register('route', 'route@example.com', 'password');
+    userId = user.id;
+    token = new AuthService().generateAccessToken(user.id, user.email, 'free');
+  });
+
+  const complete = (lessonId: string) =>
+    fetch(`${baseUrl}/api/lessons/${lessonId}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({}),
+    });
+
+  it('採点のないレッスンは、受講を開始していなくても得点なしで完了を記録する', async () => {
+    const response = await complete('vocab-basic-english');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true });
+    expect(await new LessonService().getCompletedLessons(userId)).toEqual([
+      expect.objectContaining({ lessonId: 'vocab-basic-english', score: undefined }),
+    ]);
+  });
+
+  it('採点のあるレッスンは、受講を開始していなければ完了を記録しない', async () => {
+    for (const lessonId of ['grammar-present-perfect', 'reading-remote-work']) {
+      const response = await complete(lessonId);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: '採点のあるレッスンは受講を開始してから完了してください',
+      });
+    }
+    expect(await new LessonService().getCompletedLessons(userId)).toEqual([]);
+  });
+});
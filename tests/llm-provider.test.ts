@@ -0,0 +1,122 @@
+import path from 'path';
+import {
+  FixtureProvider,
+  OpenAIProvider,
+  createLLMProvider,
+} from '../backend/src/services/llm-provider';
+import { AIService } from '../backend/src/services/ai';
+
+const FIXTURE_PATH = path.join(__dirname, '../backend/fixtures/llm-responses.json');
+
+describe('LLMProvider', () => {
+  describe('FixtureProvider', () => {
+    const request = (question: string) => ({
+      messages: [
+        { role: 'system' as const, content: 'system' },
+        { role: 'user' as const, content: question },
+      ],
+      maxTokens: 100,
+      temperature: 0,
+    });
+
+    it('ユーザー発言に一致するレスポンスを返す', async () => {
+      const provider = new FixtureProvider([
+        { match: 'affect', content: 'affectの回答' },
+        { content: 'デフォルト' },
+      ]);
+
+      const completion = await provider.complete(request('effectとaffectの違いは？'));
+
+      expect(completion.content).toBe('affectの回答');
+      expect(completion.usage.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('一致しない場合はmatchなしのレスポンスを順番に返す', async () => {
+      const provider = new FixtureProvider([{ content: '1つ目' }, { content: '2つ目' }]);
+
+      expect((await provider.complete(request('質問'))).content).toBe('1つ目');
+      expect((await provider.complete(request('質問'))).content).toBe('2つ目');
+      expect((await provider.complete(request('質問'))).content).toBe('1つ目');
+    });
+
+    it('該当するレスポンスがない場合はエラー', async () => {
+      const provider = new FixtureProvider([{ match: 'affect', content: '回答' }]);
+
+      await expect(provider.complete(request('別の質問'))).rejects.toThrow();
+    });
+
+    it('ストリーミングでは記録済みレスポンスを分割して流す', async () => {
+      const provider = new FixtureProvider([{ content: 'これは記録済みのストリーミング回答です' }]);
+      const chunks: string[] = [];
+
+      const completion = await provider.stream(request('質問'), (chunk) => chunks.push(chunk));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(completion.content);
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('設定がなくAPIキーもない場合はモック（null）', () => {
+      delete process.env.LLM_PROVIDER;
+      delete process.env.OPENAI_API_KEY;
+
+      expect(createLLMProvider('ask')).toBeNull();
+    });
+
+    it('機能別の設定で全体の設定を上書きできる', () => {
+      process.env.LLM_PROVIDER = 'mock';
+      process.env.LLM_PROVIDER_QUIZ = 'fixture';
+      process.env.LLM_FIXTURE_PATH = FIXTURE_PATH;
+
+      expect(createLLMProvider('ask')).toBeNull();
+      expect(createLLMProvider('quiz')?.type).toBe('fixture');
+    });
+
+    it('ローカルエンドポイントはOpenAI互換プロバイダーとして生成される', () => {
+      process.env.LLM_PROVIDER_ASK = 'local';
+      process.env.LLM_MODEL_ASK = 'llama-3-8b';
+
+      const provider = createLLMProvider('ask');
+
+      expect(provider).toBeInstanceOf(OpenAIProvider);
+      expect(provider?.type).toBe('local');
+      expect(provider?.model).toBe('llama-3-8b');
+    });
+
+    it('未知のプロバイダーはエラー', () => {
+      process.env.LLM_PROVIDER = 'unknown';
+
+      expect(() => createLLMProvider('ask')).toThrow();
+    });
+  });
+
+  describe('AIService + FixtureProvider', () => {
+    it('記録済みの回答で質問に答える', async () => {
+      const aiService = new AIService({
+        ask: FixtureProvider.fromFile(FIXTURE_PATH, 'ask'),
+      });
+
+      const answer = await aiService.answerQuestion('現在完了形の使い方を教えて');
+
+      expect(answer).toContain('have + 過去分詞');
+    });
+
+    it('記録済みのクイズを生成する', async () => {
+      const aiService = new AIService({
+        quiz: FixtureProvider.fromFile(FIXTURE_PATH, 'quiz'),
+      });
+
+      const questions = await aiService.generateQuiz('英単語');
+
+      expect(questions.length).toBe(3);
+      expect(questions[0].options.length).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../backend/src/app';
+import { AuthService } from '../backend/src/services/auth';
+import { UserService } from '../backend/src/services/user';
+
+describe('オプショナル認証', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const request = (method: string, urlPath: string, token?: string, body?: unknown) =>
+    fetch(`${baseUrl}${urlPath}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+    });
+
+  it('レッスン一覧は無効なトークンでも匿名として返す', async () => {
+    const response = await request('GET', '/api/lessons', 'stale-token');
+
+    expect(response.status).toBe(200);
+    const { lessons } = (await response.json()) as { lessons: { id: string }[] };
+    expect(lessons.map((l) => l.id)).toContain('vocab-basic-english');
+  });
+
+  it('質問は無効なトークンを匿名扱いにせず401を返す', async () => {
+    for (const urlPath of ['/api/ask', '/api/ask/stream']) {
+      const response = await request('POST', urlPath, 'stale-token', {
+        question: 'What is a verb?',
+      });
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'トークンが無効または期限切れです' });
+    }
+  });
+
+  it('質問はトークンがなければ匿名で、有効なトークンなら会話に保存して回答する', async () => {
+    const anonymous = await request('POST', '/api/ask', undefined, { question: 'What is a verb?' });
+    expect(anonymous.status).toBe(200);
+    expect(await anonymous.json()).not.toHaveProperty('conversationId');
+
+    const user = await new UserService().register('asker', 'asker@example.com', 'password');
+    const token = new AuthService().generateAccessToken(user.id, user.email, 'free');
+    const authenticated = await request('POST', '/api/ask', token, { question: 'What is a verb?' });
+    expect(authenticated.status).toBe(200);
+    expect(await authenticated.json()).toMatchObject({ conversationId: expect.any(String) });
+  });
+});
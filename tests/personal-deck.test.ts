@@ -0,0 +1,164 @@
+import { AIService } from '../backend/src/services/ai';
+import { DeckExportService } from '../backend/src/services/deck-export';
+import { FixtureProvider } from '../backend/src/services/llm-provider';
+import { PersonalDeckService } from '../backend/src/services/personal-deck';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { UserService } from '../backend/src/services/user';
+
+const generatedWord = {
+  pronunciation: '/ˌserənˈdɪpəti/',
+  partOfSpeech: 'noun',
+  definition: 'the occurrence of events by chance in a happy way',
+  definitionJa: '思いがけない幸運',
+  example: 'Finding this book was pure serendipity.',
+  exampleJa: 'この本を見つけたのはまったくの偶然の幸運だった。',
+};
+
+describe('PersonalDeckService', () => {
+  let userId: string;
+  let otherUserId: string;
+  let service: PersonalDeckService;
+
+  beforeEach(async () => {
+    const userService = new UserService();
+    userId = (await userService.register('owner', 'owner@example.com', 'password')).id;
+    otherUserId = (await userService.register('other', 'other@example.com', 'password')).id;
+    service = new PersonalDeckService();
+  });
+
+  describe('単語帳', () => {
+    it('作成・一覧・変更・削除ができ、他ユーザーの単語帳は操作できない', async () => {
+      const deck = await service.createDeck(userId, '  教科書 Unit 1 ', '英語I');
+      await service.addWord(userId, deck.id, { word: 'textbook', definitionJa: '教科書' });
+
+      expect(deck.name).toBe('教科書 Unit 1');
+      expect(await service.listDecks(userId)).toEqual([
+        expect.objectContaining({ id: deck.id, wordCount: 1 }),
+      ]);
+      expect(await service.listDecks(otherUserId)).toEqual([]);
+      expect(await service.getDeck(otherUserId, deck.id)).toBeNull();
+      expect(await service.updateDeck(otherUserId, deck.id, { name: '乗っ取り' })).toBeNull();
+      expect(await service.deleteDeck(otherUserId, deck.id)).toBe(false);
+
+      const updated = await service.updateDeck(userId, deck.id, { name: 'Unit 2' });
+      expect(updated).toMatchObject({ name: 'Unit 2', description: '英語I', wordCount: 1 });
+
+      expect(await service.deleteDeck(userId, deck.id)).toBe(true);
+      expect(await service.getDeck(userId, deck.id)).toBeNull();
+      expect(await service.getAllWords(userId)).toEqual([]);
+    });
+
+    it('名前が空の単語帳は作成できない', async () => {
+      await expect(service.createDeck(userId, '  ')).rejects.toMatchObject({
+        code: 'invalid_input',
+      });
+    });
+  });
+
+  describe('単語', () => {
+    let deckId: string;
+
+    beforeEach(async () => {
+      deckId = (await service.createDeck(userId, '教科書')).id;
+    });
+
+    it('入力した項目で単語を追加・変更・削除する', async () => {
+      const word = await service.addWord(userId, deckId, {
+        word: ' photosynthesis ',
+        definitionJa: '光合成',
+      });
+
+      expect(word).toMatchObject({
+        word: 'photosynthesis',
+        definitionJa: '光合成',
+        definition: '',
+        aiGenerated: false,
+      });
+
+      const updated = await service.updateWord(userId, deckId, word.id, {
+        example: 'Plants use photosynthesis.',
+      });
+      expect(updated).toMatchObject({
+        definitionJa: '光合成',
+        example: 'Plants use photosynthesis.',
+      });
+      await expect(
+        service.updateWord(userId, deckId, word.id, { definitionJa: '' })
+      ).rejects.toMatchObject({ code: 'invalid_input' });
+
+      expect(await service.deleteWord(otherUserId, deckId, word.id)).toBe(false);
+      expect(await service.deleteWord(userId, deckId, word.id)).toBe(true);
+      expect((await service.getDeck(userId, deckId))?.words).toEqual([]);
+    });
+
+    it('意味がない単語・同じ単語・存在しない単語帳への追加はエラーにする', async () => {
+      await expect(service.addWord(userId, deckId, { word: 'orphan' })).rejects.toMatchObject({
+        code: 'invalid_input',
+      });
+
+      await service.addWord(userId, deckId, { word: 'Orbit', definitionJa: '軌道' });
+      await expect(
+        service.addWord(userId, deckId, { word: 'orbit', definitionJa: '軌道' })
+      ).rejects.toMatchObject({ code: 'duplicate_word' });
+
+      await expect(
+        service.addWord(otherUserId, deckId, { word: 'orbit', definitionJa: '軌道' })
+      ).rejects.toMatchObject({ code: 'not_found' });
+    });
+
+    it('aiFill で空の項目をAIが補完し、入力した項目はそのまま使う', async () => {
+      const provider = new FixtureProvider([
+        { content: '```json\n' + JSON.stringify(generatedWord) + '\n```' },
+      ]);
+      const completeSpy = jest.spyOn(provider, 'complete');
+      const aiService = new AIService({ word: provider }, userId);
+      service = new PersonalDeckService(aiService);
+
+      const word = await service.addWord(userId, deckId, {
+        word: 'serendipity',
+        definitionJa: 'セレンディピティ',
+        aiFill: true,
+      });
+
+      expect(word).toMatchObject({
+        ...generatedWord,
+        definitionJa: 'セレンディピティ',
+        aiGenerated: true,
+      });
+      expect(completeSpy.mock.calls[0][0].messages[0].content).toContain('セレンディピティ');
+    });
+
+    it('AIの出力が不正な場合は追加せず、生成失敗として記録する', async () => {
+      const provider = new FixtureProvider([
+        { content: JSON.stringify({ ...generatedWord, definition: '' }) },
+      ]);
+      const aiService = new AIService({ word: provider }, userId);
+      service = new PersonalDeckService(aiService);
+
+      await expect(
+        service.addWord(userId, deckId, { word: 'serendipity', aiFill: true })
+      ).rejects.toMatchObject({ code: 'generation_failed' });
+
+      expect((await service.getDeck(userId, deckId))?.words).toEqual([]);
+      expect(aiService.getGenerationFailureStats('word')).toEqual({
+        invalidAttempts: 1,
+        unrecoverable: 1,
+      });
+    });
+
+    it('個人の単語は復習の書き出しで意味・例文が付く', async () => {
+      await service.addWord(userId, deckId, {
+        word: 'photosynthesis',
+        definitionJa: '光合成',
+        exampleJa: '植物は光合成をする。',
+      });
+      await new SpacedRepetitionService().recordReview(userId, 'photosynthesis', 4);
+
+      expect(await service.getAllWords(userId)).toEqual([
+        expect.objectContaining({ word: 'photosynthesis', definitionJa: '光合成' }),
+      ]);
+      const [exported] = await new DeckExportService().getExportedWords(userId);
+      expect(exported).toMatchObject({ word: 'photosynthesis', definitionJa: '光合成' });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRegistry } from '../backend/src/services/content-registry';
+import { CEFR_LEVELS } from '../backend/src/services/content-validation';
+import { DatabaseService } from '../backend/src/services/database';
+import { LessonService } from '../backend/src/services/lesson';
+import {
+  PlacementQuestion,
+  PlacementService,
+  estimateCefrLevel,
+} from '../backend/src/services/placement';
+import { UserService } from '../backend/src/services/user';
+
+describe('estimateCefrLevel', () => {
+  it('合格ラインを下回った最初のレベルの1つ下を判定結果にする', () => {
+    expect(
+      estimateCefrLevel([
+        { level: 'A2', correct: 3, total: 3 },
+        { level: 'B1', correct: 2, total: 3 },
+        { level: 'B2', correct: 1, total: 3 },
+        { level: 'C1', correct: 3, total: 3 },
+      ])
+    ).toBe('B1');
+  });
+
+  it('すべて合格なら出題した最上位、最初のレベルで不合格ならその1つ下（A1が下限）', () => {
+    expect(
+      estimateCefrLevel([
+        { level: 'B2', correct: 2, total: 2 },
+        { level: 'B1', correct: 3, total: 3 },
+      ])
+    ).toBe('B2');
+    expect(estimateCefrLevel([{ level: 'B1', correct: 0, total: 3 }])).toBe('A2');
+    expect(estimateCefrLevel([{ level: 'A1', correct: 0, total: 3 }])).toBe('A1');
+  });
+});
+
+describe('PlacementService', () => {
+  let userId: string;
+  let service: PlacementService;
+
+  const storedQuestions = (testId: string): PlacementQuestion[] => {
+    const row = DatabaseService.getInstance()
+      .getDb()
+      .prepare('SELECT questions FROM placement_tests WHERE id = ?')
+      .get(testId) as { questions: string };
+    return JSON.parse(row.questions);
+  };
+
+  beforeEach(async () => {
+    userId = (await new UserService().register('placement', 'placement@example.com', 'password'))
+      .id;
+    service = new PlacementService();
+  });
+
+  it('CEFRレベルごとに単語を選び、正解を含めずに出題する', async () => {
+    const test = await service.startTest(userId);
+    const levels = storedQuestions(test.testId).map((q) => q.level);
+
+    expect(levels).toEqual(CEFR_LEVELS.flatMap((level) => [level, level, level]));
+    expect(test.questions).toHaveLength(18);
+    expect(test.questions[0]).not.toHaveProperty('correctIndex');
+  });
+
+  it('採点してレベルを判定し、プロフィールに保存する', async () => {
+    const test = await service.startTest(userId);
+    // A1〜B2は全問正解、C1・C2は全問不正解
+    const answers = storedQuestions(test.testId).map((q) =>
+      q.level === 'C1' || q.level === 'C2'
+        ? (q.question.correctIndex + 1) % 4
+        : q.question.correctIndex
+    );
+
+    const result = await service.submitTest(userId, test.testId, answers);
+
+    expect(result).toMatchObject({ level: 'B2', score: 12, total: 18 });
+    expect(result.levels).toEqual([
+      { level: 'A1', correct: 3, total: 3 },
+      { level: 'A2', correct: 3, total: 3 },
+      { level: 'B1', correct: 3, total: 3 },
+      { level: 'B2', correct: 3, total: 3 },
+      { level: 'C1', correct: 0, total: 3 },
+      { level: 'C2', correct: 0, total: 3 },
+    ]);
+    const user = await new UserService().getUserById(userId);
+    expect(user?.cefrLevel).toBe('B2');
+    expect(user?.cefrAssessedAt).not.toBeNull();
+
+    await expect(service.submitTest(userId, test.testId, answers)).rejects.toMatchObject({
+      code: 'already_submitted',
+    });
+  });
+
+  it('他ユーザーのテストには回答できない', async () => {
+    const test = await service.startTest(userId);
+    const other = await new UserService().register('other', 'other@example.com', 'password');
+
+    await expect(service.submitTest(other.id, test.testId, [])).rejects.toMatchObject({
+      code: 'not_found',
+    });
+  });
+
+  it('CEFRレベル付きの単語がない場合は出題できない', async () => {
+    ContentRegistry.reset();
+    const contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'placement-'));
+    try {
+      service = new PlacementService(contentDir);
+      await expect(service.startTest(userId)).rejects.toMatchObject({ code: 'unavailable' });
+    } finally {
+      fs.rmSync(contentDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CEFRレベルによるレッスンの絞り込み', () => {
+  it('指定したレベルとレベル未設定のレッスンを返す', async () => {
+    const lessons = await new LessonService().getAllLessons('A2');
+
+    expect(lessons.map((l) => [l.id, l.level])).toEqual([
+      ['grammar-present-perfect', 'A2'],
+      ['word-of-the-day', null],
+    ]);
+  });
+});
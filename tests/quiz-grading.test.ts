@@ -0,0 +1,104 @@
+import {
+  allowedTypos,
+  editDistance,
+  gradeQuestion,
+  matchTypedAnswer,
+  normalizeAnswer,
+} from '../backend/src/services/quiz-grading';
+import { QuizQuestion } from '../backend/src/services/quiz-validation';
+
+describe('quiz-grading', () => {
+  describe('normalizeAnswer', () => {
+    it('大文字・アクセント記号・全角文字・句読点の違いを無視する', () => {
+      expect(normalizeAnswer('  Café. ')).toBe('cafe');
+      expect(normalizeAnswer('ｅｆｆｉｃｉｅｎｔ')).toBe('efficient');
+      expect(normalizeAnswer("Don't  give   up!")).toBe("don't give up");
+    });
+  });
+
+  describe('editDistance', () => {
+    it('挿入・削除・置換の回数を数える', () => {
+      expect(editDistance('efficient', 'efficient')).toBe(0);
+      expect(editDistance('efficent', 'efficient')).toBe(1);
+      expect(editDistance('benefit', 'benifet')).toBe(2);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('matchTypedAnswer', () => {
+    it('許容範囲内の綴りの誤りは typo 付きで正解とする', () => {
+      expect(matchTypedAnswer('efficient', ['efficient'])).toEqual({ correct: true, typo: false });
+      expect(matchTypedAnswer('efficent', ['efficient'])).toEqual({ correct: true, typo: true });
+      expect(matchTypedAnswer('sufficient', ['efficient'])).toEqual({
+        correct: false,
+        typo: false,
+      });
+    });
+
+    it('短い単語は綴りの誤りを許容しない', () => {
+      expect(allowedTypos(4)).toBe(0);
+      expect(matchTypedAnswer('cat', ['car']).correct).toBe(false);
+    });
+
+    it('空の入力は不正解', () => {
+      expect(matchTypedAnswer('  ', ['efficient']).correct).toBe(false);
+    });
+  });
+
+  describe('gradeQuestion', () => {
+    it('4択は選択肢の位置で採点する', () => {
+      const question: QuizQuestion = {
+        type: 'multiple_choice',
+        question: '「abundant」の意味は？',
+        options: ['豊富な', '勤勉な', '効率的な', '不可欠な'],
+        correctIndex: 0,
+        explanation: '',
+      };
+
+      expect(gradeQuestion(question, 0)).toEqual({ correct: true, correctAnswer: 0 });
+      expect(gradeQuestion(question, '0').correct).toBe(false);
+    });
+
+    it('記述問題は別表記も正解とする', () => {
+      const question: QuizQuestion = {
+        type: 'typed',
+        question: '「色」を意味する英単語を入力してください',
+        answer: 'colour',
+        acceptedAnswers: ['color'],
+        explanation: '',
+      };
+
+      expect(gradeQuestion(question, 'Color')).toEqual({ correct: true, correctAnswer: 'colour' });
+      expect(gradeQuestion(question, 3).correct).toBe(false);
+    });
+
+    it('並べ替え問題は同じ単語を入れ替えても正解とする', () => {
+      const question: QuizQuestion = {
+        type: 'ordering',
+        question: '',
+        tokens: ['the', 'saw', 'cat', 'the', 'dog'],
+        correctOrder: [0, 4, 1, 3, 2],
+        explanation: '',
+      };
+
+      expect(gradeQuestion(question, [3, 4, 1, 0, 2]).correct).toBe(true);
+      expect(gradeQuestion(question, [0, 4, 1, 0, 2]).correct).toBe(false);
+      expect(gradeQuestion(question, [0, 4, 1]).correct).toBe(false);
+    });
+
+    it('組み合わせ問題はすべての組が合っている場合のみ正解', () => {
+      const question: QuizQuestion = {
+        type: 'matching',
+        question: '',
+        terms: ['abundant', 'benefit'],
+        definitions: ['利益', '豊富な'],
+        correctMatches: [1, 0],
+        explanation: '',
+      };
+
+      expect(gradeQuestion(question, [1, 0]).correct).toBe(true);
+      expect(gradeQuestion(question, [0, 1]).correct).toBe(false);
+      expect(gradeQuestion(question, null).correct).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  QuizService,
+  QuizSubmitError,
+  findTestedWord,
+  qualityFromAnswer,
+} from '../backend/src/services/quiz';
+import { AIService } from '../backend/src/services/ai';
+import { QuizQuestion } from '../backend/src/services/quiz-validation';
+import { DatabaseService } from '../backend/src/services/database';
+import { UserService } from '../backend/src/services/user';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { ReminderService } from '../backend/src/services/reminder';
+
+describe('QuizService', () => {
+  let quizService: QuizService;
+  let userService: UserService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    quizService = new QuizService(new AIService({ quiz: null }));
+    userService = new UserService();
+
+    const user = await userService.register(
+      'quiztest',
+      `quiztest${Date.now()}@example.com`,
+      'password'
+    );
+    testUserId = user.id;
+  });
+
+  const expireQuiz = (quizId: string) => {
+    DatabaseService.getInstance()
+      .getDb()
+      .prepare('UPDATE quizzes SET expires_at = ? WHERE id = ?')
+      .run(new Date(Date.now() - 1000).toISOString(), quizId);
+  };
+
+  describe('getOrCreateQuiz', () => {
+    it('生成したクイズをDBに保存して取得できる', async () => {
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      const saved = await quizService.getQuiz(quiz.id);
+      expect(saved?.questions).toEqual(quiz.questions);
+      expect(saved?.userId).toBe(testUserId);
+    });
+
+    it('出題中のクイズがあれば同じクイズを返す', async () => {
+      const first = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      const second = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      expect(second.id).toBe(first.id);
+    });
+
+    it('ユーザーごとに別のクイズを発行する', async () => {
+      const other = await userService.register('other', `other${Date.now()}@example.com`, 'pw');
+
+      const mine = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      const theirs = await quizService.getOrCreateQuiz(other.id, 'grammar', 'easy');
+
+      expect(theirs.id).not.toBe(mine.id);
+    });
+
+    it('提出済みのクイズは再生成する', async () => {
+      const first = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      await quizService.submitQuiz(first.id, testUserId, [0]);
+
+      const next = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      expect(next.id).not.toBe(first.id);
+    });
+
+    it('期限切れのクイズは再生成し、未提出の古いクイズを削除する', async () => {
+      const first = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      expireQuiz(first.id);
+
+      const next = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      expect(next.id).not.toBe(first.id);
+      expect(await quizService.getQuiz(first.id)).toBeNull();
+    });
+
+    it('regenerate指定時は出題中でも新しく生成する', async () => {
+      const first = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      const next = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy', true);
+
+      expect(next.id).not.toBe(first.id);
+    });
+  });
+
+  describe('submitQuiz', () => {
+    it('採点してquiz_resultsに記録する', async () => {
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      const result = await quizService.submitQuiz(quiz.id, testUserId, [0]);
+
+      expect(result.score).toBe(1);
+      expect(result.percentage).toBe(100);
+
+      const results = await quizService.getResults(testUserId);
+      expect(results.length).toBe(1);
+      expect(results[0]).toMatchObject({ quizId: quiz.id, topic: 'grammar', score: 1, total: 1 });
+    });
+
+    it('回答済みのクイズは再提出できない', async () => {
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      await quizService.submitQuiz(quiz.id, testUserId, [0]);
+
+      await expect(quizService.submitQuiz(quiz.id, testUserId, [0])).rejects.toMatchObject({
+        code: 'already_submitted',
+      });
+    });
+
+    it('他ユーザーのクイズには回答できない', async () => {
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+
+      await expect(quizService.submitQuiz(quiz.id, 'other-user', [0])).rejects.toBeInstanceOf(
+        QuizSubmitError
+      );
+    });
+
+    it('期限切れのクイズは提出できない', async () => {
+      const quiz = await quizService.getOrCreateQuiz(testUserId, 'grammar', 'easy');
+      expireQuiz(quiz.id);
+
+      await expect(quizService.submitQuiz(quiz.id, testUserId, [0])).rejects.toMatchObject({
+        code: 'expired',
+      });
+    });
+
+    it('存在しないクイズはnot_foundになる', async () => {
+      await expect(quizService.submitQuiz('missing', null, [0])).rejects.toMatchObject({
+        code: 'not_found',
+      });
+    });
+
+    it('共有クイズは認証済みユーザーごとに1回だけ提出できる', async () => {
+      const quiz = await quizService.getOrCreateQuiz(null, 'grammar', 'easy');
+      const other = await userService.register('other', `other${Date.now()}@example.com`, 'pw');
+
+      await quizService.submitQuiz(quiz.id, testUserId, [0]);
+      await expect(quizService.submitQuiz(quiz.id, testUserId, [0])).rejects.toMatchObject({
+        code: 'already_submitted',
+      });
+
+      // 他のユーザー・未認証の提出は引き続き受け付ける
+      await quizService.submitQuiz(quiz.id, other.id, [0]);
+      await quizService.submitQuiz(quiz.id, null, [0]);
+      expect(await quizService.getResults(testUserId)).toHaveLength(1);
+    });
+
+    it('未認証の共有クイズは結果を記録せず、期限まで使い回す', async () => {
+      const quiz = await quizService.getOrCreateQuiz(null, 'grammar', 'easy');
+
+      await quizService.submitQuiz(quiz.id, null, [1]);
+      const again = await quizService.getOrCreateQuiz(null, 'grammar', 'easy');
+
+      expect(again.id).toBe(quiz.id);
+    });
+  });
+
+  describe('提出結果の学習記録への反映', () => {
+    const vocabularyQuestions: QuizQuestion[] = [
+      {
+        type: 'multiple_choice',
+        question: '「abundant」の意味は？',
+        options: ['豊富な', '不足した', '危険な', '静かな'],
+        correctIndex: 0,
+        explanation: 'abundantは「豊富な」',
+        word: 'abundant',
+      },
+      {
+        type: 'multiple_choice',
+        question: '「効率的な」を英語で言うと？',
+        options: ['efficient', 'sufficient', 'deficient', 'proficient'],
+        correctIndex: 0,
+        explanation: '効率的な = efficient',
+      },
+      {
+        type: 'multiple_choice',
+        question: '現在完了形の文はどれ？',
+        options: ['I have eaten.', 'I ate.', 'I eat.', 'I will eat.'],
+        correctIndex: 0,
+        explanation: 'have + 過去分詞',
+      },
+    ];
+
+    it('教材の単語を含む問題は単語を紐付けて保存する', async () => {
+      const quiz = await quizService.createQuiz(
+        testUserId,
+        'vocabulary',
+        'easy',
+        vocabularyQuestions
+      );
+
+      const saved = await quizService.getQuiz(quiz.id);
+      expect(saved?.questions.map((q) => q.word)).toEqual(['abundant', 'efficient', undefined]);
+    });
+
+    it('単語の復習スケジュール・学習セッション・連続学習日数を更新する', async () => {
+      const quiz = await quizService.createQuiz(
+        testUserId,
+        'vocabulary',
+        'easy',
+        vocabularyQuestions
+      );
+
+      const result = await quizService.submitQuiz(quiz.id, testUserId, [0, 1, 0], [3000]);
+
+      expect(result.reviews?.map((r) => [r.word, r.isCorrect])).toEqual([
+        ['abundant', true],
+        ['efficient', false],
+      ]);
+      expect(result.streak).toBe(1);
+
+      const history = await new SpacedRepetitionService().getWordHistory(testUserId, 'efficient');
+      expect(history?.incorrectCount).toBe(1);
+
+      const session = await new ReminderService().getActiveSession(testUserId);
+      expect(session?.quizCompleted).toBe(1);
+      expect(session?.wordsReviewed).toBe(2);
+    });
+
+    it('進行中のセッションがあればそのセッションに加算する', async () => {
+      const reminderService = new ReminderService();
+      const started = await reminderService.startSession(testUserId);
+      await reminderService.updateSession(started.id, { wordsReviewed: 5, quizCompleted: 1 });
+      const quiz = await quizService.createQuiz(
+        testUserId,
+        'vocabulary',
+        'easy',
+        vocabularyQuestions
+      );
+
+      await quizService.submitQuiz(quiz.id, testUserId, [0, 0, 0]);
+
+      const session = await reminderService.getActiveSession(testUserId);
+      expect(session?.id).toBe(started.id);
+      expect(session?.quizCompleted).toBe(2);
+      expect(session?.wordsReviewed).toBe(7);
+    });
+  });
+
+  describe('問題形式', () => {
+    const mixedQuestions: QuizQuestion[] = [
+      {
+        type: 'cloze',
+        question: '空欄に入る英単語を入力してください',
+        sentence: 'Water is _____ for life.',
+        answer: 'essential',
+        explanation: 'essential: 必要不可欠な',
+        word: 'essential',
+      },
+      {
+        type: 'typed',
+        question: '「効率的な」を意味する英単語を入力してください',
+        answer: 'efficient',
+        explanation: 'efficient: 効率的な',
+        word: 'efficient',
+      },
+      {
+        type: 'matching',
+        question: 'それぞれの英単語に合う意味を選んでください',
+        terms: ['abundant', 'benefit'],
+        definitions: ['利益', '豊富な'],
+        correctMatches: [1, 0],
+        explanation: '',
+      },
+      {
+        type: 'ordering',
+        question: '「水は生命に不可欠だ。」となるように単語を並べ替えてください',
+        tokens: ['life.', 'Water', 'essential', 'for', 'is'],
+        correctOrder: [1, 4, 2, 3, 0],
+        explanation: '',
+      },
+    ];
+
+    it('問題形式ごとのフィールドを保存して復元する', async () => {
+      const quiz = await quizService.createQuiz(testUserId, 'vocabulary', 'easy', mixedQuestions);
+
+      const saved = await quizService.getQuiz(quiz.id);
+
+      expect(saved?.questions).toEqual(mixedQuestions);
+    });
+
+    it('問題形式ごとに採点する', async () => {
+      const quiz = await quizService.createQuiz(testUserId, 'vocabulary', 'easy', mixedQuestions);
+
+      const result = await quizService.submitQuiz(quiz.id, testUserId, [
+        'Essential',
+        'efficent',
+        [1, 1],
+        [1, 4, 2, 3, 0],
+      ]);
+
+      expect(result.details.map((d) => [d.type, d.correct])).toEqual([
+        ['cloze', true],
+        ['typed', true],
+        ['matching', false],
+        ['ordering', true],
+      ]);
+      expect(result.details[1].typo).toBe(true);
+      expect(result.details[2].correctAnswer).toEqual([1, 0]);
+    });
+
+    it('綴りの誤りを許容した正解は復習品質を下げて記録する', async () => {
+      // 初回の復習では ease factor が変わらないため、学習済みの状態にしておく
+      const spacedRepetition = new SpacedRepetitionService();
+      await spacedRepetition.recordReview(testUserId, 'essential', 4);
+      await spacedRepetition.recordReview(testUserId, 'efficient', 4);
+      const quiz = await quizService.createQuiz(testUserId, 'vocabulary', 'easy', mixedQuestions);
+
+      const result = await quizService.submitQuiz(
+        quiz.id,
+        testUserId,
+        ['essential', 'efficent', [1, 0], [1, 4, 2, 3, 0]],
+        [3000, 3000]
+      );
+
+      const [exact, typo] = result.reviews!;
+      expect(typo.isCorrect).toBe(true);
+      expect(typo.easeFactor).toBeLessThan(exact.easeFactor);
+    });
+  });
+
+  describe('qualityFromAnswer', () => {
+    it('不正解は1、正解は回答時間が短いほど高くなる', () => {
+      expect(qualityFromAnswer(false, 1000)).toBe(1);
+      expect(qualityFromAnswer(true, 5000)).toBe(5);
+      expect(qualityFromAnswer(true, 20000)).toBe(4);
+      expect(qualityFromAnswer(true, 60000)).toBe(3);
+      expect(qualityFromAnswer(true)).toBe(4);
+    });
+  });
+
+  describe('findTestedWord', () => {
+    it('単語の一部にだけ一致する場合は紐付けない', () => {
+      const question: QuizQuestion = {
+        type: 'multiple_choice',
+        question: 'Which word means "enough"?',
+        options: ['sufficient', 'a', 'b', 'c'],
+        correctIndex: 0,
+        explanation: '',
+      };
+
+      expect(findTestedWord(question, ['efficient', 'sufficient'])).toBe('sufficient');
+    });
+  });
+});
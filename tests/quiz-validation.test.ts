@@ -0,0 +1,114 @@
+import {
+  extractJson,
+  parseQuizOutput,
+  validateQuizQuestions,
+} from '../backend/src/services/quiz-validation';
+
+const validQuestion = (overrides: Record<string, unknown> = {}) => ({
+  question: '「abundant」の意味は？',
+  options: ['豊富な', '勤勉な', '効率的な', '不可欠な'],
+  correctIndex: 0,
+  explanation: 'abundantは「豊富な」という意味です。',
+  ...overrides,
+});
+
+describe('quiz-validation', () => {
+  describe('extractJson', () => {
+    it('```jsonフェンス内のJSONを取り出す', () => {
+      const text = '以下がクイズです。\n```json\n[{"a": 1}]\n```\n頑張ってください。';
+
+      expect(extractJson(text)).toBe('[{"a": 1}]');
+    });
+
+    it('前後の説明文を除いて配列部分を取り出す', () => {
+      expect(extractJson('クイズ: [1, 2, 3] 以上です')).toBe('[1, 2, 3]');
+    });
+
+    it('JSONがない場合はnull', () => {
+      expect(extractJson('JSONはありません')).toBeNull();
+    });
+  });
+
+  describe('validateQuizQuestions', () => {
+    it('正しい問題配列は有効', () => {
+      const result = validateQuizQuestions([validQuestion(), validQuestion()], 2);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('問題数が異なる場合は無効', () => {
+      const result = validateQuizQuestions([validQuestion()], 3);
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('correctIndexが範囲外の場合は無効', () => {
+      const result = validateQuizQuestions([validQuestion({ correctIndex: 4 })], 1);
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues[0].path).toBe('[0].correctIndex');
+      }
+    });
+
+    it('選択肢が4つでない、または重複している場合は無効', () => {
+      const result = validateQuizQuestions(
+        [
+          validQuestion({ options: ['A', 'B', 'C'] }),
+          validQuestion({ options: ['A', 'B', 'b ', 'D'] }),
+        ],
+        2
+      );
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues.map((i) => i.path)).toEqual(['[0].options', '[1].options']);
+      }
+    });
+
+    it('問題文や解説が空の場合は無効', () => {
+      const result = validateQuizQuestions([validQuestion({ question: ' ', explanation: '' })], 1);
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues.length).toBe(2);
+      }
+    });
+  });
+
+  describe('word（任意）', () => {
+    it('wordがあれば前後の空白を除いて保持する', () => {
+      const result = validateQuizQuestions([validQuestion({ word: ' abundant ' })], 1);
+
+      expect(result.valid && result.questions[0].word).toBe('abundant');
+    });
+
+    it('wordが文字列でない場合は無効', () => {
+      const result = validateQuizQuestions([validQuestion({ word: 1 })], 1);
+
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('parseQuizOutput', () => {
+    it('マークダウン付きの出力をパースできる', () => {
+      const text = '```json\n' + JSON.stringify([validQuestion()]) + '\n```';
+
+      const result = parseQuizOutput(text, 1);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('{ questions: [...] } 形式も受け付ける', () => {
+      const result = parseQuizOutput(JSON.stringify({ questions: [validQuestion()] }), 1);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('構文エラーは問題点として返す', () => {
+      const result = parseQuizOutput('[{"question": }]', 1);
+
+      expect(result.valid).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,14 @@
-import { AIService } from '../backend/src/services/ai';
+import { AIService, QuizGenerationError } from '../backend/src/services/ai';
+import { FixtureProvider } from '../backend/src/services/llm-provider';
+
+const validQuiz = JSON.stringify(
+  [0, 1, 2].map((i) => ({
+    question: `問題${i + 1}`,
+    options: ['A', 'B', 'C', 'D'],
+    correctIndex: i,
+    explanation: `解説${i + 1}`,
+  }))
+);
 
 describe('AIService - Quiz', () => {
   let aiService: AIService;
@@ -27,6 +37,51 @@ describe('AIService - Quiz', () => {
       expect(question.explanation).toBeDefined();
     });
   });
+
+  describe('generateQuiz（検証・修正）', () => {
+    it('フェンス付きの出力から問題を取り出す', async () => {
+      const service = new AIService({
+        quiz: new FixtureProvider([{ content: '```json\n' + validQuiz + '\n```' }]),
+      });
+
+      const questions = await service.generateQuiz('英語');
+
+      expect(questions.length).toBe(3);
+      expect(questions[2].correctIndex).toBe(2);
+    });
+
+    it('不正な出力は問題点を伝えて再生成し、失敗を記録する', async () => {
+      const provider = new FixtureProvider([
+        { content: '[{"question": "問題", "options": ["A"], "correctIndex": 5}]' },
+        { content: validQuiz },
+      ]);
+      const spy = jest.spyOn(provider, 'complete');
+      const service = new AIService({ quiz: provider });
+
+      const questions = await service.generateQuiz('英語');
+
+      expect(questions.length).toBe(3);
+      expect(spy).toHaveBeenCalledTimes(2);
+      const repairRequest = spy.mock.calls[1][0].messages;
+      expect(repairRequest[repairRequest.length - 1].content).toContain('correctIndex');
+
+      const stats = service.getGenerationFailureStats('quiz');
+      expect(stats.invalidAttempts).toBe(1);
+      expect(stats.unrecoverable).toBe(0);
+    });
+
+    it('修正回数の上限を超えるとQuizGenerationErrorになる', async () => {
+      const service = new AIService({
+        quiz: new FixtureProvider([{ content: 'JSONではない出力' }]),
+      });
+
+      await expect(service.generateQuiz('英語')).rejects.toBeInstanceOf(QuizGenerationError);
+
+      const stats = service.getGenerationFailureStats('quiz');
+      expect(stats.invalidAttempts).toBe(3);
+      expect(stats.unrecoverable).toBe(1);
+    });
+  });
 });
 
 describe('Quiz採点ロジック', () => {
@@ -0,0 +1,156 @@
+import { validateLessonManifest } from '../backend/src/services/content-validation';
+import { glossParagraphs, lemmaCandidates } from '../backend/src/services/glossing';
+import { LessonService } from '../backend/src/services/lesson';
+import { LessonAttemptService } from '../backend/src/services/lesson-attempt';
+import { ReminderService } from '../backend/src/services/reminder';
+import { UserService } from '../backend/src/services/user';
+
+const readingManifest = {
+  title: '読解',
+  level: 'A1',
+  paragraphs: ['Remote work has many benefits.'],
+  questions: [
+    {
+      question: 'What does remote work have?',
+      options: ['Benefits', 'Nothing'],
+      correctIndex: 0,
+      explanation: '本文に many benefits とあります。',
+    },
+  ],
+};
+
+describe('読解レッスン', () => {
+  describe('validateLessonManifest（reading）', () => {
+    it('正しいマニフェストは有効で、内容理解問題を4択問題の形にする', () => {
+      const result = validateLessonManifest('reading', 'remote_work.json', readingManifest);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.manifest).toMatchObject({
+        id: 'reading-remote-work',
+        estimatedTime: 5,
+        questions: [{ type: 'multiple_choice', correctIndex: 0 }],
+      });
+    });
+
+    it('本文・選択肢・正解の位置の誤りを問題として返す', () => {
+      const result = validateLessonManifest('reading', 'broken.json', {
+        ...readingManifest,
+        paragraphs: ['ok', ''],
+        questions: [
+          { ...readingManifest.questions[0], options: ['Only one'] },
+          { ...readingManifest.questions[0], correctIndex: 2 },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.issues.map((i) => i.path)).toEqual([
+        'paragraphs',
+        'questions[0].options',
+        'questions[1].correctIndex',
+      ]);
+    });
+  });
+
+  describe('glossing', () => {
+    it('活用形から見出し語の候補を作る', () => {
+      expect(lemmaCandidates('Challenges')).toContain('challenge');
+      expect(lemmaCandidates('demonstrated')).toContain('demonstrate');
+      expect(lemmaCandidates('stopped')).toContain('stop');
+      expect(lemmaCandidates('efficiently')).toContain('efficient');
+      expect(lemmaCandidates('studies')).toContain('study');
+    });
+
+    it('単語帳にある語の位置と見出し語を返す', () => {
+      const glosses = glossParagraphs(
+        ['It brings new Challenges.', 'She works efficiently.'],
+        ['challenge', 'efficient', 'work']
+      );
+
+      expect(glosses).toEqual([
+        { paragraph: 0, start: 14, end: 24, word: 'challenge' },
+        { paragraph: 1, start: 4, end: 9, word: 'work' },
+        { paragraph: 1, start: 10, end: 21, word: 'efficient' },
+      ]);
+    });
+  });
+
+  describe('LessonService', () => {
+    let lessonService: LessonService;
+    let attemptService: LessonAttemptService;
+
+    beforeEach(() => {
+      lessonService = new LessonService();
+      attemptService = new LessonAttemptService();
+    });
+
+    it('本文の語彙に注釈を付け、問題の正解は含めない', async () => {
+      const content = await lessonService.getLessonContent('reading-remote-work');
+
+      expect(content?.type).toBe('reading');
+      if (content?.type !== 'reading') return;
+
+      const glossed = new Set(content.glosses.map((g) => g.word));
+      expect(glossed).toEqual(new Set(Object.keys(content.glossary)));
+      expect(glossed).toContain('challenge');
+      expect(glossed).toContain('efficient');
+      expect(content.glossary.efficient).toMatchObject({
+        definitionJa: expect.any(String),
+        lessonId: 'vocab-basic-english',
+      });
+
+      const first = content.glosses.find((g) => g.word === 'challenge')!;
+      expect(content.paragraphs[first.paragraph].slice(first.start, first.end)).toBe('challenges');
+
+      expect(content.questions[0]).toEqual({
+        question: expect.any(String),
+        options: expect.any(Array),
+      });
+    });
+
+    it('内容理解問題を採点し、読書時間を学習セッションに記録する', async () => {
+      const user = await new UserService().register('reader', 'reader@example.com', 'password');
+
+      const result = await attemptService.submitExercises(
+        user.id,
+        'reading-remote-work',
+        [1, 0, 0],
+        95.4
+      );
+
+      expect(result.score).toBe(2);
+      expect(result.percentage).toBe(67);
+      expect(result.details[2]).toMatchObject({
+        type: 'comprehension',
+        correct: false,
+        userAnswer: 0,
+        correctAnswer: 2,
+      });
+      expect(result.readingSeconds).toBe(95);
+
+      const [session] = await new ReminderService().getRecentSessions(user.id);
+      expect(session.readingSeconds).toBe(95);
+
+      const completed = await lessonService.getCompletedLessons(user.id);
+      expect(completed[0]).toMatchObject({ lessonId: 'reading-remote-work', score: 67 });
+    });
+
+    it('読書時間は進行中のセッションに加算し、上限で丸める', async () => {
+      const user = await new UserService().register('reader2', 'reader2@example.com', 'password');
+
+      await attemptService.submitExercises(user.id, 'reading-remote-work', [], 60);
+      const result = await attemptService.submitExercises(
+        user.id,
+        'reading-remote-work',
+        [],
+        24 * 60 * 60
+      );
+
+      expect(result.readingSeconds).toBe(2 * 60 * 60);
+      const sessions = await new ReminderService().getRecentSessions(user.id);
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].readingSeconds).toBe(60 + 2 * 60 * 60);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import path from 'path';
+import { RetrievalService, tokenize, vocabularyLessonId } from '../backend/src/services/retrieval';
+
+describe('RetrievalService', () => {
+  let retrievalService: RetrievalService;
+
+  beforeEach(() => {
+    RetrievalService.resetIndex();
+    retrievalService = new RetrievalService(path.join(__dirname, '../content'));
+  });
+
+  describe('tokenize', () => {
+    it('英単語は小文字化し、機能語を除外する', () => {
+      expect(tokenize('What does Abundant mean?')).toEqual(['abundant', 'mean']);
+    });
+
+    it('日本語は文字bigramに分割する', () => {
+      expect(tokenize('豊富な')).toEqual(['豊富', '富な']);
+    });
+  });
+
+  describe('vocabularyLessonId', () => {
+    it('ファイル名からレッスンIDを生成する', () => {
+      expect(vocabularyLessonId('basic_english.json')).toBe('vocab-basic-english');
+    });
+  });
+
+  describe('search', () => {
+    it('見出し語を含む質問で該当エントリを返す', () => {
+      const results = retrievalService.search('abundantの意味は？');
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].headword).toBe('abundant');
+      expect(results[0].lessonId).toBe('vocab-basic-english');
+      expect(results[0].excerpt).toContain('豊富な');
+    });
+
+    it('日本語の訳語からも検索できる', () => {
+      const results = retrievalService.search('「効率的」って英語で何？');
+
+      expect(results[0].headword).toBe('efficient');
+    });
+
+    it('関連する教材がない質問では何も返さない', () => {
+      expect(retrievalService.search('hello world')).toEqual([]);
+    });
+  });
+
+  describe('toSources', () => {
+    it('検索結果を出典に変換する', () => {
+      const sources = retrievalService.toSources(retrievalService.search('diligent'));
+
+      expect(sources[0]).toEqual({
+        lessonId: 'vocab-basic-english',
+        type: 'vocabulary',
+        word: 'diligent',
+        score: expect.any(Number),
+      });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { DatabaseService, DbReviewLog } from '../backend/src/services/database';
+import {
+  SchedulerOptimizerService,
+  buildReviewSequences,
+  fitSm2Parameters,
+} from '../backend/src/services/scheduler-optimizer';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { UserService } from '../backend/src/services/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 復習ログを直接登録（days は最初の学習からの日数、quality は各回の回答品質）
+ */
+function insertLogs(userId: string, word: string, days: number[], qualities: number[]): void {
+  const insert = DatabaseService.getInstance()
+    .getDb()
+    .prepare(
+      `INSERT INTO review_logs (user_id, word, reviewed_at, quality, new_interval, new_ease_factor, scheduler_version)
+       VALUES (?, ?, ?, ?, 1, ?, 'sm2-simplified')`
+    );
+  const start = new Date('2026-01-01T00:00:00.000Z').getTime();
+  days.forEach((day, i) => {
+    insert.run(userId, word, new Date(start + day * DAY_MS).toISOString(), qualities[i], 2.1);
+  });
+}
+
+describe('buildReviewSequences', () => {
+  it('単語ごとに前回の復習からの経過日数を求める', () => {
+    const log = (word: string, reviewedAt: string, quality: number) =>
+      ({ word, reviewed_at: reviewedAt, quality }) as DbReviewLog;
+
+    expect(
+      buildReviewSequences([
+        log('a', '2026-01-01T00:00:00.000Z', 4),
+        log('a', '2026-01-03T12:00:00.000Z', 1),
+        log('b', '2026-01-02T00:00:00.000Z', 5),
+      ])
+    ).toEqual([
+      [
+        { elapsedDays: 0, quality: 4 },
+        { elapsedDays: 2.5, quality: 1 },
+      ],
+      [{ elapsedDays: 0, quality: 5 }],
+    ]);
+  });
+});
+
+describe('fitSm2Parameters', () => {
+  it('想起率が目標より低ければ間隔を縮め、高ければ延ばす（0.5〜2倍）', () => {
+    expect(fitSm2Parameters(0.81, 0.9, []).intervalModifier).toBeCloseTo(0.5, 5);
+    expect(fitSm2Parameters(0.85, 0.9, []).intervalModifier).toBeCloseTo(0.648, 3);
+    expect(fitSm2Parameters(1, 0.9, []).intervalModifier).toBe(2);
+  });
+
+  it('初期 ease factor は十分に復習した単語の平均（なければ2.5）', () => {
+    expect(fitSm2Parameters(0.9, 0.9, [1.9, 2.1]).initialEaseFactor).toBeCloseTo(2.0, 5);
+    expect(fitSm2Parameters(0.9, 0.9, []).initialEaseFactor).toBe(2.5);
+  });
+});
+
+describe('SchedulerOptimizerService', () => {
+  let userId: string;
+  let service: SchedulerOptimizerService;
+
+  beforeEach(async () => {
+    userId = (await new UserService().register('optimizer', 'optimizer@example.com', 'password'))
+      .id;
+    service = new SchedulerOptimizerService();
+  });
+
+  it('復習数が足りない場合は調整しない', async () => {
+    insertLogs(userId, 'abundant', [0, 1, 7], [4, 4, 4]);
+
+    expect(await service.optimizeUser(userId)).toBeNull();
+    expect(await service.getReport(userId)).toBeNull();
+  });
+
+  it('復習ログからパラメータを調整して保存し、以降の復習に使う', async () => {
+    // 1日後は思い出せるが、5日後・12日後には忘れがちな学習者
+    for (let i = 0; i < 25; i++) {
+      insertLogs(
+        userId,
+        `word${i}`,
+        [0, 1, 6, 18],
+        [4, 4, i % 3 === 0 ? 4 : 1, i % 4 === 0 ? 4 : 1]
+      );
+    }
+
+    const report = await service.optimizeUser(userId);
+
+    expect(report).not.toBeNull();
+    expect(report?.reviewCount).toBe(75);
+    expect(report?.logLossAfter).toBeLessThan(report?.logLossBefore ?? 0);
+    expect(report?.sm2.initialEaseFactor).toBeCloseTo(2.1, 5);
+    expect(report?.sm2.intervalModifier).toBe(0.5);
+    expect(report?.predictedRetentionGain).toBeGreaterThan(0);
+    expect(await service.getReport(userId)).toEqual(report);
+
+    // 調整後は新しい単語の ease factor が学習者に合わせた値になる
+    const review = await new SpacedRepetitionService().recordReview(userId, 'benefit', 4);
+    expect(review.easeFactor).toBeCloseTo(2.1, 5);
+  });
+
+  it('dryRun では保存しない', async () => {
+    for (let i = 0; i < 25; i++) {
+      insertLogs(userId, `word${i}`, [0, 1, 6], [4, 4, 4]);
+    }
+
+    expect(await service.optimizeUser(userId, { dryRun: true })).not.toBeNull();
+    expect(await service.getReport(userId)).toBeNull();
+  });
+});
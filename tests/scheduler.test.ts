@@ -0,0 +1,79 @@
+import {
+  FsrsScheduler,
+  SchedulerCard,
+  Sm2Scheduler,
+  fsrsRetrievability,
+  seedFsrsState,
+} from '../backend/src/services/scheduler';
+
+const NOW = new Date('2026-01-10T00:00:00.000Z');
+
+function card(overrides: Partial<SchedulerCard> = {}): SchedulerCard {
+  return {
+    correctCount: 0,
+    incorrectCount: 0,
+    easeFactor: 2.5,
+    intervalDays: 1,
+    lastReviewed: '2026-01-09T00:00:00.000Z',
+    stability: null,
+    difficulty: null,
+    ...overrides,
+  };
+}
+
+describe('Sm2Scheduler', () => {
+  const scheduler = new Sm2Scheduler();
+
+  it('正解の間隔は1日 → 6日 → 前回の間隔 × ease factor', () => {
+    expect(scheduler.schedule(card({ correctCount: 0 }), 5).intervalDays).toBe(1);
+    expect(scheduler.schedule(card({ correctCount: 1 }), 5).intervalDays).toBe(6);
+    expect(
+      scheduler.schedule(card({ correctCount: 2, intervalDays: 6, easeFactor: 2.6 }), 5)
+        .intervalDays
+    ).toBe(16);
+  });
+
+  it('不正解は1日に戻し、ease factor を下げる（下限1.3）', () => {
+    const result = scheduler.schedule(card({ correctCount: 5, intervalDays: 30 }), 1);
+    expect(result.intervalDays).toBe(1);
+    expect(result.easeFactor).toBeCloseTo(1.96, 5);
+    expect(scheduler.schedule(card({ easeFactor: 1.3 }), 0).easeFactor).toBe(1.3);
+  });
+});
+
+describe('FsrsScheduler', () => {
+  const scheduler = new FsrsScheduler();
+
+  it('初回は評価ごとの初期安定性から間隔を決める', () => {
+    expect(scheduler.schedule(null, 1, NOW)).toMatchObject({ stability: 0.4872, intervalDays: 1 });
+    expect(scheduler.schedule(null, 5, NOW)).toMatchObject({
+      stability: 13.8206,
+      intervalDays: 14,
+    });
+  });
+
+  it('予定どおりに正解すると安定性が伸び、忘れると短くなる', () => {
+    const state = card({ stability: 10, difficulty: 5, lastReviewed: '2025-12-31T00:00:00.000Z' });
+
+    const good = scheduler.schedule(state, 4, NOW);
+    const again = scheduler.schedule(state, 1, NOW);
+
+    expect(good.stability).toBeGreaterThan(10);
+    expect(good.intervalDays).toBeGreaterThan(10);
+    expect(again.stability).toBeLessThan(10);
+    expect(again.difficulty).toBeGreaterThan(5);
+  });
+
+  it('想起率は安定性と同じ日数が経つと9割になる', () => {
+    expect(fsrsRetrievability(10, 0)).toBe(1);
+    expect(fsrsRetrievability(10, 10)).toBeCloseTo(0.9, 5);
+  });
+
+  it('FSRSの状態がない単語はSM-2の間隔・ease factorから推定する', () => {
+    expect(seedFsrsState(card({ intervalDays: 15, easeFactor: 2.5 }))).toEqual({
+      stability: 15,
+      difficulty: 5,
+    });
+    expect(seedFsrsState(card({ easeFactor: 1.3 })).difficulty).toBe(10);
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentRegistry, findPrerequisiteCycles } from '../backend/src/services/content-registry';
+import { validateLessonManifest } from '../backend/src/services/content-validation';
+import { LessonService } from '../backend/src/services/lesson';
+import { UserService } from '../backend/src/services/user';
+
+const vocabulary = (title: string, prerequisites?: unknown) => ({
+  title,
+  level: 'A1',
+  ...(prerequisites !== undefined ? { prerequisites } : {}),
+  words: [
+    {
+      word: title.toLowerCase(),
+      pronunciation: '',
+      partOfSpeech: 'noun',
+      definition: `definition of ${title}`,
+      definitionJa: `${title}の意味`,
+      example: `This is ${title}.`,
+      exampleJa: `これは${title}です。`,
+    },
+  ],
+});
+
+describe('前提レッスンの検証', () => {
+  it('レッスンIDだけの指定はデフォルトの合格点で補う', () => {
+    const result = validateLessonManifest(
+      'vocabulary',
+      'travel.json',
+      vocabulary('Travel', ['vocab-basic', { lessonId: 'vocab-airport', minScore: 80 }])
+    );
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.manifest.prerequisites).toEqual([
+      { lessonId: 'vocab-basic', minScore: 60 },
+      { lessonId: 'vocab-airport', minScore: 80 },
+    ]);
+  });
+
+  it('自分自身・重複・範囲外の合格点を問題として返す', () => {
+    const result = validateLessonManifest(
+      'vocabulary',
+      'travel.json',
+      vocabulary('Travel', [
+        'vocab-travel',
+        { lessonId: 'vocab-basic', minScore: 120 },
+        'vocab-basic',
+        3,
+      ])
+    );
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues.map((i) => i.path)).toEqual([
+      'prerequisites[0].lessonId',
+      'prerequisites[1].minScore',
+      'prerequisites[2].lessonId',
+      'prerequisites[3]',
+    ]);
+  });
+});
+
+describe('findPrerequisiteCycles', () => {
+  it('循環を先頭のIDで閉じた経路として返す', () => {
+    const graph = new Map([
+      ['a', ['b']],
+      ['b', ['c']],
+      ['c', ['a']],
+      ['d', ['a']],
+    ]);
+
+    expect(findPrerequisiteCycles(graph)).toEqual([['a', 'b', 'c', 'a']]);
+    expect(findPrerequisiteCycles(new Map([['a', []]]))).toEqual([]);
+  });
+});
+
+describe('スキルツリー', () => {
+  let contentDir: string;
+
+  const writeManifest = (fileName: string, data: unknown) => {
+    fs.mkdirSync(path.join(contentDir, 'vocabulary'), { recursive: true });
+    fs.writeFileSync(path.join(contentDir, 'vocabulary', fileName), JSON.stringify(data));
+  };
+
+  beforeEach(() => {
+    ContentRegistry.reset();
+    contentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skill-tree-'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(contentDir, { recursive: true, force: true });
+  });
+
+  it('存在しない前提・循環する前提のレッスンは読み込まずにエラーにする', () => {
+    writeManifest('basic.json', vocabulary('Basic'));
+    writeManifest('orphan.json', vocabulary('Orphan', ['vocab-missing']));
+    writeManifest('loop_a.json', vocabulary('LoopA', ['vocab-loop-b']));
+    writeManifest('loop_b.json', vocabulary('LoopB', ['vocab-loop-a']));
+    writeManifest('after_loop.json', vocabulary('AfterLoop', ['vocab-loop-a', 'vocab-basic']));
+
+    const registry = ContentRegistry.forDir(contentDir);
+
+    expect(registry.getLessons().map((l) => l.id)).toEqual(['vocab-basic']);
+    const messages = Object.fromEntries(
+      registry.getErrors().map((e) => [e.file, e.issues.map((i) => i.message)])
+    );
+    expect(messages[path.join('vocabulary', 'orphan.json')]).toEqual([
+      '前提レッスン「vocab-missing」が見つかりません',
+    ]);
+    expect(messages[path.join('vocabulary', 'loop_a.json')]).toEqual([
+      '前提レッスンが循環しています: vocab-loop-a → vocab-loop-b → vocab-loop-a',
+    ]);
+    expect(messages[path.join('vocabulary', 'loop_b.json')]).toHaveLength(1);
+    expect(messages[path.join('vocabulary', 'after_loop.json')]).toEqual([
+      '前提レッスン「vocab-loop-a」が見つかりません',
+    ]);
+  });
+
+  it('前提レッスンの修了と得点に応じて解放状態を返す', async () => {
+    writeManifest('basic.json', vocabulary('Basic'));
+    writeManifest('travel.json', vocabulary('Travel', ['vocab-basic']));
+    writeManifest(
+      'airport.json',
+      vocabulary('Airport', [{ lessonId: 'vocab-travel', minScore: 80 }])
+    );
+
+    const userService = new UserService();
+    const learner = (await userService.register('learner', 'learner@example.com', 'password')).id;
+    const other = (await userService.register('other', 'other@example.com', 'password')).id;
+    const service = new LessonService(contentDir);
+    const stateOf = async (userId: string) =>
+      Object.fromEntries((await service.getSkillTree(userId)).map((n) => [n.lesson.id, n.state]));
+
+    expect(await stateOf(learner)).toEqual({
+      'vocab-airport': 'locked',
+      'vocab-basic': 'unlocked',
+      'vocab-travel': 'locked',
+      'word-of-the-day': 'unlocked',
+    });
+
+    // 得点のない完了は合格として扱う
+    await service.markComplete(learner, 'vocab-basic');
+    await service.markComplete(learner, 'vocab-travel', 70);
+    expect(await stateOf(learner)).toMatchObject({
+      'vocab-basic': 'completed',
+      'vocab-travel': 'completed',
+      'vocab-airport': 'locked',
+    });
+
+    await service.markComplete(learner, 'vocab-travel', 85);
+    const tree = await service.getSkillTree(learner);
+    const airport = tree.find((n) => n.lesson.id === 'vocab-airport')!;
+    expect(airport).toMatchObject({
+      state: 'unlocked',
+      depth: 2,
+      bestScore: null,
+      prerequisites: [{ lessonId: 'vocab-travel', minScore: 80, satisfied: true }],
+    });
+    expect(tree.find((n) => n.lesson.id === 'vocab-travel')?.bestScore).toBe(85);
+
+    expect((await stateOf(other))['vocab-travel']).toBe('locked');
+  });
+
+  it('採点のあるレッスンは、得点のない完了だけでは前提を満たさない', async () => {
+    fs.mkdirSync(path.join(contentDir, 'grammar'), { recursive: true });
+    fs.writeFileSync(
+      path.join(contentDir, 'grammar', 'tense.json'),
+      JSON.stringify({
+        title: '時制',
+        level: 'A2',
+        rule: 'have/has + 過去分詞',
+        explanation: '主語が三人称単数のときは has を使います。',
+        examples: [{ correct: 'She has lived here.', incorrect: 'She have lived here.' }],
+        exercises: [
+          {
+            type: 'error_correction',
+            instruction: '誤りを直してください。',
+            sentence: 'He have worked here.',
+            answer: 'He has worked here.',
+            explanation: '三人称単数なので has。',
+          },
+        ],
+      })
+    );
+    writeManifest('after_grammar.json', vocabulary('AfterGrammar', ['grammar-tense']));
+
+    const learner = (await new UserService().register('learner', 'learner@example.com', 'password'))
+      .id;
+    const service = new LessonService(contentDir);
+    const stateOf = async () =>
+      Object.fromEntries((await service.getSkillTree(learner)).map((n) => [n.lesson.id, n.state]));
+
+    await service.markComplete(learner, 'grammar-tense');
+    expect((await stateOf())['vocab-after-grammar']).toBe('locked');
+
+    await service.markComplete(learner, 'grammar-tense', 80);
+    expect((await stateOf())['vocab-after-grammar']).toBe('unlocked');
+  });
+});
@@ -1,4 +1,11 @@
-import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { AIService, WordGenerationError } from '../backend/src/services/ai';
+import { DatabaseService } from '../backend/src/services/database';
+import { FixtureProvider } from '../backend/src/services/llm-provider';
+import { NotificationService } from '../backend/src/services/notification';
+import {
+  RELEARNING_STEP_MINUTES,
+  SpacedRepetitionService,
+} from '../backend/src/services/spaced-repetition';
 import { UserService } from '../backend/src/services/user';
 
 describe('SpacedRepetitionService', () => {
@@ -58,6 +65,26 @@ describe('SpacedRepetitionService', () => {
       expect(result.incorrectCount).toBe(1);
     });
 
+    it('忘れた単語は再学習のステップの後、同じ日のうちにもう一度出題する', async () => {
+      await srService.recordReview(testUserId, 'abundant', 5);
+      const before = Date.now();
+      const result = await srService.recordReview(testUserId, 'abundant', 1);
+
+      const delay = new Date(result.nextReviewDate).getTime() - before;
+      expect(delay).toBeGreaterThanOrEqual(RELEARNING_STEP_MINUTES * 60 * 1000);
+      expect(delay).toBeLessThan(RELEARNING_STEP_MINUTES * 60 * 1000 + 60 * 1000);
+      expect((await srService.getWordsToReview(testUserId)).map((w) => w.word)).toEqual([
+        'abundant',
+      ]);
+
+      // 再学習で思い出したら、スケジューラーの間隔で次の復習日を決める
+      const relearned = await srService.recordReview(testUserId, 'abundant', 4);
+      expect(relearned.intervalDays).toBeGreaterThanOrEqual(1);
+      expect(new Date(relearned.nextReviewDate).getTime() - Date.now()).toBeGreaterThan(
+        relearned.intervalDays * 24 * 60 * 60 * 1000 - 60 * 1000
+      );
+    });
+
     it('quality=3以上で正解とみなす', async () => {
       const result3 = await srService.recordReview(testUserId, 'word1', 3);
       expect(result3.isCorrect).toBe(true);
@@ -130,4 +157,246 @@ describe('SpacedRepetitionService', () => {
       expect(history).toBeNull();
     });
   });
+
+  describe('スケジューラーの切り替え', () => {
+    it('未設定の場合はSM-2で、FSRSの状態を持たない', async () => {
+      expect(await srService.getSettings(testUserId)).toEqual({
+        scheduler: 'sm2',
+        desiredRetention: 0.9,
+        leechThreshold: 8,
+        leechMnemonic: true,
+        newCardsPerDay: 10,
+        maxReviewsPerDay: 100,
+        studyDecks: null,
+      });
+
+      const result = await srService.recordReview(testUserId, 'abundant', 4);
+      expect(result).toMatchObject({ intervalDays: 1, stability: null, difficulty: null });
+    });
+
+    it('FSRSに切り替えると既存の学習履歴から安定性・難易度を推定する', async () => {
+      await srService.recordReview(testUserId, 'abundant', 5);
+      await srService.recordReview(testUserId, 'abundant', 5);
+
+      const settings = await srService.updateSettings(testUserId, { scheduler: 'fsrs' });
+      expect(settings).toMatchObject({
+        scheduler: 'fsrs',
+        desiredRetention: 0.9,
+        migratedWords: 1,
+      });
+
+      const history = await srService.getWordHistory(testUserId, 'abundant');
+      expect(history?.stability).toBe(6);
+      expect(history?.difficulty).toBeCloseTo(4.58, 2);
+      expect(history?.retrievability).toBeCloseTo(1, 2);
+
+      // 移行済みの単語は再度移行しない
+      expect(
+        (await srService.updateSettings(testUserId, { scheduler: 'fsrs' })).migratedWords
+      ).toBe(0);
+    });
+
+    it('FSRSでは目標の想起率が低いほど間隔が長くなる', async () => {
+      await srService.updateSettings(testUserId, { scheduler: 'fsrs' });
+      const standard = await srService.recordReview(testUserId, 'word1', 4);
+
+      await srService.updateSettings(testUserId, { desiredRetention: 0.8 });
+      const relaxed = await srService.recordReview(testUserId, 'word2', 4);
+
+      expect(standard.stability).toBeCloseTo(3.7145, 4);
+      expect(standard.intervalDays).toBe(4);
+      expect(relaxed.intervalDays).toBeGreaterThan(standard.intervalDays);
+    });
+  });
+
+  describe('getReviewLog', () => {
+    it('復習ごとに回答品質・回答時間・前後の間隔を記録する', async () => {
+      await srService.recordReview(testUserId, 'abundant', 4, 2500);
+      await srService.recordReview(testUserId, 'abundant', 1);
+
+      const log = await srService.getReviewLog(testUserId, { word: 'abundant' });
+
+      expect(log.total).toBe(2);
+      expect(log.entries).toMatchObject([
+        {
+          word: 'abundant',
+          quality: 1,
+          responseTimeMs: null,
+          previousIntervalDays: 1,
+          newIntervalDays: 1,
+          previousEaseFactor: 2.5,
+          schedulerVersion: 'sm2-simplified',
+        },
+        {
+          quality: 4,
+          responseTimeMs: 2500,
+          previousIntervalDays: null,
+          previousEaseFactor: null,
+          newEaseFactor: 2.5,
+        },
+      ]);
+    });
+
+    it('ユーザーの全単語のログをページングして取得できる', async () => {
+      for (const word of ['word1', 'word2', 'word3']) {
+        await srService.recordReview(testUserId, word, 4);
+      }
+
+      const firstPage = await srService.getReviewLog(testUserId, { limit: 2 });
+      const secondPage = await srService.getReviewLog(testUserId, { limit: 2, offset: 2 });
+
+      expect(firstPage).toMatchObject({ total: 3, limit: 2, offset: 0 });
+      expect(firstPage.entries.map((e) => e.word)).toEqual(['word3', 'word2']);
+      expect(secondPage.entries.map((e) => e.word)).toEqual(['word1']);
+    });
+  });
+
+  describe('リーチ・停止・延期', () => {
+    /**
+     * 復習日を過去にして今日の復習対象にする
+     */
+    const makeDue = (word: string) =>
+      DatabaseService.getInstance()
+        .getDb()
+        .prepare('UPDATE word_history SET next_review = ? WHERE user_id = ? AND word = ?')
+        .run('2000-01-01T00:00:00.000Z', testUserId, word);
+
+    it('覚えた後に忘れた回数が上限に達するとリーチにして知らせる', async () => {
+      await srService.updateSettings(testUserId, { leechThreshold: 2 });
+
+      // 初回の不正解は覚える前なので数えない
+      await srService.recordReview(testUserId, 'abundant', 1);
+      await srService.recordReview(testUserId, 'abundant', 4);
+      expect((await srService.recordReview(testUserId, 'abundant', 1)).lapses).toBe(1);
+      await srService.recordReview(testUserId, 'abundant', 4);
+      const result = await srService.recordReview(testUserId, 'abundant', 0);
+
+      expect(result).toMatchObject({ lapses: 2, state: 'leech' });
+      makeDue('abundant');
+      expect(await srService.getWordsToReview(testUserId)).toEqual([]);
+
+      const [leech] = await srService.getLeeches(testUserId);
+      expect(leech).toMatchObject({ word: 'abundant', mnemonic: null });
+
+      const notifications = await new NotificationService().list(testUserId);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({ type: 'leech', data: { word: 'abundant' } });
+
+      // 再開すると忘却回数を数え直して復習対象に戻る
+      expect(await srService.unsuspendWord(testUserId, 'abundant')).toMatchObject({
+        state: 'active',
+        lapses: 0,
+      });
+      expect((await srService.getWordsToReview(testUserId)).map((w) => w.word)).toEqual([
+        'abundant',
+      ]);
+    });
+
+    it('AIの応答が遅い・失敗する場合も、リーチにする復習の記録は待たずに返る', async () => {
+      const provider = new FixtureProvider([]);
+      const complete = jest.spyOn(provider, 'complete').mockReturnValue(new Promise(() => {}));
+      srService = new SpacedRepetitionService(new AIService({ word: provider }, testUserId));
+      await srService.updateSettings(testUserId, { leechThreshold: 2 });
+
+      for (const quality of [4, 1, 4]) {
+        await srService.recordReview(testUserId, 'consequence', quality);
+      }
+      const result = await srService.recordReview(testUserId, 'consequence', 1);
+
+      expect(result).toMatchObject({ lapses: 2, state: 'leech' });
+      expect(complete).not.toHaveBeenCalled();
+      expect(await new NotificationService().list(testUserId, { unreadOnly: true })).toHaveLength(
+        1
+      );
+    });
+
+    it('リーチの覚え方は初めて求められたときに生成して保存する', async () => {
+      const provider = new FixtureProvider([{ content: 'abundant は「あ、ブンダント（豊富）」' }]);
+      const complete = jest.spyOn(provider, 'complete');
+      srService = new SpacedRepetitionService(new AIService({ word: provider }, testUserId));
+      await srService.updateSettings(testUserId, { leechThreshold: 1 });
+
+      await srService.recordReview(testUserId, 'abundant', 4);
+      await srService.recordReview(testUserId, 'abundant', 1);
+
+      const mnemonic = 'abundant は「あ、ブンダント（豊富）」';
+      expect(await srService.getOrCreateMnemonic(testUserId, 'abundant')).toMatchObject({
+        state: 'leech',
+        mnemonic,
+      });
+      expect(await srService.getOrCreateMnemonic(testUserId, 'abundant')).toMatchObject({
+        mnemonic,
+      });
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect((await srService.getLeeches(testUserId))[0].mnemonic).toBe(mnemonic);
+    });
+
+    it('覚え方の生成に失敗しても、リーチのまま覚え方なしで残す', async () => {
+      const provider = new FixtureProvider([]);
+      jest.spyOn(provider, 'complete').mockRejectedValue(new Error('timeout'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      srService = new SpacedRepetitionService(new AIService({ word: provider }, testUserId));
+      await srService.updateSettings(testUserId, { leechThreshold: 1 });
+
+      await srService.recordReview(testUserId, 'consequence', 4);
+      await srService.recordReview(testUserId, 'consequence', 1);
+
+      await expect(srService.getOrCreateMnemonic(testUserId, 'consequence')).rejects.toThrow(
+        WordGenerationError
+      );
+      expect(await srService.getWordHistory(testUserId, 'consequence')).toMatchObject({
+        state: 'leech',
+        mnemonic: null,
+      });
+    });
+
+    it('リーチでない単語・覚え方の生成を無効にした場合は生成しない', async () => {
+      const provider = new FixtureProvider([]);
+      const complete = jest.spyOn(provider, 'complete');
+      srService = new SpacedRepetitionService(new AIService({ word: provider }, testUserId));
+      await srService.updateSettings(testUserId, { leechThreshold: 1, leechMnemonic: false });
+
+      await srService.recordReview(testUserId, 'word1', 4);
+      await srService.recordReview(testUserId, 'word2', 4);
+      await srService.recordReview(testUserId, 'word2', 1);
+
+      expect(await srService.getOrCreateMnemonic(testUserId, 'word1')).toMatchObject({
+        state: 'active',
+        mnemonic: null,
+      });
+      expect(await srService.getOrCreateMnemonic(testUserId, 'word2')).toMatchObject({
+        state: 'leech',
+        mnemonic: null,
+      });
+      expect(await srService.getOrCreateMnemonic(testUserId, 'unknown')).toBeNull();
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('停止した単語・延期中の単語は復習対象から外す', async () => {
+      await srService.recordReview(testUserId, 'word1', 4);
+      await srService.recordReview(testUserId, 'word2', 4);
+      await srService.recordReview(testUserId, 'word3', 4);
+      ['word1', 'word2', 'word3'].forEach(makeDue);
+
+      await srService.suspendWord(testUserId, 'word1');
+      const buried = await srService.buryWord(testUserId, 'word2', 3);
+
+      expect(buried?.state).toBe('buried');
+      expect(buried?.buriedUntil).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect((await srService.getWordsToReview(testUserId)).map((w) => w.word)).toEqual(['word3']);
+      expect((await srService.getStats(testUserId)).dueToday).toBe(1);
+
+      // 延期の期限が来たら復習対象に戻る
+      DatabaseService.getInstance()
+        .getDb()
+        .prepare('UPDATE word_history SET buried_until = ? WHERE user_id = ? AND word = ?')
+        .run('2000-01-02', testUserId, 'word2');
+      expect((await srService.getWordsToReview(testUserId)).map((w) => w.word).sort()).toEqual([
+        'word2',
+        'word3',
+      ]);
+
+      expect(await srService.suspendWord(testUserId, 'unknown')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,154 @@
+import { DatabaseService } from '../backend/src/services/database';
+import { ReminderService } from '../backend/src/services/reminder';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import {
+  StudyLimitError,
+  StudyQueueService,
+  getLocalDay,
+} from '../backend/src/services/study-queue';
+import { UserService } from '../backend/src/services/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getLocalDay', () => {
+  it('学習者のタイムゾーンの0時から翌日0時までを1日とする', () => {
+    const day = getLocalDay('Asia/Tokyo', new Date('2026-03-01T16:30:00.000Z'));
+
+    expect(day.date).toBe('2026-03-02');
+    expect(day.start.toISOString()).toBe('2026-03-01T15:00:00.000Z');
+    expect(day.end.toISOString()).toBe('2026-03-02T15:00:00.000Z');
+  });
+
+  it('夏時間の切り替え日は23時間、不正なタイムゾーンはデフォルトを使う', () => {
+    const day = getLocalDay('America/New_York', new Date('2026-03-08T12:00:00.000Z'));
+    expect(day.start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(day.end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+
+    expect(getLocalDay('Invalid/Zone', new Date('2026-03-01T16:30:00.000Z')).timezone).toBe(
+      'Asia/Tokyo'
+    );
+  });
+});
+
+describe('StudyQueueService', () => {
+  let userId: string;
+  let srService: SpacedRepetitionService;
+  let service: StudyQueueService;
+
+  /**
+   * 復習日を daysAgo 日前にし、間隔を intervalDays 日にする
+   */
+  const setSchedule = (word: string, daysAgo: number, intervalDays: number) =>
+    DatabaseService.getInstance()
+      .getDb()
+      .prepare(
+        'UPDATE word_history SET next_review = ?, interval = ? WHERE user_id = ? AND word = ?'
+      )
+      .run(new Date(Date.now() - daysAgo * DAY_MS).toISOString(), intervalDays, userId, word);
+
+  beforeEach(async () => {
+    userId = (await new UserService().register('queue', 'queue@example.com', 'password')).id;
+    srService = new SpacedRepetitionService();
+    service = new StudyQueueService();
+  });
+
+  it('忘れた単語 → 期限の過ぎ方が大きい復習の順に上限まで並べ、新しい単語を挟む', async () => {
+    await srService.updateSettings(userId, {
+      newCardsPerDay: 5,
+      maxReviewsPerDay: 2,
+      studyDecks: ['vocab-basic-english'],
+    });
+    for (const [word, quality] of [
+      ['abundant', 4],
+      ['consequence', 4],
+      ['diligent', 4],
+      ['essential', 1],
+    ] as const) {
+      await srService.recordReview(userId, word, quality);
+    }
+    setSchedule('abundant', 10, 20);
+    setSchedule('consequence', 3, 1);
+    setSchedule('diligent', 1, 1);
+    setSchedule('essential', 1, 1);
+
+    const queue = await service.buildQueue(userId);
+
+    expect(queue.items.map((i) => [i.kind, i.word])).toEqual([
+      ['relearning', 'essential'],
+      ['review', 'consequence'],
+      ['new', 'fluctuate'],
+    ]);
+    expect(queue.items[2].deckId).toBe('vocab-basic-english');
+    expect(queue.counts).toEqual({ relearning: 1, review: 1, new: 1 });
+    expect(queue.daily).toMatchObject({
+      newStudiedToday: 4,
+      newRemaining: 1,
+      reviewsDoneToday: 0,
+      reviewsRemaining: 2,
+    });
+  });
+
+  it('今日の復習数が上限に達したら復習を出さない', async () => {
+    await srService.updateSettings(userId, { newCardsPerDay: 0, maxReviewsPerDay: 1 });
+    await srService.recordReview(userId, 'abundant', 4);
+    await srService.recordReview(userId, 'abundant', 4);
+    await srService.recordReview(userId, 'consequence', 4);
+    setSchedule('consequence', 2, 1);
+
+    const queue = await service.buildQueue(userId);
+
+    expect(queue.items).toEqual([]);
+    expect(queue.daily).toMatchObject({
+      reviewsDoneToday: 1,
+      reviewsRemaining: 0,
+      newRemaining: 0,
+    });
+  });
+
+  it('今日忘れた単語は同じ日のキューに再学習として戻る', async () => {
+    await srService.recordReview(userId, 'abundant', 4);
+    setSchedule('abundant', 1, 1);
+    await srService.recordReview(userId, 'abundant', 1);
+
+    const queue = await service.buildQueue(userId);
+
+    expect(queue.items.map((i) => [i.kind, i.word])).toContainEqual(['relearning', 'abundant']);
+    expect(queue.counts.relearning).toBe(1);
+  });
+
+  it('1日の上限に達したら新しい単語・復習の記録を受け付けない', async () => {
+    await srService.updateSettings(userId, { newCardsPerDay: 1, maxReviewsPerDay: 1 });
+
+    await service.assertWithinDailyLimits(userId, 'abundant');
+    await srService.recordReview(userId, 'abundant', 4);
+    await expect(service.assertWithinDailyLimits(userId, 'consequence')).rejects.toMatchObject({
+      code: 'new_limit_reached',
+    });
+
+    await service.assertWithinDailyLimits(userId, 'abundant');
+    await srService.recordReview(userId, 'abundant', 1);
+    await expect(service.assertWithinDailyLimits(userId, 'abundant')).rejects.toThrow(
+      StudyLimitError
+    );
+    await expect(service.assertWithinDailyLimits(userId, 'abundant')).rejects.toMatchObject({
+      code: 'review_limit_reached',
+    });
+  });
+
+  it('1日の数え方は学習者のタイムゾーンの日付に従う', async () => {
+    await new ReminderService().updateSettings(userId, { timezone: 'America/New_York' });
+    const now = new Date('2026-03-02T03:00:00.000Z'); // ニューヨークでは3月1日22時
+    DatabaseService.getInstance()
+      .getDb()
+      .prepare(
+        `INSERT INTO review_logs (user_id, word, reviewed_at, quality, new_interval, new_ease_factor, scheduler_version)
+         VALUES (?, 'abundant', ?, 4, 1, 2.5, 'sm2-simplified')`
+      )
+      .run(userId, '2026-03-01T06:00:00.000Z'); // ニューヨークでは3月1日1時
+
+    const queue = await service.buildQueue(userId, now);
+
+    expect(queue).toMatchObject({ date: '2026-03-01', timezone: 'America/New_York' });
+    expect(queue.daily.newStudiedToday).toBe(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { UsageService, estimateCost, getMonthStart } from '../backend/src/services/usage';
+import { AIService } from '../backend/src/services/ai';
+import { FixtureProvider } from '../backend/src/services/llm-provider';
+import { UserService } from '../backend/src/services/user';
+import { PLANS } from '../backend/src/services/plan';
+
+describe('UsageService', () => {
+  let usageService: UsageService;
+  let userService: UserService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    usageService = new UsageService();
+    userService = new UserService();
+
+    const user = await userService.register(
+      'usagetest',
+      `usagetest${Date.now()}@example.com`,
+      'password'
+    );
+    testUserId = user.id;
+  });
+
+  const usage = (promptTokens: number, completionTokens: number) => ({
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  });
+
+  describe('estimateCost', () => {
+    it('日付付きのモデル名も料金表から計算する', () => {
+      expect(estimateCost('gpt-4o-2024-08-06', usage(1_000_000, 0))).toBe(2.5);
+    });
+
+    it('前方一致するモデルが複数ある場合は最も長い名前を使う', () => {
+      expect(estimateCost('gpt-4o-mini', usage(0, 1_000_000))).toBe(0.6);
+    });
+
+    it('料金表にないモデルは0とする', () => {
+      expect(estimateCost('fixture', usage(1000, 1000))).toBe(0);
+    });
+  });
+
+  describe('recordUsage / getUsageByFeature', () => {
+    it('機能別にトークン数とコストを集計する', () => {
+      usageService.recordUsage({
+        userId: testUserId,
+        feature: 'ask',
+        model: 'gpt-4',
+        usage: usage(100, 50),
+        latencyMs: 120,
+      });
+      usageService.recordUsage({
+        userId: testUserId,
+        feature: 'ask',
+        model: 'gpt-4',
+        usage: usage(200, 50),
+        latencyMs: 80,
+      });
+      usageService.recordUsage({
+        userId: testUserId,
+        feature: 'quiz',
+        model: 'gpt-4',
+        usage: usage(300, 300),
+        latencyMs: 300,
+      });
+
+      const byFeature = usageService.getUsageByFeature(testUserId);
+
+      expect(byFeature.map((f) => f.feature)).toEqual(['ask', 'quiz']);
+      expect(byFeature[0]).toMatchObject({ requests: 2, promptTokens: 300, totalTokens: 400 });
+      expect(byFeature[0].costUsd).toBeCloseTo((300 * 30 + 100 * 60) / 1_000_000);
+      expect(usageService.getMonthlyTokens(testUserId)).toBe(1000);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('プランの月次予算を超えると利用不可になる', () => {
+      const limit = PLANS.free.limits.monthlyAiTokens;
+      usageService.recordUsage({
+        userId: testUserId,
+        feature: 'ask',
+        model: 'fixture',
+        usage: usage(limit, 0),
+        latencyMs: null,
+      });
+
+      const budget = usageService.checkBudget(testUserId);
+
+      expect(budget.allowed).toBe(false);
+      expect(budget.used).toBe(limit);
+      expect(budget.remaining).toBe(0);
+    });
+
+    it('Premiumプランは予算が引き上げられる', async () => {
+      await userService.upgradePlan(testUserId, 'premium');
+      usageService.recordUsage({
+        userId: testUserId,
+        feature: 'ask',
+        model: 'fixture',
+        usage: usage(PLANS.free.limits.monthlyAiTokens, 0),
+        latencyMs: null,
+      });
+
+      const budget = usageService.checkBudget(testUserId);
+
+      expect(budget.allowed).toBe(true);
+      expect(budget.limit).toBe(PLANS.premium.limits.monthlyAiTokens);
+    });
+  });
+
+  describe('getMonthlySummary', () => {
+    it('当月の利用状況をまとめて返す', () => {
+      const summary = usageService.getMonthlySummary(testUserId);
+
+      expect(summary.periodStart).toBe(getMonthStart());
+      expect(summary.tokens.used).toBe(0);
+      expect(summary.byFeature).toEqual([]);
+    });
+  });
+
+  describe('AIServiceからの記録', () => {
+    it('プロバイダー呼び出しごとに利用量を記録する', async () => {
+      const aiService = new AIService(
+        { ask: new FixtureProvider([{ content: '回答' }]) },
+        testUserId
+      );
+
+      await aiService.answerQuestion('質問');
+      await aiService.streamAnswer('質問', () => undefined);
+
+      const [ask] = usageService.getUsageByFeature(testUserId);
+      expect(ask.feature).toBe('ask');
+      expect(ask.requests).toBe(2);
+      expect(ask.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('モックモードでは記録しない', async () => {
+      const aiService = new AIService({ ask: null }, testUserId);
+
+      await aiService.answerQuestion('質問');
+
+      expect(usageService.getMonthlyTokens(testUserId)).toBe(0);
+    });
+  });
+});
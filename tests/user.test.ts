@@ -71,6 +71,17 @@ describe('UserService', () => {
       // 3回目は制限
       expect(await userService.checkAndUpdateQuestionLimit(user.id)).toBe(false);
     });
+
+    it('回答の生成に失敗した質問の回数を戻せる', async () => {
+      process.env.FREE_DAILY_QUESTIONS = '1';
+
+      const user = await userService.register('refunduser', 'refund@example.com', 'password');
+
+      expect(await userService.checkAndUpdateQuestionLimit(user.id)).toBe(true);
+      await userService.refundQuestionLimit(user.id);
+      expect(await userService.checkAndUpdateQuestionLimit(user.id)).toBe(true);
+      expect(await userService.checkAndUpdateQuestionLimit(user.id)).toBe(false);
+    });
   });
 });
 
@@ -0,0 +1,169 @@
+import path from 'path';
+import {
+  VocabularyQuizService,
+  VOCABULARY_QUESTION_TYPES,
+} from '../backend/src/services/vocabulary-quiz';
+import { QuizService, VOCABULARY_REVIEW_TOPIC } from '../backend/src/services/quiz';
+import { gradeQuestion } from '../backend/src/services/quiz-grading';
+import { CLOZE_BLANK } from '../backend/src/services/quiz-validation';
+import { SpacedRepetitionService } from '../backend/src/services/spaced-repetition';
+import { DatabaseService } from '../backend/src/services/database';
+import { UserService } from '../backend/src/services/user';
+
+describe('VocabularyQuizService', () => {
+  let vocabularyQuizService: VocabularyQuizService;
+  let srService: SpacedRepetitionService;
+  let testUserId: string;
+
+  beforeEach(async () => {
+    vocabularyQuizService = new VocabularyQuizService(path.join(__dirname, '../content'));
+    srService = new SpacedRepetitionService();
+
+    const user = await new UserService().register(
+      'vocabquiz',
+      `vocabquiz${Date.now()}@example.com`,
+      'password'
+    );
+    testUserId = user.id;
+  });
+
+  // 復習期限を過去にして「今日復習すべき単語」にする
+  const setNextReview = (word: string, offsetMs: number) => {
+    DatabaseService.getInstance()
+      .getDb()
+      .prepare('UPDATE word_history SET next_review = ? WHERE user_id = ? AND word = ?')
+      .run(new Date(Date.now() + offsetMs).toISOString(), testUserId, word);
+  };
+  const makeDue = (word: string) => setNextReview(word, -86400000);
+
+  describe('loadVocabulary', () => {
+    it('教材の単語をレッスンIDと一緒に読み込む', () => {
+      const vocabulary = vocabularyQuizService.loadVocabulary();
+
+      expect(vocabulary.length).toBeGreaterThan(0);
+      expect(vocabulary.find((e) => e.word === 'abundant')).toMatchObject({
+        lessonId: 'vocab-basic-english',
+        cefr: 'C1',
+      });
+    });
+  });
+
+  describe('pickDistractors', () => {
+    it('同じ品詞の単語から誤答の選択肢を選ぶ', () => {
+      const vocabulary = vocabularyQuizService.loadVocabulary();
+      const target = vocabulary.find((e) => e.word === 'abundant')!;
+
+      const distractors = vocabularyQuizService.pickDistractors(target, vocabulary);
+
+      expect(distractors.length).toBe(3);
+      expect(distractors.every((d) => d.partOfSpeech === 'adjective')).toBe(true);
+      expect(distractors.map((d) => d.word)).not.toContain('abundant');
+    });
+
+    it('同じ品詞が足りない場合は他の品詞で補う', () => {
+      const vocabulary = vocabularyQuizService.loadVocabulary();
+      const target = vocabulary.find((e) => e.word === 'benefit')!;
+
+      const distractors = vocabularyQuizService.pickDistractors(target, vocabulary);
+
+      expect(distractors.length).toBe(3);
+      expect(distractors.slice(0, 2).every((d) => d.partOfSpeech === 'noun')).toBe(true);
+    });
+  });
+
+  describe('selectTargets', () => {
+    it('復習期限の単語 → 苦手単語 → 未学習の単語の順に選ぶ', async () => {
+      await srService.recordReview(testUserId, 'diligent', 5);
+      makeDue('diligent');
+      await srService.recordReview(testUserId, 'efficient', 1);
+      // 再学習のステップより後（期限前）にして、苦手単語として選ばれることを確かめる
+      setNextReview('efficient', 2 * 86400000);
+      await srService.recordReview(testUserId, 'benefit', 5);
+
+      const targets = await vocabularyQuizService.selectTargets(
+        testUserId,
+        vocabularyQuizService.loadVocabulary(),
+        4
+      );
+
+      expect(targets.slice(0, 2).map((t) => [t.entry.word, t.reason])).toEqual([
+        ['diligent', 'due'],
+        ['efficient', 'weak'],
+      ]);
+      expect(targets.slice(2).every((t) => t.reason === 'new')).toBe(true);
+      // 期限前で苦手でもない学習済みの単語は出題しない
+      expect(targets.map((t) => t.entry.word)).not.toContain('benefit');
+    });
+  });
+
+  describe('buildQuestion', () => {
+    const entry = (word: string) =>
+      vocabularyQuizService.loadVocabulary().find((e) => e.word === word)!;
+
+    it('穴埋め問題は例文の活用形を空欄にする', () => {
+      const question = vocabularyQuizService.buildCloze(entry('accomplish'));
+
+      expect(question?.sentence).toBe(`She ${CLOZE_BLANK} all her goals for the year.`);
+      expect(question?.answer).toBe('accomplished');
+    });
+
+    it('並べ替え問題の正解の順序で例文に戻る', () => {
+      const question = vocabularyQuizService.buildOrdering(entry('fluctuate'))!;
+
+      expect(question.correctOrder.map((i) => question.tokens[i]).join(' ')).toBe(
+        'Stock prices fluctuate daily.'
+      );
+    });
+
+    it('組み合わせ問題は各単語の意味の位置を正解にする', () => {
+      const vocabulary = vocabularyQuizService.loadVocabulary();
+      const question = vocabularyQuizService.buildMatching(entry('benefit'), vocabulary)!;
+
+      expect(question.terms).toContain('benefit');
+      question.terms.forEach((term, i) => {
+        expect(question.definitions[question.correctMatches[i]]).toBe(
+          vocabulary.find((e) => e.word === term)!.definitionJa
+        );
+      });
+    });
+  });
+
+  describe('generateQuiz', () => {
+    it('問題形式を順に繰り返して出題する', async () => {
+      const questions = await vocabularyQuizService.generateQuiz(testUserId, 5);
+
+      expect(questions.map((q) => q.type)).toEqual(VOCABULARY_QUESTION_TYPES);
+    });
+
+    it('単語を紐付けた4択問題を生成する', async () => {
+      const questions = await vocabularyQuizService.generateQuiz(testUserId, 4, [
+        'multiple_choice',
+      ]);
+
+      expect(questions.length).toBe(4);
+      for (const q of questions) {
+        if (q.type !== 'multiple_choice') throw new Error('4択ではありません');
+        expect(q.word).toBeDefined();
+        expect(q.options.length).toBe(4);
+        expect(new Set(q.options).size).toBe(4);
+        expect(q.question + q.options[q.correctIndex]).toContain(q.word);
+      }
+    });
+  });
+
+  describe('QuizServiceとの連携', () => {
+    it('語彙クイズを保存し、提出結果を復習スケジュールに反映する', async () => {
+      const quizService = new QuizService(undefined, vocabularyQuizService);
+
+      const quiz = await quizService.getOrCreateVocabularyQuiz(testUserId);
+
+      expect(quiz?.topic).toBe(VOCABULARY_REVIEW_TOPIC);
+
+      const answers = quiz!.questions.map((q) => gradeQuestion(q, null).correctAnswer);
+      const result = await quizService.submitQuiz(quiz!.id, testUserId, answers);
+
+      expect(result.score).toBe(quiz!.questions.length);
+      expect(result.reviews?.length).toBe(quiz!.questions.length);
+    });
+  });
+});